@@ -1,8 +1,22 @@
 "use client";
 
-import React, { useState, useEffect, lazy, Suspense } from 'react';
+import React, { useState, useEffect, useMemo, lazy, Suspense } from 'react';
 import { TreeType, TREE_TYPES } from '@/types/treeTypes';
 import { ExportData } from '@/utils/exportUtils';
+import { MortalitySettings, DEFAULT_MORTALITY_SETTINGS } from '@/utils/treeMortality';
+import { DisturbanceSettings, DEFAULT_DISTURBANCE_SETTINGS } from '@/utils/disturbance';
+import { UncertaintySettings, DEFAULT_UNCERTAINTY_SETTINGS } from '@/utils/monteCarlo';
+import { ModelParameterOverrides } from '@/utils/modelParameters';
+import { GrowthModel, DEFAULT_GROWTH_MODEL } from '@/utils/allometry';
+import { ClimateScenario, DEFAULT_CLIMATE_SCENARIO } from '@/utils/climateScenarios';
+import { WoodProductOverrides } from '@/utils/harvestedWood';
+import { ReplantingSettings, SimulationMode, isHarvestMode } from '@/utils/simulationEngine';
+import { RotationSettings, DEFAULT_ROTATION_SETTINGS } from '@/utils/rotationForestry';
+import { SelectiveHarvestSettings, DEFAULT_SELECTIVE_HARVEST_SETTINGS } from '@/utils/selectiveHarvest';
+import { NaturalRegenerationSettings, DEFAULT_NATURAL_REGENERATION_SETTINGS } from '@/utils/naturalRegeneration';
+import { AgroforestrySettings, DEFAULT_AGROFORESTRY_SETTINGS } from '@/utils/agroforestry';
+import { CashFlowSettings, DEFAULT_CASH_FLOW_SETTINGS } from '@/utils/cashFlow';
+import { CreditingSettings, DEFAULT_CREDITING_SETTINGS } from '@/utils/carbonCrediting';
 import { generateShareableUrl, getShareParameterFromUrl, decodeUrlToState, copyToClipboard, ShareableState } from '@/utils/shareableLink';
 
 // Lazy load components for better performance
@@ -11,9 +25,10 @@ const ForestImpactCalculator = lazy(() => import('@/components/ForestImpactCalcu
 const TreeTypeSelector = lazy(() => import('@/components/TreeTypeSelector'));
 const TreePlantingCalculator = lazy(() => import('@/components/TreePlantingCalculator'));
 const ExportResults = lazy(() => import('@/components/ExportResults'));
+const AdvancedAssumptions = lazy(() => import('@/components/AdvancedAssumptions'));
 
 export default function Home() {
-  const [simulationMode, setSimulationMode] = useState<'planting' | 'clear-cutting'>('planting');
+  const [simulationMode, setSimulationMode] = useState<SimulationMode>('planting');
   const [selectedLatitude, setSelectedLatitude] = useState<number | null>(null);
   const [selectedLongitude, setSelectedLongitude] = useState<number | null>(null);
   const [selectedRegion, setSelectedRegion] = useState<{
@@ -25,6 +40,21 @@ export default function Home() {
   const [years, setYears] = useState<number>(50);
   const [calculationMode, setCalculationMode] = useState<'perTree' | 'perArea'>('perArea');
   const [averageTreeAge, setAverageTreeAge] = useState<number>(20);
+  const [mortalitySettings, setMortalitySettings] = useState<MortalitySettings>(DEFAULT_MORTALITY_SETTINGS);
+  const [disturbanceSettings, setDisturbanceSettings] = useState<DisturbanceSettings>(DEFAULT_DISTURBANCE_SETTINGS);
+  const [uncertaintySettings, setUncertaintySettings] = useState<UncertaintySettings>(DEFAULT_UNCERTAINTY_SETTINGS);
+  const [parameterOverrides, setParameterOverrides] = useState<ModelParameterOverrides>({});
+  const [growthModel, setGrowthModel] = useState<GrowthModel>(DEFAULT_GROWTH_MODEL);
+  const [climateScenario, setClimateScenario] = useState<ClimateScenario>(DEFAULT_CLIMATE_SCENARIO);
+  const [woodProductShares, setWoodProductShares] = useState<WoodProductOverrides>({});
+  const [replantTrees, setReplantTrees] = useState<TreeType[]>([]);
+  const [replantPercentages, setReplantPercentages] = useState<{ [key: string]: number }>({});
+  const [rotationSettings, setRotationSettings] = useState<RotationSettings>(DEFAULT_ROTATION_SETTINGS);
+  const [selectiveHarvestSettings, setSelectiveHarvestSettings] = useState<SelectiveHarvestSettings>(DEFAULT_SELECTIVE_HARVEST_SETTINGS);
+  const [naturalRegenerationSettings, setNaturalRegenerationSettings] = useState<NaturalRegenerationSettings>(DEFAULT_NATURAL_REGENERATION_SETTINGS);
+  const [agroforestrySettings, setAgroforestrySettings] = useState<AgroforestrySettings>(DEFAULT_AGROFORESTRY_SETTINGS);
+  const [cashFlowSettings, setCashFlowSettings] = useState<CashFlowSettings>(DEFAULT_CASH_FLOW_SETTINGS);
+  const [creditingSettings, setCreditingSettings] = useState<CreditingSettings>(DEFAULT_CREDITING_SETTINGS);
   const [selectedTrees, setSelectedTrees] = useState<TreeType[]>([]);
   const [treePercentages, setTreePercentages] = useState<{ [key: string]: number }>({});
   const [plantingData, setPlantingData] = useState<{
@@ -66,6 +96,26 @@ export default function Home() {
           setSelectedTrees(trees);
           setTreePercentages(state.treePercentages || {});
         }
+        if (state.parameterOverrides) {
+          setParameterOverrides(state.parameterOverrides);
+        }
+        // Settings panels changed from their defaults
+        if (state.mortality) setMortalitySettings(state.mortality);
+        if (state.disturbance) setDisturbanceSettings(state.disturbance);
+        if (state.uncertainty) setUncertaintySettings(state.uncertainty);
+        if (state.growthModel) setGrowthModel(state.growthModel);
+        if (state.climateScenario) setClimateScenario(state.climateScenario);
+        if (state.woodProductShares) setWoodProductShares(state.woodProductShares);
+        if (state.replanting) {
+          setReplantTrees(TREE_TYPES.filter(t => state.replanting?.treeIds.includes(t.id)));
+          setReplantPercentages(state.replanting.percentages);
+        }
+        if (state.rotation) setRotationSettings(state.rotation);
+        if (state.selectiveHarvest) setSelectiveHarvestSettings(state.selectiveHarvest);
+        if (state.naturalRegeneration) setNaturalRegenerationSettings(state.naturalRegeneration);
+        if (state.agroforestry) setAgroforestrySettings(state.agroforestry);
+        if (state.cashFlow) setCashFlowSettings(state.cashFlow);
+        if (state.crediting) setCreditingSettings(state.crediting);
       }
     }
   }, []);
@@ -118,6 +168,22 @@ export default function Home() {
     setPlantingData(null);
   };
 
+  // Stable object so the simulation only reruns when the replanting mix changes
+  const replanting = useMemo<ReplantingSettings | null>(
+    () => replantTrees.length > 0 ? { trees: replantTrees, percentages: replantPercentages } : null,
+    [replantTrees, replantPercentages]
+  );
+
+  const handleReplantSelectionChange = (trees: TreeType[]) => {
+    setReplantTrees(trees);
+    // Clear percentages when replanting species change
+    const newPercentages: { [key: string]: number } = {};
+    trees.forEach(tree => {
+      newPercentages[tree.id] = 0;
+    });
+    setReplantPercentages(newPercentages);
+  };
+
   const handleImpactDataReady = (data: Partial<ExportData>) => {
     try {
       setExportData(prev => prev ? { ...prev, ...data } : data as ExportData);
@@ -151,6 +217,21 @@ export default function Home() {
       setYears(50);
       setCalculationMode('perArea');
       setAverageTreeAge(20);
+      setMortalitySettings(DEFAULT_MORTALITY_SETTINGS);
+      setDisturbanceSettings(DEFAULT_DISTURBANCE_SETTINGS);
+      setUncertaintySettings(DEFAULT_UNCERTAINTY_SETTINGS);
+      setParameterOverrides({});
+      setGrowthModel(DEFAULT_GROWTH_MODEL);
+      setClimateScenario(DEFAULT_CLIMATE_SCENARIO);
+      setWoodProductShares({});
+      setReplantTrees([]);
+      setReplantPercentages({});
+      setRotationSettings(DEFAULT_ROTATION_SETTINGS);
+      setSelectiveHarvestSettings(DEFAULT_SELECTIVE_HARVEST_SETTINGS);
+      setNaturalRegenerationSettings(DEFAULT_NATURAL_REGENERATION_SETTINGS);
+      setAgroforestrySettings(DEFAULT_AGROFORESTRY_SETTINGS);
+      setCashFlowSettings(DEFAULT_CASH_FLOW_SETTINGS);
+      setCreditingSettings(DEFAULT_CREDITING_SETTINGS);
       setSelectedTrees([]);
       setTreePercentages({});
       setPlantingData(null);
@@ -165,20 +246,35 @@ export default function Home() {
     }
   };
 
+  // Everything a share link needs to reproduce the run
+  const shareableState: ShareableState = {
+    mode: simulationMode,
+    latitude: selectedLatitude || undefined,
+    longitude: selectedLongitude || undefined,
+    region: selectedRegion || undefined,
+    years,
+    calculationMode,
+    averageTreeAge: isHarvestMode(simulationMode) ? averageTreeAge : undefined,
+    treeIds: selectedTrees.map(t => t.id),
+    treePercentages,
+    parameterOverrides,
+    mortality: mortalitySettings,
+    disturbance: disturbanceSettings,
+    uncertainty: uncertaintySettings,
+    growthModel,
+    climateScenario,
+    woodProductShares,
+    replanting: { treeIds: replantTrees.map(t => t.id), percentages: replantPercentages },
+    rotation: rotationSettings,
+    selectiveHarvest: selectiveHarvestSettings,
+    naturalRegeneration: naturalRegenerationSettings,
+    agroforestry: agroforestrySettings,
+    cashFlow: cashFlowSettings,
+    crediting: creditingSettings
+  };
+
   const handleShare = async () => {
-    const state: ShareableState = {
-      mode: simulationMode,
-      latitude: selectedLatitude || undefined,
-      longitude: selectedLongitude || undefined,
-      region: selectedRegion || undefined,
-      years,
-      calculationMode,
-      averageTreeAge: simulationMode === 'clear-cutting' ? averageTreeAge : undefined,
-      treeIds: selectedTrees.map(t => t.id),
-      treePercentages
-    };
-
-    const url = generateShareableUrl(state);
+    const url = generateShareableUrl(shareableState);
     const success = await copyToClipboard(url);
     
     if (success) {
@@ -198,7 +294,7 @@ export default function Home() {
             Simulate the Impact of Forest Management
           </h1>
           <p className="text-lg text-gray-600 mb-8 max-w-3xl mx-auto text-center">
-            Use real-time environmental data to analyze the impacts of forest planting and clear-cutting on carbon storage, biodiversity, economic value, social outcomes, and land use.
+            Use real-time environmental data to analyze the impacts of forest planting, natural regeneration, agroforestry, clear-cutting, rotation forestry and selective logging on carbon storage, biodiversity, economic value, social outcomes, and land use.
           </p>
         </section>
         
@@ -219,6 +315,26 @@ export default function Home() {
                   >
                     &#127793; Planting
                   </button>
+                  <button
+                    onClick={() => setSimulationMode('natural-regeneration')}
+                    className={`px-4 py-2 rounded-md text-sm font-medium transition-colors ${
+                      simulationMode === 'natural-regeneration'
+                        ? 'bg-green-800 text-white shadow-sm'
+                        : 'text-gray-600 hover:text-gray-800'
+                    }`}
+                  >
+                    &#127807; Natural
+                  </button>
+                  <button
+                    onClick={() => setSimulationMode('agroforestry')}
+                    className={`px-4 py-2 rounded-md text-sm font-medium transition-colors ${
+                      simulationMode === 'agroforestry'
+                        ? 'bg-green-800 text-white shadow-sm'
+                        : 'text-gray-600 hover:text-gray-800'
+                    }`}
+                  >
+                    &#127806; Agroforestry
+                  </button>
                   <button
                     onClick={() => setSimulationMode('clear-cutting')}
                     className={`px-4 py-2 rounded-md text-sm font-medium transition-colors ${
@@ -229,6 +345,26 @@ export default function Home() {
                   >
                     &#129683; Clear-cutting
                   </button>
+                  <button
+                    onClick={() => setSimulationMode('rotation')}
+                    className={`px-4 py-2 rounded-md text-sm font-medium transition-colors ${
+                      simulationMode === 'rotation'
+                        ? 'bg-green-800 text-white shadow-sm'
+                        : 'text-gray-600 hover:text-gray-800'
+                    }`}
+                  >
+                    &#129717; Rotation
+                  </button>
+                  <button
+                    onClick={() => setSimulationMode('selective-harvest')}
+                    className={`px-4 py-2 rounded-md text-sm font-medium transition-colors ${
+                      simulationMode === 'selective-harvest'
+                        ? 'bg-green-800 text-white shadow-sm'
+                        : 'text-gray-600 hover:text-gray-800'
+                    }`}
+                  >
+                    &#129683; Selective
+                  </button>
                 </div>
               </div>
             </div>
@@ -298,7 +434,15 @@ export default function Home() {
                 <p className="text-sm text-gray-600">
                   {simulationMode === 'planting' 
                     ? 'Select one or multiple tree types and set their distribution'
-                    : 'Select the tree species to be removed and their composition'
+                    : simulationMode === 'rotation'
+                      ? 'Select the tree species grown in each rotation and their distribution'
+                      : simulationMode === 'selective-harvest'
+                        ? 'Select the tree species in the stand to be logged and their composition'
+                        : simulationMode === 'natural-regeneration'
+                          ? 'Select the tree species expected to seed in from nearby forest and their distribution'
+                          : simulationMode === 'agroforestry'
+                            ? 'Select the tree species planted in rows between the crops and their distribution'
+                            : 'Select the tree species to be removed and their composition'
                   }
                 </p>
               </div>
@@ -322,6 +466,36 @@ export default function Home() {
             </div>
           </div>
         </div>
+
+        {/* Replanting species for the harvest-and-replant comparison (clear-cutting mode) */}
+        {simulationMode === 'clear-cutting' && (
+          <div className="mt-8 bg-white border border-primary/20 rounded-xl p-6 shadow-sm">
+            <div className="mb-4">
+              <h2 className="text-xl font-semibold text-gray-800">Replanting After Harvest</h2>
+              <p className="text-sm text-gray-600">
+                {replantTrees.length > 0
+                  ? 'Replant the cleared area with the species below to compare harvest-and-replant with leaving the stand'
+                  : 'No species selected: the cleared area is replanted with the harvested species'
+                }
+              </p>
+            </div>
+            <Suspense fallback={
+              <div className="flex items-center justify-center h-48">
+                <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+              </div>
+            }>
+              <TreeTypeSelector
+                selectedTrees={replantTrees}
+                onTreeSelectionChange={handleReplantSelectionChange}
+                treePercentages={replantPercentages}
+                onTreePercentagesChange={setReplantPercentages}
+                latitude={selectedLatitude || undefined}
+                selectedRegion={selectedRegion}
+                simulationMode="planting"
+              />
+            </Suspense>
+          </div>
+        )}
         
         {/* Combined Calculator and Impact Results - Full Width */}
         <div className="mt-24">
@@ -335,7 +509,15 @@ export default function Home() {
                 <p className="text-sm text-gray-600">
                   {simulationMode === 'planting' 
                     ? 'Calculate planting details and see environmental benefits'
-                    : 'Calculate removal details and see environmental impacts'
+                    : simulationMode === 'rotation'
+                      ? 'Set rotations and thinnings and see carbon stocks, removals and timber revenue'
+                      : simulationMode === 'selective-harvest'
+                        ? 'Set the harvest intensity and see released carbon, stand recovery and environmental impacts'
+                        : simulationMode === 'natural-regeneration'
+                          ? 'Set the distance to seed sources and see how regrowth compares with planting'
+                          : simulationMode === 'agroforestry'
+                            ? 'Set the row layout and alley crop and see tree carbon alongside crop output'
+                            : 'Calculate removal details and see environmental impacts'
                   }
                 </p>
               </div>
@@ -346,7 +528,7 @@ export default function Home() {
                 {/* Calculator Section */}
                 <div>
                   <h3 className="text-lg font-semibold text-gray-800 mb-4">
-                    {simulationMode === 'planting' ? 'Planting Calculations' : 'Removal Configuration'}
+                    {simulationMode === 'planting' ? 'Planting Calculations' : simulationMode === 'rotation' ? 'Rotation Management' : simulationMode === 'selective-harvest' ? 'Harvest Configuration' : simulationMode === 'natural-regeneration' ? 'Regeneration Settings' : simulationMode === 'agroforestry' ? 'Agroforestry Layout' : 'Removal Configuration'}
                   </h3>
                   <Suspense fallback={
                     <div className="flex items-center justify-center h-64 bg-gray-50 border border-gray-200 rounded-lg">
@@ -369,10 +551,31 @@ export default function Home() {
                       onYearsChange={setYears}
                       onCalculationModeChange={setCalculationMode}
                       onTreeAgeChange={setAverageTreeAge}
+                      onMortalityChange={setMortalitySettings}
+                      onDisturbanceChange={setDisturbanceSettings}
+                      onUncertaintyChange={setUncertaintySettings}
+                      onGrowthModelChange={setGrowthModel}
+                      onClimateScenarioChange={setClimateScenario}
+                      onWoodProductSharesChange={setWoodProductShares}
+                      onRotationChange={setRotationSettings}
+                      onSelectiveHarvestChange={setSelectiveHarvestSettings}
+                      onNaturalRegenerationChange={setNaturalRegenerationSettings}
+                      onAgroforestryChange={setAgroforestrySettings}
+                      onCashFlowChange={setCashFlowSettings}
+                      onCreditingChange={setCreditingSettings}
+                      initialSettings={shareableState}
                       soil={soilData}
                       climate={climateData}
                     />
                   </Suspense>
+                  <div className="mt-4">
+                    <Suspense fallback={null}>
+                      <AdvancedAssumptions
+                        overrides={parameterOverrides}
+                        onChange={setParameterOverrides}
+                      />
+                    </Suspense>
+                  </div>
                 </div>
                 
                 {/* Impact Results Section */}
@@ -397,6 +600,20 @@ export default function Home() {
                       simulationMode={simulationMode}
                       calculationMode={calculationMode}
                       averageTreeAge={averageTreeAge}
+                      mortality={mortalitySettings}
+                      disturbance={disturbanceSettings}
+                      uncertainty={uncertaintySettings}
+                      parameterOverrides={parameterOverrides}
+                      growthModel={growthModel}
+                      climateScenario={climateScenario}
+                      woodProductShares={woodProductShares}
+                      replanting={replanting}
+                      rotation={rotationSettings}
+                      selectiveHarvest={selectiveHarvestSettings}
+                      naturalRegeneration={naturalRegenerationSettings}
+                      agroforestry={agroforestrySettings}
+                      cashFlow={cashFlowSettings}
+                      crediting={creditingSettings}
                       onSoilClimateDataReady={handleSoilClimateDataReady}
                     />
                   </Suspense>
@@ -407,7 +624,15 @@ export default function Home() {
                 <p className="text-sm text-gray-600">
                   {simulationMode === 'planting' 
                     ? 'Select a region and tree types to see planting calculations and environmental impact analysis.'
-                    : 'Select a region and forest type to see removal calculations and environmental impact analysis.'
+                    : simulationMode === 'rotation'
+                      ? 'Select a region and tree types to see rotation calculations and environmental impact analysis.'
+                      : simulationMode === 'selective-harvest'
+                        ? 'Select a region and forest type to see harvest calculations and environmental impact analysis.'
+                        : simulationMode === 'natural-regeneration'
+                          ? 'Select a region and tree types to see regeneration calculations and environmental impact analysis.'
+                          : simulationMode === 'agroforestry'
+                            ? 'Select a region and tree types to see agroforestry calculations and environmental impact analysis.'
+                            : 'Select a region and forest type to see removal calculations and environmental impact analysis.'
                   }
                 </p>
               </div>
@@ -451,17 +676,7 @@ export default function Home() {
                 }
               }}
               disabled={!selectedTrees.length || (!selectedLatitude && !selectedLongitude && !selectedRegion)}
-              shareableState={(selectedLatitude || selectedLongitude || selectedRegion) && selectedTrees.length > 0 ? {
-                mode: simulationMode,
-                latitude: selectedLatitude || undefined,
-                longitude: selectedLongitude || undefined,
-                region: selectedRegion || undefined,
-                years,
-                calculationMode,
-                averageTreeAge: simulationMode === 'clear-cutting' ? averageTreeAge : undefined,
-                treeIds: selectedTrees.map(t => t.id),
-                treePercentages
-              } : undefined}
+              shareableState={(selectedLatitude || selectedLongitude || selectedRegion) && selectedTrees.length > 0 ? shareableState : undefined}
               onShareSuccess={(message) => {
                 setShareNotification(message);
                 setTimeout(() => setShareNotification(null), 3000);
@@ -575,6 +790,18 @@ export default function Home() {
                   <p className="text-gray-900 mb-3">
                     In clear-cutting mode, the simulator shows carbon emissions (positive values) representing the carbon that would be released into the atmosphere, including both immediate emissions from tree removal and the lost future sequestration capacity. You can specify the average age of trees in the forest area to get more accurate calculations. The interface adapts to show &quot;forest types present in this region&quot; instead of &quot;recommended species&quot; and displays removal configurations with tree age settings.
                   </p>
+                  <p className="text-gray-900 mb-3">
+                    Rotation mode models a managed production forest instead: the stand is planted, thinned at the stand ages you choose, clear-felled at the end of each rotation and replanted, repeating over the simulation. Harvested carbon moves into wood products, so the carbon stock rises and falls with each rotation; the results report the long-term average carbon stock, the standing stock, every harvest&apos;s removals and the timber revenue.
+                  </p>
+                  <p className="text-gray-900 mb-3">
+                    Selective mode fells only part of an existing stand, by share of stems or of basal area, once it reaches a minimum age. Some of the remaining trees are killed by felling and skidding, and the residual stand grows back into the gaps, so the lost sequestration shrinks over time. Biodiversity, water retention and air quality losses scale with the share of the stand disturbed rather than applying in full as in clear-cutting.
+                  </p>
+                  <p className="text-gray-900 mb-3">
+                    Natural mode leaves the site to seed in from nearby forest instead of planting it. Seedlings recruit each year at a rate that falls with distance to the seed source and varies by region, fastest in the tropics and slowest in boreal forests, so the stand fills in over several years. Assisted natural regeneration (ANR) adds fencing, fire breaks and weeding to speed establishment for a small per-hectare cost. The results compare the regrown stand&apos;s carbon and cost with planting the same species on the same area.
+                  </p>
+                  <p className="text-gray-900 mb-3">
+                    Agroforestry mode plants trees in rows with crops grown in the alleys between them. The alley width and the spacing along each row set how many trees fit on the area, and an optional crop model estimates what the alleys yield and earn each year. Yields fall as the tree crowns spread over the alleys and shade them, less so for shade-tolerant crops such as coffee and cocoa, so the results show the tree carbon alongside the crop output it trades off against.
+                  </p>
                   <div className="bg-primary/10 border border-primary/30 rounded-lg p-3 mt-3">
                     <p className="text-sm text-primary">
                       <strong>Note:</strong> This tool is for educational and planning purposes. Always consult with forestry professionals and environmental experts before making real-world decisions about forest management.
@@ -607,7 +834,7 @@ export default function Home() {
                   </p>
                   <ul className="list-disc pl-6 text-gray-900 mb-3 space-y-2">
                     <li><strong>Environment Tab:</strong> Core environmental metrics including soil data, climate information, carbon sequestration/emissions, biodiversity impact, forest resilience, water retention, and air quality improvement. This is the most detailed tab with real-time environmental data integration.</li>
-                    <li><strong>Economic Tab:</strong> Economic benefits such as job creation estimates, conservation value, and economic impact calculations based on forest size and type.</li>
+                    <li><strong>Economic Tab:</strong> A year-by-year project cash flow (planting, maintenance, carbon credits and timber) with its net present value, internal rate of return, payback year and cost per tonne of CO₂, the carbon credits issued at each verification and a comparison of carbon price scenarios, net creditable tonnes per vintage year after baseline, leakage, uncertainty and buffer deductions when carbon crediting is on, plus job-years by phase (nursery, site preparation, planting, maintenance, monitoring and harvest) on a stacked timeline, conservation value, and economic impact calculations based on forest size and type. Money can be shown in US dollars, euros, Brazilian reais or Kenyan shillings, converted at an exchange rate you can update.</li>
                     <li><strong>Social Tab:</strong> Community benefits, social impact scores, and societal value of forest restoration or the social costs of forest removal.</li>
                     <li><strong>Land Use Tab:</strong> Land management impacts including erosion reduction, soil improvement, habitat creation, and land use change effects.</li>
                   </ul>
@@ -640,10 +867,10 @@ export default function Home() {
                     Our estimates are based on <a href="https://www.ipcc.ch/report/ar4/wg1/" target="_blank" rel="noopener noreferrer" className="text-primary hover:text-primary/80">IPCC Fourth Assessment Report</a> data, with species-specific rates ranging from 15-30 kg CO?/year for mature trees. We apply realistic growth curves that account for the fact that young trees sequester much less carbon than mature ones.
                   </p>
                   <p className="text-gray-900 mb-3">
-                    <strong>Growth Model:</strong> Trees don&apos;t reach full capacity immediately. Our realistic model shows: Year 1-3 (5-15% of mature rate), Year 4-10 (15-80% of mature rate), Year 11-20 (80-95% of mature rate), and Year 20+ (95-100% of mature rate). This reflects real-world tree growth patterns and provides more accurate long-term projections.
+                    <strong>Growth Model:</strong> Trees don&apos;t reach full capacity immediately. Each species follows its own Chapman-Richards growth curve: fast growers like eucalyptus approach their mature rate within about 6-8 years, while slow, long-lived species like oak take 25-30 years. Sequestration then declines as trees approach the end of their lifespan. This reflects real-world tree growth patterns and provides more accurate long-term projections.
                   </p>
                   <p className="text-gray-900 mb-3">
-                    <strong>Clear-cutting Carbon Calculations:</strong> In clear-cutting mode, the simulator calculates immediate carbon release as the tree&apos;s current annual sequestration rate (representing carbon released when the tree is cut down) plus lost future sequestration (carbon that would have been absorbed over the simulation period). This provides realistic emission estimates based on the actual age of trees being removed.
+                    <strong>Clear-cutting Carbon Calculations:</strong> In clear-cutting mode, the carbon stored in the felled trees is split between sawnwood, wood panels, paper and residue. The residue is released at harvest, while each product releases its carbon gradually as it decays (IPCC first-order decay with half-lives of 35, 25 and 2 years). Lost future sequestration (carbon the trees would have absorbed over the simulation period) is added to these harvest emissions. The carbon payback year is when a replanted stand (the harvested species, or the species you choose under Replanting After Harvest) has absorbed the harvest emissions released so far; the parity year is when harvest-and-replant catches up with leaving the stand standing.
                   </p>
                   <p className="text-gray-900 mb-3">
                     The simulator also factors in local soil conditions and climate data for more accurate predictions.
@@ -784,9 +1011,11 @@ export default function Home() {
                       <div className="bg-gray-50 p-3 rounded text-sm text-black">
                         <p className="mb-2"><strong>Weighted Average Formula:</strong></p>
                         <code className="block bg-white p-2 rounded mb-2">Carbon = ?(Tree_i ? Percentage_i) / 100</code>
-                        <p className="mb-2"><strong>Environmental Modifiers:</strong></p>
-                        <code className="block bg-white p-2 rounded mb-2">Soil Bonus = Soil Carbon (g/kg) ? 0.1 kg CO?/year</code>
-                        <code className="block bg-white p-2 rounded mb-2">Final Carbon = Base Carbon + Soil Bonus</code>
+                        <p className="mb-2"><strong>Carbon Pools:</strong></p>
+                        <code className="block bg-white p-2 rounded mb-2">Above-ground = Tree Stock / (1 + Root:Shoot), Roots = the remainder</code>
+                        <code className="block bg-white p-2 rounded mb-2">Deadwood and Litter = last year × (1 - decay rate) + new inputs</code>
+                        <code className="block bg-white p-2 rounded mb-2">Soil Gain (t C/ha) = Soil Stock × 25% × (1 - Soil Carbon / 60), over 20 years</code>
+                        <code className="block bg-white p-2 rounded mb-2">Total Carbon = Above-ground + Roots + Deadwood + Litter + Soil</code>
                         <p className="mt-2 text-sm text-black"><strong>Display Values:</strong></p>
                         <code className="block bg-white p-2 rounded text-black">Annual Carbon = Yearly sequestration rate</code>
                         <code className="block bg-white p-2 rounded text-black">Total Carbon = Cumulative over entire simulation period</code>
@@ -796,28 +1025,32 @@ export default function Home() {
                     <div>
                       <h4 className="font-semibold text-black mb-2">Tree Growth Model</h4>
                       <div className="bg-gray-50 p-3 rounded text-sm text-black">
-                        <p className="mb-2"><strong>4-Phase Growth Model:</strong></p>
+                        <p className="mb-2"><strong>Species Growth Curves:</strong></p>
                         <div className="grid grid-cols-2 gap-2 text-sm text-black">
-                          <div><strong>Years 1-3:</strong> Establishment phase (5-15% of mature rate)</div>
-                          <div><strong>Years 4-10:</strong> Rapid growth phase (15-80% of mature rate)</div>
-                          <div><strong>Years 11-20:</strong> Maturation phase (80-95% of mature rate)</div>
-                          <div><strong>Years 20+:</strong> Mature phase (95-100% of mature rate)</div>
+                          <div><strong>Fast growers:</strong> ~8 years to maturity</div>
+                          <div><strong>Medium growers:</strong> ~15 years to maturity</div>
+                          <div><strong>Slow growers:</strong> ~25 years to maturity</div>
+                          <div><strong>Near lifespan:</strong> Senescence decline to 40% of peak rate</div>
                         </div>
+                        <code className="block bg-white p-2 rounded mt-2 text-black">Growth Factor = (1 - e^(-k × age))^shape × Senescence</code>
                         <p className="mt-2 text-sm text-black"><strong>Annual Carbon Calculation:</strong></p>
-                        <code className="block bg-white p-2 rounded text-black">Annual Carbon = Mature Rate ? Growth Factor (based on year)</code>
+                        <code className="block bg-white p-2 rounded text-black">Annual Carbon = Mature Rate ? Growth Factor (species curve at that age)</code>
+                        <p className="mt-2 text-sm text-black"><strong>Allometric Model (default):</strong></p>
+                        <code className="block bg-white p-2 rounded text-black">Biomass = a × (Wood Density × DBH² × Height)^b × (1 + Root:Shoot)</code>
+                        <code className="block bg-white p-2 rounded mt-1 text-black">Annual Carbon = (Biomass(age) - Biomass(age - 1)) × 0.47 × 3.67</code>
                       </div>
                     </div>
 
                     <div>
                       <h4 className="font-semibold text-black mb-2">Climate Prediction</h4>
                       <div className="bg-gray-50 p-3 rounded text-sm text-black">
-                        <p className="mb-2"><strong>Temperature Trend Analysis:</strong></p>
-                        <code className="block bg-white p-2 rounded mb-2 text-black">Historical Data = 11 years of temperature records</code>
-                        <code className="block bg-white p-2 rounded mb-2 text-black">Linear Regression = Calculate temperature trend (?C/year)</code>
-                        <code className="block bg-white p-2 rounded mb-2 text-black">Future Temperature = Current + (Trend ? Years)</code>
+                        <p className="mb-2"><strong>Climate Scenarios (SSP1-2.6, SSP2-4.5, SSP5-8.5):</strong></p>
+                        <code className="block bg-white p-2 rounded mb-2 text-black">Global Warming = bundled SSP warming above today per decade</code>
+                        <code className="block bg-white p-2 rounded mb-2 text-black">Future Temperature = Current + Global Warming × Regional Ratio</code>
+                        <code className="block bg-white p-2 rounded mb-2 text-black">Future Rainfall = Current × (1 + Global Warming × Regional % per °C / 100)</code>
                         <p className="mt-2 mb-2 text-sm text-black"><strong>Growth Modifier:</strong></p>
                         <code className="block bg-white p-2 rounded mb-2 text-black">Temperature Change = Future Temp - Current Temp</code>
-                        <code className="block bg-white p-2 rounded text-black">Growth Modifier = 1 + (Temperature Change ? 0.02)</code>
+                        <code className="block bg-white p-2 rounded text-black">Growth Modifier = (1 + Temperature Change × 0.02) × (1 + Rainfall Change (mm) × 0.0001)</code>
                         <p className="mt-2 text-sm text-black"><strong>Regional Estimates (fallback):</strong></p>
                         <code className="block bg-white p-2 rounded text-black">Tropical: 25?C, Temperate: 15?C, Boreal: 5?C, Arctic: -5?C</code>
                       </div>
@@ -0,0 +1,142 @@
+"use client";
+
+import React, { useState } from 'react';
+import {
+  ModelParameterGroup,
+  ModelParameterOverrides,
+  DEFAULT_MODEL_PARAMETERS,
+  MODEL_PARAMETER_GROUPS,
+  cleanOverrides,
+  formatParameterLabel,
+  listOverrides
+} from '@/utils/modelParameters';
+
+interface AdvancedAssumptionsProps {
+  overrides: ModelParameterOverrides;
+  onChange: (overrides: ModelParameterOverrides) => void;
+}
+
+const AdvancedAssumptions: React.FC<AdvancedAssumptionsProps> = ({ overrides, onChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [openGroup, setOpenGroup] = useState<ModelParameterGroup | null>(null);
+
+  const overrideCount = listOverrides(overrides).length;
+
+  // Empty input restores the default value
+  const updateParameter = (group: ModelParameterGroup, key: string, rawValue: string) => {
+    const groupOverrides: Record<string, number> = { ...overrides[group] };
+    const value = parseFloat(rawValue);
+
+    if (rawValue === '' || !isFinite(value)) {
+      delete groupOverrides[key];
+    } else {
+      groupOverrides[key] = value;
+    }
+
+    onChange(cleanOverrides({ ...overrides, [group]: groupOverrides }));
+  };
+
+  const resetGroup = (group: ModelParameterGroup) => {
+    const remaining = { ...overrides };
+    delete remaining[group];
+    onChange(remaining);
+  };
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-4">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between text-left"
+        aria-expanded={isOpen}
+      >
+        <div>
+          <h4 className="text-sm font-semibold text-gray-800">Advanced Assumptions</h4>
+          <p className="text-xs text-gray-600">
+            {overrideCount > 0
+              ? `${overrideCount} coefficient${overrideCount !== 1 ? 's' : ''} changed from the defaults`
+              : 'Edit the model coefficients used in every calculation'}
+          </p>
+        </div>
+        <svg
+          className={`w-5 h-5 text-gray-400 transition-transform ${isOpen ? 'rotate-180' : ''}`}
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+          aria-hidden="true"
+        >
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+
+      {isOpen && (
+        <div className="mt-3 space-y-2">
+          <div className="flex items-center justify-between">
+            <p className="text-xs text-gray-500">Leave a field empty to use the default shown. Changes are saved in exports and share links.</p>
+            {overrideCount > 0 && (
+              <button
+                onClick={() => onChange({})}
+                className="ml-2 px-2 py-1 text-xs text-primary border border-primary/30 rounded hover:bg-primary/10 whitespace-nowrap"
+              >
+                Reset all
+              </button>
+            )}
+          </div>
+
+          {MODEL_PARAMETER_GROUPS.map(({ key: group, title }) => {
+            const defaults = DEFAULT_MODEL_PARAMETERS[group] as Record<string, number>;
+            const groupOverrides = (overrides[group] || {}) as Record<string, number>;
+            const changed = Object.keys(groupOverrides).length;
+            const isGroupOpen = openGroup === group;
+
+            return (
+              <div key={group} className="border border-gray-200 rounded">
+                <button
+                  onClick={() => setOpenGroup(isGroupOpen ? null : group)}
+                  className="w-full flex items-center justify-between px-3 py-2 text-left hover:bg-gray-50"
+                  aria-expanded={isGroupOpen}
+                >
+                  <span className="text-xs font-medium text-gray-700">{title}</span>
+                  <span className="text-xs text-gray-500">
+                    {changed > 0 ? <span className="text-primary font-medium">{changed} changed</span> : `${Object.keys(defaults).length} values`}
+                  </span>
+                </button>
+
+                {isGroupOpen && (
+                  <div className="px-3 pb-3 space-y-2">
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                      {Object.entries(defaults).map(([key, defaultValue]) => (
+                        <label key={key} className="block">
+                          <span className={`block text-xs mb-0.5 ${key in groupOverrides ? 'text-primary font-medium' : 'text-gray-600'}`}>
+                            {formatParameterLabel(key)}
+                          </span>
+                          <input
+                            type="number"
+                            step="any"
+                            value={groupOverrides[key] ?? ''}
+                            placeholder={defaultValue.toString()}
+                            onChange={(e) => updateParameter(group, key, e.target.value)}
+                            className="w-full px-2 py-1 text-xs border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-primary"
+                          />
+                        </label>
+                      ))}
+                    </div>
+                    {changed > 0 && (
+                      <button
+                        onClick={() => resetGroup(group)}
+                        className="text-xs text-primary hover:underline"
+                      >
+                        Reset {title.toLowerCase()}
+                      </button>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AdvancedAssumptions;
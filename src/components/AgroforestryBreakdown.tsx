@@ -0,0 +1,81 @@
+"use client";
+
+import React from 'react';
+import { CalculationMode, AgroforestrySummary } from '@/utils/simulationEngine';
+import { getAgroforestryCrop } from '@/utils/agroforestry';
+import { ReportCurrency, USD, convertFromUsd, formatMoney } from '@/utils/currency';
+
+interface AgroforestryBreakdownProps {
+  agroforestry: AgroforestrySummary;
+  totalCarbon: number;
+  years: number;
+  calculationMode?: CalculationMode;
+  currency?: ReportCurrency;
+}
+
+const AgroforestryBreakdown: React.FC<AgroforestryBreakdownProps> = ({ agroforestry, totalCarbon, years, calculationMode = 'perArea', currency = USD }) => {
+  // Stand totals are shown in tonnes in per-area mode; a single tree's share of the alley in kg
+  const isPerTree = calculationMode === 'perTree';
+  const formatCarbon = (value: number) => isPerTree ? `${value.toFixed(1)} kg CO₂` : `${(value / 1000).toFixed(1)} t CO₂`;
+  const formatOutput = (tonnes: number) => isPerTree ? `${(tonnes * 1000).toFixed(1)} kg` : `${tonnes.toFixed(1)} t`;
+  const formatCost = (value: number, fractionDigits = 0) => formatMoney(convertFromUsd(value, currency), currency.code, fractionDigits);
+  const { settings, layout } = agroforestry;
+  const crop = getAgroforestryCrop(settings.crop);
+  const hasCrop = settings.crop !== 'none';
+
+  return (
+    <div className="bg-white rounded shadow p-4">
+      <div className="text-xs text-gray-900 font-bold mb-2">Agroforestry</div>
+
+      <div className="space-y-1 text-xs text-gray-700">
+        <div className="flex justify-between">
+          <span>Row layout</span>
+          <span className="font-medium">{settings.alleyWidth} m alleys × {settings.inRowSpacing} m along rows</span>
+        </div>
+        <div className="flex justify-between">
+          <span>Rows / trees per hectare</span>
+          <span className="font-medium">{layout.rowsPerHectare.toFixed(1)} / {Math.round(layout.treesPerHectare).toLocaleString()}</span>
+        </div>
+        <div className="flex justify-between">
+          <span>{isPerTree ? 'Alley area per tree' : 'Cropped area'}</span>
+          <span className="font-medium">
+            {isPerTree ? `${Math.round(agroforestry.cropArea * 10000)} m²` : `${agroforestry.cropArea.toFixed(1)} ha`} ({(layout.cropShare * 100).toFixed(0)}%)
+          </span>
+        </div>
+        <div className="flex justify-between">
+          <span>Tree carbon after {years} years</span>
+          <span className="font-medium">{formatCarbon(totalCarbon)}</span>
+        </div>
+      </div>
+
+      {hasCrop && (
+        <div className="mt-3 space-y-1 border-t border-gray-100 pt-2 text-xs text-gray-700">
+          <div className="flex justify-between font-semibold text-gray-900">
+            <span>{crop.label}</span>
+            <span>{agroforestry.cropYield} t/ha/yr at {formatCost(agroforestry.cropPrice, agroforestry.cropPrice < 10 ? 2 : 0)}/t</span>
+          </div>
+          <div className="flex justify-between">
+            <span>Output in year 1 / year {years}</span>
+            <span className="font-medium">{formatOutput(agroforestry.firstYearOutput)} / {formatOutput(agroforestry.finalYearOutput)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span>Yield lost to shade by year {years}</span>
+            <span className="font-medium">{agroforestry.finalShadeLoss.toFixed(0)}%</span>
+          </div>
+          <div className="flex justify-between">
+            <span>Total output / revenue</span>
+            <span className="font-medium">{formatOutput(agroforestry.totalCropOutput)} / {formatCost(agroforestry.totalCropRevenue)}</span>
+          </div>
+        </div>
+      )}
+
+      <p className="mt-2 text-xs text-gray-500">
+        {hasCrop
+          ? `Trees grow in rows ${settings.alleyWidth} m apart with ${crop.label.toLowerCase()} in the alleys. As the crowns spread they shade the alleys and the crop yields less${crop.shadeTolerance > 0 ? ', though it tolerates some shade' : ''}.`
+          : `Trees grow in rows ${settings.alleyWidth} m apart. Choose an alley crop to estimate its yield and revenue alongside the tree carbon.`}
+      </p>
+    </div>
+  );
+};
+
+export default AgroforestryBreakdown;
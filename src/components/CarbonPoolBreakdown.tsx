@@ -0,0 +1,54 @@
+"use client";
+
+import React from 'react';
+import { CalculationMode } from '@/utils/simulationEngine';
+import { CarbonPools, CARBON_POOL_KEYS, getTotalPoolCarbon } from '@/utils/carbonPools';
+
+interface CarbonPoolBreakdownProps {
+  pools: CarbonPools;
+  calculationMode?: CalculationMode;
+}
+
+const CarbonPoolBreakdown: React.FC<CarbonPoolBreakdownProps> = ({ pools, calculationMode = 'perArea' }) => {
+  const total = getTotalPoolCarbon(pools);
+  const scale = calculationMode === 'perArea' ? 1000 : 1;
+  const unit = calculationMode === 'perArea' ? 't CO₂' : 'kg CO₂';
+
+  return (
+    <div className="bg-white rounded shadow p-4">
+      <div className="text-xs text-gray-900 font-bold mb-2">Carbon Pools</div>
+
+      {/* Stacked bar of the final-year pools */}
+      <div className="flex h-3 w-full rounded overflow-hidden bg-gray-100" role="img" aria-label="Carbon stored per pool">
+        {total > 0 && CARBON_POOL_KEYS.map(pool => (
+          <div
+            key={pool.key}
+            style={{ width: `${(Math.max(0, pools[pool.key]) / total) * 100}%`, backgroundColor: pool.color }}
+            title={pool.label}
+          />
+        ))}
+      </div>
+
+      <div className="mt-2 space-y-1">
+        {CARBON_POOL_KEYS.map(pool => (
+          <div key={pool.key} className="flex items-center justify-between text-xs text-gray-700">
+            <span className="flex items-center gap-1">
+              <span className="inline-block w-2 h-2 rounded-full" style={{ backgroundColor: pool.color }} />
+              {pool.label}
+            </span>
+            <span className="font-medium">
+              {(pools[pool.key] / scale).toFixed(1)} {unit}
+              <span className="text-gray-500 font-normal"> ({total > 0 ? ((pools[pool.key] / total) * 100).toFixed(0) : 0}%)</span>
+            </span>
+          </div>
+        ))}
+      </div>
+
+      <p className="mt-2 text-xs text-gray-500">
+        Species uptake is split between stems and roots by root:shoot ratio. Dead trees move to deadwood and litter builds up from leaf fall, both decomposing each year; soil carbon moves toward its forest level.
+      </p>
+    </div>
+  );
+};
+
+export default CarbonPoolBreakdown;
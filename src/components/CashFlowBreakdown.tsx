@@ -0,0 +1,126 @@
+"use client";
+
+import React, { useMemo } from 'react';
+import { CalculationMode, CashFlowSummary } from '@/utils/simulationEngine';
+import { ChartSeries } from '@/utils/chartUtils';
+import { ChartPanel } from '@/components/SimulationCharts';
+import { ReportCurrency, USD, convertFromUsd, formatMoney } from '@/utils/currency';
+
+interface CashFlowBreakdownProps {
+  cashFlow: CashFlowSummary;
+  years: number;
+  calculationMode?: CalculationMode;
+  netCreditable?: boolean; // credits are issued for the net creditable tonnes rather than the carbon stored
+  currency?: ReportCurrency;
+}
+
+const CashFlowBreakdown: React.FC<CashFlowBreakdownProps> = ({ cashFlow, years, calculationMode = 'perArea', netCreditable = false, currency = USD }) => {
+  const isPerTree = calculationMode === 'perTree';
+  const formatCost = (value: number) => formatMoney(convertFromUsd(value, currency), currency.code, isPerTree ? 2 : 0);
+  const formatPrice = (value: number) => `${formatMoney(convertFromUsd(value, currency), currency.code, 2)}/t`;
+  const { settings } = cashFlow;
+  const [primary] = cashFlow.scenarios;
+  const totals = cashFlow.years.reduce(
+    (sum, year) => ({
+      planting: sum.planting + year.planting,
+      maintenance: sum.maintenance + year.maintenance,
+      carbonCredits: sum.carbonCredits + year.carbonCredits,
+      timber: sum.timber + year.timber,
+      crops: sum.crops + year.crops
+    }),
+    { planting: 0, maintenance: 0, carbonCredits: 0, timber: 0, crops: 0 }
+  );
+
+  const chartYears = useMemo(() => cashFlow.years.map(year => year.year), [cashFlow.years]);
+  const chartSeries = useMemo<ChartSeries[]>(() => [
+    { key: 'cumulative', label: 'Cumulative', color: '#1B4D3E', values: cashFlow.years.map(year => convertFromUsd(year.cumulativeCashFlow, currency)) },
+    { key: 'discounted', label: `Discounted at ${settings.discountRate}%`, color: '#b45309', values: cashFlow.years.map(year => convertFromUsd(year.discountedCashFlow, currency)), dashed: true }
+  ], [cashFlow.years, settings.discountRate, currency]);
+
+  return (
+    <div className="bg-primary/10 border border-primary/30 rounded-lg p-3">
+      <h5 className="font-semibold text-green-800 mb-2 flex items-center">
+        Project Cash Flow{isPerTree ? ' (per tree)' : ''}
+      </h5>
+      <div className="space-y-2 text-xs text-primary">
+        <div className="flex justify-between">
+          <span className="font-semibold">Net Present Value ({settings.discountRate}%):</span>
+          <span className={`font-medium ${cashFlow.netPresentValue < 0 ? 'text-red-600' : ''}`}>{formatCost(cashFlow.netPresentValue)}</span>
+        </div>
+        <div className="flex justify-between">
+          <span className="font-semibold">Internal Rate of Return:</span>
+          <span className="font-medium">{cashFlow.internalRateOfReturn !== null ? `${cashFlow.internalRateOfReturn.toFixed(1)}%` : 'Never breaks even'}</span>
+        </div>
+        <div className="flex justify-between">
+          <span className="font-semibold">Payback:</span>
+          <span className="font-medium">{cashFlow.paybackYear !== null ? `Year ${cashFlow.paybackYear}` : `Beyond ${years} years`}</span>
+        </div>
+        <div className="flex justify-between">
+          <span className="font-semibold">Cost per Tonne CO₂:</span>
+          <span className="font-medium">{cashFlow.costPerTonne !== null ? formatMoney(convertFromUsd(cashFlow.costPerTonne, currency), currency.code, 2) : 'No carbon stored'}</span>
+        </div>
+        <div className="flex justify-between">
+          <span className="font-semibold">Credits Issued:</span>
+          <span className="font-medium">
+            {cashFlow.issuedTonnes.toFixed(isPerTree ? 3 : 1)} t CO₂ in {cashFlow.issuances.length} {cashFlow.issuances.length === 1 ? 'issuance' : 'issuances'}
+          </span>
+        </div>
+      </div>
+
+      <div className="mt-3 space-y-1 border-t border-primary/20 pt-2 text-xs text-primary">
+        <div className="flex justify-between">
+          <span>Planting & establishment</span>
+          <span className="font-medium">-{formatCost(totals.planting)}</span>
+        </div>
+        <div className="flex justify-between">
+          <span>Maintenance</span>
+          <span className="font-medium">-{formatCost(totals.maintenance)}</span>
+        </div>
+        <div className="flex justify-between">
+          <span>Carbon credits ({primary.scenario.name}, avg {formatPrice(primary.averagePrice)})</span>
+          <span className="font-medium">{formatCost(totals.carbonCredits)}</span>
+        </div>
+        <div className="flex justify-between">
+          <span>Timber</span>
+          <span className="font-medium">{formatCost(totals.timber)}</span>
+        </div>
+        {totals.crops > 0 && (
+          <div className="flex justify-between">
+            <span>Alley crops</span>
+            <span className="font-medium">{formatCost(totals.crops)}</span>
+          </div>
+        )}
+      </div>
+
+      {cashFlow.scenarios.length > 1 && (
+        <div className="mt-3 border-t border-primary/20 pt-2 text-xs text-primary">
+          <div className="font-semibold mb-1">Carbon Price Scenarios</div>
+          <div className="grid grid-cols-4 gap-x-2 gap-y-1">
+            <span className="text-primary/70">Scenario</span>
+            <span className="text-primary/70 text-right">Avg price</span>
+            <span className="text-primary/70 text-right">NPV</span>
+            <span className="text-primary/70 text-right">IRR</span>
+            {cashFlow.scenarios.map((result, index) => (
+              <React.Fragment key={index}>
+                <span className={index === 0 ? 'font-semibold' : ''}>{result.scenario.name}</span>
+                <span className="text-right">{formatPrice(result.averagePrice)}</span>
+                <span className={`text-right font-medium ${result.netPresentValue < 0 ? 'text-red-600' : ''}`}>{formatCost(result.netPresentValue)}</span>
+                <span className="text-right">{result.internalRateOfReturn !== null ? `${result.internalRateOfReturn.toFixed(1)}%` : '—'}</span>
+              </React.Fragment>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="mt-3">
+        <ChartPanel title={`Cumulative Cash Flow (${currency.code})`} years={chartYears} series={chartSeries} markerYear={cashFlow.paybackYear} markerLabel={cashFlow.paybackYear !== null ? 'Payback' : undefined} />
+      </div>
+
+      <p className="mt-2 text-xs text-primary">
+        Undiscounted totals over {years} years. Credits for the {netCreditable ? 'net creditable tonnes' : 'carbon stored'} are issued every {settings.verificationInterval} years and in the final year, and sold at that year&apos;s price. Cost per tonne is the present value of the costs divided by the carbon stored; species without their own economic data use the default maintenance cost from the advanced assumptions.
+      </p>
+    </div>
+  );
+};
+
+export default CashFlowBreakdown;
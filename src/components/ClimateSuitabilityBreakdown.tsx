@@ -0,0 +1,66 @@
+"use client";
+
+import React from 'react';
+import { SpeciesClimateSuitability } from '@/utils/simulationEngine';
+import { ClimateScenario, getClimateScenarioOption } from '@/utils/climateScenarios';
+
+interface ClimateSuitabilityBreakdownProps {
+  suitability: SpeciesClimateSuitability[];
+  years: number;
+  climateScenario: ClimateScenario;
+  mortalityApplied: boolean; // extra deaths only apply when mortality is on for a stand
+}
+
+const ClimateSuitabilityBreakdown: React.FC<ClimateSuitabilityBreakdownProps> = ({ suitability, years, climateScenario, mortalityApplied }) => {
+  const scenario = getClimateScenarioOption(climateScenario).name;
+  const unsuitable = suitability.filter(species => species.unsuitableYear !== null);
+
+  const getStatus = (species: SpeciesClimateSuitability) => {
+    if (species.unsuitableYear !== null) {
+      return { label: `Unsuitable from year ${species.unsuitableYear}`, className: 'text-red-600' };
+    }
+    if (species.stressedYear !== null) {
+      return { label: `Outside its range from year ${species.stressedYear}`, className: 'text-amber-700' };
+    }
+    return { label: `Suitable through year ${years}`, className: 'text-gray-700' };
+  };
+
+  return (
+    <div className="bg-white rounded shadow p-4">
+      <div className="text-xs text-gray-900 font-bold mb-2">Climate Suitability ({scenario})</div>
+
+      <div className="space-y-2 text-xs text-gray-700">
+        {suitability.map(species => {
+          const status = getStatus(species);
+          const { envelope } = species;
+          return (
+            <div key={species.speciesId}>
+              <div className="flex justify-between">
+                <span className="font-semibold text-gray-900">{species.name}</span>
+                <span className={`font-medium ${status.className}`}>{status.label}</span>
+              </div>
+              <div className="flex justify-between text-gray-500">
+                <span>
+                  {envelope.minTemperature}–{envelope.maxTemperature}°C, {Math.round(envelope.minPrecipitation).toLocaleString()}–{Math.round(envelope.maxPrecipitation).toLocaleString()} mm/yr
+                </span>
+                {species.stressedYear !== null && (
+                  <span>
+                    Year {years}: {Math.round((1 - species.finalGrowthFactor) * 100)}% less growth{mortalityApplied ? `, +${species.finalExtraMortality.toFixed(1)}%/yr mortality` : ''}
+                  </span>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <p className="mt-2 text-xs text-gray-500">
+        {unsuitable.length > 0
+          ? `${unsuitable.map(species => species.name).join(', ')} ${unsuitable.length === 1 ? 'moves' : 'move'} well outside ${unsuitable.length === 1 ? 'its' : 'their'} tolerated climate under ${scenario}. Consider species suited to the warmer or drier conditions ahead.`
+          : `Each species tolerates a range of mean annual temperature and precipitation. Outside it trees grow less${mortalityApplied ? ' and die more often' : ''}.`}
+      </p>
+    </div>
+  );
+};
+
+export default ClimateSuitabilityBreakdown;
@@ -0,0 +1,87 @@
+"use client";
+
+import React from 'react';
+import { CalculationMode, CreditingSummary } from '@/utils/simulationEngine';
+import { CREDITING_BASELINE_TYPES } from '@/utils/carbonCrediting';
+
+interface CreditingBreakdownProps {
+  crediting: CreditingSummary;
+  calculationMode?: CalculationMode;
+}
+
+const CreditingBreakdown: React.FC<CreditingBreakdownProps> = ({ crediting, calculationMode = 'perArea' }) => {
+  const isPerTree = calculationMode === 'perTree';
+  // Single trees store fractions of a tonne
+  const formatTonnes = (value: number) => `${value.toFixed(isPerTree ? 3 : 1)} t`;
+  const { settings, totalDeductions } = crediting;
+  const baseline = CREDITING_BASELINE_TYPES.find(type => type.key === settings.baselineType)?.label ?? '';
+  const hasReversal = crediting.vintages.some(vintage => vintage.creditable < 0);
+
+  return (
+    <div className="bg-primary/10 border border-primary/30 rounded-lg p-3">
+      <h5 className="font-semibold text-green-800 mb-2 flex items-center">
+        Net Creditable Carbon{isPerTree ? ' (per tree)' : ''}
+      </h5>
+      <div className="space-y-1 text-xs text-primary">
+        <div className="flex justify-between">
+          <span className="font-semibold">Project removals:</span>
+          <span className="font-medium">{formatTonnes(crediting.totalRemovals)} CO₂</span>
+        </div>
+        <div className="flex justify-between">
+          <span>Baseline ({settings.baselineType === 'none' ? baseline.toLowerCase() : settings.baselineType === 'fixed' ? `${settings.baselineValue} t/ha/yr` : `${settings.baselineValue}% of removals`})</span>
+          <span className="font-medium">-{formatTonnes(totalDeductions.baseline)}</span>
+        </div>
+        <div className="flex justify-between">
+          <span>Leakage ({settings.leakage}%)</span>
+          <span className="font-medium">-{formatTonnes(totalDeductions.leakage)}</span>
+        </div>
+        <div className="flex justify-between">
+          <span>Uncertainty ({settings.uncertainty}%)</span>
+          <span className="font-medium">-{formatTonnes(totalDeductions.uncertainty)}</span>
+        </div>
+        <div className="flex justify-between">
+          <span>Buffer pool ({crediting.bufferContribution.toFixed(1)}%)</span>
+          <span className="font-medium">-{formatTonnes(totalDeductions.buffer)}</span>
+        </div>
+        <div className="flex justify-between border-t border-primary/20 pt-1">
+          <span className="font-semibold">Net creditable:</span>
+          <span className={`font-semibold ${crediting.totalCreditable < 0 ? 'text-red-600' : ''}`}>{formatTonnes(crediting.totalCreditable)} CO₂</span>
+        </div>
+      </div>
+
+      {crediting.speciesBuffers.length > 1 && (
+        <div className="mt-3 space-y-1 border-t border-primary/20 pt-2 text-xs text-primary">
+          <div className="font-semibold">Buffer contribution by species</div>
+          {crediting.speciesBuffers.map(species => (
+            <div key={species.speciesId} className="flex justify-between">
+              <span>{species.name}</span>
+              <span className="font-medium">{species.contribution.toFixed(1)}%</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="mt-3 max-h-40 overflow-y-auto border-t border-primary/20 pt-2 text-xs text-primary">
+        <div className="flex justify-between font-semibold py-0.5">
+          <span>Vintage</span>
+          <span>Removals → creditable (cumulative)</span>
+        </div>
+        {crediting.vintages.map(vintage => (
+          <div key={vintage.year} className="flex justify-between py-0.5">
+            <span>Year {vintage.year}</span>
+            <span className={`font-medium ${vintage.creditable < 0 ? 'text-red-600' : ''}`}>
+              {formatTonnes(vintage.removals)} → {formatTonnes(vintage.creditable)} ({formatTonnes(vintage.cumulativeCreditable)})
+            </span>
+          </div>
+        ))}
+      </div>
+
+      <p className="mt-2 text-xs text-primary">
+        Each vintage is the year&apos;s change in stored carbon less the baseline, then leakage, uncertainty and the buffer contribution, which follows each species&apos; resilience and fire resistance.
+        {hasReversal ? ' Years in red lose carbon; the reversal is carried in full and must be regrown before new credits are issued.' : ''}
+      </p>
+    </div>
+  );
+};
+
+export default CreditingBreakdown;
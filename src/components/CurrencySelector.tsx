@@ -0,0 +1,87 @@
+"use client";
+
+import React from 'react';
+import { CURRENCIES, CurrencyCode, CurrencySettings, DEFAULT_EXCHANGE_RATES, normalizeCurrencySettings } from '@/utils/currency';
+
+interface CurrencySelectorProps {
+  settings: CurrencySettings;
+  onChange: (settings: CurrencySettings) => void;
+}
+
+const CurrencySelector: React.FC<CurrencySelectorProps> = ({ settings, onChange }) => {
+  const { currency, rates } = settings;
+  const rate = rates[currency];
+  const isEdited = rate.rate !== DEFAULT_EXCHANGE_RATES[currency].rate || rate.date !== DEFAULT_EXCHANGE_RATES[currency].date;
+
+  const updateRate = (update: Partial<typeof rate>) => {
+    onChange(normalizeCurrencySettings({ currency, rates: { ...rates, [currency]: { ...rate, ...update } } }));
+  };
+
+  return (
+    <div className="bg-primary/10 border border-primary/30 rounded-lg p-3">
+      <h5 className="font-semibold text-green-800 mb-2 flex items-center">
+        Report Currency
+      </h5>
+      <div className="grid grid-cols-3 gap-2 text-xs text-primary">
+        <div>
+          <label className="block font-semibold mb-1" htmlFor="report-currency">Currency</label>
+          <select
+            id="report-currency"
+            value={currency}
+            onChange={(e) => onChange({ ...settings, currency: e.target.value as CurrencyCode })}
+            className="w-full px-2 py-1 text-xs border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-primary"
+          >
+            {CURRENCIES.map(option => (
+              <option key={option.code} value={option.code}>{option.code} – {option.name}</option>
+            ))}
+          </select>
+        </div>
+        {currency !== 'USD' && (
+          <>
+            <div>
+              <label className="block font-semibold mb-1" htmlFor="report-currency-rate">{currency} per USD</label>
+              <input
+                id="report-currency-rate"
+                key={`${currency}-${rate.rate}`}
+                type="number"
+                min="0"
+                step="any"
+                defaultValue={rate.rate}
+                onBlur={(e) => updateRate({ rate: parseFloat(e.target.value) })}
+                className="w-full px-2 py-1 text-xs border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-primary"
+              />
+            </div>
+            <div>
+              <label className="block font-semibold mb-1" htmlFor="report-currency-date">Rate date</label>
+              <input
+                id="report-currency-date"
+                type="date"
+                value={rate.date}
+                onChange={(e) => updateRate({ date: e.target.value })}
+                className="w-full px-2 py-1 text-xs border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-primary"
+              />
+            </div>
+          </>
+        )}
+      </div>
+      <p className="mt-2 text-xs text-primary">
+        Costs, prices and revenue are modelled in US dollars and converted at the rate above in this tab, the results and every export.
+        {currency !== 'USD' && ' Rates are saved in this browser; update them when they move.'}
+        {isEdited && (
+          <>
+            {' '}
+            <button
+              type="button"
+              onClick={() => updateRate(DEFAULT_EXCHANGE_RATES[currency])}
+              className="underline hover:text-green-800"
+            >
+              Restore bundled rate ({DEFAULT_EXCHANGE_RATES[currency].rate} on {DEFAULT_EXCHANGE_RATES[currency].date})
+            </button>
+          </>
+        )}
+      </p>
+    </div>
+  );
+};
+
+export default CurrencySelector;
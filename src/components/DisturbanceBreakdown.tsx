@@ -0,0 +1,66 @@
+"use client";
+
+import React from 'react';
+import { DisturbanceSummary } from '@/utils/simulationEngine';
+import { DISTURBANCE_TYPES } from '@/utils/disturbance';
+import { Percentiles } from '@/utils/monteCarlo';
+
+interface DisturbanceBreakdownProps {
+  disturbance: DisturbanceSummary;
+  years: number;
+  treesLostRange?: Percentiles | null; // Monte Carlo spread of the trees lost
+  carbonLossRange?: Percentiles | null; // Monte Carlo spread of the carbon lost
+}
+
+const DisturbanceBreakdown: React.FC<DisturbanceBreakdownProps> = ({ disturbance, years, treesLostRange, carbonLossRange }) => {
+  // Disturbance applies to whole stands, so carbon is shown in tonnes
+  const formatCarbon = (value: number) => `${(value / 1000).toFixed(1)} t CO₂`;
+  const formatTrees = (value: number) => Math.round(value).toLocaleString();
+  const formatRange = (percentiles: Percentiles, format: (value: number) => string) =>
+    `P10–P90: ${format(percentiles.p10)} – ${format(percentiles.p90)} (median ${format(percentiles.p50)})`;
+
+  return (
+    <div className="bg-white rounded shadow p-4">
+      <div className="text-xs text-gray-900 font-bold mb-2">Disturbance Risk</div>
+
+      <div className="space-y-1 text-xs text-gray-700">
+        <div className="flex justify-between font-semibold text-gray-900">
+          <span>Event</span>
+          <span>Chance/yr • Trees killed • Trees lost</span>
+        </div>
+        {DISTURBANCE_TYPES.map(({ key, label }) => (
+          <div key={key} className="flex justify-between">
+            <span>{label}</span>
+            <span className="font-medium">
+              {(disturbance.risks[key].probability * 100).toFixed(1)}% • {(disturbance.risks[key].severity * 100).toFixed(0)}% • {formatTrees(disturbance.treesLost[key])}
+            </span>
+          </div>
+        ))}
+      </div>
+
+      <div className="mt-3 space-y-1 border-t border-gray-100 pt-2 text-xs text-gray-700">
+        <div className="flex justify-between">
+          <span>{disturbance.sampled ? 'Trees lost' : 'Expected trees lost'} over {years} years</span>
+          <span className="font-medium">{formatTrees(disturbance.totalTreesLost)}</span>
+        </div>
+        {treesLostRange && (
+          <div className="text-right text-gray-500">{formatRange(treesLostRange, formatTrees)}</div>
+        )}
+        <div className="flex justify-between">
+          <span>Carbon lost against an undisturbed stand</span>
+          <span className="font-medium">{formatCarbon(disturbance.carbonLoss)}</span>
+        </div>
+        {carbonLossRange && (
+          <div className="text-right text-gray-500">{formatRange(carbonLossRange, formatCarbon)}</div>
+        )}
+      </div>
+
+      <p className="mt-2 text-xs text-gray-500">
+        Chances are averaged over the simulation and rise as the climate warms or dries. Burned trees release part of their carbon at once and the rest decays as deadwood. Survivors grow into the gaps, which can offset part of the loss.
+        {!treesLostRange && ' Enable uncertainty ranges to sample individual events and see the spread of outcomes.'}
+      </p>
+    </div>
+  );
+};
+
+export default DisturbanceBreakdown;
@@ -0,0 +1,91 @@
+"use client";
+
+import React, { useMemo } from 'react';
+import { EmploymentSummary } from '@/utils/simulationEngine';
+import { LABOR_PHASES } from '@/utils/employment';
+import { stackSeries } from '@/utils/chartUtils';
+import { ChartPanel } from '@/components/SimulationCharts';
+
+interface EmploymentBreakdownProps {
+  employment: EmploymentSummary;
+  years: number;
+}
+
+const EmploymentBreakdown: React.FC<EmploymentBreakdownProps> = ({ employment, years }) => {
+  const formatJobs = (value: number) => value.toLocaleString(undefined, { maximumFractionDigits: value < 10 ? 1 : 0 });
+  // Only the phases the project needs
+  const phases = LABOR_PHASES.filter(({ key }) => employment.totals[key] > 0);
+
+  const chartYears = useMemo(() => employment.years.map(year => year.year), [employment.years]);
+  const chartSeries = useMemo(() => stackSeries(LABOR_PHASES
+    .filter(({ key }) => employment.totals[key] > 0)
+    .map(phase => ({
+      key: phase.key,
+      label: phase.label,
+      color: phase.color,
+      values: employment.years.map(year => year.jobYears[phase.key])
+    }))), [employment]);
+
+  return (
+    <div className="bg-primary/10 border border-primary/30 rounded-lg p-3">
+      <h5 className="font-semibold text-green-800 mb-2 flex items-center">
+        Employment Impact
+      </h5>
+      <div className="space-y-2 text-xs text-primary">
+        <div className="flex justify-between">
+          <span className="font-semibold">Total Work:</span>
+          <span className="font-medium">{formatJobs(employment.totalJobYears)} job-years</span>
+        </div>
+        <div className="flex justify-between">
+          <span className="font-semibold">Peak:</span>
+          <span className="font-medium">
+            {formatJobs(employment.peakJobs)} full-time jobs{employment.peakYear !== null ? ` in year ${employment.peakYear}` : ''}
+          </span>
+        </div>
+        <div className="flex justify-between">
+          <span className="font-semibold">Average:</span>
+          <span className="font-medium">{formatJobs(employment.averageJobs)} full-time jobs per year</span>
+        </div>
+        {employment.planting && (
+          <div className="flex justify-between">
+            <span className="font-semibold">Planting Crew:</span>
+            <span className="font-medium">
+              {employment.planting.crewSize} people over {employment.planting.seasons} {employment.planting.seasons === 1 ? 'season' : 'seasons'}
+            </span>
+          </div>
+        )}
+      </div>
+
+      {phases.length > 0 && (
+        <div className="mt-3 space-y-1 border-t border-primary/20 pt-2 text-xs text-primary">
+          {phases.map(phase => (
+            <div key={phase.key} className="flex justify-between">
+              <span className="flex items-center gap-1">
+                <span className="inline-block w-2 h-2 rounded-sm" style={{ backgroundColor: phase.color }} />
+                {phase.label}
+              </span>
+              <span className="font-medium">{formatJobs(employment.totals[phase.key])} job-years</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {employment.totalJobYears > 0 && (
+        <div className="mt-3">
+          <ChartPanel title="Jobs by Phase (full-time jobs)" years={chartYears} series={chartSeries} />
+        </div>
+      )}
+
+      <p className="mt-2 text-xs text-primary">
+        Totals over {years} years; a job-year is one full-time job for a year.
+        {employment.planting
+          ? ' Planting work follows the crew and seasons the planting timeline needs; maintenance follows the living trees and each species\' job creation factor, heaviest while the stand establishes.'
+          : employment.totals.maintenance > 0
+            ? ' Maintenance follows the regenerating trees and each species\' job creation factor, heaviest while the stand establishes.'
+            : ' Harvest work follows the number of trees felled.'}
+      </p>
+    </div>
+  );
+};
+
+export default EmploymentBreakdown;
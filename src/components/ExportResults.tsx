@@ -6,6 +6,8 @@ import {
   generateGeoJSON, 
   generateJSON, 
   generateCSV, 
+  generateTimeSeriesCSV,
+  generateSensitivityCSV,
   downloadFile, 
   formatTimestamp 
 } from '@/utils/exportUtils';
@@ -23,7 +25,7 @@ const ExportResults: React.FC<ExportResultsProps> = ({ exportData, disabled = fa
   const [isExporting, setIsExporting] = useState(false);
   const [isSharing, setIsSharing] = useState(false);
 
-  const handleExport = async (format: 'geojson' | 'json' | 'csv' | 'pdf') => {
+  const handleExport = async (format: 'geojson' | 'json' | 'csv' | 'timeseries' | 'sensitivity' | 'pdf') => {
     if (disabled || isExporting) return;
     
     setIsExporting(true);
@@ -53,6 +55,16 @@ const ExportResults: React.FC<ExportResultsProps> = ({ exportData, disabled = fa
             filename = `forest-impact-analysis-${timestamp}.csv`;
             mimeType = 'text/csv';
             break;
+          case 'timeseries':
+            content = generateTimeSeriesCSV(exportData);
+            filename = `forest-impact-timeseries-${timestamp}.csv`;
+            mimeType = 'text/csv';
+            break;
+          case 'sensitivity':
+            content = generateSensitivityCSV(exportData);
+            filename = `forest-impact-sensitivity-${timestamp}.csv`;
+            mimeType = 'text/csv';
+            break;
           default:
             throw new Error('Unsupported export format');
         }
@@ -100,7 +112,7 @@ const ExportResults: React.FC<ExportResultsProps> = ({ exportData, disabled = fa
     <div className="bg-white rounded-lg shadow-md border border-gray-200 p-4">
       <h3 className="text-lg font-semibold text-gray-800 mb-4">Export and Share Results</h3>
       
-      <div className="grid grid-cols-3 sm:grid-cols-5 gap-2">
+      <div className="grid grid-cols-3 sm:grid-cols-4 gap-2">
         <button
           onClick={() => handleExport('pdf')}
           disabled={isExporting}
@@ -141,6 +153,26 @@ const ExportResults: React.FC<ExportResultsProps> = ({ exportData, disabled = fa
           <span className="text-xs text-gray-500 hidden sm:block">R/Python</span>
         </button>
 
+        <button
+          onClick={() => handleExport('timeseries')}
+          disabled={isExporting || !exportData.timeSeries?.length}
+          className="flex flex-col items-center p-2 border border-gray-300 rounded-lg hover:bg-gray-50 hover:border-primary transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <div className="text-xl mb-1">📈</div>
+          <span className="text-xs font-medium">Time Series</span>
+          <span className="text-xs text-gray-500 hidden sm:block">Per year</span>
+        </button>
+
+        <button
+          onClick={() => handleExport('sensitivity')}
+          disabled={isExporting || !exportData.sensitivity}
+          className="flex flex-col items-center p-2 border border-gray-300 rounded-lg hover:bg-gray-50 hover:border-primary transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <div className="text-xl mb-1">🌪️</div>
+          <span className="text-xs font-medium">Sensitivity</span>
+          <span className="text-xs text-gray-500 hidden sm:block">Tornado</span>
+        </button>
+
         {shareableState && (
           <button
             onClick={handleShare}
@@ -168,9 +200,29 @@ const ExportResults: React.FC<ExportResultsProps> = ({ exportData, disabled = fa
         <ul className="text-xs text-primary space-y-1">
           <li>• Location coordinates and region boundaries</li>
           <li>• Selected tree species/forest types and percentages</li>
-          <li>• Environmental data (soil, climate)</li>
+          <li>• Environmental data (soil, climate) and the climate scenario with its projected warming and precipitation change</li>
           <li>• Impact calculations (carbon sequestration/emissions, biodiversity, etc.)</li>
+          <li>• Year-by-year simulation time series, including per-species carbon and survivors</li>
           <li>• Planting/removal specifications and configuration</li>
+          <li>• Tree mortality settings and surviving/dead tree counts</li>
+          <li>• Tree size (DBH, height), wood density and growth model</li>
+          <li>• Carbon pools: above-ground, root, deadwood, litter and soil carbon</li>
+          <li>• Harvested wood products: end-use shares, residue, product decay and annual harvest emissions</li>
+          <li>• Carbon payback: replanted species, carbon debt, payback and parity years</li>
+          <li>• Rotation forestry: rotation length, thinnings, harvests, removals, timber revenue and average carbon stock</li>
+          <li>• Selective harvest: intensity, minimum age, residual damage, felled trees, released carbon and stand recovery</li>
+          <li>• Natural regeneration: seed source distance, recruitment, establishment years and carbon and cost against planting</li>
+          <li>• Agroforestry: row layout, trees per hectare, alley crop output, revenue and yield lost to shade</li>
+          <li>• Disturbance risk: annual chance and severity of fire, drought, windthrow and pest outbreaks, trees and carbon lost</li>
+          <li>• Climate suitability: species envelopes and the year each leaves its range or becomes unsuitable</li>
+          <li>• Project cash flow: yearly costs and revenue, NPV, IRR, payback year and cost per tonne CO₂</li>
+          <li>• Carbon credits issued at each verification and the returns under each carbon price scenario</li>
+          <li>• Carbon crediting: baseline, leakage, uncertainty and buffer deductions and net creditable tonnes per vintage year</li>
+          <li>• Employment: job-years by phase (nursery, site preparation, planting, maintenance, monitoring, harvest) year by year</li>
+          <li>• Money values in the report currency (USD, EUR, BRL or KES), with the exchange rate and its date</li>
+          <li>• Monte Carlo P10/P50/P90 ranges when uncertainty analysis is enabled</li>
+          <li>• Sensitivity of every indicator to each model input (tornado data CSV)</li>
+          <li>• Advanced assumptions changed from the default model coefficients</li>
           <li>• Simulation metadata and timestamp</li>
         </ul>
       </div>
@@ -1,12 +1,44 @@
 "use client";
 
-import React, { useEffect, useState, useMemo, useCallback } from 'react';
+import React, { useEffect, useState, useMemo } from 'react';
 import { TreeType } from '@/types/treeTypes';
 import { validateLatitude, validateLongitude, apiRateLimiter } from '@/utils/security';
 import { ExportData } from '@/utils/exportUtils';
-import { calculateRegionArea } from '@/utils/treePlanting';
+import { SoilData, ClimateData, PlantingData, SimulationMode, CalculationMode, SimulationInput, ReplantingSettings, simulate, isHarvestMode, isMortalityApplied } from '@/utils/simulationEngine';
+import { MortalitySettings } from '@/utils/treeMortality';
+import { UncertaintySettings, UncertaintyResult, Percentiles, MonteCarloMessage, runMonteCarlo } from '@/utils/monteCarlo';
+import { SensitivityResult, runSensitivity, DEFAULT_SENSITIVITY_VARIATION } from '@/utils/sensitivity';
+import { ModelParameterOverrides, resolveModelParameters } from '@/utils/modelParameters';
+import { GrowthModel, DEFAULT_GROWTH_MODEL } from '@/utils/allometry';
+import { WoodProductOverrides } from '@/utils/harvestedWood';
+import { RotationSettings } from '@/utils/rotationForestry';
+import { SelectiveHarvestSettings } from '@/utils/selectiveHarvest';
+import { NaturalRegenerationSettings } from '@/utils/naturalRegeneration';
+import { AgroforestrySettings } from '@/utils/agroforestry';
+import { CashFlowSettings } from '@/utils/cashFlow';
+import { CreditingSettings } from '@/utils/carbonCrediting';
+import { DisturbanceSettings } from '@/utils/disturbance';
+import { ClimateScenario, DEFAULT_CLIMATE_SCENARIO, getClimateScenarioOption } from '@/utils/climateScenarios';
+import { CurrencySettings, DEFAULT_CURRENCY_SETTINGS, getReportCurrency, loadCurrencySettings, saveCurrencySettings } from '@/utils/currency';
+import SimulationCharts from '@/components/SimulationCharts';
+import SensitivityTornado from '@/components/SensitivityTornado';
+import CarbonPoolBreakdown from '@/components/CarbonPoolBreakdown';
+import WoodProductBreakdown from '@/components/WoodProductBreakdown';
+import RotationHarvests from '@/components/RotationHarvests';
+import SelectiveHarvestBreakdown from '@/components/SelectiveHarvestBreakdown';
+import NaturalRegenerationBreakdown from '@/components/NaturalRegenerationBreakdown';
+import AgroforestryBreakdown from '@/components/AgroforestryBreakdown';
+import DisturbanceBreakdown from '@/components/DisturbanceBreakdown';
+import ClimateSuitabilityBreakdown from '@/components/ClimateSuitabilityBreakdown';
+import CashFlowBreakdown from '@/components/CashFlowBreakdown';
+import CurrencySelector from '@/components/CurrencySelector';
+import CreditingBreakdown from '@/components/CreditingBreakdown';
+import EmploymentBreakdown from '@/components/EmploymentBreakdown';
 import { getCachedData, setCachedData, generateLocationKey } from '@/utils/apiCache';
 
+// Wait for inputs to settle (e.g. while typing or dragging) before re-running the sensitivity analysis
+const SENSITIVITY_DELAY_MS = 400;
+
 // Simple fetch with timeout
 const fetchWithTimeout = async (url: string, options: RequestInit = {}, timeout: number = 15000): Promise<Response> => {
   const controller = new AbortController();
@@ -33,6 +65,7 @@ interface CollapsibleSectionProps {
   isExpanded: boolean;
   onToggle: () => void;
   className?: string;
+  range?: string | null;
 }
 
 const CollapsibleSection: React.FC<CollapsibleSectionProps> = ({ 
@@ -41,7 +74,8 @@ const CollapsibleSection: React.FC<CollapsibleSectionProps> = ({
   description, 
   isExpanded, 
   onToggle, 
-  className = "" 
+  className = "",
+  range
 }) => {
   return (
     <div className={`bg-white rounded shadow p-4 ${className}`}>
@@ -54,6 +88,7 @@ const CollapsibleSection: React.FC<CollapsibleSectionProps> = ({
         <div className="flex-1">
           <div className="text-xs text-gray-900 font-bold mb-1">{title}</div>
           <div className="text-primary font-bold text-sm">{value}</div>
+          {range && <div className="text-xs text-gray-500 mt-0.5">{range}</div>}
         </div>
         <svg
           className={`w-5 h-5 text-gray-400 transition-transform ${isExpanded ? 'rotate-180' : ''}`}
@@ -87,51 +122,29 @@ interface ForestImpactCalculatorProps {
     east: number;
     west: number;
   } | null;
-  plantingData?: {
-    area: number;
-    totalTrees: number;
-    spacing: number;
-    density: number;
-  } | null;
+  plantingData?: PlantingData | null;
   onYearsChange: (years: number) => void;
   onDataReady?: (data: Partial<ExportData>) => void;
-  simulationMode?: 'planting' | 'clear-cutting';
-  calculationMode?: 'perTree' | 'perArea';
+  simulationMode?: SimulationMode;
+  calculationMode?: CalculationMode;
   averageTreeAge?: number;
+  mortality?: MortalitySettings | null;
+  disturbance?: DisturbanceSettings | null;
+  uncertainty?: UncertaintySettings | null;
+  parameterOverrides?: ModelParameterOverrides;
+  growthModel?: GrowthModel;
+  climateScenario?: ClimateScenario;
+  woodProductShares?: WoodProductOverrides;
+  replanting?: ReplantingSettings | null;
+  rotation?: RotationSettings | null;
+  selectiveHarvest?: SelectiveHarvestSettings | null;
+  naturalRegeneration?: NaturalRegenerationSettings | null;
+  agroforestry?: AgroforestrySettings | null;
+  cashFlow?: CashFlowSettings | null;
+  crediting?: CreditingSettings | null;
   onSoilClimateDataReady?: (soil: SoilData | null, climate: ClimateData | null) => void;
 }
 
-interface ImpactMetrics {
-  carbonSequestration: number;
-  biodiversityImpact: number;
-  forestResilience: number;
-  waterRetention: number;
-  airQualityImprovement: number;
-}
-
-interface SoilData {
-  carbon: number | null;
-  ph: number | null;
-  isEstimated?: boolean;
-}
-
-interface ClimateData {
-  temperature: number | null;
-  precipitation: number | null;
-  isEstimated?: boolean;
-  historicalData?: {
-    temperatures: number[];
-    precipitations: number[];
-    years: number[];
-  };
-}
-
-interface ClimatePrediction {
-  temperature: number;
-  precipitation: number;
-  growthModifier: number;
-}
-
 // Helper function to estimate climate data based on latitude when API fails
 const estimateClimateData = (lat: number): ClimateData => {
   const absLat = Math.abs(lat);
@@ -338,7 +351,7 @@ const fetchClimateData = async (lat: number, lon: number, retries = 2): Promise<
     const weatherData = await weatherRes.json();
     console.log('[CLIMATE API] Current weather data received successfully');
     
-    // Fetch historical data for climate trend analysis (reduced to 5 years for performance)
+    // Fetch recent history for the annual climate (reduced to 5 years for performance); projections use the bundled climate scenarios
     const endDate = new Date();
     const startDate = new Date();
     startDate.setFullYear(startDate.getFullYear() - 5); // Reduced from 11 to 5 years
@@ -370,16 +383,19 @@ const fetchClimateData = async (lat: number, lon: number, retries = 2): Promise<
         }
       }
     } else {
-      console.warn('Historical weather data unavailable, predictions will use fallback values');
+      console.warn('Historical weather data unavailable, annual precipitation will be estimated');
     }
     
-    const currentTemp = weatherData.current?.temperature_2m || null;
-    const currentPrecip = weatherData.current?.precipitation || null;
+    // Species envelopes and projections compare annual climate, so the recent
+    // annual means are preferred; the current reading only has the last hour's rain
+    const average = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+    const currentTemp = historicalData ? average(historicalData.temperatures) : weatherData.current?.temperature_2m || null;
+    const currentPrecip = historicalData ? average(historicalData.precipitations) : null;
     
     console.log('[CLIMATE API] Data extracted:', { currentTemp, currentPrecip, hasHistoricalData: !!historicalData });
     
     // If API returns null values, use estimates
-    if (currentTemp === null || currentPrecip === null) {
+    if (currentTemp === null) {
       console.log('[CLIMATE API] API returned null values - no data available for this location. Using climate-based estimates.');
       return estimateClimateData(lat);
     }
@@ -387,9 +403,9 @@ const fetchClimateData = async (lat: number, lon: number, retries = 2): Promise<
     console.log('[CLIMATE API] Successfully retrieved real climate data from Open-Meteo');
     return {
       temperature: currentTemp,
-      precipitation: currentPrecip,
+      precipitation: currentPrecip ?? estimateClimateData(lat).precipitation,
       historicalData,
-      isEstimated: false
+      isEstimated: currentPrecip === null
     };
   } catch (error) {
     console.error('Error fetching climate data:', error);
@@ -418,130 +434,7 @@ const fetchClimateData = async (lat: number, lon: number, retries = 2): Promise<
   }
 };
 
-const predictFutureClimate = (
-  currentTemp: number | null,
-  currentPrecip: number | null,
-  historicalData: { temperatures: number[]; precipitations: number[]; years: number[] } | undefined,
-  year: number,
-  latitude: number
-): ClimatePrediction => {
-  // Default values based on latitude if no data available
-  let predictedTemp = currentTemp || (Math.abs(latitude) < 30 ? 25 : Math.abs(latitude) < 60 ? 15 : Math.abs(latitude) < 70 ? 5 : -5);
-  let predictedPrecip = currentPrecip || 1000;
-  
-  // If we have historical data, calculate trends
-  if (historicalData && historicalData.temperatures.length > 5) {
-    const tempTrend = calculateLinearTrend(historicalData.years, historicalData.temperatures);
-    predictedTemp = predictedTemp + (tempTrend * year);
-    
-    const precipTrend = calculateLinearTrend(historicalData.years, historicalData.precipitations);
-    predictedPrecip = Math.max(0, predictedPrecip + (precipTrend * year));
-  }
-  
-  // Calculate growth modifier based on predicted conditions
-  const growthModifier = calculateGrowthModifier(predictedTemp, predictedPrecip, currentTemp || predictedTemp, currentPrecip || predictedPrecip);
-  
-  return {
-    temperature: predictedTemp,
-    precipitation: predictedPrecip,
-    growthModifier
-  };
-};
-
-const calculateLinearTrend = (years: number[], values: number[]): number => {
-  if (years.length !== values.length || years.length < 2) return 0;
-  
-  const n = years.length;
-  const sumX = years.reduce((a, b) => a + b, 0);
-  const sumY = values.reduce((a, b) => a + b, 0);
-  const sumXY = years.reduce((sum, x, i) => sum + x * values[i], 0);
-  const sumXX = years.reduce((sum, x) => sum + x * x, 0);
-  
-  const slope = (n * sumXY - sumX * sumY) / (n * sumXX - sumX * sumX);
-  return slope;
-};
-
-const calculateGrowthModifier = (
-  predictedTemp: number,
-  predictedPrecip: number,
-  currentTemp: number,
-  currentPrecip: number
-): number => {
-  // Temperature change impact (trees generally grow better with moderate warming)
-  const tempChange = predictedTemp - currentTemp;
-  const tempModifier = 1 + (tempChange * 0.02); // 2% change per degree
-  
-  // Precipitation change impact
-  const precipChange = predictedPrecip - currentPrecip;
-  const precipModifier = 1 + (precipChange * 0.0001); // 0.01% change per mm
-  
-  return Math.max(0.5, Math.min(1.5, tempModifier * precipModifier)); // Clamp between 0.5 and 1.5
-};
-
-const calculateAnnualCarbonWithGrowth = (matureRate: number, year: number): number => {
-  // Growth curve: slow start, rapid growth, then plateau
-  let growthFactor = 0;
-  if (year === 1) growthFactor = 0.05;
-  else if (year === 2) growthFactor = 0.15;
-  else if (year === 3) growthFactor = 0.30;
-  else if (year === 4) growthFactor = 0.50;
-  else if (year === 5) growthFactor = 0.70;
-  else if (year === 6) growthFactor = 0.85;
-  else growthFactor = 0.95;
-  
-  return matureRate * growthFactor;
-};
-
-// Helper function to get growth factor based on tree age
-const getGrowthFactor = (age: number): number => {
-  if (age <= 1) return 0.05;
-  else if (age <= 2) return 0.15;
-  else if (age <= 3) return 0.30;
-  else if (age <= 4) return 0.50;
-  else if (age <= 5) return 0.70;
-  else if (age <= 6) return 0.85;
-  else if (age <= 20) return 0.95; // Mature trees
-  else if (age <= 50) return 0.90; // Older mature trees
-  else return 0.85; // Very old trees
-};
-
-// New function for clear-cutting carbon calculations
-const calculateClearCuttingCarbon = (matureRate: number, treeAge: number, simulationYears: number): { immediate: number, lostFuture: number, total: number } => {
-  // Calculate realistic carbon stored in tree trunk based on age
-  // Research shows mature oak stores ~20-50 kg carbon (73-183 kg CO2)
-  // Use a realistic growth curve for trunk carbon storage
-  let trunkCarbonKg = 0;
-  if (treeAge <= 5) {
-    trunkCarbonKg = treeAge * 2; // Young trees: ~2 kg carbon per year
-  } else if (treeAge <= 20) {
-    trunkCarbonKg = 10 + (treeAge - 5) * 1.5; // Growing trees: slower accumulation
-  } else if (treeAge <= 50) {
-    trunkCarbonKg = 32.5 + (treeAge - 20) * 0.5; // Mature trees: minimal growth
-  } else {
-    trunkCarbonKg = 47.5; // Very old trees: capped at ~48 kg carbon
-  }
-  
-  // Convert carbon to CO2 (carbon * 3.67)
-  const immediateRelease = trunkCarbonKg * 3.67;
-  
-  // Calculate lost future sequestration over simulation period
-  let lostFutureSequestration = 0;
-  for (let year = 1; year <= simulationYears; year++) {
-    const futureAge = treeAge + year;
-    const annualSequestration = matureRate * getGrowthFactor(futureAge);
-    lostFutureSequestration += annualSequestration;
-  }
-  
-  const total = immediateRelease + lostFutureSequestration;
-  
-  return {
-    immediate: immediateRelease,
-    lostFuture: lostFutureSequestration,
-    total: total
-  };
-};
-
-const ForestImpactCalculator: React.FC<ForestImpactCalculatorProps> = ({ latitude, longitude, years, selectedTreeType, selectedTrees, treePercentages, selectedRegion, plantingData, onDataReady, simulationMode = 'planting', calculationMode = 'perArea', averageTreeAge = 20, onSoilClimateDataReady }) => {
+const ForestImpactCalculator: React.FC<ForestImpactCalculatorProps> = ({ latitude, longitude, years, selectedTreeType, selectedTrees, treePercentages, selectedRegion, plantingData, onDataReady, simulationMode = 'planting', calculationMode = 'perArea', averageTreeAge = 20, mortality, disturbance, uncertainty, parameterOverrides, growthModel = DEFAULT_GROWTH_MODEL, climateScenario = DEFAULT_CLIMATE_SCENARIO, woodProductShares, replanting, rotation, selectiveHarvest, naturalRegeneration, agroforestry, cashFlow, crediting, onSoilClimateDataReady }) => {
 
   const [soil, setSoil] = useState<SoilData | null>(null);
   const [climate, setClimate] = useState<ClimateData | null>(null);
@@ -550,65 +443,12 @@ const ForestImpactCalculator: React.FC<ForestImpactCalculatorProps> = ({ latitud
   const [error, setError] = useState<string | null>(null);
   const [expandedSections, setExpandedSections] = useState<{ [key: string]: boolean }>({});
   const [activeEnvTab, setActiveEnvTab] = useState<'environment' | 'economic' | 'social' | 'landuse'>('environment');
-
-  // Use planting data if available, otherwise calculate fallback
-  const totalTrees = plantingData?.totalTrees || (selectedRegion ? calculateRegionArea(selectedRegion) * 1111 : 1);
-
-  // Calculate social, economic, and land use impacts with useMemo
-  const socialImpact = useMemo(() => {
-    if (simulationMode === 'planting') {
-      // Planting mode: positive social benefits
-      const baseSocialScore = 3.5; // Base social benefit score (1-5)
-      const treeDiversityBonus = selectedTrees && selectedTrees.length > 1 ? Math.min(selectedTrees.length * 0.2, 1) : 0;
-      const timeBonus = Math.min(years * 0.02, 1); // Benefits increase over time
-      const areaBonus = selectedRegion ? Math.min(calculateRegionArea(selectedRegion) * 0.1, 1) : 0;
-      
-      return Math.min(baseSocialScore + treeDiversityBonus + timeBonus + areaBonus, 5);
-    } else {
-      // Clear-cutting mode: negative social impacts
-      const baseSocialScore = 2.0; // Lower base score due to negative impacts
-      const treeDiversityPenalty = selectedTrees && selectedTrees.length > 1 ? Math.min(selectedTrees.length * 0.1, 0.5) : 0;
-      const timePenalty = Math.min(years * 0.01, 0.5); // Negative impacts increase over time
-      const areaPenalty = selectedRegion ? Math.min(calculateRegionArea(selectedRegion) * 0.05, 0.5) : 0;
-      
-      return Math.max(baseSocialScore - treeDiversityPenalty - timePenalty - areaPenalty, 1);
-    }
-  }, [selectedTrees, years, selectedRegion, simulationMode]);
-
-
-
-  const landUseImpact = useMemo(() => {
-    // Use planting data area if available, otherwise calculate from selected region
-    const area = plantingData?.area || (selectedRegion ? calculateRegionArea(selectedRegion) : 0);
-    
-    if (simulationMode === 'planting') {
-      // Planting mode: positive land use improvements
-      const erosionReduction = Math.min(area * 0.5, 95); // Erosion reduction percentage
-      const soilImprovement = Math.min(years * 1.5, 80); // Soil quality improvement
-      const habitatCreation = Math.min(area * 2, 90); // Habitat creation percentage
-      const waterQuality = Math.min(years * 1.2, 85); // Water quality improvement
-      
-      return {
-        erosionReduction,
-        soilImprovement,
-        habitatCreation,
-        waterQuality
-      };
-    } else {
-      // Clear-cutting mode: negative land use impacts
-      const erosionIncrease = Math.min(area * 0.8, 95); // Erosion increase percentage
-      const soilDegradation = Math.min(years * 2.0, 80); // Soil quality degradation
-      const habitatLoss = Math.min(area * 3, 90); // Habitat loss percentage
-      const waterQualityDecline = Math.min(years * 1.8, 85); // Water quality decline
-      
-      return {
-        erosionReduction: erosionIncrease, // Using same property name for display
-        soilImprovement: soilDegradation, // Using same property name for display
-        habitatCreation: habitatLoss, // Using same property name for display
-        waterQuality: waterQualityDecline // Using same property name for display
-      };
-    }
-  }, [selectedRegion, years, plantingData, simulationMode]);
+  const [uncertaintyResult, setUncertaintyResult] = useState<UncertaintyResult | null>(null);
+  const [uncertaintyProgress, setUncertaintyProgress] = useState<number | null>(null);
+  const [sensitivityVariation, setSensitivityVariation] = useState(DEFAULT_SENSITIVITY_VARIATION);
+  const [sensitivityResult, setSensitivityResult] = useState<SensitivityResult | null>(null);
+  const [sensitivityPending, setSensitivityPending] = useState(false);
+  const [currencySettings, setCurrencySettings] = useState<CurrencySettings>(DEFAULT_CURRENCY_SETTINGS);
 
   const toggleSection = (sectionKey: string) => {
     setExpandedSections(prev => ({
@@ -617,6 +457,18 @@ const ForestImpactCalculator: React.FC<ForestImpactCalculatorProps> = ({ latitud
     }));
   };
 
+  // Report currency and exchange rates saved in this browser
+  useEffect(() => {
+    setCurrencySettings(loadCurrencySettings());
+  }, []);
+
+  const updateCurrencySettings = (settings: CurrencySettings) => {
+    setCurrencySettings(settings);
+    saveCurrencySettings(settings);
+  };
+
+  const reportCurrency = useMemo(() => getReportCurrency(currencySettings), [currencySettings]);
+
   // Fetch soil and climate data for the selected location with caching
   useEffect(() => {
     if (latitude && longitude) {
@@ -702,266 +554,154 @@ const ForestImpactCalculator: React.FC<ForestImpactCalculatorProps> = ({ latitud
     }
   }, [latitude, longitude, onSoilClimateDataReady]);
 
-  const calculateImpact = useCallback((
-    lat: number,
-    lng: number,
-    soil?: SoilData,
-    climate?: ClimateData,
-    treeType?: TreeType,
-    treeTypes?: TreeType[]
-  ): ImpactMetrics => {
-    // Handle multiple trees with percentage distribution
-    let carbonBase = 0;
-    let biodiversityBase = 0;
-    let resilienceBase = 0;
-    
-    if (treeTypes && treeTypes.length > 0) {
-      if (treePercentages && Object.values(treePercentages).reduce((sum, p) => sum + (p || 0), 0) === 100) {
-        // Use percentage distribution
-        treeTypes.forEach(tree => {
-          const percentage = treePercentages[tree.id] || 0;
-          const weight = percentage / 100;
-          carbonBase += tree.carbonSequestration * weight;
-          biodiversityBase += tree.biodiversityValue * weight;
-          resilienceBase += tree.resilienceScore * weight;
-        });
-      } else {
-        // Fallback to equal distribution
-        const carbonSum = treeTypes.reduce((sum, tree) => sum + tree.carbonSequestration, 0);
-        const biodiversitySum = treeTypes.reduce((sum, tree) => sum + tree.biodiversityValue, 0);
-        const resilienceSum = treeTypes.reduce((sum, tree) => sum + tree.resilienceScore, 0);
-        
-        carbonBase = carbonSum / treeTypes.length;
-        biodiversityBase = biodiversitySum / treeTypes.length;
-        resilienceBase = resilienceSum / treeTypes.length;
-      }
-    } else if (treeType) {
-      // Single tree type
-      carbonBase = treeType.carbonSequestration;
-      biodiversityBase = treeType.biodiversityValue;
-      resilienceBase = treeType.resilienceScore;
-    } else {
-      // No trees selected - return zero values
-      carbonBase = 0;
-      biodiversityBase = 0;
-      resilienceBase = 0;
-    }
-    
-    // Apply environmental modifiers
-    if (soil?.carbon) carbonBase += soil.carbon / 10;
-    if (climate?.precipitation) resilienceBase += climate.precipitation / 1000;
-    
-    // Apply calculation mode multiplier
-    const multiplier = calculationMode === 'perArea' ? totalTrees : 1;
-    const carbonSequestration = carbonBase * multiplier;
-    
-    // Biodiversity and resilience change based on simulation mode
-    let biodiversityTimeBonus, resilienceTimeBonus, forestSizeBonus;
-    
-    if (simulationMode === 'planting') {
-      // Planting mode: improve over time and scale with forest size
-      biodiversityTimeBonus = Math.min(1, years * 0.05); // +0.05 per year, max +1
-      resilienceTimeBonus = Math.min(1, years * 0.03); // +0.03 per year, max +1
-      forestSizeBonus = calculationMode === 'perArea' ? Math.min(1, Math.log10(totalTrees) * 0.2) : 0;
-    } else {
-      // Clear-cutting mode: degrade over time and scale with forest size (more trees = more damage)
-      biodiversityTimeBonus = Math.max(-1, -years * 0.05); // -0.05 per year, max -1
-      resilienceTimeBonus = Math.max(-1, -years * 0.03); // -0.03 per year, max -1
-      forestSizeBonus = calculationMode === 'perArea' ? Math.min(1, Math.log10(totalTrees) * 0.2) : 0; // More trees = more damage
-    }
-    
-    const biodiversityImpact = Math.min(5, Math.max(0, biodiversityBase + biodiversityTimeBonus + forestSizeBonus));
-    const forestResilience = Math.min(5, Math.max(0, resilienceBase + resilienceTimeBonus + forestSizeBonus));
+  // Run the simulation engine - all impact math lives in utils/simulationEngine
+  const parameters = useMemo(() => resolveModelParameters(parameterOverrides), [parameterOverrides]);
 
-    // Water retention calculation
-    let waterBase = 70; // Default base
-    
-    // Only apply geographic assumptions if we don't have actual climate data
-    if (climate?.precipitation === null || climate?.precipitation === undefined) {
-      // Use geographic fallbacks when no precipitation data available
-      waterBase = Math.abs(lat) < 30 ? 85 : Math.abs(lat) < 60 ? 75 : 70;
-    } else {
-      // Use actual precipitation data to calculate water retention
-      // Higher precipitation means better water retention potential
-      const precipBonus = climate.precipitation > 1500 ? 15 : climate.precipitation > 1000 ? 10 : climate.precipitation > 500 ? 5 : 0;
-      waterBase = Math.max(60, Math.min(90, 70 + precipBonus));
+  const simulationInput = useMemo<SimulationInput>(() => ({
+    latitude: latitude || 0,
+    longitude: longitude || 0,
+    years,
+    selectedRegion,
+    plantingData,
+    selectedTreeType,
+    selectedTrees,
+    treePercentages,
+    simulationMode,
+    calculationMode,
+    averageTreeAge,
+    soil,
+    climate,
+    climateScenario,
+    mortality,
+    disturbance,
+    parameters,
+    growthModel,
+    woodProductShares,
+    replanting,
+    rotation,
+    selectiveHarvest,
+    naturalRegeneration,
+    agroforestry,
+    cashFlow,
+    crediting
+  }), [latitude, longitude, years, selectedRegion, plantingData, selectedTreeType, selectedTrees, treePercentages, simulationMode, calculationMode, averageTreeAge, soil, climate, climateScenario, mortality, disturbance, parameters, growthModel, woodProductShares, replanting, rotation, selectiveHarvest, naturalRegeneration, agroforestry, cashFlow, crediting]);
+
+  const simulation = useMemo(() => simulate(simulationInput), [simulationInput]);
+
+  // One-at-a-time sensitivity runs for the tornado chart, in the worker as well; the last
+  // chart stays on screen while the next runs, but only a current result is exported.
+  // Runs start once inputs settle, and a newer input cancels the run in progress.
+  useEffect(() => {
+    if (!latitude || !longitude) {
+      setSensitivityResult(null);
+      setSensitivityPending(false);
+      return;
     }
-    
-    // Water retention changes based on simulation mode
-    let waterTimeBonus, waterSizeBonus;
-    
-    if (simulationMode === 'planting') {
-      // Planting mode: improve over time and scale with forest size
-      waterTimeBonus = years * 0.3; // Improves by ~0.3% per year
-      waterSizeBonus = calculationMode === 'perArea' ? Math.min(10, Math.log10(totalTrees) * 2) : 0; // More trees = better water retention
-    } else {
-      // Clear-cutting mode: degrade over time and scale with forest size (more trees = more damage)
-      waterTimeBonus = -years * 0.5; // Degrades by ~0.5% per year
-      waterSizeBonus = calculationMode === 'perArea' ? Math.min(15, Math.log10(totalTrees) * 3) : 0; // More trees = more damage
+    if (loading) {
+      return;
     }
-    
-    const waterRetention = Math.min(95, Math.max(0, waterBase + waterTimeBonus + waterSizeBonus));
 
-    // Air quality improves over time as trees mature and grow larger
-    // Base air quality improvement varies by climate zone (more impact in polluted areas)
-    let airQualityBase = 60; // Default temperate zone
-    
-    // Only apply geographic assumptions if we don't have actual climate data
-    if (climate?.temperature === null || climate?.temperature === undefined || 
-        climate?.precipitation === null || climate?.precipitation === undefined) {
-      // Use geographic fallbacks when no climate data available
-      if (Math.abs(lat) < 30) {
-        airQualityBase = 70; // Tropical - higher impact due to year-round growth and dense vegetation
-      } else if (Math.abs(lat) < 60) {
-        airQualityBase = 60; // Temperate - moderate impact
-      } else {
-        airQualityBase = 50; // Boreal/Arctic - lower impact due to shorter growing seasons
+    setSensitivityPending(true);
+    let worker: Worker | null = null;
+    const timer = setTimeout(() => {
+      if (typeof Worker === 'undefined') {
+        setSensitivityResult(runSensitivity(simulationInput, sensitivityVariation));
+        setSensitivityPending(false);
+        return;
       }
-    } else {
-      // Use actual climate data to adjust air quality impact
-      // Higher temperatures and precipitation generally mean better air quality improvement potential
-      const tempBonus = climate.temperature > 20 ? 5 : climate.temperature > 10 ? 0 : -5;
-      const precipBonus = climate.precipitation > 1000 ? 3 : climate.precipitation > 500 ? 0 : -3;
-      airQualityBase = Math.max(40, Math.min(80, 60 + tempBonus + precipBonus));
-    }
-    
-    // Air quality changes based on simulation mode
-    let airQualityImprovement;
-    
-    if (simulationMode === 'planting') {
-      // Planting mode: improve over time and scale with forest size
-      const airTimeBonus = years * 0.7; // Improves by ~0.7% per year
-      const airSizeBonus = calculationMode === 'perArea' ? Math.min(15, Math.log10(totalTrees) * 3) : 0; // More trees = better air quality
-      airQualityImprovement = Math.min(95, Math.max(0, airQualityBase + airTimeBonus + airSizeBonus));
-    } else {
-      // Clear-cutting mode: immediately negative impact, gets worse over time
-      const immediateImpact = calculationMode === 'perArea' ? Math.min(30, Math.log10(totalTrees) * 5) : 10; // Immediate negative impact based on forest size
-      const timeDegradation = years * 1.0; // Gets worse by ~1.0% per year
-      airQualityImprovement = Math.max(-80, -(immediateImpact + timeDegradation)); // Start negative, can go down to -80%
-    }
 
-    return {
-      carbonSequestration: Math.max(0, carbonSequestration),
-      biodiversityImpact: Math.max(0, biodiversityImpact),
-      forestResilience: Math.max(0, forestResilience),
-      waterRetention: Math.max(0, waterRetention),
-      airQualityImprovement: Math.max(0, airQualityImprovement)
+      const sensitivityWorker = new Worker(new URL('../utils/monteCarlo.worker.ts', import.meta.url));
+      worker = sensitivityWorker;
+      sensitivityWorker.onmessage = (event: MessageEvent<MonteCarloMessage>) => {
+        const message = event.data;
+        if (message.type === 'sensitivity') {
+          setSensitivityResult(message.result);
+        } else if (message.type === 'error') {
+          console.error('Sensitivity analysis failed:', message.message);
+        }
+        setSensitivityPending(false);
+        sensitivityWorker.terminate();
+      };
+      sensitivityWorker.postMessage({ type: 'sensitivity', input: simulationInput, variation: sensitivityVariation });
+    }, SENSITIVITY_DELAY_MS);
+
+    return () => {
+      clearTimeout(timer);
+      worker?.terminate();
     };
-  }, [treePercentages, calculationMode, totalTrees, years, simulationMode]);
-
-  // Calculate impact and all derived values BEFORE early returns to ensure consistent hook order
-  const impact = useMemo(() => calculateImpact(
-    latitude || 0,
-    longitude || 0,
-    soil || undefined,
-    climate || undefined,
-    selectedTreeType || undefined,
-    selectedTrees || undefined
-  ), [latitude, longitude, soil, climate, selectedTreeType, selectedTrees, calculateImpact]);
-  
-  // Calculate cumulative carbon with realistic growth model and climate predictions
-  const calculateCumulativeCarbon = useCallback((annualRate: number, years: number): number => {
-    let total = 0;
-    
-    // Only apply climate predictions if we have actual climate data
-    const hasClimateData = climate?.temperature !== null && climate?.temperature !== undefined && 
-                          climate?.precipitation !== null && climate?.precipitation !== undefined;
-    
-    for (let year = 1; year <= years; year++) {
-      // Growth curve: slow start, rapid growth, then plateau
-      // Year 1: 5% of mature rate
-      // Year 2: 15% of mature rate  
-      // Year 3: 30% of mature rate
-      // Year 4: 50% of mature rate
-      // Year 5: 70% of mature rate
-      // Year 6: 85% of mature rate
-      // Year 7+: 95% of mature rate (approaching full maturity)
-      
-      let growthFactor = 0;
-      if (year === 1) growthFactor = 0.05;
-      else if (year === 2) growthFactor = 0.15;
-      else if (year === 3) growthFactor = 0.30;
-      else if (year === 4) growthFactor = 0.50;
-      else if (year === 5) growthFactor = 0.70;
-      else if (year === 6) growthFactor = 0.85;
-      else growthFactor = 0.95;
-      
-      let combinedGrowthFactor = growthFactor;
-      
-      // Only apply climate prediction if we have actual climate data
-      if (hasClimateData) {
-        const climatePrediction = predictFutureClimate(
-          climate.temperature!,
-          climate.precipitation!,
-          climate?.historicalData,
-          year,
-          latitude || 0
-        );
-        
-        // Combine tree growth factor with climate modifier
-        combinedGrowthFactor = growthFactor * climatePrediction.growthModifier;
-      }
-      
-      total += annualRate * combinedGrowthFactor;
+  }, [simulationInput, sensitivityVariation, latitude, longitude, loading]);
+
+  const sensitivity = sensitivityPending ? null : sensitivityResult;
+
+  // Monte Carlo uncertainty runs in a Web Worker so the UI stays responsive
+  useEffect(() => {
+    setUncertaintyResult(null);
+    setUncertaintyProgress(null);
+
+    if (!uncertainty?.enabled || !latitude || !longitude || loading) {
+      return;
     }
-    return total;
-  }, [climate, latitude]);
-  
-  const totalCarbon = useMemo(() => calculateCumulativeCarbon(impact.carbonSequestration, years), [impact.carbonSequestration, years, calculateCumulativeCarbon]);
-  
-  // Calculate job creation based on project scale and simulation mode
-  const economicImpact = useMemo(() => {
-    // Get area in hectares for more realistic job calculation
-    const areaHectares = plantingData?.area || (selectedRegion ? calculateRegionArea(selectedRegion) : 0);
-    
-    let jobCreation;
-    
-    if (simulationMode === 'planting') {
-      // Planting operations: fewer workers, more long-term
-      // More granular thresholds for small projects
-      if (areaHectares < 0.1) {
-        jobCreation = 2; // Very small (backyard/community): 2 people minimum (planting team)
-      } else if (areaHectares < 0.5) {
-        jobCreation = 2; // Small (large backyard): 2-3 people (planting, support)
-      } else if (areaHectares < 1) {
-        jobCreation = 3; // Small project: 3 people (planting, supervision)
-      } else if (areaHectares < 5) {
-        jobCreation = 4; // Medium-small: 4 people (planting, maintenance)
-      } else if (areaHectares < 20) {
-        jobCreation = 6; // Medium projects: 6 people (planting, maintenance, monitoring)
-      } else if (areaHectares < 50) {
-        jobCreation = 10; // Larger projects: 10 people (full team)
-      } else if (areaHectares < 100) {
-        jobCreation = 15; // Large projects: 15 people (multiple crews)
-      } else {
-        jobCreation = Math.floor(areaHectares / 10); // Very large projects: 1 job per 10 hectares
-      }
-    } else {
-      // Clear-cutting operations: more workers, intensive short-term operations
-      if (areaHectares < 0.1) {
-        jobCreation = 3; // Very small operations: 3 people (logger, helper, supervisor)
-      } else if (areaHectares < 0.5) {
-        jobCreation = 4; // Small operations: 4 people (crew, equipment)
-      } else if (areaHectares < 1) {
-        jobCreation = 5; // Small operations: 5 people (logging crew, equipment)
-      } else if (areaHectares < 5) {
-        jobCreation = 8; // Medium-small: 8 people (crew, equipment, transport)
-      } else if (areaHectares < 20) {
-        jobCreation = 15; // Medium operations: 15 people (logging crew, heavy machinery, transport, processing)
-      } else if (areaHectares < 50) {
-        jobCreation = 30; // Larger operations: 30 people (full logging team, multiple crews, processing)
-      } else if (areaHectares < 100) {
-        jobCreation = 50; // Large operations: 50 people (multiple crews, processing, transport, management)
-      } else {
-        jobCreation = Math.floor(areaHectares / 2); // Very large operations: 1 job per 2 hectares (intensive)
-      }
+
+    if (typeof Worker === 'undefined') {
+      setUncertaintyResult(runMonteCarlo(simulationInput, uncertainty));
+      return;
     }
-    
-    return {
-      jobCreation
+
+    const worker = new Worker(new URL('../utils/monteCarlo.worker.ts', import.meta.url));
+    setUncertaintyProgress(0);
+
+    worker.onmessage = (event: MessageEvent<MonteCarloMessage>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        setUncertaintyProgress(message.completed / message.total);
+      } else if (message.type === 'result') {
+        setUncertaintyResult(message.result);
+        setUncertaintyProgress(null);
+        worker.terminate();
+      } else if (message.type === 'error') {
+        console.error('Monte Carlo simulation failed:', message.message);
+        setUncertaintyProgress(null);
+        worker.terminate();
+      }
     };
-  }, [plantingData, selectedRegion, simulationMode]);
-  
+    worker.postMessage({ type: 'uncertainty', input: simulationInput, settings: uncertainty });
+
+    return () => worker.terminate();
+  }, [simulationInput, uncertainty, latitude, longitude, loading]);
+
+  const {
+    totalTrees,
+    impact,
+    totalCarbon,
+    clearCutting,
+    averageBiodiversity,
+    averageResilience,
+    socialImpact,
+    landUseImpact,
+    economicImpact,
+    comparisons,
+    timeSeries,
+    survival,
+    species,
+    selectiveHarvest: selective,
+    naturalRegeneration: regeneration,
+    agroforestry: agroforestrySummary
+  } = simulation;
+
+  // Residue released at harvest; clear-cut figures are per tree
+  const releasedAtHarvest = selective
+    ? selective.immediate
+    : clearCutting.immediate * (calculationMode === 'perTree' ? 1 : totalTrees);
+
+  // Average final tree size across species, weighted by trees planted
+  const plantedTotal = species.reduce((sum, entry) => sum + entry.plantedTrees, 0);
+  const treeSize = (simulationMode === 'planting' || simulationMode === 'natural-regeneration' || simulationMode === 'agroforestry') && plantedTotal > 0 && species.some(entry => entry.height > 0)
+    ? {
+        dbh: species.reduce((sum, entry) => sum + entry.dbh * entry.plantedTrees, 0) / plantedTotal,
+        height: species.reduce((sum, entry) => sum + entry.height * entry.plantedTrees, 0) / plantedTotal
+      }
+    : null;
+
   // Format total carbon based on calculation mode
   const formatTotalCarbon = (carbon: number) => {
     if (calculationMode === 'perTree') {
@@ -981,90 +721,13 @@ const ForestImpactCalculator: React.FC<ForestImpactCalculatorProps> = ({ latitud
       return tons > 1000 ? 'metric tons CO₂' : 'metric tons CO₂';
     }
   };
-  
-  // Calculate cumulative biodiversity and resilience with growth model and climate predictions
-  const calculateCumulativeImpact = (annualRate: number, years: number): number => {
-    let total = 0;
-    
-    // Only apply climate predictions if we have actual climate data
-    const hasClimateData = climate?.temperature !== null && climate?.temperature !== undefined && 
-                          climate?.precipitation !== null && climate?.precipitation !== undefined;
-    
-    for (let year = 1; year <= years; year++) {
-      // Similar growth curve for biodiversity and resilience
-      let growthFactor = 0;
-      if (year === 1) growthFactor = 0.10;
-      else if (year === 2) growthFactor = 0.25;
-      else if (year === 3) growthFactor = 0.45;
-      else if (year === 4) growthFactor = 0.65;
-      else if (year === 5) growthFactor = 0.80;
-      else if (year === 6) growthFactor = 0.90;
-      else growthFactor = 0.95;
-      
-      let combinedGrowthFactor = growthFactor;
-      
-      // Only apply climate prediction if we have actual climate data
-      if (hasClimateData) {
-        const climatePrediction = predictFutureClimate(
-          climate.temperature!,
-          climate.precipitation!,
-          climate?.historicalData,
-          year,
-          latitude || 0
-        );
-        
-        // Combine tree growth factor with climate modifier
-        combinedGrowthFactor = growthFactor * climatePrediction.growthModifier;
-      }
-      
-      total += annualRate * combinedGrowthFactor;
-    }
-    return total / years; // Return average over the period
-  };
-  
-  const averageBiodiversity = calculateCumulativeImpact(impact.biodiversityImpact, years);
-  const averageResilience = calculateCumulativeImpact(impact.forestResilience, years);
 
-  // Calculate meaningful comparisons
-  const getComparisons = (totalCarbon: number) => {
-    const comparisons = [];
-    
-    // Car emissions comparison (average car emits ~4.6 metric tons CO2/year)
-    const carEmissions = 4600; // kg CO2/year
-    const carYears = totalCarbon / carEmissions;
-    if (carYears >= 0.1) {
-      comparisons.push(`${carYears.toFixed(1)} year${carYears !== 1 ? 's' : ''} of average car emissions`);
-    }
-    
-    // Flight comparison (one round-trip flight NY-London emits ~986 kg CO2)
-    const flightEmissions = 986; // kg CO2 per round trip
-    const flights = totalCarbon / flightEmissions;
-    if (flights >= 0.1) {
-      comparisons.push(`${flights.toFixed(1)} round-trip flight${flights !== 1 ? 's' : ''} (NY-London)`);
-    }
-    
-    // Household electricity comparison (average US household emits ~7.5 metric tons CO2/year)
-    const householdEmissions = 7500; // kg CO2/year
-    const householdYears = totalCarbon / householdEmissions;
-    if (householdYears >= 0.1) {
-      comparisons.push(`${householdYears.toFixed(1)} year${householdYears !== 1 ? 's' : ''} of average household electricity`);
-    }
-    
-    // Add area-specific comparisons for entire area mode
-    if (calculationMode === 'perArea' && selectedRegion) {
-      const area = calculateRegionArea(selectedRegion);
-      if (area > 0) {
-        // Carbon sequestration per hectare
-        const carbonPerHectare = (totalCarbon / 1000) / area;
-        comparisons.push(`${carbonPerHectare.toFixed(1)} metric tons CO₂ per hectare over ${years} years`);
-      }
-    }
-    
-    return comparisons;
+  // P10-P90 label for a result card while uncertainty ranges are available
+  const formatRange = (percentiles: Percentiles | null | undefined, format: (value: number) => string) => {
+    if (!uncertaintyResult || !percentiles) return null;
+    return `P10–P90: ${format(percentiles.p10)} – ${format(percentiles.p90)} (median ${format(percentiles.p50)})`;
   };
 
-  const comparisons = getComparisons(totalCarbon);
-
   // Call onDataReady when data is ready - wrapped in useEffect to avoid render-time state updates
   useEffect(() => {
     if (onDataReady && latitude && longitude && !loading && !error) {
@@ -1080,8 +743,13 @@ const ForestImpactCalculator: React.FC<ForestImpactCalculatorProps> = ({ latitud
           simulation: {
             years,
             selectedTrees: selectedTrees || (selectedTreeType ? [selectedTreeType] : []),
-            treePercentages: treePercentages || {}
-          }
+            treePercentages: treePercentages || {},
+            parameterOverrides: parameterOverrides || {},
+            growthModel,
+            climateScenario,
+            woodProductShares: woodProductShares || {}
+          },
+          currency: reportCurrency
         },
         environmentalData: {
           soil,
@@ -1096,10 +764,28 @@ const ForestImpactCalculator: React.FC<ForestImpactCalculatorProps> = ({ latitud
           totalCarbon,
           averageBiodiversity,
           averageResilience
-        }
+        },
+        timeSeries,
+        climateProjection: simulation.climateProjection,
+        carbonPayback: simulation.carbonPayback,
+        rotation: simulation.rotation,
+        selectiveHarvest: simulation.selectiveHarvest,
+        naturalRegeneration: simulation.naturalRegeneration,
+        agroforestry: simulation.agroforestry,
+        disturbance: simulation.disturbance,
+        climateSuitability: simulation.climateSuitability,
+        crediting: simulation.crediting,
+        employment: simulation.employment,
+        cashFlow: simulation.cashFlow,
+        mortality: survival && mortality ? { settings: mortality, ...survival } : null,
+        species,
+        carbonPools: simulation.carbonPools,
+        clearCutting: simulationMode === 'clear-cutting' ? clearCutting : null,
+        uncertainty: uncertaintyResult,
+        sensitivity
       });
     }
-  }, [onDataReady, latitude, longitude, loading, error, selectedRegion, years, selectedTrees, selectedTreeType, treePercentages, soil, climate, impact, totalCarbon, averageBiodiversity, averageResilience]);
+  }, [onDataReady, latitude, longitude, loading, error, selectedRegion, years, selectedTrees, selectedTreeType, treePercentages, soil, climate, impact, totalCarbon, averageBiodiversity, averageResilience, timeSeries, simulation.climateProjection, simulation.carbonPayback, simulation.rotation, simulation.selectiveHarvest, simulation.naturalRegeneration, simulation.agroforestry, simulation.disturbance, simulation.climateSuitability, simulation.crediting, simulation.cashFlow, simulation.employment, survival, mortality, species, simulation.carbonPools, simulationMode, clearCutting, uncertaintyResult, sensitivity, parameterOverrides, growthModel, climateScenario, woodProductShares, reportCurrency]);
 
   // Early return checks - must be after all hooks and calculations
   if (!latitude || !longitude) {
@@ -1199,56 +885,165 @@ const ForestImpactCalculator: React.FC<ForestImpactCalculatorProps> = ({ latitud
 
               {/* Environmental Impact Analysis */}
               <div className="mt-4">
+                {uncertainty?.enabled && (
+                  <div className="bg-primary/10 border border-primary/30 rounded-lg p-3 mb-3 text-xs text-primary" role="status">
+                    {uncertaintyResult
+                      ? `Ranges show P10–P90 of ${uncertaintyResult.iterations} Monte Carlo runs; headline values use the central inputs.`
+                      : `Running ${uncertainty.iterations} Monte Carlo simulations${uncertaintyProgress !== null ? ` (${Math.round(uncertaintyProgress * 100)}%)` : ''}...`
+                    }
+                  </div>
+                )}
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
                   <CollapsibleSection
-                    title={simulationMode === 'planting' ? "Annual Carbon Sequestration" : "Immediate Carbon Release"}
+                    title={!isHarvestMode(simulationMode) ? "Annual Carbon Sequestration" : "Carbon Released at Harvest"}
                     value={calculationMode === 'perTree' 
-                      ? simulationMode === 'planting'
-                        ? `+${calculateAnnualCarbonWithGrowth(impact.carbonSequestration, years).toFixed(1)} kg CO₂/yr`
-                        : `${calculateClearCuttingCarbon(impact.carbonSequestration, averageTreeAge, years).immediate.toFixed(1)} kg CO₂`
-                      : simulationMode === 'planting'
-                        ? `+${(calculateAnnualCarbonWithGrowth(impact.carbonSequestration, years) / 1000).toFixed(1)} metric ton CO₂/yr`
-                        : `${formatTotalCarbon(calculateClearCuttingCarbon(impact.carbonSequestration, averageTreeAge, years).immediate * totalTrees)} metric tons CO₂`
+                      ? !isHarvestMode(simulationMode)
+                        ? `+${simulation.annualCarbon.toFixed(1)} kg CO₂/yr`
+                        : `${releasedAtHarvest.toFixed(1)} kg CO₂`
+                      : !isHarvestMode(simulationMode)
+                        ? `+${(simulation.annualCarbon / 1000).toFixed(1)} metric ton CO₂/yr`
+                        : `${formatTotalCarbon(releasedAtHarvest)} metric tons CO₂`
                     }
-                    description={calculationMode === 'perTree' 
-                      ? simulationMode === 'planting' 
-                        ? "Current year's carbon sequestration per tree based on growth stage. Trees start with low sequestration and increase as they mature over 20+ years."
-                        : `Carbon released immediately when cutting a ${averageTreeAge}-year-old tree. This represents the tree's current annual carbon sequestration rate.`
-                      : simulationMode === 'planting'
+                    description={selective
+                      ? selective.harvestYear !== null
+                        ? `Residue released when ${selective.settings.intensity}% of the ${selective.settings.basis === 'basalArea' ? 'basal area' : 'stems'} is felled in year ${selective.harvestYear}, at stand age ${selective.standAge}: ${formatTotalCarbon(selective.immediate)} of the ${formatTotalCarbon(selective.harvested)} ${calculationMode === 'perTree' ? 'kg' : 'metric tons'} CO₂ felled. The rest goes into wood products that release it as they decay.`
+                        : `The stand does not reach the minimum harvest age of ${selective.settings.minimumAge} years within ${years} years, so nothing is felled.`
+                      : calculationMode === 'perTree' 
+                      ? !isHarvestMode(simulationMode) 
+                        ? growthModel === 'allometric'
+                          ? "Current year's carbon sequestration per tree: the biomass the tree adds as it grows in diameter and height. Young trees add little; uptake peaks as they fill out and slows once the stand closes."
+                          : "Current year's carbon sequestration per tree based on growth stage. Trees start with low sequestration and follow their species' growth curve to maturity, declining again near the end of their lifespan."
+                        : `Residue released immediately when cutting a ${averageTreeAge}-year-old tree: ${clearCutting.immediate.toFixed(1)} of its ${clearCutting.harvested.toFixed(1)} kg CO₂ ${growthModel === 'allometric' ? 'above-ground biomass, estimated from its diameter, height and wood density' : 'trunk carbon'}. The rest goes into wood products that release it as they decay.`
+                      : !isHarvestMode(simulationMode)
                         ? `Current year's carbon sequestration for all ${totalTrees.toLocaleString()} trees in the selected area, based on tree growth stage. This is the yearly rate, not cumulative.`
-                        : `Carbon released immediately when cutting all ${totalTrees.toLocaleString()} trees at age ${averageTreeAge} years. This represents the current annual sequestration rate.`
+                        : `Residue released immediately when cutting all ${totalTrees.toLocaleString()} trees at age ${averageTreeAge} years. Carbon kept in sawnwood, panels and paper is released gradually as those products decay.`
+                    }
+                    range={!isHarvestMode(simulationMode)
+                      ? formatRange(uncertaintyResult?.annualCarbon, value => calculationMode === 'perTree' ? `${value.toFixed(1)} kg` : `${(value / 1000).toFixed(1)} t`)
+                      : null
                     }
                     isExpanded={expandedSections['annual-carbon'] || false}
                     onToggle={() => toggleSection('annual-carbon')}
                   />
                   
                   <CollapsibleSection
-                    title={simulationMode === 'planting' ? "Total Carbon" : "Total Carbon Emissions"}
-                    value={simulationMode === 'planting' 
+                    title={!isHarvestMode(simulationMode) ? "Total Carbon" : "Total Carbon Emissions"}
+                    value={!isHarvestMode(simulationMode) 
                       ? `+${formatTotalCarbon(totalCarbon)} ${getTotalCarbonUnit().replace('metric tons', 't').replace('kg CO₂', 'kg CO₂')}`
                       : calculationMode === 'perTree'
-                        ? `${formatTotalCarbon(calculateClearCuttingCarbon(impact.carbonSequestration, averageTreeAge, years).total)} kg CO₂`
-                        : `${formatTotalCarbon(calculateClearCuttingCarbon(impact.carbonSequestration, averageTreeAge, years).total)} metric tons CO₂`
+                        ? `${formatTotalCarbon(totalCarbon)} kg CO₂`
+                        : `${formatTotalCarbon(totalCarbon)} metric tons CO₂`
                     }
-                    description={calculationMode === 'perTree' 
-                      ? simulationMode === 'planting'
-                        ? (climate?.temperature !== null && climate?.temperature !== undefined && 
-                           climate?.precipitation !== null && climate?.precipitation !== undefined 
-                           ? "Total carbon sequestered per tree over the entire simulation period, accounting for tree growth and climate predictions"
-                           : "Total carbon sequestered per tree over the entire simulation period, accounting for tree growth (climate predictions excluded due to unavailable data)")
-                        : `Total carbon emissions per tree: immediate release (${calculateClearCuttingCarbon(impact.carbonSequestration, averageTreeAge, years).immediate.toFixed(1)} kg) + lost future sequestration (${calculateClearCuttingCarbon(impact.carbonSequestration, averageTreeAge, years).lostFuture.toFixed(1)} kg) over ${years} years`
-                      : simulationMode === 'planting'
-                        ? `Total carbon sequestered by all ${totalTrees.toLocaleString()} trees over the entire simulation period, accounting for tree growth and climate predictions`
-                        : `Total carbon emissions for all ${totalTrees.toLocaleString()} trees: immediate release + lost future sequestration over ${years} years when cut at age ${averageTreeAge}`
+                    description={simulationMode === 'rotation'
+                      ? `Carbon held after ${years} years by ${calculationMode === 'perTree' ? 'the managed tree' : `the managed stand of ${totalTrees.toLocaleString()} trees`} in its biomass, deadwood, litter and soil pools, plus the carbon still stored in wood products from its thinnings and final harvests`
+                      : regeneration
+                      ? `Total carbon stored after ${years} years ${calculationMode === 'perTree' ? 'per tree' : `by the naturally regenerating stand (target ${totalTrees.toLocaleString()} trees)`} across biomass, deadwood, litter and soil pools. Trees seed in over several years rather than all at once, so storage starts later than a planting would.`
+                      : agroforestrySummary
+                      ? `Total carbon stored after ${years} years ${calculationMode === 'perTree' ? 'per tree' : `by the ${totalTrees.toLocaleString()} trees planted in rows`} across biomass, deadwood, litter and soil pools. Rows leave the alleys free for crops, so there are fewer trees than a full planting of the same area.`
+                      : selective
+                      ? `Total carbon emissions against leaving the stand ${calculationMode === 'perTree' ? 'per tree' : `of ${totalTrees.toLocaleString()} trees`}: residue released at harvest + wood product decay + decay of felled roots and damaged trees + sequestration lost over ${years} years. The lost uptake shrinks as the residual stand grows back into the gaps.`
+                      : calculationMode === 'perTree' 
+                      ? !isHarvestMode(simulationMode)
+                        ? (simulation.hasClimateData
+                           ? `Total carbon stored per tree over the entire simulation period across biomass, deadwood, litter and soil pools, accounting for tree growth and the ${getClimateScenarioOption(climateScenario).name} climate projection`
+                           : "Total carbon stored per tree over the entire simulation period across biomass, deadwood, litter and soil pools, accounting for tree growth (climate predictions excluded due to unavailable data)")
+                        : `Total carbon emissions per tree: residue released at harvest (${clearCutting.immediate.toFixed(1)} kg) + wood product decay (${clearCutting.productEmissions.toFixed(1)} kg) + lost future sequestration (${clearCutting.lostFuture.toFixed(1)} kg) over ${years} years`
+                      : !isHarvestMode(simulationMode)
+                        ? `Total carbon stored by all ${totalTrees.toLocaleString()} trees over the entire simulation period across biomass, deadwood, litter and soil pools, accounting for tree growth${simulation.hasClimateData ? ` and the ${getClimateScenarioOption(climateScenario).name} climate projection` : ''}`
+                        : `Total carbon emissions for all ${totalTrees.toLocaleString()} trees: residue released at harvest + wood product decay + lost future sequestration over ${years} years when cut at age ${averageTreeAge}`
                     }
+                    range={formatRange(uncertaintyResult?.totalCarbon, value => `${formatTotalCarbon(value)} ${calculationMode === 'perTree' ? 'kg' : 't'}`)}
                     isExpanded={expandedSections['total-carbon'] || false}
                     onToggle={() => toggleSection('total-carbon')}
                   />
+
+                  {simulation.carbonPools && (
+                    <CarbonPoolBreakdown pools={simulation.carbonPools} calculationMode={calculationMode} />
+                  )}
+
+                  {simulationMode === 'clear-cutting' && clearCutting.harvested > 0 && (
+                    <WoodProductBreakdown clearCutting={clearCutting} totalTrees={totalTrees} years={years} calculationMode={calculationMode} />
+                  )}
+
+                  {selective && (
+                    <SelectiveHarvestBreakdown selectiveHarvest={selective} years={years} calculationMode={calculationMode} />
+                  )}
+
+                  {regeneration && (
+                    <NaturalRegenerationBreakdown naturalRegeneration={regeneration} totalCarbon={totalCarbon} years={years} calculationMode={calculationMode} currency={reportCurrency} />
+                  )}
+
+                  {agroforestrySummary && (
+                    <AgroforestryBreakdown agroforestry={agroforestrySummary} totalCarbon={totalCarbon} years={years} calculationMode={calculationMode} currency={reportCurrency} />
+                  )}
+
+                  {simulation.disturbance && (
+                    <DisturbanceBreakdown
+                      disturbance={simulation.disturbance}
+                      years={years}
+                      treesLostRange={uncertaintyResult?.disturbanceTreesLost}
+                      carbonLossRange={uncertaintyResult?.disturbanceCarbonLoss}
+                    />
+                  )}
+
+                  {simulation.climateSuitability && (
+                    <ClimateSuitabilityBreakdown
+                      suitability={simulation.climateSuitability}
+                      years={years}
+                      climateScenario={climateScenario}
+                      mortalityApplied={isMortalityApplied(simulationInput)}
+                    />
+                  )}
+
+                  {simulation.rotation && (
+                    <>
+                      <RotationHarvests rotation={simulation.rotation} calculationMode={calculationMode} currency={reportCurrency} />
+                      <CollapsibleSection
+                        title="Long-term Average Carbon Stock"
+                        value={`${formatTotalCarbon(simulation.rotation.averageCarbonStock)} ${calculationMode === 'perTree' ? 'kg' : 't'} CO₂`}
+                        description={`Carbon held on average over ${years} years in the stand's pools and in wood products from its harvests. A managed stand rises and falls with each rotation, so this average is a fairer measure of its storage than the carbon at any single year.`}
+                        isExpanded={expandedSections['rotation-average'] || false}
+                        onToggle={() => toggleSection('rotation-average')}
+                      />
+                    </>
+                  )}
+
+                  {simulation.carbonPayback && (
+                    <CollapsibleSection
+                      title="Carbon Payback"
+                      value={simulation.carbonPayback.paybackYear !== null ? `Year ${simulation.carbonPayback.paybackYear}` : `> ${years} years`}
+                      description={`Replanting with ${simulation.carbonPayback.replantSpecies.join(', ')} ${simulation.carbonPayback.paybackYear !== null ? 'repays' : 'does not repay'} the ${formatTotalCarbon(simulation.carbonPayback.carbonDebt)} ${calculationMode === 'perTree' ? 'kg' : 'metric tons'} CO₂ released by the harvest ${simulation.carbonPayback.paybackYear !== null ? `by year ${simulation.carbonPayback.paybackYear}` : `within ${years} years`}. ${simulation.carbonPayback.parityYear !== null ? `Harvest and replant catches up with leaving the stand in year ${simulation.carbonPayback.parityYear}.` : 'Leaving the stand stores more carbon for the whole simulation.'}`}
+                      isExpanded={expandedSections['carbon-payback'] || false}
+                      onToggle={() => toggleSection('carbon-payback')}
+                    />
+                  )}
+
+                  {treeSize && (
+                    <CollapsibleSection
+                      title="Tree Size"
+                      value={`${treeSize.dbh.toFixed(0)} cm DBH • ${treeSize.height.toFixed(0)} m`}
+                      description={`Average diameter at breast height and height of the planted trees after ${years} years. Trees grow toward each species' maximum height, and diameter growth slows once the canopy closes at the planting spacing.${growthModel === 'allometric' ? ' Carbon follows the biomass of trees this size.' : ''}`}
+                      isExpanded={expandedSections['tree-size'] || false}
+                      onToggle={() => toggleSection('tree-size')}
+                    />
+                  )}
+
+                  {survival && mortality && (
+                    <CollapsibleSection
+                      title="Surviving Trees"
+                      value={`${survival.survivingTrees.toLocaleString()} (${survival.survivalRate.toFixed(0)}%)`}
+                      description={`${survival.deadTrees.toLocaleString()} of ${survival.plantedTrees.toLocaleString()} planted trees die over ${years} years${mortality.enabled ? `: ${mortality.establishmentRate}%/yr during the first ${mortality.establishmentYears} years, then ${mortality.matureRate !== undefined ? `${mortality.matureRate}%/yr` : 'species-specific mature rates'}` : ''}${simulation.disturbance ? `${mortality.enabled ? ', with' : ','} ${Math.round(simulation.disturbance.totalTreesLost).toLocaleString()} lost to fire, drought, windthrow and pest outbreaks` : ''}. Dead trees move their carbon to the deadwood pool, where it decomposes.`}
+                      range={formatRange(uncertaintyResult?.survivingTrees, value => Math.round(value).toLocaleString())}
+                      isExpanded={expandedSections['survival'] || false}
+                      onToggle={() => toggleSection('survival')}
+                    />
+                  )}
                   
                   <CollapsibleSection
                     title="Biodiversity Impact"
                     value={`${averageBiodiversity.toFixed(1)}/5`}
                     description="Measures ecosystem diversity and habitat quality. Higher values indicate better biodiversity support and wildlife habitat creation."
+                    range={formatRange(uncertaintyResult?.averageBiodiversity, value => value.toFixed(1))}
                     isExpanded={expandedSections['biodiversity'] || false}
                     onToggle={() => toggleSection('biodiversity')}
                   />
@@ -1257,6 +1052,7 @@ const ForestImpactCalculator: React.FC<ForestImpactCalculatorProps> = ({ latitud
                     title="Forest Resilience"
                     value={`${averageResilience.toFixed(1)}/5`}
                     description="Forest's ability to withstand climate change, pests, and disturbances. Higher values indicate more resilient ecosystems."
+                    range={formatRange(uncertaintyResult?.averageResilience, value => value.toFixed(1))}
                     isExpanded={expandedSections['resilience'] || false}
                     onToggle={() => toggleSection('resilience')}
                   />
@@ -1265,17 +1061,21 @@ const ForestImpactCalculator: React.FC<ForestImpactCalculatorProps> = ({ latitud
                     title="Water Retention"
                     value={`${impact.waterRetention.toFixed(0)}%`}
                     description="Percentage of rainfall retained in soil and groundwater. Improves over time as tree roots develop and soil structure improves."
+                    range={formatRange(uncertaintyResult?.waterRetention, value => `${value.toFixed(0)}%`)}
                     isExpanded={expandedSections['water-retention'] || false}
                     onToggle={() => toggleSection('water-retention')}
                   />
                   
                   <CollapsibleSection
-                    title={simulationMode === 'planting' ? "Air Quality Improvement" : "Air Quality Impact"}
+                    title={!isHarvestMode(simulationMode) ? "Air Quality Improvement" : "Air Quality Impact"}
                     value={`${impact.airQualityImprovement.toFixed(0)}%`}
-                    description={simulationMode === 'planting' 
+                    description={!isHarvestMode(simulationMode) 
                       ? "Reduction in air pollution through particle filtration and oxygen production. Improves as trees mature and canopy develops."
-                      : "Degradation in air quality due to loss of trees. Negative values indicate air quality deterioration from removing forest cover."
+                      : simulationMode === 'selective-harvest'
+                        ? "Change in air quality after logging. The loss scales with the share of the stand felled or killed, so a light harvest keeps most of the forest's filtering."
+                        : "Degradation in air quality due to loss of trees. Negative values indicate air quality deterioration from removing forest cover."
                     }
+                    range={formatRange(uncertaintyResult?.airQuality, value => `${value.toFixed(0)}%`)}
                     isExpanded={expandedSections['air-quality'] || false}
                     onToggle={() => toggleSection('air-quality')}
                   />
@@ -1290,32 +1090,32 @@ const ForestImpactCalculator: React.FC<ForestImpactCalculatorProps> = ({ latitud
             <div className="space-y-3" role="tabpanel" id="social-panel" aria-labelledby="social-tab">
               <div className="bg-primary/10 border border-primary/30 rounded-lg p-3">
                 <h5 className="font-semibold text-green-800 mb-2 flex items-center">
-                  {simulationMode === 'planting' ? 'Community Benefits' : 'Social Impact Assessment'}
+                  {!isHarvestMode(simulationMode) ? 'Community Benefits' : 'Social Impact Assessment'}
                 </h5>
                 <div className="space-y-2 text-xs text-primary">
                   <div className="flex justify-between">
                     <span>Social Impact Score:</span>
                     <span className="font-medium">
-                      {socialImpact.toFixed(1)}/5
+                      {socialImpact.score.toFixed(1)}/5
                     </span>
                   </div>
                   <div className="flex justify-between">
-                    <span>{simulationMode === 'planting' ? 'Tree Diversity Bonus:' : 'Forest Diversity Factor:'}</span>
+                    <span>{!isHarvestMode(simulationMode) ? 'Tree Diversity Bonus:' : 'Forest Diversity Factor:'}</span>
                     <span className="font-medium">
-                      {selectedTrees && selectedTrees.length > 1 ? `+${Math.min(selectedTrees.length * 0.2, 1).toFixed(1)}` : '+0.0'}
+                      {!isHarvestMode(simulationMode) ? '+' : '-'}{socialImpact.diversityBonus.toFixed(1)}
                     </span>
                   </div>
                   <div className="flex justify-between">
-                    <span>{simulationMode === 'planting' ? 'Time Investment Bonus:' : 'Duration Impact:'}</span>
+                    <span>{!isHarvestMode(simulationMode) ? 'Time Investment Bonus:' : 'Duration Impact:'}</span>
                     <span className="font-medium">
-                      +{Math.min(years * 0.02, 1).toFixed(1)}
+                      {!isHarvestMode(simulationMode) ? '+' : '-'}{socialImpact.timeBonus.toFixed(1)}
                     </span>
                   </div>
                   {selectedRegion && (
                     <div className="flex justify-between">
-                      <span>{simulationMode === 'planting' ? 'Area Scale Bonus:' : 'Area Impact Factor:'}</span>
+                      <span>{!isHarvestMode(simulationMode) ? 'Area Scale Bonus:' : 'Area Impact Factor:'}</span>
                       <span className="font-medium">
-                        +{Math.min(calculateRegionArea(selectedRegion) * 0.1, 1).toFixed(1)}
+                        {!isHarvestMode(simulationMode) ? '+' : '-'}{socialImpact.areaBonus.toFixed(1)}
                       </span>
                     </div>
                   )}
@@ -1324,10 +1124,10 @@ const ForestImpactCalculator: React.FC<ForestImpactCalculatorProps> = ({ latitud
               
               <div className="bg-primary/10 border border-primary/30 rounded-lg p-3">
                 <h5 className="font-semibold text-green-800 mb-2 flex items-center">
-                  {simulationMode === 'planting' ? 'Social Benefits' : 'Social Considerations'}
+                  {!isHarvestMode(simulationMode) ? 'Social Benefits' : 'Social Considerations'}
                 </h5>
                 <ul className="text-xs text-primary space-y-1">
-                  {simulationMode === 'planting' ? (
+                  {!isHarvestMode(simulationMode) ? (
                     <>
                   <li>• Recreational opportunities and outdoor activities</li>
                   <li>• Educational value for environmental learning</li>
@@ -1350,7 +1150,7 @@ const ForestImpactCalculator: React.FC<ForestImpactCalculatorProps> = ({ latitud
               </div>
               
               <div className="text-xs text-gray-500 italic">
-                {simulationMode === 'planting' 
+                {!isHarvestMode(simulationMode) 
                   ? 'Social impact increases with tree diversity, time investment, and project scale'
                   : 'Social impact assessment considers community concerns, cultural values, and long-term environmental awareness'
                 }
@@ -1360,34 +1160,48 @@ const ForestImpactCalculator: React.FC<ForestImpactCalculatorProps> = ({ latitud
 
           {activeEnvTab === 'economic' && (
             <div className="space-y-3" role="tabpanel" id="economic-panel" aria-labelledby="economic-tab">
-              <div className="bg-primary/10 border border-primary/30 rounded-lg p-3">
-                <h5 className="font-semibold text-green-800 mb-2 flex items-center">
-                  {simulationMode === 'planting' ? 'Employment Impact' : 'Economic Impact'}
-                </h5>
-                <div className="space-y-2 text-xs text-primary">
-                  <div className="flex justify-between">
-                    <span className="font-semibold">
-                      {simulationMode === 'planting' ? 'Jobs Created:' : 'Jobs Affected:'}
-                    </span>
-                    <span className="font-medium">
-                      {economicImpact.jobCreation} jobs
-                    </span>
-                  </div>
-                  <div className="text-xs text-primary mt-2">
-                    {simulationMode === 'planting' 
-                      ? 'Based on typical forest project staffing needs for planting, maintenance, and monitoring.'
-                      : 'Based on typical forest management operations including logging, transportation, and processing activities.'
-                    }
+              <CurrencySelector settings={currencySettings} onChange={updateCurrencySettings} />
+
+              {simulation.cashFlow && (
+                <CashFlowBreakdown cashFlow={simulation.cashFlow} years={years} calculationMode={calculationMode} netCreditable={!!simulation.crediting} currency={reportCurrency} />
+              )}
+
+              {simulation.crediting && (
+                <CreditingBreakdown crediting={simulation.crediting} calculationMode={calculationMode} />
+              )}
+
+              {simulation.employment ? (
+                <EmploymentBreakdown employment={simulation.employment} years={years} />
+              ) : (
+                <div className="bg-primary/10 border border-primary/30 rounded-lg p-3">
+                  <h5 className="font-semibold text-green-800 mb-2 flex items-center">
+                    {!isHarvestMode(simulationMode) ? 'Employment Impact' : 'Economic Impact'}
+                  </h5>
+                  <div className="space-y-2 text-xs text-primary">
+                    <div className="flex justify-between">
+                      <span className="font-semibold">
+                        {!isHarvestMode(simulationMode) ? 'Jobs Created:' : 'Jobs Affected:'}
+                      </span>
+                      <span className="font-medium">
+                        {economicImpact.jobCreation} jobs
+                      </span>
+                    </div>
+                    <div className="text-xs text-primary mt-2">
+                      {!isHarvestMode(simulationMode) 
+                        ? 'Based on typical forest project staffing needs for planting, maintenance, and monitoring.'
+                        : 'Based on typical forest management operations including logging, transportation, and processing activities.'
+                      }
+                    </div>
                   </div>
                 </div>
-              </div>
+              )}
               
               <div className="bg-primary/10 border border-primary/30 rounded-lg p-3">
                 <h5 className="font-semibold text-green-800 mb-2 flex items-center">
-                  {simulationMode === 'planting' ? 'Conservation Benefits' : 'Economic Considerations'}
+                  {!isHarvestMode(simulationMode) ? 'Conservation Benefits' : 'Economic Considerations'}
                 </h5>
                 <ul className="text-xs text-primary space-y-1">
-                  {simulationMode === 'planting' ? (
+                  {!isHarvestMode(simulationMode) ? (
                     <>
                   <li>• Conservation and restoration employment opportunities</li>
                   <li>• Ecosystem services (clean water, air quality improvement)</li>
@@ -1417,14 +1231,14 @@ const ForestImpactCalculator: React.FC<ForestImpactCalculatorProps> = ({ latitud
             <div className="space-y-3" role="tabpanel" id="landuse-panel" aria-labelledby="landuse-tab">
               <div className="bg-primary/10 border border-primary/30 rounded-lg p-3">
                 <h5 className="font-semibold text-green-800 mb-2 flex items-center">
-                  {simulationMode === 'planting' ? 'Land Use Improvements' : 'Land Use Impact Assessment'}
+                  {!isHarvestMode(simulationMode) ? 'Land Use Improvements' : 'Land Use Impact Assessment'}
                 </h5>
                 <div className="space-y-2 text-xs text-primary">
                   {selectedRegion && (
                     <div className="flex justify-between">
-                      <span>{simulationMode === 'planting' ? 'Erosion Reduction:' : 'Erosion Risk Increase:'}</span>
+                      <span>{!isHarvestMode(simulationMode) ? 'Erosion Reduction:' : 'Erosion Risk Increase:'}</span>
                       <span className="font-medium">
-                        {simulationMode === 'planting' 
+                        {!isHarvestMode(simulationMode) 
                           ? `${landUseImpact.erosionReduction.toFixed(0)}%`
                           : `${(100 - landUseImpact.erosionReduction).toFixed(0)}%`
                         }
@@ -1432,9 +1246,9 @@ const ForestImpactCalculator: React.FC<ForestImpactCalculatorProps> = ({ latitud
                     </div>
                   )}
                   <div className="flex justify-between">
-                    <span>{simulationMode === 'planting' ? 'Soil Quality Improvement:' : 'Soil Quality Degradation:'}</span>
+                    <span>{!isHarvestMode(simulationMode) ? 'Soil Quality Improvement:' : 'Soil Quality Degradation:'}</span>
                     <span className="font-medium">
-                      {simulationMode === 'planting' 
+                      {!isHarvestMode(simulationMode) 
                         ? `${landUseImpact.soilImprovement.toFixed(0)}%`
                         : `${(100 - landUseImpact.soilImprovement).toFixed(0)}%`
                       }
@@ -1442,9 +1256,9 @@ const ForestImpactCalculator: React.FC<ForestImpactCalculatorProps> = ({ latitud
                   </div>
                   {selectedRegion && (
                     <div className="flex justify-between">
-                      <span>{simulationMode === 'planting' ? 'Habitat Creation:' : 'Habitat Loss:'}</span>
+                      <span>{!isHarvestMode(simulationMode) ? 'Habitat Creation:' : 'Habitat Loss:'}</span>
                       <span className="font-medium">
-                        {simulationMode === 'planting' 
+                        {!isHarvestMode(simulationMode) 
                           ? `${landUseImpact.habitatCreation.toFixed(0)}%`
                           : `${(100 - landUseImpact.habitatCreation).toFixed(0)}%`
                         }
@@ -1452,9 +1266,9 @@ const ForestImpactCalculator: React.FC<ForestImpactCalculatorProps> = ({ latitud
                     </div>
                   )}
                   <div className="flex justify-between">
-                    <span>{simulationMode === 'planting' ? 'Water Quality Improvement:' : 'Water Quality Degradation:'}</span>
+                    <span>{!isHarvestMode(simulationMode) ? 'Water Quality Improvement:' : 'Water Quality Degradation:'}</span>
                     <span className="font-medium">
-                      {simulationMode === 'planting' 
+                      {!isHarvestMode(simulationMode) 
                         ? `${landUseImpact.waterQuality.toFixed(0)}%`
                         : `${(100 - landUseImpact.waterQuality).toFixed(0)}%`
                       }
@@ -1465,10 +1279,10 @@ const ForestImpactCalculator: React.FC<ForestImpactCalculatorProps> = ({ latitud
               
               <div className="bg-primary/10 border border-primary/30 rounded-lg p-3">
                 <h5 className="font-semibold text-green-800 mb-2 flex items-center">
-                  {simulationMode === 'planting' ? 'Land Use Benefits' : 'Land Use Impacts'}
+                  {!isHarvestMode(simulationMode) ? 'Land Use Benefits' : 'Land Use Impacts'}
                 </h5>
                 <ul className="text-xs text-primary space-y-1">
-                  {simulationMode === 'planting' ? (
+                  {!isHarvestMode(simulationMode) ? (
                     <>
                   <li>• Soil erosion prevention and stabilization</li>
                   <li>• Improved soil fertility and structure</li>
@@ -1491,7 +1305,7 @@ const ForestImpactCalculator: React.FC<ForestImpactCalculatorProps> = ({ latitud
               </div>
               
               <div className="text-xs text-gray-500 italic">
-                {simulationMode === 'planting' 
+                {!isHarvestMode(simulationMode) 
                   ? 'Land use improvements increase over time as the forest develops and matures'
                   : 'Land use impacts represent the environmental costs of forest removal and land conversion'
                 }
@@ -1501,6 +1315,34 @@ const ForestImpactCalculator: React.FC<ForestImpactCalculatorProps> = ({ latitud
         </div>
       </div>
 
+      {/* Year-by-year trajectories */}
+      <div className="mb-4">
+        <h4 className="font-semibold mb-2">Simulation Trajectories</h4>
+        <SimulationCharts
+          timeSeries={timeSeries}
+          simulationMode={simulationMode}
+          calculationMode={calculationMode}
+          carbonPayback={simulation.carbonPayback}
+          species={species}
+          uncertainty={uncertaintyResult}
+        />
+      </div>
+
+      {/* Which assumptions drive the results */}
+      {sensitivityResult && (
+        <div className="mb-4">
+          <h4 className="font-semibold mb-2">
+            Sensitivity Analysis
+            {sensitivityPending && <span className="ml-2 text-xs font-normal text-gray-500">Updating…</span>}
+          </h4>
+          <SensitivityTornado
+            result={sensitivityResult}
+            calculationMode={calculationMode}
+            onVariationChange={setSensitivityVariation}
+          />
+        </div>
+      )}
+
       {selectedTrees && selectedTrees.length > 0 && (
         <div className="mb-4 flex flex-col bg-white rounded shadow p-4 max-w-3xl w-full">
           <span className="text-xs font-bold text-gray-700 mb-2">
@@ -1512,12 +1354,28 @@ const ForestImpactCalculator: React.FC<ForestImpactCalculatorProps> = ({ latitud
           <ul className="space-y-2 text-xs text-gray-700">
             {selectedTrees.map((tree) => {
               const percentage = treePercentages?.[tree.id] || 0;
+              const cohort = species.find(entry => entry.speciesId === tree.id);
               return (
-                <li key={tree.id} className="flex flex-col sm:flex-row sm:items-center sm:gap-2 break-words">
-                  <span className="font-medium">{tree.name} <span className="font-normal text-gray-500">- {tree.scientificName}</span></span>
-                  <span className="text-gray-600">({tree.carbonSequestration} kg CO₂/year)</span>
-                  {selectedTrees.length > 1 && percentage > 0 && (
-                    <span className="text-primary font-medium">({percentage}%)</span>
+                <li key={tree.id} className="flex flex-col break-words">
+                  <div className="flex flex-col sm:flex-row sm:items-center sm:gap-2">
+                    <span className="font-medium">{tree.name} <span className="font-normal text-gray-500">- {tree.scientificName}</span></span>
+                    <span className="text-gray-600">({tree.carbonSequestration} kg CO₂/year)</span>
+                    {selectedTrees.length > 1 && percentage > 0 && (
+                      <span className="text-primary font-medium">({percentage}%)</span>
+                    )}
+                  </div>
+                  {(simulationMode === 'planting' || simulationMode === 'natural-regeneration' || simulationMode === 'agroforestry') && cohort && cohort.height > 0 && (
+                    <span className="text-gray-500">
+                      ~{cohort.dbh.toFixed(0)} cm diameter (DBH), {cohort.height.toFixed(0)} m tall after {years} years
+                    </span>
+                  )}
+                  {selectedTrees.length > 1 && cohort && (
+                    <span className="text-gray-500">
+                      {calculationMode === 'perArea' && (
+                        <>{Math.round(cohort.plantedTrees).toLocaleString()} {simulationMode === 'natural-regeneration' ? 'targeted' : 'planted'} at {cohort.spacing}m{simulationMode !== 'clear-cutting' && <> • {cohort.survivingTrees.toLocaleString()} surviving</>} • </>
+                      )}
+                      {formatTotalCarbon(cohort.totalCarbon)} {calculationMode === 'perTree' ? 'kg' : 't'} CO₂ {!isHarvestMode(simulationMode) ? 'sequestered' : 'lost'} ({cohort.carbonShare.toFixed(0)}% of species total)
+                    </span>
                   )}
                 </li>
               );
@@ -1545,7 +1403,11 @@ const ForestImpactCalculator: React.FC<ForestImpactCalculatorProps> = ({ latitud
         <div className="mb-4 p-4 bg-primary/10 border border-primary/30 rounded-lg">
           <h4 className="font-semibold text-primary mb-2">Real-world Impact Comparison</h4>
           <p className="text-xs text-primary mb-2 font-bold">
-            This forest would sequester the equivalent of:
+            {!isHarvestMode(simulationMode)
+              ? 'This forest would sequester the equivalent of:'
+              : simulationMode === 'selective-harvest'
+                ? 'Logging this forest would emit the equivalent of:'
+                : 'Clearing this forest would emit the equivalent of:'}
           </p>
           <ul className="text-xs text-primary space-y-1">
             {comparisons.map((comparison, index) => {
@@ -0,0 +1,79 @@
+"use client";
+
+import React from 'react';
+import { CalculationMode, NaturalRegenerationSummary } from '@/utils/simulationEngine';
+import { ReportCurrency, USD, convertFromUsd, formatMoney } from '@/utils/currency';
+
+interface NaturalRegenerationBreakdownProps {
+  naturalRegeneration: NaturalRegenerationSummary;
+  totalCarbon: number;
+  years: number;
+  calculationMode?: CalculationMode;
+  currency?: ReportCurrency;
+}
+
+const NaturalRegenerationBreakdown: React.FC<NaturalRegenerationBreakdownProps> = ({ naturalRegeneration, totalCarbon, years, calculationMode = 'perArea', currency = USD }) => {
+  // Stand totals are shown in tonnes in per-area mode
+  const scale = calculationMode === 'perArea' ? 1000 : 1;
+  const unit = calculationMode === 'perArea' ? 't CO₂' : 'kg CO₂';
+  const formatCarbon = (value: number) => `${(value / scale).toFixed(1)} ${unit}`;
+  const formatCost = (value: number) => formatMoney(convertFromUsd(value, currency), currency.code);
+  const { settings } = naturalRegeneration;
+  const carbonShare = naturalRegeneration.plantingCarbon > 0 ? totalCarbon / naturalRegeneration.plantingCarbon * 100 : 0;
+
+  return (
+    <div className="bg-white rounded shadow p-4">
+      <div className="text-xs text-gray-900 font-bold mb-2">Natural Regeneration</div>
+
+      <div className="space-y-1 text-xs text-gray-700">
+        <div className="flex justify-between">
+          <span>Seedlings recruited per hectare per year</span>
+          <span className="font-medium">{Math.round(naturalRegeneration.recruitmentRate).toLocaleString()}</span>
+        </div>
+        <div className="flex justify-between">
+          <span>First seedlings / fully stocked</span>
+          <span className="font-medium">
+            {naturalRegeneration.firstRecruitmentYear !== null ? `Year ${naturalRegeneration.firstRecruitmentYear}` : `> ${years} years`}
+            {' / '}
+            {naturalRegeneration.stockedYear !== null ? `Year ${naturalRegeneration.stockedYear}` : `> ${years} years`}
+          </span>
+        </div>
+        {calculationMode === 'perArea' && (
+          <div className="flex justify-between">
+            <span>Trees established / planting target</span>
+            <span className="font-medium">{Math.round(naturalRegeneration.establishedTrees).toLocaleString()} / {Math.round(naturalRegeneration.targetTrees).toLocaleString()}</span>
+          </div>
+        )}
+        <div className="flex justify-between">
+          <span>Regional regrowth factor</span>
+          <span className="font-medium">×{naturalRegeneration.regrowthFactor.toFixed(1)}</span>
+        </div>
+      </div>
+
+      <div className="mt-3 space-y-1 border-t border-gray-100 pt-2 text-xs text-gray-700">
+        <div className="flex justify-between font-semibold text-gray-900">
+          <span>Compared with planting</span>
+          <span>{settings.assisted ? 'ANR' : 'Natural'} / Planting</span>
+        </div>
+        <div className="flex justify-between">
+          <span>Carbon after {years} years</span>
+          <span className="font-medium">{formatCarbon(totalCarbon)} / {formatCarbon(naturalRegeneration.plantingCarbon)}</span>
+        </div>
+        {calculationMode === 'perArea' && (
+          <div className="flex justify-between">
+            <span>Establishment cost</span>
+            <span className="font-medium">{formatCost(naturalRegeneration.establishmentCost)} / {formatCost(naturalRegeneration.plantingCost)}</span>
+          </div>
+        )}
+      </div>
+
+      <p className="mt-2 text-xs text-gray-500">
+        Seed rain from forest {settings.seedSourceDistance} m away reaches the site, and the stand stores {carbonShare.toFixed(0)}% of the carbon a planting of the same species would. {settings.assisted
+          ? 'Assisted natural regeneration protects and weeds the seedlings, so they establish sooner and in greater numbers.'
+          : 'Nothing is planted, so there is no planting cost, but the first seedlings take a few years to establish.'}
+      </p>
+    </div>
+  );
+};
+
+export default NaturalRegenerationBreakdown;
@@ -0,0 +1,68 @@
+"use client";
+
+import React from 'react';
+import { CalculationMode, RotationSummary } from '@/utils/simulationEngine';
+import { ReportCurrency, USD, convertFromUsd, formatMoney } from '@/utils/currency';
+
+interface RotationHarvestsProps {
+  rotation: RotationSummary;
+  calculationMode?: CalculationMode;
+  currency?: ReportCurrency;
+}
+
+const RotationHarvests: React.FC<RotationHarvestsProps> = ({ rotation, calculationMode = 'perArea', currency = USD }) => {
+  // Stand totals are shown in tonnes in per-area mode
+  const scale = calculationMode === 'perArea' ? 1000 : 1;
+  const unit = calculationMode === 'perArea' ? 't CO₂' : 'kg CO₂';
+  const formatCost = (value: number) => formatMoney(convertFromUsd(value, currency), currency.code);
+  const { settings } = rotation;
+
+  return (
+    <div className="bg-white rounded shadow p-4">
+      <div className="text-xs text-gray-900 font-bold mb-2">Rotation Harvests</div>
+
+      <div className="space-y-1 text-xs text-gray-700">
+        <div className="flex justify-between">
+          <span>Rotations started / completed</span>
+          <span className="font-medium">{rotation.cycles} / {rotation.completedRotations}</span>
+        </div>
+        <div className="flex justify-between">
+          <span>Total removals</span>
+          <span className="font-medium">{(rotation.totalRemovals / scale).toFixed(1)} {unit}</span>
+        </div>
+        <div className="flex justify-between">
+          <span>Timber revenue</span>
+          <span className="font-medium">{formatCost(rotation.totalRevenue)}</span>
+        </div>
+        <div className="flex justify-between">
+          <span>Average standing stock</span>
+          <span className="font-medium">{(rotation.averageStandingStock / scale).toFixed(1)} {unit}</span>
+        </div>
+      </div>
+
+      {rotation.harvests.length > 0 ? (
+        <div className="mt-3 max-h-40 overflow-y-auto border-t border-gray-100 pt-2">
+          {rotation.harvests.map(harvest => (
+            <div key={harvest.year} className="flex justify-between text-xs text-gray-600 py-0.5">
+              <span>
+                Year {harvest.year}: {harvest.type === 'final' ? 'final harvest' : 'thinning'}
+                <span className="text-gray-500"> (age {harvest.standAge})</span>
+              </span>
+              <span className="font-medium">
+                {(harvest.removals / scale).toFixed(1)} {unit} • {formatCost(harvest.revenue)}
+              </span>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="mt-3 text-xs text-gray-500">No thinning or harvest falls within the simulation period.</p>
+      )}
+
+      <p className="mt-2 text-xs text-gray-500">
+        Stands are clear-felled every {settings.rotationLength} years{settings.thinnings.length > 0 ? ` and thinned at age ${settings.thinnings.map(thinning => thinning.year).join(', ')}` : ''}. {settings.replant ? `The site is replanted ${settings.replantDelay === 0 ? 'straight away' : `after ${settings.replantDelay} year${settings.replantDelay === 1 ? '' : 's'}`}.` : 'The site is left bare after the final harvest.'} Revenue values each harvested tree by its size relative to a mature tree.
+      </p>
+    </div>
+  );
+};
+
+export default RotationHarvests;
@@ -0,0 +1,93 @@
+"use client";
+
+import React from 'react';
+import { CalculationMode, SelectiveHarvestSummary } from '@/utils/simulationEngine';
+
+interface SelectiveHarvestBreakdownProps {
+  selectiveHarvest: SelectiveHarvestSummary;
+  years: number;
+  calculationMode?: CalculationMode;
+}
+
+const SelectiveHarvestBreakdown: React.FC<SelectiveHarvestBreakdownProps> = ({ selectiveHarvest, years, calculationMode = 'perArea' }) => {
+  // Stand totals are shown in tonnes in per-area mode
+  const scale = calculationMode === 'perArea' ? 1000 : 1;
+  const unit = calculationMode === 'perArea' ? 't CO₂' : 'kg CO₂';
+  const formatCarbon = (value: number) => `${(value / scale).toFixed(1)} ${unit}`;
+  const { settings } = selectiveHarvest;
+
+  if (selectiveHarvest.harvestYear === null) {
+    return (
+      <div className="bg-white rounded shadow p-4">
+        <div className="text-xs text-gray-900 font-bold mb-2">Selective Harvest</div>
+        <p className="text-xs text-gray-500">
+          The stand does not reach the minimum harvest age of {settings.minimumAge} years within the {years}-year simulation, so no trees are felled.
+        </p>
+      </div>
+    );
+  }
+
+  const rows = [
+    { label: 'Residue released at harvest', value: selectiveHarvest.immediate },
+    { label: `Released by wood products over ${years} years`, value: selectiveHarvest.productEmissions },
+    { label: 'Released by deadwood (roots and damaged trees)', value: selectiveHarvest.deadwoodEmissions },
+    { label: 'Uptake lost against leaving the stand', value: selectiveHarvest.lostSequestration }
+  ];
+
+  return (
+    <div className="bg-white rounded shadow p-4">
+      <div className="text-xs text-gray-900 font-bold mb-2">Selective Harvest</div>
+
+      <div className="space-y-1 text-xs text-gray-700">
+        <div className="flex justify-between">
+          <span>Harvest year (stand age)</span>
+          <span className="font-medium">Year {selectiveHarvest.harvestYear} ({selectiveHarvest.standAge} years)</span>
+        </div>
+        {calculationMode === 'perArea' && (
+          <div className="flex justify-between">
+            <span>Trees felled / killed by damage</span>
+            <span className="font-medium">{Math.round(selectiveHarvest.felledTrees).toLocaleString()} / {Math.round(selectiveHarvest.damagedTrees).toLocaleString()}</span>
+          </div>
+        )}
+        <div className="flex justify-between">
+          <span>Stems / basal area felled</span>
+          <span className="font-medium">{selectiveHarvest.stemsRemoved.toFixed(0)}% / {selectiveHarvest.basalAreaRemoved.toFixed(0)}%</span>
+        </div>
+        <div className="flex justify-between">
+          <span>Stand disturbed</span>
+          <span className="font-medium">{selectiveHarvest.disturbance.toFixed(0)}%</span>
+        </div>
+      </div>
+
+      <div className="mt-3 space-y-1 border-t border-gray-100 pt-2">
+        {rows.map(row => (
+          <div key={row.label} className="flex justify-between text-xs text-gray-700">
+            <span>{row.label}</span>
+            <span className="font-medium">{formatCarbon(row.value)}</span>
+          </div>
+        ))}
+        <div className="flex justify-between text-xs text-gray-900 font-semibold">
+          <span>Total emissions</span>
+          <span>{formatCarbon(selectiveHarvest.total)}</span>
+        </div>
+      </div>
+
+      <div className="mt-3 space-y-1 border-t border-gray-100 pt-2 text-xs text-gray-700">
+        <div className="flex justify-between">
+          <span>Uptake regained by the residual stand</span>
+          <span className="font-medium">{formatCarbon(selectiveHarvest.recoveryUptake)}</span>
+        </div>
+        <div className="flex justify-between">
+          <span>Still stored in wood products</span>
+          <span className="font-medium">{formatCarbon(selectiveHarvest.storedInProducts)}</span>
+        </div>
+      </div>
+
+      <p className="mt-2 text-xs text-gray-500">
+        {settings.intensity}% of the {settings.basis === 'basalArea' ? 'basal area' : 'stems'} is felled and {settings.damageRate}% of the remaining trees are killed by felling and skidding. Felled stems go into wood products; their roots and the damaged trees decay as deadwood, and the residual stand grows back into the gaps.
+      </p>
+    </div>
+  );
+};
+
+export default SelectiveHarvestBreakdown;
@@ -0,0 +1,146 @@
+"use client";
+
+import React, { useMemo, useState } from 'react';
+import { CalculationMode } from '@/utils/simulationEngine';
+import { SensitivityResult, SensitivityMetric, SENSITIVITY_METRICS, sortBySwing } from '@/utils/sensitivity';
+import { formatAxisValue } from '@/utils/chartUtils';
+
+interface SensitivityTornadoProps {
+  result: SensitivityResult;
+  calculationMode?: CalculationMode;
+  onVariationChange?: (variation: number) => void;
+}
+
+const VARIATION_OPTIONS = [10, 20, 30, 50];
+
+const LOW_COLOR = '#b45309';
+const HIGH_COLOR = '#1B4D3E';
+
+// Chart geometry (SVG user units)
+const WIDTH = 560;
+const LABEL_WIDTH = 150;
+const ROW_HEIGHT = 30;
+const BAR_HEIGHT = 16;
+const TOP = 18;
+const RIGHT_PADDING = 56;
+
+const SensitivityTornado: React.FC<SensitivityTornadoProps> = ({ result, calculationMode = 'perArea', onVariationChange }) => {
+  const [metric, setMetric] = useState<SensitivityMetric>('totalCarbon');
+
+  const isCarbon = metric === 'totalCarbon' || metric === 'annualCarbon';
+  const scale = isCarbon && calculationMode === 'perArea' ? 1000 : 1;
+  const unit = isCarbon ? (calculationMode === 'perArea' ? ' t CO₂' : ' kg CO₂') : metric === 'waterRetention' || metric === 'airQuality' ? '%' : '/5';
+
+  const entries = useMemo(() => sortBySwing(result, metric), [result, metric]);
+  const base = result.base[metric];
+
+  // Symmetric axis around the base value, sized by the largest deviation
+  const maxDeviation = Math.max(
+    ...entries.flatMap(entry => [Math.abs(entry.low[metric] - base), Math.abs(entry.high[metric] - base)]),
+    Math.abs(base) * 0.01,
+    1e-6
+  );
+  const plotLeft = LABEL_WIDTH + RIGHT_PADDING;
+  const plotRight = WIDTH - RIGHT_PADDING;
+  const center = (plotLeft + plotRight) / 2;
+  const halfWidth = (plotRight - plotLeft) / 2;
+  const xScale = (value: number) => center + ((value - base) / maxDeviation) * halfWidth;
+  const height = TOP + entries.length * ROW_HEIGHT + 8;
+
+  const format = (value: number) => `${formatAxisValue(value / scale)}${unit}`;
+
+  return (
+    <div className="bg-white rounded shadow p-3 space-y-2">
+      <div className="flex flex-wrap items-center gap-2" role="group" aria-label="Sensitivity metric">
+        {SENSITIVITY_METRICS.map(option => (
+          <button
+            key={option.key}
+            onClick={() => setMetric(option.key)}
+            aria-pressed={metric === option.key}
+            className={`px-2 py-1 text-xs rounded border transition-colors ${
+              metric === option.key ? 'border-primary bg-primary/10 text-primary' : 'border-gray-300 text-gray-500 hover:bg-gray-50'
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+        {onVariationChange && (
+          <label className="flex items-center gap-1 text-xs text-gray-600 ml-auto">
+            Variation
+            <select
+              value={result.variation}
+              onChange={(e) => onVariationChange(parseInt(e.target.value))}
+              className="px-2 py-1 text-xs border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-primary"
+            >
+              {VARIATION_OPTIONS.map(option => (
+                <option key={option} value={option}>±{option}%</option>
+              ))}
+            </select>
+          </label>
+        )}
+      </div>
+
+      <svg viewBox={`0 0 ${WIDTH} ${height}`} className="w-full h-auto" role="img" aria-label={`Sensitivity of ${SENSITIVITY_METRICS.find(option => option.key === metric)?.label}`}>
+        <text x={center} y={10} textAnchor="middle" fontSize={10} fill="#6b7280">Base: {format(base)}</text>
+        <line x1={center} x2={center} y1={TOP - 4} y2={height - 4} stroke="#9ca3af" />
+
+        {entries.map((entry, i) => {
+          const y = TOP + i * ROW_HEIGHT + (ROW_HEIGHT - BAR_HEIGHT) / 2;
+          // Larger change first so a smaller change in the same direction is drawn on top
+          const sides = [
+            { key: 'low', value: entry.low[metric], input: entry.lowInput, color: LOW_COLOR },
+            { key: 'high', value: entry.high[metric], input: entry.highInput, color: HIGH_COLOR }
+          ].sort((a, b) => Math.abs(b.value - base) - Math.abs(a.value - base));
+          const sameDirection = Math.sign(sides[0].value - base) === Math.sign(sides[1].value - base);
+
+          return (
+            <g key={entry.parameter}>
+              <text x={LABEL_WIDTH - 6} y={y + BAR_HEIGHT / 2 + 3} textAnchor="end" fontSize={10} fill="#374151">{entry.label}</text>
+              {sides.map((side, sideIndex) => {
+                const x = xScale(side.value);
+                const left = Math.min(center, x);
+                const barWidth = Math.abs(x - center);
+                const labelRight = side.value >= base;
+                const nested = sameDirection && sideIndex === 1;
+                const offset = nested ? 3 : 0;
+
+                return (
+                  <g key={side.key}>
+                    <rect x={left} y={y + offset} width={Math.max(barWidth, 0.5)} height={BAR_HEIGHT - offset * 2} fill={side.color} opacity={0.85}>
+                      <title>{`${entry.label} ${side.input}: ${format(side.value)} (${side.value - base >= 0 ? '+' : ''}${format(side.value - base)})`}</title>
+                    </rect>
+                    {barWidth > 0 && !nested && (
+                      <text
+                        x={labelRight ? left + barWidth + 3 : left - 3}
+                        y={y + BAR_HEIGHT / 2 + 3}
+                        textAnchor={labelRight ? 'start' : 'end'}
+                        fontSize={9}
+                        fill="#6b7280"
+                      >
+                        {side.input}
+                      </text>
+                    )}
+                  </g>
+                );
+              })}
+            </g>
+          );
+        })}
+      </svg>
+
+      <div className="flex flex-wrap gap-3 text-xs text-gray-600">
+        <span className="flex items-center gap-1">
+          <span className="inline-block w-2 h-2 rounded-full" style={{ backgroundColor: LOW_COLOR }} />
+          Low input
+        </span>
+        <span className="flex items-center gap-1">
+          <span className="inline-block w-2 h-2 rounded-full" style={{ backgroundColor: HIGH_COLOR }} />
+          High input
+        </span>
+        <span>Each bar moves one input while the others stay at their central values.</span>
+      </div>
+    </div>
+  );
+};
+
+export default SensitivityTornado;
@@ -0,0 +1,414 @@
+"use client";
+
+import React, { useMemo, useState } from 'react';
+import { SimulationYear, CarbonPayback, SimulationMode, CalculationMode, SpeciesResult, isHarvestMode } from '@/utils/simulationEngine';
+import { ChartSeries, DEFAULT_CHART_LAYOUT, buildLineChart, formatAxisValue, stackSeries } from '@/utils/chartUtils';
+import { UncertaintyResult, UncertaintyYear } from '@/utils/monteCarlo';
+import { CARBON_POOL_KEYS } from '@/utils/carbonPools';
+import { WOOD_PRODUCT_KEYS } from '@/utils/harvestedWood';
+
+type SeriesKey = 'cumulativeCarbon' | 'standingStock' | 'annualCarbon' | 'removals' | 'harvestEmissions' | 'livingTrees' | 'deadTrees' | 'biodiversity' | 'resilience' | 'waterRetention' | 'airQuality' | 'growthModifier' | 'cropOutput';
+type ChartGroup = 'cumulative' | 'annual' | 'trees' | 'score' | 'percent' | 'modifier' | 'crop';
+type BandKey = Exclude<keyof UncertaintyYear, 'year'>;
+type SpeciesMetric = 'cumulativeCarbon' | 'livingTrees' | 'carbonShare' | 'dbh' | 'height';
+
+interface SeriesDefinition {
+  key: SeriesKey;
+  label: string;
+  color: string;
+  group: ChartGroup;
+}
+
+interface SimulationChartsProps {
+  timeSeries: SimulationYear[];
+  simulationMode?: SimulationMode;
+  calculationMode?: CalculationMode;
+  carbonPayback?: CarbonPayback | null;
+  species?: SpeciesResult[];
+  uncertainty?: UncertaintyResult | null;
+}
+
+// Line colors for species cohorts, reused in order
+const SPECIES_COLORS = ['#1B4D3E', '#b45309', '#2563eb', '#7c3aed', '#0f766e', '#be123c', '#ca8a04', '#4d7c0f'];
+
+const BAND_KEYS: SeriesKey[] = ['cumulativeCarbon', 'annualCarbon', 'livingTrees', 'biodiversity', 'resilience', 'waterRetention', 'airQuality'];
+
+const DEFAULT_VISIBLE: SeriesKey[] = ['cumulativeCarbon', 'standingStock', 'annualCarbon', 'removals', 'harvestEmissions', 'livingTrees', 'deadTrees', 'biodiversity', 'resilience', 'waterRetention', 'airQuality', 'cropOutput'];
+
+const getSeriesDefinitions = (simulationMode: SimulationMode): SeriesDefinition[] => [
+  { key: 'cumulativeCarbon', label: !isHarvestMode(simulationMode) ? 'Cumulative carbon' : 'Cumulative emissions', color: '#1B4D3E', group: 'cumulative' },
+  // Carbon in the living trees, which drops at every thinning and final harvest
+  ...(simulationMode === 'rotation' ? [{ key: 'standingStock' as const, label: 'Standing stock', color: '#0f766e', group: 'cumulative' as const }] : []),
+  { key: 'annualCarbon', label: !isHarvestMode(simulationMode) ? 'Annual carbon' : 'Annual emissions', color: '#4d7c0f', group: 'annual' },
+  ...(simulationMode === 'rotation' || simulationMode === 'selective-harvest' ? [{ key: 'removals' as const, label: 'Removals', color: '#92400e', group: 'annual' as const }] : []),
+  // Residue and wood product decay, part of the annual emissions of a harvest
+  ...(isHarvestMode(simulationMode) || simulationMode === 'rotation' ? [{ key: 'harvestEmissions' as const, label: 'Harvest & product emissions', color: '#b45309', group: 'annual' as const }] : []),
+  { key: 'livingTrees', label: 'Surviving trees', color: '#0f766e', group: 'trees' },
+  { key: 'deadTrees', label: 'Dead trees', color: '#78716c', group: 'trees' },
+  { key: 'biodiversity', label: 'Biodiversity', color: '#7c3aed', group: 'score' },
+  { key: 'resilience', label: 'Resilience', color: '#2563eb', group: 'score' },
+  { key: 'waterRetention', label: 'Water retention', color: '#0284c7', group: 'percent' },
+  { key: 'airQuality', label: 'Air quality', color: '#ca8a04', group: 'percent' },
+  { key: 'growthModifier', label: 'Climate growth modifier', color: '#b91c1c', group: 'modifier' },
+  // Alley crop harvested each year, falling as the tree rows shade it
+  ...(simulationMode === 'agroforestry' ? [{ key: 'cropOutput' as const, label: 'Crop output', color: '#a16207', group: 'crop' as const }] : [])
+];
+
+const getGroupTitle = (group: ChartGroup, carbonUnit: string): string => {
+  switch (group) {
+    case 'cumulative': return `Cumulative Carbon (${carbonUnit})`;
+    case 'annual': return `Annual Carbon (${carbonUnit}/yr)`;
+    case 'trees': return 'Surviving & Dead Trees';
+    case 'score': return 'Biodiversity & Resilience (/5)';
+    case 'percent': return 'Water Retention & Air Quality (%)';
+    case 'modifier': return 'Climate Growth Modifier (×)';
+    case 'crop': return 'Alley Crop Output (t/yr)';
+  }
+};
+
+interface ChartPanelProps {
+  title: string;
+  years: number[];
+  series: ChartSeries[];
+  markerYear?: number | null;
+  markerLabel?: string;
+}
+
+export const ChartPanel: React.FC<ChartPanelProps> = ({ title, years, series, markerYear, markerLabel }) => {
+  const [hoverIndex, setHoverIndex] = useState<number | null>(null);
+  const layout = DEFAULT_CHART_LAYOUT;
+  const geometry = useMemo(() => buildLineChart(years, series, layout), [years, series, layout]);
+  const { plot } = geometry;
+
+  const handleMouseMove = (event: React.MouseEvent<SVGSVGElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const x = ((event.clientX - rect.left) / rect.width) * layout.width;
+    const year = Math.round(geometry.xFromPosition(x));
+    const index = years.indexOf(Math.max(years[0], Math.min(years[years.length - 1], year)));
+    setHoverIndex(index >= 0 ? index : null);
+  };
+
+  const hoverX = hoverIndex !== null ? geometry.xScale(years[hoverIndex]) : null;
+
+  return (
+    <div className="bg-white rounded shadow p-3">
+      <div className="text-xs text-gray-900 font-bold mb-2">{title}</div>
+      <div className="relative">
+        <svg
+          viewBox={`0 0 ${layout.width} ${layout.height}`}
+          className="w-full h-auto"
+          role="img"
+          aria-label={title}
+          onMouseMove={handleMouseMove}
+          onMouseLeave={() => setHoverIndex(null)}
+        >
+          {geometry.yTicks.map(tick => (
+            <g key={`y-${tick.value}`}>
+              <line x1={plot.left} x2={plot.right} y1={tick.position} y2={tick.position} stroke="#e5e7eb" />
+              <text x={plot.left - 6} y={tick.position + 3} textAnchor="end" fontSize={10} fill="#6b7280">{tick.label}</text>
+            </g>
+          ))}
+          {geometry.xTicks.map(tick => (
+            <text key={`x-${tick.value}`} x={tick.position} y={plot.bottom + 14} textAnchor="middle" fontSize={10} fill="#6b7280">{tick.label}</text>
+          ))}
+          <line x1={plot.left} x2={plot.right} y1={plot.bottom} y2={plot.bottom} stroke="#9ca3af" />
+
+          {markerYear !== undefined && markerYear !== null && (
+            <g>
+              <line
+                x1={geometry.xScale(markerYear)}
+                x2={geometry.xScale(markerYear)}
+                y1={plot.top}
+                y2={plot.bottom}
+                stroke="#b45309"
+                strokeDasharray="4 3"
+              />
+              {markerLabel && (
+                <text x={geometry.xScale(markerYear) + 4} y={plot.top + 10} fontSize={10} fill="#b45309">{markerLabel}</text>
+              )}
+            </g>
+          )}
+
+          {geometry.lines.map(line => line.areaPath && (
+            <path key={`area-${line.key}`} d={line.areaPath} fill={line.color} fillOpacity={0.6} stroke="none" />
+          ))}
+
+          {geometry.lines.map(line => line.bandPath && (
+            <path key={`band-${line.key}`} d={line.bandPath} fill={line.color} fillOpacity={0.15} stroke="none" />
+          ))}
+
+          {geometry.lines.map(line => (
+            <path
+              key={line.key}
+              d={line.path}
+              fill="none"
+              stroke={line.color}
+              strokeWidth={2}
+              strokeDasharray={line.dashed ? '5 4' : undefined}
+            />
+          ))}
+
+          {hoverX !== null && hoverIndex !== null && (
+            <g pointerEvents="none">
+              <line x1={hoverX} x2={hoverX} y1={plot.top} y2={plot.bottom} stroke="#6b7280" strokeWidth={1} />
+              {geometry.lines.map(line => (
+                <circle key={line.key} cx={line.points[hoverIndex][0]} cy={line.points[hoverIndex][1]} r={3} fill={line.color} />
+              ))}
+            </g>
+          )}
+        </svg>
+
+        {hoverX !== null && hoverIndex !== null && (
+          <div
+            className="absolute top-0 pointer-events-none bg-white border border-gray-200 rounded shadow px-2 py-1 text-xs text-gray-700 whitespace-nowrap"
+            style={{
+              left: `${(hoverX / layout.width) * 100}%`,
+              transform: hoverX > layout.width / 2 ? 'translateX(calc(-100% - 8px))' : 'translateX(8px)'
+            }}
+            role="status"
+          >
+            <div className="font-semibold">Year {years[hoverIndex]}</div>
+            {series.map(s => (
+              <div key={s.key} className="flex items-center gap-1">
+                <span className="inline-block w-2 h-2 rounded-full" style={{ backgroundColor: s.color }} />
+                <span>{s.label}:</span>
+                <span className="font-medium">{formatAxisValue(s.values[hoverIndex] - (s.baseline?.[hoverIndex] ?? 0))}</span>
+                {s.band && (
+                  <span className="text-gray-500">
+                    (P10 {formatAxisValue(s.band.lower[hoverIndex])}
+                    {s.band.median && <> · P50 {formatAxisValue(s.band.median[hoverIndex])}</>}
+                    {' '}· P90 {formatAxisValue(s.band.upper[hoverIndex])})
+                  </span>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const SimulationCharts: React.FC<SimulationChartsProps> = ({
+  timeSeries,
+  simulationMode = 'planting',
+  calculationMode = 'perArea',
+  carbonPayback,
+  species = [],
+  uncertainty
+}) => {
+  const [visibleSeries, setVisibleSeries] = useState<SeriesKey[]>(DEFAULT_VISIBLE);
+  const [speciesMetric, setSpeciesMetric] = useState<SpeciesMetric>('cumulativeCarbon');
+
+  const definitions = useMemo(() => getSeriesDefinitions(simulationMode), [simulationMode]);
+  const years = useMemo(() => timeSeries.map(point => point.year), [timeSeries]);
+
+  // Show whole-area carbon in metric tons, per-tree carbon in kg
+  const carbonScale = calculationMode === 'perArea' ? 1000 : 1;
+  const carbonUnit = calculationMode === 'perArea' ? 't CO₂' : 'kg CO₂';
+
+  // Monte Carlo percentiles, ignored while they still belong to a previous run
+  const bands = uncertainty && uncertainty.timeSeries.length === timeSeries.length ? uncertainty.timeSeries : null;
+
+  const groups = useMemo(() => {
+    const result: Array<{ group: ChartGroup; series: ChartSeries[] }> = [];
+
+    definitions.forEach(definition => {
+      if (!visibleSeries.includes(definition.key)) return;
+
+      const isCarbon = definition.group === 'cumulative' || definition.group === 'annual';
+      const scale = isCarbon ? carbonScale : 1;
+      const values = timeSeries.map(point => point[definition.key] / scale);
+      const existing = result.find(entry => entry.group === definition.group);
+      const chartSeries: ChartSeries = { key: definition.key, label: definition.label, color: definition.color, values };
+
+      if (bands && BAND_KEYS.includes(definition.key)) {
+        const bandKey = definition.key as BandKey;
+        chartSeries.band = {
+          lower: bands.map(point => point[bandKey].p10 / scale),
+          median: bands.map(point => point[bandKey].p50 / scale),
+          upper: bands.map(point => point[bandKey].p90 / scale)
+        };
+      }
+
+      if (existing) {
+        existing.series.push(chartSeries);
+      } else {
+        result.push({ group: definition.group, series: [chartSeries] });
+      }
+    });
+
+    return result;
+  }, [definitions, visibleSeries, timeSeries, carbonScale, bands]);
+
+  const speciesMetrics: Array<{ key: SpeciesMetric; label: string; title: string }> = [
+    { key: 'cumulativeCarbon', label: 'Carbon', title: `Cumulative Carbon by Species (${carbonUnit})` },
+    ...(simulationMode !== 'clear-cutting' ? [{ key: 'livingTrees' as const, label: 'Survivors', title: 'Surviving Trees by Species' }] : []),
+    { key: 'carbonShare', label: 'Share', title: 'Share of Species Carbon (%)' },
+    ...(simulationMode !== 'clear-cutting' ? [
+      { key: 'dbh' as const, label: 'Diameter', title: 'Diameter at Breast Height by Species (cm)' },
+      { key: 'height' as const, label: 'Height', title: 'Tree Height by Species (m)' }
+    ] : [])
+  ];
+  const activeSpeciesMetric = speciesMetrics.find(metric => metric.key === speciesMetric) ?? speciesMetrics[0];
+  const metricKey = activeSpeciesMetric.key;
+
+  // One line per species cohort for the selected metric
+  const speciesSeries = useMemo(() => species.map((entry, i) => ({
+    key: entry.speciesId,
+    label: entry.name,
+    color: SPECIES_COLORS[i % SPECIES_COLORS.length],
+    values: timeSeries.map(point => {
+      const value = point.species[i]?.[metricKey] ?? 0;
+      return metricKey === 'cumulativeCarbon' ? value / carbonScale : value;
+    })
+  })), [species, timeSeries, metricKey, carbonScale]);
+
+  // Stacked carbon pools for planted stands
+  const poolSeries = useMemo(() => timeSeries[0]?.pools
+    ? stackSeries(CARBON_POOL_KEYS.map(pool => ({
+        key: pool.key,
+        label: pool.label,
+        color: pool.color,
+        values: timeSeries.map(point => (point.pools?.[pool.key] ?? 0) / carbonScale)
+      })))
+    : null, [timeSeries, carbonScale]);
+
+  // Stacked carbon still held in harvested wood products
+  const productSeries = useMemo(() => timeSeries[0]?.woodProducts
+    ? stackSeries(WOOD_PRODUCT_KEYS.map(product => ({
+        key: product.key,
+        label: product.label,
+        color: product.color,
+        values: timeSeries.map(point => (point.woodProducts?.[product.key] ?? 0) / carbonScale)
+      })))
+    : null, [timeSeries, carbonScale]);
+
+  // Cumulative harvest-and-replant carbon against leaving the stand
+  const paybackSeries = useMemo(() => carbonPayback && carbonPayback.timeline.length > 0
+    ? [
+        { key: 'released', label: 'Released by harvest', color: '#b91c1c', values: carbonPayback.timeline.map(point => point.released / carbonScale) },
+        { key: 'replanted', label: 'Taken up by replanting', color: '#16a34a', values: carbonPayback.timeline.map(point => point.replanted / carbonScale) },
+        { key: 'net', label: 'Harvest & replant, net', color: '#2563eb', values: carbonPayback.timeline.map(point => (point.replanted - point.released) / carbonScale) },
+        { key: 'standing', label: 'Leaving the stand', color: '#6b7280', values: carbonPayback.timeline.map(point => point.standing / carbonScale) }
+      ]
+    : null, [carbonPayback, carbonScale]);
+
+  const toggleSeries = (key: SeriesKey) => {
+    setVisibleSeries(prev => prev.includes(key) ? prev.filter(k => k !== key) : [...prev, key]);
+  };
+
+  if (timeSeries.length === 0) {
+    return null;
+  }
+
+  const paybackYear = carbonPayback?.paybackYear ?? null;
+  const parityYear = carbonPayback?.parityYear ?? null;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-2" role="group" aria-label="Toggle chart series">
+        {definitions.map(definition => {
+          const active = visibleSeries.includes(definition.key);
+          return (
+            <button
+              key={definition.key}
+              onClick={() => toggleSeries(definition.key)}
+              aria-pressed={active}
+              className={`flex items-center gap-1 px-2 py-1 text-xs rounded border transition-colors ${
+                active ? 'border-primary bg-primary/10 text-primary' : 'border-gray-300 text-gray-500 hover:bg-gray-50'
+              }`}
+            >
+              <span className="inline-block w-2 h-2 rounded-full" style={{ backgroundColor: active ? definition.color : '#d1d5db' }} />
+              {definition.label}
+            </button>
+          );
+        })}
+      </div>
+
+      {carbonPayback && (
+        <div className="text-xs text-gray-600">
+          {paybackYear !== null
+            ? <>Replanting with {carbonPayback.replantSpecies.join(', ')} repays the harvest carbon debt in <span className="font-semibold">year {paybackYear}</span>.</>
+            : <>Replanting with {carbonPayback.replantSpecies.join(', ')} does not repay the harvest carbon debt within {timeSeries.length} years.</>
+          }
+          {' '}The debt grows as wood products decay.
+          {' '}{parityYear !== null
+            ? <>Harvest and replant catches up with leaving the stand in <span className="font-semibold">year {parityYear}</span>.</>
+            : <>Leaving the stand stays ahead for the whole simulation.</>
+          }
+        </div>
+      )}
+
+      {bands && uncertainty && (
+        <div className="text-xs text-gray-600">
+          Shaded bands show the P10–P90 range of {uncertainty.iterations} Monte Carlo runs.
+        </div>
+      )}
+
+      {groups.map(({ group, series }) => (
+        <ChartPanel
+          key={group}
+          title={getGroupTitle(group, carbonUnit)}
+          years={years}
+          series={series}
+          markerYear={group === 'cumulative' || group === 'annual' ? paybackYear : null}
+          markerLabel="Carbon debt repaid"
+        />
+      ))}
+
+      {paybackSeries && (
+        <ChartPanel
+          title={`Harvest & Replant vs Leaving the Stand, cumulative (${carbonUnit})`}
+          years={years}
+          series={paybackSeries}
+          markerYear={paybackYear}
+          markerLabel="Carbon debt repaid"
+        />
+      )}
+
+      {poolSeries && (
+        <ChartPanel
+          title={`Carbon Pools, stacked (${carbonUnit})`}
+          years={years}
+          series={poolSeries}
+        />
+      )}
+
+      {productSeries && (
+        <ChartPanel
+          title={`Carbon in Wood Products, stacked (${carbonUnit})`}
+          years={years}
+          series={productSeries}
+        />
+      )}
+
+      {species.length > 1 && (
+        <div className="space-y-2">
+          <div className="flex flex-wrap items-center gap-2" role="group" aria-label="Species metric">
+            <span className="text-xs font-bold text-gray-700">By species:</span>
+            {speciesMetrics.map(metric => (
+              <button
+                key={metric.key}
+                onClick={() => setSpeciesMetric(metric.key)}
+                aria-pressed={activeSpeciesMetric.key === metric.key}
+                className={`px-2 py-1 text-xs rounded border transition-colors ${
+                  activeSpeciesMetric.key === metric.key ? 'border-primary bg-primary/10 text-primary' : 'border-gray-300 text-gray-500 hover:bg-gray-50'
+                }`}
+              >
+                {metric.label}
+              </button>
+            ))}
+          </div>
+          <ChartPanel
+            title={activeSpeciesMetric.title}
+            years={years}
+            series={speciesSeries}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SimulationCharts;
@@ -12,6 +12,23 @@ import {
   getRecommendedSpacing
 } from '@/utils/treePlanting';
 import { ExportData } from '@/utils/exportUtils';
+import { MortalitySettings, DEFAULT_MORTALITY_SETTINGS } from '@/utils/treeMortality';
+import { DisturbanceSettings, DEFAULT_DISTURBANCE_SETTINGS } from '@/utils/disturbance';
+import { UncertaintySettings, DEFAULT_UNCERTAINTY_SETTINGS, DistributionType, ITERATION_OPTIONS } from '@/utils/monteCarlo';
+import { CARBON_POOLS } from '@/utils/constants';
+import { estimateSoilCarbonStock, estimateSoilCarbonGain } from '@/utils/carbonPools';
+import { GrowthModel, DEFAULT_GROWTH_MODEL, GROWTH_MODEL_OPTIONS } from '@/utils/allometry';
+import { ClimateScenario, ClimateChange, DEFAULT_CLIMATE_SCENARIO, CLIMATE_SCENARIO_OPTIONS, getClimateChange, getClimateRegion, getClimateScenarioOption } from '@/utils/climateScenarios';
+import { WoodProductOverrides, WoodProductKey, WOOD_PRODUCT_KEYS, getDefaultWoodProductShares, getResidueShare, resolveWoodProductShares } from '@/utils/harvestedWood';
+import { RotationSettings, ThinningEvent, DEFAULT_ROTATION_SETTINGS, MAX_ROTATION_LENGTH } from '@/utils/rotationForestry';
+import { SelectiveHarvestSettings, DEFAULT_SELECTIVE_HARVEST_SETTINGS, HARVEST_INTENSITY_BASES } from '@/utils/selectiveHarvest';
+import { NaturalRegenerationSettings, DEFAULT_NATURAL_REGENERATION_SETTINGS, MAX_SEED_SOURCE_DISTANCE } from '@/utils/naturalRegeneration';
+import { AgroforestrySettings, DEFAULT_AGROFORESTRY_SETTINGS, AGROFORESTRY_CROPS, MIN_ALLEY_WIDTH, MAX_ALLEY_WIDTH, calculateAgroforestryLayout, calculateAgroforestryPlanting, getAgroforestryCrop } from '@/utils/agroforestry';
+import { CashFlowSettings, DEFAULT_CASH_FLOW_SETTINGS, MAX_DISCOUNT_RATE } from '@/utils/cashFlow';
+import { CREDITING_BASELINE_TYPES, CreditingBaselineType, CreditingSettings, DEFAULT_CREDITING_SETTINGS } from '@/utils/carbonCrediting';
+import { CARBON_PRICE_PATH_TYPES, CarbonPricePathType, CarbonPriceScenario, MAX_PRICE_SCENARIOS, MAX_VERIFICATION_INTERVAL, parsePriceTable } from '@/utils/carbonPricing';
+import { SimulationMode, isHarvestMode } from '@/utils/simulationEngine';
+import { ShareableState } from '@/utils/shareableLink';
 
 // Types for soil and climate data
 interface SoilData {
@@ -32,30 +49,30 @@ interface ClimateData {
 
 // CollapsibleSection component and interface removed as they're unused
 
-// Helper function for climate trend calculation
-const calculateLinearTrend = (years: number[], values: number[]): number => {
-  if (years.length !== values.length || years.length < 2) return 0;
-  
-  const n = years.length;
-  const sumX = years.reduce((a, b) => a + b, 0);
-  const sumY = values.reduce((a, b) => a + b, 0);
-  const sumXY = years.reduce((sum, year, i) => sum + year * values[i], 0);
-  const sumXX = years.reduce((sum, year) => sum + year * year, 0);
-  
-  return (n * sumXY - sumX * sumY) / (n * sumXX - sumX * sumX);
-};
-
 interface TreePlantingCalculatorProps {
   selectedRegion: RegionBounds | null;
   selectedTreeType: TreeType | null;
   selectedTrees?: TreeType[];
   treePercentages?: { [key: string]: number };
   onDataReady?: (data: Partial<ExportData>) => void;
-  simulationMode?: 'planting' | 'clear-cutting';
+  simulationMode?: SimulationMode;
   years?: number;
   onYearsChange?: (years: number) => void;
   onCalculationModeChange?: (mode: 'perTree' | 'perArea') => void;
   onTreeAgeChange?: (age: number) => void;
+  onMortalityChange?: (settings: MortalitySettings) => void;
+  onDisturbanceChange?: (settings: DisturbanceSettings) => void;
+  onUncertaintyChange?: (settings: UncertaintySettings) => void;
+  onGrowthModelChange?: (model: GrowthModel) => void;
+  onClimateScenarioChange?: (scenario: ClimateScenario) => void;
+  onWoodProductSharesChange?: (shares: WoodProductOverrides) => void;
+  onRotationChange?: (settings: RotationSettings) => void;
+  onSelectiveHarvestChange?: (settings: SelectiveHarvestSettings) => void;
+  onNaturalRegenerationChange?: (settings: NaturalRegenerationSettings) => void;
+  onAgroforestryChange?: (settings: AgroforestrySettings) => void;
+  onCashFlowChange?: (settings: CashFlowSettings) => void;
+  onCreditingChange?: (settings: CreditingSettings) => void;
+  initialSettings?: Partial<ShareableState>; // Starting values, e.g. from a share link; later changes are reported through the callbacks
   soil?: SoilData | null;
   climate?: ClimateData | null;
 }
@@ -71,12 +88,37 @@ const TreePlantingCalculator: React.FC<TreePlantingCalculatorProps> = ({
   onYearsChange,
   onCalculationModeChange,
   onTreeAgeChange,
+  onMortalityChange,
+  onDisturbanceChange,
+  onUncertaintyChange,
+  onGrowthModelChange,
+  onClimateScenarioChange,
+  onWoodProductSharesChange,
+  onRotationChange,
+  onSelectiveHarvestChange,
+  onNaturalRegenerationChange,
+  onAgroforestryChange,
+  onCashFlowChange,
+  onCreditingChange,
+  initialSettings,
   soil,
   climate
 }) => {
   const [customSpacing, setCustomSpacing] = useState<number | undefined>();
-  const [calculationMode, setCalculationMode] = useState<'perTree' | 'perArea'>('perArea');
-  const [averageTreeAge, setAverageTreeAge] = useState<number>(20); // Default to 20 years for mature forests
+  const [calculationMode, setCalculationMode] = useState<'perTree' | 'perArea'>(initialSettings?.calculationMode ?? 'perArea');
+  const [averageTreeAge, setAverageTreeAge] = useState<number>(initialSettings?.averageTreeAge ?? 20); // Default to 20 years for mature forests
+  const [mortalitySettings, setMortalitySettings] = useState<MortalitySettings>(initialSettings?.mortality ?? DEFAULT_MORTALITY_SETTINGS);
+  const [disturbanceSettings, setDisturbanceSettings] = useState<DisturbanceSettings>(initialSettings?.disturbance ?? DEFAULT_DISTURBANCE_SETTINGS);
+  const [uncertaintySettings, setUncertaintySettings] = useState<UncertaintySettings>(initialSettings?.uncertainty ?? DEFAULT_UNCERTAINTY_SETTINGS);
+  const [growthModel, setGrowthModel] = useState<GrowthModel>(initialSettings?.growthModel ?? DEFAULT_GROWTH_MODEL);
+  const [climateScenario, setClimateScenario] = useState<ClimateScenario>(initialSettings?.climateScenario ?? DEFAULT_CLIMATE_SCENARIO);
+  const [woodProductShares, setWoodProductShares] = useState<WoodProductOverrides>(initialSettings?.woodProductShares ?? {});
+  const [rotationSettings, setRotationSettings] = useState<RotationSettings>(initialSettings?.rotation ?? DEFAULT_ROTATION_SETTINGS);
+  const [selectiveHarvestSettings, setSelectiveHarvestSettings] = useState<SelectiveHarvestSettings>(initialSettings?.selectiveHarvest ?? DEFAULT_SELECTIVE_HARVEST_SETTINGS);
+  const [naturalRegenerationSettings, setNaturalRegenerationSettings] = useState<NaturalRegenerationSettings>(initialSettings?.naturalRegeneration ?? DEFAULT_NATURAL_REGENERATION_SETTINGS);
+  const [agroforestrySettings, setAgroforestrySettings] = useState<AgroforestrySettings>(initialSettings?.agroforestry ?? DEFAULT_AGROFORESTRY_SETTINGS);
+  const [cashFlowSettings, setCashFlowSettings] = useState<CashFlowSettings>(initialSettings?.cashFlow ?? DEFAULT_CASH_FLOW_SETTINGS);
+  const [creditingSettings, setCreditingSettings] = useState<CreditingSettings>(initialSettings?.crediting ?? DEFAULT_CREDITING_SETTINGS);
 
   // Notify parent when calculation mode changes
   useEffect(() => {
@@ -92,6 +134,199 @@ const TreePlantingCalculator: React.FC<TreePlantingCalculatorProps> = ({
     }
   }, [averageTreeAge, onTreeAgeChange]);
 
+  // Notify parent when mortality settings change
+  useEffect(() => {
+    if (onMortalityChange) {
+      onMortalityChange(mortalitySettings);
+    }
+  }, [mortalitySettings, onMortalityChange]);
+
+  // Notify parent when disturbance settings change
+  useEffect(() => {
+    if (onDisturbanceChange) {
+      onDisturbanceChange(disturbanceSettings);
+    }
+  }, [disturbanceSettings, onDisturbanceChange]);
+
+  // Notify parent when the growth model changes
+  useEffect(() => {
+    if (onGrowthModelChange) {
+      onGrowthModelChange(growthModel);
+    }
+  }, [growthModel, onGrowthModelChange]);
+
+  // Notify parent when the climate scenario changes
+  useEffect(() => {
+    if (onClimateScenarioChange) {
+      onClimateScenarioChange(climateScenario);
+    }
+  }, [climateScenario, onClimateScenarioChange]);
+
+  // Notify parent when wood product shares change
+  useEffect(() => {
+    if (onWoodProductSharesChange) {
+      onWoodProductSharesChange(woodProductShares);
+    }
+  }, [woodProductShares, onWoodProductSharesChange]);
+
+  // Empty input restores the species default
+  const updateWoodProductShare = (speciesId: string, key: WoodProductKey, rawValue: string) => {
+    setWoodProductShares(prev => {
+      const speciesShares = { ...prev[speciesId] };
+      const value = parseFloat(rawValue);
+      if (rawValue === '' || !isFinite(value)) {
+        delete speciesShares[key];
+      } else {
+        speciesShares[key] = Math.max(0, Math.min(100, value));
+      }
+
+      const next = { ...prev, [speciesId]: speciesShares };
+      if (Object.keys(speciesShares).length === 0) delete next[speciesId];
+      return next;
+    });
+  };
+
+  // Notify parent when rotation settings change
+  useEffect(() => {
+    if (onRotationChange) {
+      onRotationChange(rotationSettings);
+    }
+  }, [rotationSettings, onRotationChange]);
+
+  const updateRotation = (changes: Partial<RotationSettings>) => {
+    setRotationSettings(prev => ({ ...prev, ...changes }));
+  };
+
+  const updateThinning = (index: number, changes: Partial<ThinningEvent>) => {
+    setRotationSettings(prev => ({
+      ...prev,
+      thinnings: prev.thinnings.map((thinning, i) => i === index ? { ...thinning, ...changes } : thinning)
+    }));
+  };
+
+  // New thinnings go halfway between the last one and the final harvest
+  const addThinning = () => {
+    setRotationSettings(prev => {
+      const lastYear = prev.thinnings.length > 0 ? Math.max(...prev.thinnings.map(thinning => thinning.year)) : 0;
+      return {
+        ...prev,
+        thinnings: [...prev.thinnings, { year: Math.max(1, Math.round((lastYear + prev.rotationLength) / 2)), percentRemoved: 20 }]
+      };
+    });
+  };
+
+  const removeThinning = (index: number) => {
+    setRotationSettings(prev => ({ ...prev, thinnings: prev.thinnings.filter((_, i) => i !== index) }));
+  };
+
+  // Notify parent when selective harvest settings change
+  useEffect(() => {
+    if (onSelectiveHarvestChange) {
+      onSelectiveHarvestChange(selectiveHarvestSettings);
+    }
+  }, [selectiveHarvestSettings, onSelectiveHarvestChange]);
+
+  const updateSelectiveHarvest = (changes: Partial<SelectiveHarvestSettings>) => {
+    setSelectiveHarvestSettings(prev => ({ ...prev, ...changes }));
+  };
+
+  // Notify parent when natural regeneration settings change
+  useEffect(() => {
+    if (onNaturalRegenerationChange) {
+      onNaturalRegenerationChange(naturalRegenerationSettings);
+    }
+  }, [naturalRegenerationSettings, onNaturalRegenerationChange]);
+
+  const updateNaturalRegeneration = (changes: Partial<NaturalRegenerationSettings>) => {
+    setNaturalRegenerationSettings(prev => ({ ...prev, ...changes }));
+  };
+
+  // Notify parent when agroforestry settings change
+  useEffect(() => {
+    if (onAgroforestryChange) {
+      onAgroforestryChange(agroforestrySettings);
+    }
+  }, [agroforestrySettings, onAgroforestryChange]);
+
+  const updateAgroforestry = (changes: Partial<AgroforestrySettings>) => {
+    setAgroforestrySettings(prev => ({ ...prev, ...changes }));
+  };
+
+  // Notify parent when the cash flow settings change
+  useEffect(() => {
+    if (onCashFlowChange) {
+      onCashFlowChange(cashFlowSettings);
+    }
+  }, [cashFlowSettings, onCashFlowChange]);
+
+  const updateCashFlow = (changes: Partial<CashFlowSettings>) => {
+    setCashFlowSettings(prev => ({ ...prev, ...changes }));
+  };
+
+  const updatePriceScenario = (index: number, changes: Partial<CarbonPriceScenario>) => {
+    setCashFlowSettings(prev => ({
+      ...prev,
+      priceScenarios: prev.priceScenarios.map((scenario, i) => i === index ? { ...scenario, ...changes } : scenario)
+    }));
+  };
+
+  // New scenarios start from the last one so a single value can be varied
+  const addPriceScenario = () => {
+    setCashFlowSettings(prev => ({
+      ...prev,
+      priceScenarios: [...prev.priceScenarios, { ...prev.priceScenarios[prev.priceScenarios.length - 1], name: `Scenario ${prev.priceScenarios.length + 1}` }]
+    }));
+  };
+
+  const removePriceScenario = (index: number) => {
+    setCashFlowSettings(prev => ({ ...prev, priceScenarios: prev.priceScenarios.filter((_, i) => i !== index) }));
+  };
+
+  // Notify parent when the crediting settings change
+  useEffect(() => {
+    if (onCreditingChange) {
+      onCreditingChange(creditingSettings);
+    }
+  }, [creditingSettings, onCreditingChange]);
+
+  const updateCrediting = (changes: Partial<CreditingSettings>) => {
+    setCreditingSettings(prev => ({ ...prev, ...changes }));
+  };
+
+  const updateMortality = (changes: Partial<MortalitySettings>) => {
+    setMortalitySettings(prev => ({ ...prev, ...changes }));
+  };
+
+  // Notify parent when uncertainty settings change
+  useEffect(() => {
+    if (onUncertaintyChange) {
+      onUncertaintyChange(uncertaintySettings);
+    }
+  }, [uncertaintySettings, onUncertaintyChange]);
+
+  const updateUncertainty = (changes: Partial<UncertaintySettings>) => {
+    setUncertaintySettings(prev => ({ ...prev, ...changes }));
+  };
+
+  // Sampled inputs and the unit of their spread
+  const uncertaintySpreads: Array<{ key: 'carbonRate' | 'mortality' | 'growth' | 'soilCarbon' | 'temperature' | 'precipitation' | 'climateTrend'; label: string }> = [
+    { key: 'carbonRate', label: 'Carbon rate (±%)' },
+    { key: 'growth', label: 'Maturity age (±%)' },
+    { key: 'mortality', label: 'Mortality (±%)' },
+    { key: 'soilCarbon', label: 'Soil carbon (±%)' },
+    { key: 'temperature', label: 'Temperature (±°C)' },
+    { key: 'precipitation', label: 'Rainfall (±%)' },
+    { key: 'climateTrend', label: 'Climate change (±%)' }
+  ];
+
+  // Projected climate for the centre of the region
+  const regionCenter = {
+    latitude: selectedRegion ? (selectedRegion.north + selectedRegion.south) / 2 : 0,
+    longitude: selectedRegion ? (selectedRegion.east + selectedRegion.west) / 2 : 0
+  };
+  const formatClimateChange = ({ warming, precipitationChange }: ClimateChange) =>
+    `${warming >= 0 ? '+' : ''}${warming.toFixed(1)}°C, ${precipitationChange >= 0 ? '+' : ''}${precipitationChange.toFixed(0)}% precipitation`;
+
   // Determine which tree to use for planting calculations
   const treeForPlanting = selectedTreeType || (selectedTrees && selectedTrees.length > 0 ? selectedTrees[0] : null);
   
@@ -100,7 +335,10 @@ const TreePlantingCalculator: React.FC<TreePlantingCalculatorProps> = ({
     let config: TreePlantingConfig | undefined;
     
     if (selectedRegion && treeForPlanting) {
-      if (selectedTrees && selectedTrees.length > 1 && treePercentages) {
+      if (simulationMode === 'agroforestry') {
+        // Trees are planted in rows, so the layout rather than the species sets the count
+        config = calculateAgroforestryPlanting(selectedRegion, agroforestrySettings);
+      } else if (selectedTrees && selectedTrees.length > 1 && treePercentages) {
         // For multiple trees, calculate weighted average spacing
         let totalWeight = 0;
         let weightedSpacing = 0;
@@ -142,7 +380,7 @@ const TreePlantingCalculator: React.FC<TreePlantingCalculatorProps> = ({
     }
     
     return config;
-  }, [selectedRegion, treeForPlanting, selectedTrees, treePercentages, customSpacing]);
+  }, [selectedRegion, treeForPlanting, selectedTrees, treePercentages, customSpacing, simulationMode, agroforestrySettings]);
 
   // Call onDataReady callback when data is available
   React.useEffect(() => {
@@ -265,15 +503,27 @@ const TreePlantingCalculator: React.FC<TreePlantingCalculatorProps> = ({
               </span>
             </div>
           )}
-          <div className="flex items-center justify-between">
-            <span 
-              className="text-xs text-gray-500 font-bold cursor-help"
-              title="Tree spacing is optimized for healthy growth, allowing adequate sunlight, water, and root space. Denser spacing (2-3m) creates closed canopy faster, while wider spacing (4-6m) allows for understory development and easier maintenance."
-            >
-              Spacing:
-            </span>
-            <span className="text-xs font-medium">{plantingConfig.spacing}m between trees</span>
-          </div>
+          {simulationMode === 'agroforestry' ? (
+            <div className="flex items-center justify-between">
+              <span
+                className="text-xs text-gray-500 font-bold cursor-help"
+                title="Trees are planted in rows with crops in the alleys between them. Trees per hectare = 10,000m² ÷ (alley width × spacing along the row)."
+              >
+                Row layout:
+              </span>
+              <span className="text-xs font-medium">Rows {agroforestrySettings.alleyWidth}m apart, trees every {agroforestrySettings.inRowSpacing}m</span>
+            </div>
+          ) : (
+            <div className="flex items-center justify-between">
+              <span 
+                className="text-xs text-gray-500 font-bold cursor-help"
+                title="Tree spacing is optimized for healthy growth, allowing adequate sunlight, water, and root space. Denser spacing (2-3m) creates closed canopy faster, while wider spacing (4-6m) allows for understory development and easier maintenance."
+              >
+                Spacing:
+              </span>
+              <span className="text-xs font-medium">{plantingConfig.spacing}m between trees</span>
+            </div>
+          )}
           <div className="flex items-center justify-between pb-2 border-b border-gray-200">
             <span 
               className="text-xs text-gray-500 font-bold cursor-help"
@@ -281,7 +531,7 @@ const TreePlantingCalculator: React.FC<TreePlantingCalculatorProps> = ({
             >
               Density:
             </span>
-            <span className="text-xs font-medium">{formatNumber(plantingConfig.density)} trees/ha</span>
+            <span className="text-xs font-medium">{formatNumber(Math.round(plantingConfig.density))} trees/ha</span>
           </div>
           <div className="flex items-center justify-between pt-1">
             <span className="text-xs text-gray-500 font-bold">Total Trees:</span>
@@ -289,7 +539,7 @@ const TreePlantingCalculator: React.FC<TreePlantingCalculatorProps> = ({
           </div>
         </div>
         
-        {selectedTrees && selectedTrees.length > 1 && (
+        {selectedTrees && selectedTrees.length > 1 && simulationMode !== 'agroforestry' && (
           <div className="mt-2 p-2 bg-primary/10 border border-primary/30 rounded text-xs text-primary">
             <strong>🌳 Multi-species spacing:</strong> Spacing calculated as weighted average based on your tree selection and percentages.
           </div>
@@ -299,10 +549,55 @@ const TreePlantingCalculator: React.FC<TreePlantingCalculatorProps> = ({
 
       {/* Configuration Settings - Conditional based on calculation mode */}
       <div className="mb-4 space-y-4">
+        {/* Growth Model */}
+        <div>
+          <label
+            htmlFor="growth-model"
+            className="block text-xs font-medium text-gray-700 mb-1 cursor-help"
+            title="Allometric: each species grows in diameter (DBH) and height, and sequestration is the yearly gain in biomass, so it responds to tree size and spacing. Species rate curve: each species' mature kg CO₂/year rate follows its growth curve."
+          >
+            Growth Model
+          </label>
+          <select
+            id="growth-model"
+            value={growthModel}
+            onChange={(e) => setGrowthModel(e.target.value as GrowthModel)}
+            className="w-full px-2 py-1 text-xs border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-primary"
+          >
+            {GROWTH_MODEL_OPTIONS.map(option => (
+              <option key={option.key} value={option.key}>{option.label}</option>
+            ))}
+          </select>
+          <p className="text-xs text-gray-500 mt-1">{GROWTH_MODEL_OPTIONS.find(option => option.key === growthModel)?.description}</p>
+        </div>
+
+        {/* Climate Scenario */}
+        <div>
+          <label
+            htmlFor="climate-scenario"
+            className="block text-xs font-medium text-gray-700 mb-1 cursor-help"
+            title="Emissions pathway used to project the local temperature and precipitation for every simulated year. Warmer and wetter or drier conditions change tree growth. Applies when climate data is available for the location."
+          >
+            Climate Scenario
+          </label>
+          <select
+            id="climate-scenario"
+            value={climateScenario}
+            onChange={(e) => setClimateScenario(e.target.value as ClimateScenario)}
+            className="w-full px-2 py-1 text-xs border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-primary"
+          >
+            {CLIMATE_SCENARIO_OPTIONS.map(option => (
+              <option key={option.key} value={option.key}>{option.label}</option>
+            ))}
+          </select>
+          <p className="text-xs text-gray-500 mt-1">{getClimateScenarioOption(climateScenario).description}</p>
+        </div>
+
         {/* Per Area Mode Settings */}
         {calculationMode === 'perArea' && (
           <>
       {/* Custom Spacing Option */}
+            {simulationMode !== 'agroforestry' && (
             <div>
         <label 
           className="block text-xs font-medium text-gray-700 mb-1 cursor-help"
@@ -329,11 +624,92 @@ const TreePlantingCalculator: React.FC<TreePlantingCalculatorProps> = ({
           </button>
         </div>
       </div>
+            )}
+
+            {/* Tree Mortality */}
+            <div>
+              <label
+                className="flex items-center gap-2 text-xs font-medium text-gray-700 mb-1 cursor-help"
+                title="Planted trees die off over time: many seedlings are lost during establishment, then a lower species-specific rate applies. Only surviving trees sequester carbon."
+              >
+                <input
+                  type="checkbox"
+                  checked={mortalitySettings.enabled}
+                  onChange={(e) => updateMortality({ enabled: e.target.checked })}
+                  className="accent-primary"
+                />
+                Apply Tree Mortality
+              </label>
+              {mortalitySettings.enabled && (
+                <div className="grid grid-cols-3 gap-2 mt-2">
+                  <div>
+                    <label className="block text-xs text-gray-500 mb-1">Establishment (%/yr)</label>
+                    <input
+                      type="number"
+                      min="0"
+                      max="100"
+                      step="0.5"
+                      value={mortalitySettings.establishmentRate}
+                      onChange={(e) => updateMortality({ establishmentRate: Math.max(0, Math.min(100, parseFloat(e.target.value) || 0)) })}
+                      className="w-full px-2 py-1 text-xs border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-primary"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs text-gray-500 mb-1">For first (years)</label>
+                    <input
+                      type="number"
+                      min="0"
+                      max="30"
+                      step="1"
+                      value={mortalitySettings.establishmentYears}
+                      onChange={(e) => updateMortality({ establishmentYears: Math.max(0, Math.min(30, parseInt(e.target.value) || 0)) })}
+                      className="w-full px-2 py-1 text-xs border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-primary"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs text-gray-500 mb-1">Mature (%/yr)</label>
+                    <input
+                      type="number"
+                      min="0"
+                      max="100"
+                      step="0.1"
+                      value={mortalitySettings.matureRate ?? ''}
+                      onChange={(e) => updateMortality({ matureRate: e.target.value ? Math.max(0, Math.min(100, parseFloat(e.target.value))) : undefined })}
+                      placeholder="Species"
+                      className="w-full px-2 py-1 text-xs border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-primary"
+                    />
+                  </div>
+                </div>
+              )}
+            </div>
+
+            {/* Disturbance Risk (grown stands) */}
+            {!isHarvestMode(simulationMode) && (
+              <div>
+                <label
+                  className="flex items-center gap-2 text-xs font-medium text-gray-700 mb-1 cursor-help"
+                  title="Fire, drought, windthrow and pest outbreaks strike at random. Their annual chance depends on the latitude and the predicted temperature and rainfall, and the share of trees they kill depends on each species' fire resistance, water needs and resilience."
+                >
+                  <input
+                    type="checkbox"
+                    checked={disturbanceSettings.enabled}
+                    onChange={(e) => setDisturbanceSettings({ enabled: e.target.checked })}
+                    className="accent-primary"
+                  />
+                  Apply Disturbance Risk
+                </label>
+                {disturbanceSettings.enabled && (
+                  <p className="text-xs text-gray-500">
+                    Expected losses to fire, drought, windthrow and pest outbreaks are applied every year. Enable uncertainty ranges to sample individual events and see the spread of outcomes.
+                  </p>
+                )}
+              </div>
+            )}
           </>
         )}
 
-        {/* Average Tree Age (Clear-cutting mode only) */}
-        {simulationMode === 'clear-cutting' && (
+        {/* Average Tree Age (Clear-cutting and selective harvest modes) */}
+        {isHarvestMode(simulationMode) && (
           <div>
             <label 
               className="block text-xs font-medium text-gray-700 mb-1 cursor-help"
@@ -361,6 +737,614 @@ const TreePlantingCalculator: React.FC<TreePlantingCalculatorProps> = ({
           </div>
         )}
 
+        {/* Rotation length, thinnings and replanting (Rotation mode only) */}
+        {simulationMode === 'rotation' && (
+          <div>
+            <label
+              className="block text-xs font-medium text-gray-700 mb-1 cursor-help"
+              title="The stand is planted, thinned at the stand ages below and clear-felled at the end of each rotation. Harvested stems go into wood products; roots stay behind as deadwood. With replanting on, the cycle repeats over the simulation."
+            >
+              Rotation Management
+            </label>
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label className="block text-xs text-gray-500 mb-1">Rotation length (years)</label>
+                <input
+                  type="number"
+                  min="1"
+                  max={MAX_ROTATION_LENGTH}
+                  step="1"
+                  value={rotationSettings.rotationLength}
+                  onChange={(e) => updateRotation({ rotationLength: Math.max(1, Math.min(MAX_ROTATION_LENGTH, parseInt(e.target.value) || 1)) })}
+                  className="w-full px-2 py-1 text-xs border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-primary"
+                />
+              </div>
+              <div>
+                <label className="block text-xs text-gray-500 mb-1">Replant after (years)</label>
+                <input
+                  type="number"
+                  min="0"
+                  max="20"
+                  step="1"
+                  value={rotationSettings.replantDelay}
+                  disabled={!rotationSettings.replant}
+                  onChange={(e) => updateRotation({ replantDelay: Math.max(0, Math.min(20, parseInt(e.target.value) || 0)) })}
+                  className="w-full px-2 py-1 text-xs border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-primary disabled:bg-gray-100"
+                />
+              </div>
+            </div>
+            <label className="flex items-center gap-2 text-xs text-gray-700 mt-2">
+              <input
+                type="checkbox"
+                checked={rotationSettings.replant}
+                onChange={(e) => updateRotation({ replant: e.target.checked })}
+                className="accent-primary"
+              />
+              Replant after each final harvest
+            </label>
+            <div className="mt-2 space-y-2">
+              <div className="text-xs text-gray-500">Thinnings (stand age and % of living trees removed)</div>
+              {rotationSettings.thinnings.map((thinning, index) => (
+                <div key={index} className="flex gap-2 items-end">
+                  <div className="flex-1">
+                    <label className="block text-xs text-gray-500 mb-1">Year</label>
+                    <input
+                      type="number"
+                      min="1"
+                      max={rotationSettings.rotationLength - 1}
+                      step="1"
+                      value={thinning.year}
+                      onChange={(e) => updateThinning(index, { year: Math.max(1, parseInt(e.target.value) || 1) })}
+                      className="w-full px-2 py-1 text-xs border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-primary"
+                    />
+                  </div>
+                  <div className="flex-1">
+                    <label className="block text-xs text-gray-500 mb-1">Removed (%)</label>
+                    <input
+                      type="number"
+                      min="0"
+                      max="100"
+                      step="5"
+                      value={thinning.percentRemoved}
+                      onChange={(e) => updateThinning(index, { percentRemoved: Math.max(0, Math.min(100, parseFloat(e.target.value) || 0)) })}
+                      className="w-full px-2 py-1 text-xs border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-primary"
+                    />
+                  </div>
+                  <button
+                    onClick={() => removeThinning(index)}
+                    className="px-2 py-1 text-xs bg-gray-100 text-gray-600 rounded hover:bg-gray-200"
+                    aria-label={`Remove thinning at year ${thinning.year}`}
+                  >
+                    Remove
+                  </button>
+                </div>
+              ))}
+              <button
+                onClick={addThinning}
+                className="px-2 py-1 text-xs bg-gray-100 text-gray-600 rounded hover:bg-gray-200"
+              >
+                Add thinning
+              </button>
+              {rotationSettings.thinnings.some(thinning => thinning.year >= rotationSettings.rotationLength) && (
+                <p className="text-xs text-amber-700">Thinnings at or after the rotation length are ignored.</p>
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* Selective harvest intensity, minimum age and residual damage (Selective harvest mode only) */}
+        {simulationMode === 'selective-harvest' && (
+          <div>
+            <label
+              className="block text-xs font-medium text-gray-700 mb-1 cursor-help"
+              title="Part of the stand is felled once it reaches the minimum harvest age. Felling and skidding kill some of the trees left behind; the residual stand then grows back into the gaps. Felled stems go into wood products; roots and damaged trees stay behind as deadwood."
+            >
+              Selective Harvest
+            </label>
+            <div className="flex gap-2">
+              <div className="flex-1">
+                <label className="block text-xs text-gray-500 mb-1">Intensity (%)</label>
+                <input
+                  type="number"
+                  min="0"
+                  max="100"
+                  step="5"
+                  value={selectiveHarvestSettings.intensity}
+                  onChange={(e) => updateSelectiveHarvest({ intensity: Math.max(0, Math.min(100, parseFloat(e.target.value) || 0)) })}
+                  className="w-full px-2 py-1 text-xs border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-primary"
+                />
+              </div>
+              <div className="flex-1">
+                <label className="block text-xs text-gray-500 mb-1">Measured as</label>
+                <select
+                  value={selectiveHarvestSettings.basis}
+                  onChange={(e) => updateSelectiveHarvest({ basis: e.target.value as SelectiveHarvestSettings['basis'] })}
+                  className="w-full px-2 py-1 text-xs border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-primary"
+                >
+                  {HARVEST_INTENSITY_BASES.map(option => (
+                    <option key={option.key} value={option.key}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            <div className="flex gap-2 mt-2">
+              <div className="flex-1">
+                <label className="block text-xs text-gray-500 mb-1">Minimum harvest age (years)</label>
+                <input
+                  type="number"
+                  min="0"
+                  max="200"
+                  step="1"
+                  value={selectiveHarvestSettings.minimumAge}
+                  onChange={(e) => updateSelectiveHarvest({ minimumAge: Math.max(0, Math.min(200, parseInt(e.target.value) || 0)) })}
+                  className="w-full px-2 py-1 text-xs border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-primary"
+                />
+              </div>
+              <div className="flex-1">
+                <label className="block text-xs text-gray-500 mb-1">Residual damage (%)</label>
+                <input
+                  type="number"
+                  min="0"
+                  max="100"
+                  step="1"
+                  value={selectiveHarvestSettings.damageRate}
+                  onChange={(e) => updateSelectiveHarvest({ damageRate: Math.max(0, Math.min(100, parseFloat(e.target.value) || 0)) })}
+                  className="w-full px-2 py-1 text-xs border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-primary"
+                />
+              </div>
+            </div>
+            <p className="text-xs text-gray-500 mt-1">
+              {selectiveHarvestSettings.basis === 'basalArea'
+                ? 'The largest trees are felled first until the intensity is reached.'
+                : 'The same share of every species is felled.'
+              } Residual damage is the share of the trees left standing that felling and skidding kill.
+            </p>
+          </div>
+        )}
+
+        {/* Seed source distance and assistance (Natural regeneration mode only) */}
+        {simulationMode === 'natural-regeneration' && (
+          <div>
+            <label
+              className="block text-xs font-medium text-gray-700 mb-1 cursor-help"
+              title="Nothing is planted: seedlings recruit each year from nearby seed-bearing forest until the stand reaches the stocking a planting would have. Seed rain falls off with distance, and regrowth is fastest in the tropics and slowest in boreal forests."
+            >
+              Natural Regeneration
+            </label>
+            <div>
+              <label className="block text-xs text-gray-500 mb-1">Distance to seed source (m)</label>
+              <input
+                type="number"
+                min="0"
+                max={MAX_SEED_SOURCE_DISTANCE}
+                step="25"
+                value={naturalRegenerationSettings.seedSourceDistance}
+                onChange={(e) => updateNaturalRegeneration({ seedSourceDistance: Math.max(0, Math.min(MAX_SEED_SOURCE_DISTANCE, parseFloat(e.target.value) || 0)) })}
+                className="w-full px-2 py-1 text-xs border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-primary"
+              />
+            </div>
+            <label className="flex items-center gap-2 text-xs text-gray-700 mt-2">
+              <input
+                type="checkbox"
+                checked={naturalRegenerationSettings.assisted}
+                onChange={(e) => updateNaturalRegeneration({ assisted: e.target.checked })}
+                className="accent-primary"
+              />
+              Assisted natural regeneration (ANR)
+            </label>
+            <p className="text-xs text-gray-500 mt-1">
+              ANR protects and weeds the natural seedlings with fencing, fire breaks and brush clearing, so they establish sooner and in greater numbers for a small cost per hectare.
+            </p>
+          </div>
+        )}
+
+        {/* Row layout and alley crop (Agroforestry mode only) */}
+        {simulationMode === 'agroforestry' && (
+          <div>
+            <label
+              className="block text-xs font-medium text-gray-700 mb-1 cursor-help"
+              title="Trees grow in rows with crops in the alleys between them. Wider alleys leave more room for the crop and shade it less, but fit fewer trees. A strip along each tree row is left uncropped."
+            >
+              Agroforestry Layout
+            </label>
+            <div className="flex gap-2">
+              <div className="flex-1">
+                <label className="block text-xs text-gray-500 mb-1">Alley width (m)</label>
+                <input
+                  type="number"
+                  min={MIN_ALLEY_WIDTH}
+                  max={MAX_ALLEY_WIDTH}
+                  step="1"
+                  value={agroforestrySettings.alleyWidth}
+                  onChange={(e) => updateAgroforestry({ alleyWidth: Math.max(MIN_ALLEY_WIDTH, Math.min(MAX_ALLEY_WIDTH, parseFloat(e.target.value) || MIN_ALLEY_WIDTH)) })}
+                  className="w-full px-2 py-1 text-xs border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-primary"
+                />
+              </div>
+              <div className="flex-1">
+                <label className="block text-xs text-gray-500 mb-1">Rows per hectare</label>
+                <input
+                  type="number"
+                  min={Math.ceil(100 / MAX_ALLEY_WIDTH)}
+                  max={Math.floor(100 / MIN_ALLEY_WIDTH)}
+                  step="1"
+                  value={Math.round(calculateAgroforestryLayout(agroforestrySettings).rowsPerHectare * 10) / 10}
+                  onChange={(e) => {
+                    const rows = parseFloat(e.target.value);
+                    if (rows > 0) updateAgroforestry({ alleyWidth: Math.max(MIN_ALLEY_WIDTH, Math.min(MAX_ALLEY_WIDTH, Math.round(1000 / rows) / 10)) });
+                  }}
+                  className="w-full px-2 py-1 text-xs border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-primary"
+                />
+              </div>
+              <div className="flex-1">
+                <label className="block text-xs text-gray-500 mb-1">Along row (m)</label>
+                <input
+                  type="number"
+                  min="1"
+                  max="20"
+                  step="0.5"
+                  value={agroforestrySettings.inRowSpacing}
+                  onChange={(e) => updateAgroforestry({ inRowSpacing: Math.max(1, Math.min(20, parseFloat(e.target.value) || 1)) })}
+                  className="w-full px-2 py-1 text-xs border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-primary"
+                />
+              </div>
+            </div>
+            <div className="flex gap-2 mt-2">
+              <div className="flex-1">
+                <label className="block text-xs text-gray-500 mb-1">Alley crop</label>
+                <select
+                  value={agroforestrySettings.crop}
+                  onChange={(e) => updateAgroforestry({ crop: e.target.value as AgroforestrySettings['crop'], cropYield: undefined, cropPrice: undefined })}
+                  className="w-full px-2 py-1 text-xs border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-primary"
+                >
+                  {AGROFORESTRY_CROPS.map(crop => (
+                    <option key={crop.key} value={crop.key}>{crop.label}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="flex-1">
+                <label className="block text-xs text-gray-500 mb-1">Yield (t/ha/yr)</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.1"
+                  value={agroforestrySettings.cropYield ?? ''}
+                  disabled={agroforestrySettings.crop === 'none'}
+                  onChange={(e) => updateAgroforestry({ cropYield: e.target.value ? Math.max(0, parseFloat(e.target.value)) : undefined })}
+                  placeholder={String(getAgroforestryCrop(agroforestrySettings.crop).yield)}
+                  className="w-full px-2 py-1 text-xs border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-primary disabled:bg-gray-100"
+                />
+              </div>
+              <div className="flex-1">
+                <label className="block text-xs text-gray-500 mb-1">Price (USD/t)</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="10"
+                  value={agroforestrySettings.cropPrice ?? ''}
+                  disabled={agroforestrySettings.crop === 'none'}
+                  onChange={(e) => updateAgroforestry({ cropPrice: e.target.value ? Math.max(0, parseFloat(e.target.value)) : undefined })}
+                  placeholder={String(getAgroforestryCrop(agroforestrySettings.crop).price)}
+                  className="w-full px-2 py-1 text-xs border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-primary disabled:bg-gray-100"
+                />
+              </div>
+            </div>
+            <p className="text-xs text-gray-500 mt-1">
+              Yield is for the crop in full sun; it falls as the tree crowns spread over the alleys, less so for shade-tolerant crops such as coffee and cocoa. Leave yield and price blank to use the crop&apos;s typical values.
+            </p>
+          </div>
+        )}
+
+        {/* Wood product end use (Harvest and rotation modes) */}
+        {(isHarvestMode(simulationMode) || simulationMode === 'rotation') && (
+          <div>
+            <label
+              className="block text-xs font-medium text-gray-700 mb-1 cursor-help"
+              title="Share of each species' harvested carbon that ends up in sawnwood, wood panels and paper. Products release their carbon slowly as they decay (half-lives of about 35, 25 and 2 years); the remainder is residue released at harvest."
+            >
+              Wood Product End Use (% of harvested carbon)
+            </label>
+            <div className="space-y-2">
+              {(selectedTrees && selectedTrees.length > 0 ? selectedTrees : [treeForPlanting]).map(tree => {
+                const defaults = getDefaultWoodProductShares(tree);
+                const overrides = woodProductShares[tree.id] || {};
+                return (
+                  <div key={tree.id}>
+                    <div className="flex items-center justify-between text-xs text-gray-600 mb-1">
+                      <span>{tree.name}</span>
+                      <span className="text-gray-500">Residue {getResidueShare(resolveWoodProductShares(tree, woodProductShares)).toFixed(0)}%</span>
+                    </div>
+                    <div className="grid grid-cols-3 gap-2">
+                      {WOOD_PRODUCT_KEYS.map(product => (
+                        <div key={product.key}>
+                          <label className="block text-xs text-gray-500 mb-1">{product.label}</label>
+                          <input
+                            type="number"
+                            min="0"
+                            max="100"
+                            step="5"
+                            value={overrides[product.key] ?? ''}
+                            placeholder={defaults[product.key].toString()}
+                            onChange={(e) => updateWoodProductShare(tree.id, product.key, e.target.value)}
+                            className="w-full px-2 py-1 text-xs border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-primary"
+                          />
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+            <p className="text-xs text-gray-500 mt-1">Leave a field empty to use the species default shown.</p>
+          </div>
+        )}
+
+        {/* Discount rate for the project cash flow (grown stands) */}
+        {!isHarvestMode(simulationMode) && (
+          <div>
+            <label
+              className="block text-xs font-medium text-gray-700 mb-1 cursor-help"
+              title="Planting, maintenance, carbon credits and timber are counted year by year and discounted to today. A higher discount rate weighs early costs more heavily than later revenue. Credits are issued at each verification for the carbon stored since the last one and sold at that year's carbon price."
+            >
+              Project Finance
+            </label>
+            <div className="flex gap-2">
+              <div className="flex-1">
+                <label className="block text-xs text-gray-500 mb-1">Discount rate (%/yr)</label>
+                <input
+                  type="number"
+                  min="0"
+                  max={MAX_DISCOUNT_RATE}
+                  step="0.5"
+                  value={cashFlowSettings.discountRate}
+                  onChange={(e) => updateCashFlow({ discountRate: Math.max(0, Math.min(MAX_DISCOUNT_RATE, parseFloat(e.target.value) || 0)) })}
+                  className="w-full px-2 py-1 text-xs border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-primary"
+                />
+              </div>
+              <div className="flex-1">
+                <label className="block text-xs text-gray-500 mb-1">Verify every (years)</label>
+                <input
+                  type="number"
+                  min="1"
+                  max={MAX_VERIFICATION_INTERVAL}
+                  step="1"
+                  value={cashFlowSettings.verificationInterval}
+                  onChange={(e) => updateCashFlow({ verificationInterval: Math.max(1, Math.min(MAX_VERIFICATION_INTERVAL, parseInt(e.target.value) || 1)) })}
+                  className="w-full px-2 py-1 text-xs border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-primary"
+                />
+              </div>
+            </div>
+            <div className="mt-2 space-y-2">
+              <div className="text-xs text-gray-500">Carbon price scenarios (USD per t CO₂)</div>
+              {cashFlowSettings.priceScenarios.map((scenario, index) => (
+                <div key={index} className="space-y-1">
+                  <div className="flex gap-2 items-end">
+                    <div className="flex-1">
+                      <label className="block text-xs text-gray-500 mb-1">{index === 0 ? 'Name (cash flow)' : 'Name'}</label>
+                      <input
+                        type="text"
+                        value={scenario.name}
+                        onChange={(e) => updatePriceScenario(index, { name: e.target.value })}
+                        className="w-full px-2 py-1 text-xs border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-primary"
+                      />
+                    </div>
+                    <div className="flex-1">
+                      <label className="block text-xs text-gray-500 mb-1">Path</label>
+                      <select
+                        value={scenario.type}
+                        onChange={(e) => updatePriceScenario(index, { type: e.target.value as CarbonPricePathType })}
+                        className="w-full px-2 py-1 text-xs border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-primary"
+                      >
+                        {CARBON_PRICE_PATH_TYPES.map(path => (
+                          <option key={path.key} value={path.key}>{path.label}</option>
+                        ))}
+                      </select>
+                    </div>
+                    {cashFlowSettings.priceScenarios.length > 1 && (
+                      <button
+                        onClick={() => removePriceScenario(index)}
+                        className="px-2 py-1 text-xs bg-gray-100 text-gray-600 rounded hover:bg-gray-200"
+                        aria-label={`Remove price scenario ${scenario.name}`}
+                      >
+                        Remove
+                      </button>
+                    )}
+                  </div>
+                  {scenario.type === 'table' ? (
+                    <div>
+                      <label className="block text-xs text-gray-500 mb-1">Price from year 1 (comma separated)</label>
+                      <input
+                        key={scenario.prices.join(',')}
+                        type="text"
+                        defaultValue={scenario.prices.join(', ')}
+                        onBlur={(e) => updatePriceScenario(index, { prices: parsePriceTable(e.target.value) })}
+                        placeholder="20, 22, 25, 30"
+                        className="w-full px-2 py-1 text-xs border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-primary"
+                      />
+                    </div>
+                  ) : (
+                    <div className="flex gap-2">
+                      <div className="flex-1">
+                        <label className="block text-xs text-gray-500 mb-1">Year 1 price</label>
+                        <input
+                          type="number"
+                          min="0"
+                          step="1"
+                          value={scenario.startPrice}
+                          onChange={(e) => updatePriceScenario(index, { startPrice: Math.max(0, parseFloat(e.target.value) || 0) })}
+                          className="w-full px-2 py-1 text-xs border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-primary"
+                        />
+                      </div>
+                      {scenario.type === 'linear' && (
+                        <div className="flex-1">
+                          <label className="block text-xs text-gray-500 mb-1">Change per year</label>
+                          <input
+                            type="number"
+                            step="0.5"
+                            value={scenario.annualIncrease}
+                            onChange={(e) => updatePriceScenario(index, { annualIncrease: parseFloat(e.target.value) || 0 })}
+                            className="w-full px-2 py-1 text-xs border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-primary"
+                          />
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </div>
+              ))}
+              {cashFlowSettings.priceScenarios.length < MAX_PRICE_SCENARIOS && (
+                <button
+                  onClick={addPriceScenario}
+                  className="px-2 py-1 text-xs bg-gray-100 text-gray-600 rounded hover:bg-gray-200"
+                >
+                  Add price scenario
+                </button>
+              )}
+            </div>
+            <p className="text-xs text-gray-500 mt-1">
+              Costs and timber revenue use each species&apos; planting, maintenance and timber values. The first price scenario sets the cash flow; the others are compared with it in the Economic tab. A table holds its last price after it ends.
+            </p>
+          </div>
+        )}
+
+        {/* Baseline, leakage and uncertainty deductions for net creditable tonnes (grown stands) */}
+        {!isHarvestMode(simulationMode) && (
+          <div>
+            <label
+              className="flex items-center gap-2 text-xs font-medium text-gray-700 mb-1 cursor-help"
+              title="Registries credit only the removals beyond the baseline, less leakage, an uncertainty deduction and a contribution to the non-permanence buffer pool. The buffer contribution follows each species' resilience and fire resistance."
+            >
+              <input
+                type="checkbox"
+                checked={creditingSettings.enabled}
+                onChange={(e) => updateCrediting({ enabled: e.target.checked })}
+                className="accent-primary"
+              />
+              Carbon Crediting
+            </label>
+            {creditingSettings.enabled && (
+              <div className="space-y-2">
+                <div className="flex gap-2">
+                  <div className="flex-1">
+                    <label className="block text-xs text-gray-500 mb-1">Baseline</label>
+                    <select
+                      value={creditingSettings.baselineType}
+                      onChange={(e) => updateCrediting({ baselineType: e.target.value as CreditingBaselineType })}
+                      className="w-full px-2 py-1 text-xs border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-primary"
+                    >
+                      {CREDITING_BASELINE_TYPES.map(type => (
+                        <option key={type.key} value={type.key}>{type.label}</option>
+                      ))}
+                    </select>
+                  </div>
+                  {creditingSettings.baselineType !== 'none' && (
+                    <div className="flex-1">
+                      <label className="block text-xs text-gray-500 mb-1">{creditingSettings.baselineType === 'fixed' ? 't CO₂/ha/yr' : '% of removals'}</label>
+                      <input
+                        type="number"
+                        min="0"
+                        max={creditingSettings.baselineType === 'share' ? 100 : undefined}
+                        step={creditingSettings.baselineType === 'fixed' ? 0.1 : 5}
+                        value={creditingSettings.baselineValue}
+                        onChange={(e) => updateCrediting({ baselineValue: Math.max(0, parseFloat(e.target.value) || 0) })}
+                        className="w-full px-2 py-1 text-xs border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-primary"
+                      />
+                    </div>
+                  )}
+                </div>
+                <div className="flex gap-2">
+                  <div className="flex-1">
+                    <label className="block text-xs text-gray-500 mb-1">Leakage (%)</label>
+                    <input
+                      type="number"
+                      min="0"
+                      max="100"
+                      step="1"
+                      value={creditingSettings.leakage}
+                      onChange={(e) => updateCrediting({ leakage: Math.max(0, Math.min(100, parseFloat(e.target.value) || 0)) })}
+                      className="w-full px-2 py-1 text-xs border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-primary"
+                    />
+                  </div>
+                  <div className="flex-1">
+                    <label className="block text-xs text-gray-500 mb-1">Uncertainty (%)</label>
+                    <input
+                      type="number"
+                      min="0"
+                      max="100"
+                      step="1"
+                      value={creditingSettings.uncertainty}
+                      onChange={(e) => updateCrediting({ uncertainty: Math.max(0, Math.min(100, parseFloat(e.target.value) || 0)) })}
+                      className="w-full px-2 py-1 text-xs border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-primary"
+                    />
+                  </div>
+                </div>
+                <p className="text-xs text-gray-500">
+                  Credits are issued for the net creditable tonnes instead of the gross carbon stored. Net creditable tonnes per vintage year are shown in the Economic tab.
+                </p>
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Monte Carlo uncertainty ranges */}
+        <div>
+          <label
+            className="flex items-center gap-2 text-xs font-medium text-gray-700 mb-1 cursor-help"
+            title="Runs the simulation many times with species carbon rates, growth, mortality, soil and climate inputs sampled around their central values, and reports P10/P50/P90 ranges."
+          >
+            <input
+              type="checkbox"
+              checked={uncertaintySettings.enabled}
+              onChange={(e) => updateUncertainty({ enabled: e.target.checked })}
+              className="accent-primary"
+            />
+            Show Uncertainty Ranges
+          </label>
+          {uncertaintySettings.enabled && (
+            <div className="space-y-2 mt-2">
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <label className="block text-xs text-gray-500 mb-1">Simulations</label>
+                  <select
+                    value={uncertaintySettings.iterations}
+                    onChange={(e) => updateUncertainty({ iterations: parseInt(e.target.value) })}
+                    className="w-full px-2 py-1 text-xs border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-primary"
+                  >
+                    {ITERATION_OPTIONS.map(count => (
+                      <option key={count} value={count}>{count.toLocaleString()} runs</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs text-gray-500 mb-1">Distribution</label>
+                  <select
+                    value={uncertaintySettings.distribution}
+                    onChange={(e) => updateUncertainty({ distribution: e.target.value as DistributionType })}
+                    className="w-full px-2 py-1 text-xs border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-primary"
+                  >
+                    <option value="normal">Normal (±1σ)</option>
+                    <option value="uniform">Uniform (± range)</option>
+                    <option value="triangular">Triangular (± range)</option>
+                  </select>
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                {uncertaintySpreads.map(spread => (
+                  <div key={spread.key}>
+                    <label className="block text-xs text-gray-500 mb-1">{spread.label}</label>
+                    <input
+                      type="number"
+                      min="0"
+                      max={spread.key === 'temperature' ? 10 : 200}
+                      step={spread.key === 'temperature' ? 0.1 : 5}
+                      value={uncertaintySettings[spread.key]}
+                      onChange={(e) => updateUncertainty({ [spread.key]: Math.max(0, parseFloat(e.target.value) || 0) })}
+                      className="w-full px-2 py-1 text-xs border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-primary"
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
 
         {/* Soil and Climate Data */}
         {(soil || climate) && (
@@ -391,8 +1375,13 @@ const TreePlantingCalculator: React.FC<TreePlantingCalculatorProps> = ({
                   {soil?.carbon && (
                     <div className="mt-2 pt-2 border-t border-primary/30">
                       <div className="text-xs text-primary">
-                        <span className="font-semibold">Carbon Bonus:</span> +{(soil.carbon * 0.1).toFixed(1)} kg CO₂/year per tree
+                        <span className="font-semibold">Soil Carbon Stock:</span> ~{estimateSoilCarbonStock(soil.carbon).toFixed(0)} t C/ha (top {CARBON_POOLS.SOIL_DEPTH} cm)
                       </div>
+                      {!isHarvestMode(simulationMode) && (
+                        <div className="text-xs text-primary">
+                          <span className="font-semibold">Afforestation Gain:</span> +{estimateSoilCarbonGain(soil.carbon).toFixed(1)} t C/ha over {CARBON_POOLS.SOIL_TRANSITION_YEARS} years
+                        </div>
+                      )}
                     </div>
                   )}
                   {soil.isEstimated && (
@@ -430,11 +1419,12 @@ const TreePlantingCalculator: React.FC<TreePlantingCalculatorProps> = ({
                     </span>
                   </div>
 
-                  {climate?.historicalData && climate.historicalData.temperatures.length > 0 && (
+                  {selectedRegion && climate.temperature !== null && climate.precipitation !== null && (
                     <div className="mt-2 pt-2 border-t border-primary/30">
                       <div className="text-xs text-primary">
-                        <span className="font-semibold">Climate Trend:</span> {calculateLinearTrend(Array.from({length: climate.historicalData.temperatures.length}, (_, i) => i), climate.historicalData.temperatures).toFixed(3)}°C/year
+                        <span className="font-semibold">{getClimateScenarioOption(climateScenario).name} by year {years}:</span> {formatClimateChange(getClimateChange(regionCenter.latitude, regionCenter.longitude, climateScenario, years))}
                       </div>
+                      <div className="text-xs text-primary/80">{getClimateRegion(regionCenter.latitude, regionCenter.longitude).label} regional pattern</div>
                     </div>
                   )}
                   {climate.isEstimated && (
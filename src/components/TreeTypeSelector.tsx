@@ -3,6 +3,7 @@
 import React, { useState } from 'react';
 import { TreeType, TREE_TYPES, getTreeTypesByClimate } from '@/types/treeTypes';
 import { getTreeCategoryColor } from '@/utils/treeColors';
+import { SimulationMode, isHarvestMode } from '@/utils/simulationEngine';
 
 interface TreeTypeSelectorProps {
   selectedTrees: TreeType[];
@@ -17,7 +18,7 @@ interface TreeTypeSelectorProps {
     east: number;
     west: number;
   } | null;
-  simulationMode?: 'planting' | 'clear-cutting';
+  simulationMode?: SimulationMode;
 }
 
 const TreeTypeSelector: React.FC<TreeTypeSelectorProps> = ({ 
@@ -194,7 +195,7 @@ const TreeTypeSelector: React.FC<TreeTypeSelectorProps> = ({
         <div className="mb-3 p-2 bg-primary/10 border border-primary/30 rounded">
           <p className="text-xs text-primary">
             <span className="font-medium">
-              {simulationMode === 'planting' 
+              {!isHarvestMode(simulationMode)
                 ? 'Recommended for this region:' 
                 : 'Forest types present in this region:'
               }
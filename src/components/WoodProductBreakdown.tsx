@@ -0,0 +1,69 @@
+"use client";
+
+import React from 'react';
+import { CalculationMode, ClearCuttingCarbon } from '@/utils/simulationEngine';
+import { WOOD_PRODUCT_KEYS } from '@/utils/harvestedWood';
+
+interface WoodProductBreakdownProps {
+  clearCutting: ClearCuttingCarbon;
+  totalTrees: number;
+  years: number;
+  calculationMode?: CalculationMode;
+}
+
+const WoodProductBreakdown: React.FC<WoodProductBreakdownProps> = ({ clearCutting, totalTrees, years, calculationMode = 'perArea' }) => {
+  // Per-tree figures scaled to the stand in per-area mode
+  const trees = calculationMode === 'perArea' ? totalTrees : 1;
+  const scale = calculationMode === 'perArea' ? 1000 : 1;
+  const unit = calculationMode === 'perArea' ? 't CO₂' : 'kg CO₂';
+  const harvested = clearCutting.harvested;
+
+  const rows = [
+    { key: 'residue', label: 'Residue released at harvest', value: clearCutting.immediate, color: '#b91c1c' },
+    { key: 'decayed', label: `Released by products over ${years} years`, value: clearCutting.productEmissions, color: '#f97316' },
+    ...WOOD_PRODUCT_KEYS.map(product => ({
+      key: product.key,
+      label: `Still in ${product.label.toLowerCase()}`,
+      value: clearCutting.woodProducts[product.key],
+      color: product.color
+    }))
+  ];
+
+  return (
+    <div className="bg-white rounded shadow p-4">
+      <div className="text-xs text-gray-900 font-bold mb-2">Harvested Wood Products</div>
+
+      {/* Stacked bar of where the harvested carbon ends up */}
+      <div className="flex h-3 w-full rounded overflow-hidden bg-gray-100" role="img" aria-label="Fate of harvested carbon">
+        {harvested > 0 && rows.map(row => (
+          <div
+            key={row.key}
+            style={{ width: `${(Math.max(0, row.value) / harvested) * 100}%`, backgroundColor: row.color }}
+            title={row.label}
+          />
+        ))}
+      </div>
+
+      <div className="mt-2 space-y-1">
+        {rows.map(row => (
+          <div key={row.key} className="flex items-center justify-between text-xs text-gray-700">
+            <span className="flex items-center gap-1">
+              <span className="inline-block w-2 h-2 rounded-full" style={{ backgroundColor: row.color }} />
+              {row.label}
+            </span>
+            <span className="font-medium">
+              {(row.value * trees / scale).toFixed(1)} {unit}
+              <span className="text-gray-500 font-normal"> ({harvested > 0 ? ((row.value / harvested) * 100).toFixed(0) : 0}%)</span>
+            </span>
+          </div>
+        ))}
+      </div>
+
+      <p className="mt-2 text-xs text-gray-500">
+        Harvested carbon goes to sawnwood ({clearCutting.productShares.sawnwood.toFixed(0)}%), panels ({clearCutting.productShares.panels.toFixed(0)}%) and paper ({clearCutting.productShares.paper.toFixed(0)}%). Each product releases its carbon by first-order decay; the rest is residue released at harvest.
+      </p>
+    </div>
+  );
+};
+
+export default WoodProductBreakdown;
@@ -1,3 +1,19 @@
+// Chapman-Richards growth curve with senescence (see utils/growthCurves.ts)
+export interface GrowthCurveParameters {
+  yearsToMaturity: number; // age reaching 95% of the mature sequestration rate
+  shape: number; // Chapman-Richards shape parameter
+  senescenceOnset: number; // age at which sequestration starts to decline
+  senescenceFloor: number; // share of the peak rate left at the end of the lifespan
+}
+
+// Mean annual climate a species tolerates (see utils/climateSuitability.ts)
+export interface ClimateEnvelope {
+  minTemperature: number; // °C
+  maxTemperature: number; // °C
+  minPrecipitation: number; // mm/year
+  maxPrecipitation: number; // mm/year
+}
+
 export interface TreeType {
   id: string;
   name: string;
@@ -7,14 +23,17 @@ export interface TreeType {
   growthRate: 'slow' | 'medium' | 'fast';
   maxHeight: number; // meters
   lifespan: number; // years
+  woodDensity?: number; // g/cm³ oven-dry basic density, category default when missing
+  growthCurve?: Partial<GrowthCurveParameters>; // overrides for curves derived from growthRate and lifespan
   climateZones: string[]; // suitable climate zones
+  climateEnvelope?: Partial<ClimateEnvelope>; // overrides for the envelope derived from climateZones and waterNeeds
   soilPreferences: string[];
   waterNeeds: 'low' | 'medium' | 'high';
   biodiversityValue: number; // 1-5 scale
   resilienceScore: number; // 1-5 scale
   description: string;
   // Economic impact properties
-  carbonCreditValue?: number; // USD per tree per year (carbon credits)
+  carbonCreditValue?: number; // USD per tree per year (reference only; credit revenue follows the carbon price scenarios)
   maintenanceCost?: number; // USD per tree per year
   plantingCost?: number; // USD per tree (one-time)
   timberValue?: number; // USD per tree (mature harvest value)
@@ -39,7 +58,9 @@ export const TREE_TYPES: TreeType[] = [
     growthRate: 'slow',
     maxHeight: 30,
     lifespan: 300,
+    woodDensity: 0.56,
     climateZones: ['temperate', 'mediterranean'],
+    climateEnvelope: { maxTemperature: 17 }, // Pedunculate oak suffers in hot Mediterranean lowlands
     soilPreferences: ['well-drained', 'loamy'],
     waterNeeds: 'medium',
     biodiversityValue: 5,
@@ -69,6 +90,7 @@ export const TREE_TYPES: TreeType[] = [
     growthRate: 'medium',
     maxHeight: 25,
     lifespan: 150,
+    woodDensity: 0.42,
     climateZones: ['boreal', 'temperate', 'mediterranean'],
     soilPreferences: ['sandy', 'well-drained'],
     waterNeeds: 'low',
@@ -99,6 +121,7 @@ export const TREE_TYPES: TreeType[] = [
     growthRate: 'medium',
     maxHeight: 20,
     lifespan: 200,
+    woodDensity: 0.56,
     climateZones: ['temperate'],
     soilPreferences: ['moist', 'well-drained'],
     waterNeeds: 'medium',
@@ -115,7 +138,10 @@ export const TREE_TYPES: TreeType[] = [
     growthRate: 'fast',
     maxHeight: 40,
     lifespan: 100,
+    woodDensity: 0.62,
+    growthCurve: { yearsToMaturity: 6 }, // Plantation eucalyptus peaks within a short rotation
     climateZones: ['tropical', 'mediterranean'],
+    climateEnvelope: { minTemperature: 8, maxTemperature: 22, minPrecipitation: 500, maxPrecipitation: 1800 }, // Blue gum is a cool-subtropical and Mediterranean tree
     soilPreferences: ['well-drained', 'sandy'],
     waterNeeds: 'high',
     biodiversityValue: 2,
@@ -131,7 +157,9 @@ export const TREE_TYPES: TreeType[] = [
     growthRate: 'slow',
     maxHeight: 35,
     lifespan: 200,
+    woodDensity: 0.38,
     climateZones: ['boreal', 'temperate'],
+    climateEnvelope: { maxTemperature: 12, minPrecipitation: 600 }, // Shallow-rooted Norway spruce declines in warm, dry summers
     soilPreferences: ['moist', 'acidic'],
     waterNeeds: 'medium',
     biodiversityValue: 4,
@@ -147,6 +175,7 @@ export const TREE_TYPES: TreeType[] = [
     growthRate: 'fast',
     maxHeight: 18,
     lifespan: 100,
+    woodDensity: 0.51,
     climateZones: ['boreal', 'temperate'],
     soilPreferences: ['moist', 'well-drained'],
     waterNeeds: 'medium',
@@ -163,6 +192,7 @@ export const TREE_TYPES: TreeType[] = [
     growthRate: 'medium',
     maxHeight: 15,
     lifespan: 80,
+    woodDensity: 0.84,
     climateZones: ['tropical'],
     soilPreferences: ['saline', 'waterlogged'],
     waterNeeds: 'high',
@@ -179,6 +209,7 @@ export const TREE_TYPES: TreeType[] = [
     growthRate: 'slow',
     maxHeight: 30,
     lifespan: 250,
+    woodDensity: 0.48,
     climateZones: ['mediterranean', 'temperate'],
     soilPreferences: ['well-drained', 'rocky'],
     waterNeeds: 'low',
@@ -195,6 +226,7 @@ export const TREE_TYPES: TreeType[] = [
     growthRate: 'fast',
     maxHeight: 12,
     lifespan: 80,
+    woodDensity: 0.35,
     climateZones: ['temperate'],
     soilPreferences: ['moist', 'wet'],
     waterNeeds: 'high',
@@ -211,7 +243,9 @@ export const TREE_TYPES: TreeType[] = [
     growthRate: 'slow',
     maxHeight: 80,
     lifespan: 3000,
+    woodDensity: 0.34,
     climateZones: ['temperate'],
+    climateEnvelope: { minTemperature: 5, maxTemperature: 15, minPrecipitation: 600 }, // Giant sequoia grows in a narrow Sierra Nevada belt
     soilPreferences: ['moist', 'well-drained'],
     waterNeeds: 'medium',
     biodiversityValue: 4,
@@ -228,7 +262,9 @@ export const TREE_TYPES: TreeType[] = [
     growthRate: 'slow',
     maxHeight: 35,
     lifespan: 250,
+    woodDensity: 0.57,
     climateZones: ['temperate'],
+    climateEnvelope: { maxTemperature: 14, minPrecipitation: 600 }, // Drought-sensitive; retreats upslope as lowlands warm
     soilPreferences: ['well-drained', 'loamy'],
     waterNeeds: 'medium',
     biodiversityValue: 5,
@@ -244,6 +280,7 @@ export const TREE_TYPES: TreeType[] = [
     growthRate: 'medium',
     maxHeight: 25,
     lifespan: 200,
+    woodDensity: 0.56,
     climateZones: ['temperate'],
     soilPreferences: ['moist', 'well-drained'],
     waterNeeds: 'medium',
@@ -261,6 +298,7 @@ export const TREE_TYPES: TreeType[] = [
     growthRate: 'medium',
     maxHeight: 15,
     lifespan: 120,
+    woodDensity: 0.58,
     climateZones: ['boreal', 'temperate'],
     soilPreferences: ['well-drained', 'acidic'],
     waterNeeds: 'medium',
@@ -277,6 +315,7 @@ export const TREE_TYPES: TreeType[] = [
     growthRate: 'slow',
     maxHeight: 8,
     lifespan: 150,
+    woodDensity: 0.48,
     climateZones: ['boreal', 'temperate'],
     soilPreferences: ['well-drained', 'rocky'],
     waterNeeds: 'low',
@@ -294,7 +333,9 @@ export const TREE_TYPES: TreeType[] = [
     growthRate: 'slow',
     maxHeight: 100,
     lifespan: 2000,
+    woodDensity: 0.36,
     climateZones: ['temperate'],
+    climateEnvelope: { minTemperature: 8, maxTemperature: 16, minPrecipitation: 700 }, // Coast redwood depends on mild, foggy summers
     soilPreferences: ['moist', 'well-drained'],
     waterNeeds: 'high',
     biodiversityValue: 5,
@@ -310,6 +351,7 @@ export const TREE_TYPES: TreeType[] = [
     growthRate: 'fast',
     maxHeight: 35,
     lifespan: 300,
+    woodDensity: 0.40,
     climateZones: ['temperate'],
     soilPreferences: ['moist', 'well-drained'],
     waterNeeds: 'medium',
@@ -326,6 +368,7 @@ export const TREE_TYPES: TreeType[] = [
     growthRate: 'slow',
     maxHeight: 25,
     lifespan: 300,
+    woodDensity: 0.56,
     climateZones: ['temperate'],
     soilPreferences: ['moist', 'well-drained'],
     waterNeeds: 'medium',
@@ -343,7 +386,9 @@ export const TREE_TYPES: TreeType[] = [
     growthRate: 'slow',
     maxHeight: 25,
     lifespan: 1000,
+    woodDensity: 0.28,
     climateZones: ['tropical'],
+    climateEnvelope: { minPrecipitation: 250, maxPrecipitation: 1500 }, // Stores water in its trunk through long dry seasons
     soilPreferences: ['well-drained', 'sandy'],
     waterNeeds: 'low',
     biodiversityValue: 5,
@@ -359,7 +404,9 @@ export const TREE_TYPES: TreeType[] = [
     growthRate: 'medium',
     maxHeight: 12,
     lifespan: 100,
+    woodDensity: 0.70,
     climateZones: ['tropical'],
+    climateEnvelope: { minPrecipitation: 200, maxPrecipitation: 900 }, // Gum arabic acacia is a Sahelian dryland tree
     soilPreferences: ['well-drained', 'sandy'],
     waterNeeds: 'low',
     biodiversityValue: 4,
@@ -376,6 +423,8 @@ export const TREE_TYPES: TreeType[] = [
     growthRate: 'fast',
     maxHeight: 20,
     lifespan: 50,
+    woodDensity: 0.55,
+    growthCurve: { yearsToMaturity: 4, shape: 1.5 }, // Culms reach full size within a few seasons
     climateZones: ['tropical', 'temperate'],
     soilPreferences: ['moist', 'well-drained'],
     waterNeeds: 'high',
@@ -392,6 +441,7 @@ export const TREE_TYPES: TreeType[] = [
     growthRate: 'slow',
     maxHeight: 30,
     lifespan: 1000,
+    woodDensity: 0.45,
     climateZones: ['temperate'],
     soilPreferences: ['well-drained', 'loamy'],
     waterNeeds: 'medium',
@@ -408,6 +458,7 @@ export const TREE_TYPES: TreeType[] = [
     growthRate: 'medium',
     maxHeight: 20,
     lifespan: 150,
+    woodDensity: 0.50,
     climateZones: ['temperate'],
     soilPreferences: ['well-drained', 'loamy'],
     waterNeeds: 'medium',
@@ -425,6 +476,7 @@ export const TREE_TYPES: TreeType[] = [
     growthRate: 'slow',
     maxHeight: 12,
     lifespan: 500,
+    woodDensity: 0.75,
     climateZones: ['mediterranean'],
     soilPreferences: ['well-drained', 'rocky'],
     waterNeeds: 'low',
@@ -441,6 +493,7 @@ export const TREE_TYPES: TreeType[] = [
     growthRate: 'medium',
     maxHeight: 25,
     lifespan: 300,
+    woodDensity: 0.50,
     climateZones: ['mediterranean'],
     soilPreferences: ['well-drained', 'rocky'],
     waterNeeds: 'low',
@@ -457,6 +510,7 @@ export const TREE_TYPES: TreeType[] = [
     growthRate: 'slow',
     maxHeight: 15,
     lifespan: 200,
+    woodDensity: 0.75,
     climateZones: ['mediterranean'],
     soilPreferences: ['well-drained', 'rocky'],
     waterNeeds: 'low',
@@ -473,6 +527,7 @@ export const TREE_TYPES: TreeType[] = [
     growthRate: 'medium',
     maxHeight: 10,
     lifespan: 100,
+    woodDensity: 0.40,
     climateZones: ['mediterranean', 'tropical'],
     soilPreferences: ['well-drained', 'loamy'],
     waterNeeds: 'medium',
@@ -489,6 +544,7 @@ export const TREE_TYPES: TreeType[] = [
     growthRate: 'medium',
     maxHeight: 8,
     lifespan: 100,
+    woodDensity: 0.70,
     climateZones: ['mediterranean', 'tropical'],
     soilPreferences: ['well-drained', 'loamy'],
     waterNeeds: 'medium',
@@ -505,6 +561,7 @@ export const TREE_TYPES: TreeType[] = [
     growthRate: 'medium',
     maxHeight: 12,
     lifespan: 80,
+    woodDensity: 0.70,
     climateZones: ['mediterranean'],
     soilPreferences: ['well-drained', 'loamy'],
     waterNeeds: 'medium',
@@ -521,6 +578,7 @@ export const TREE_TYPES: TreeType[] = [
     growthRate: 'slow',
     maxHeight: 10,
     lifespan: 200,
+    woodDensity: 0.60,
     climateZones: ['mediterranean'],
     soilPreferences: ['well-drained', 'rocky'],
     waterNeeds: 'low',
@@ -538,6 +596,7 @@ export const TREE_TYPES: TreeType[] = [
     growthRate: 'slow',
     maxHeight: 35,
     lifespan: 200,
+    woodDensity: 0.65,
     climateZones: ['tropical'],
     soilPreferences: ['well-drained', 'loamy'],
     waterNeeds: 'medium',
@@ -554,7 +613,9 @@ export const TREE_TYPES: TreeType[] = [
     growthRate: 'medium',
     maxHeight: 40,
     lifespan: 150,
+    woodDensity: 0.55,
     climateZones: ['tropical'],
+    climateEnvelope: { minTemperature: 20, minPrecipitation: 1000, maxPrecipitation: 3000 }, // Needs a warm monsoon climate with a dry season
     soilPreferences: ['well-drained', 'loamy'],
     waterNeeds: 'medium',
     biodiversityValue: 4,
@@ -570,7 +631,9 @@ export const TREE_TYPES: TreeType[] = [
     growthRate: 'medium',
     maxHeight: 30,
     lifespan: 100,
+    woodDensity: 0.49,
     climateZones: ['tropical'],
+    climateEnvelope: { minTemperature: 22, minPrecipitation: 1800 }, // Humid lowland tropics only
     soilPreferences: ['moist', 'well-drained'],
     waterNeeds: 'high',
     biodiversityValue: 3,
@@ -586,6 +649,7 @@ export const TREE_TYPES: TreeType[] = [
     growthRate: 'medium',
     maxHeight: 25,
     lifespan: 80,
+    woodDensity: 0.50,
     climateZones: ['tropical'],
     soilPreferences: ['sandy', 'well-drained'],
     waterNeeds: 'medium',
@@ -602,6 +666,7 @@ export const TREE_TYPES: TreeType[] = [
     growthRate: 'fast',
     maxHeight: 8,
     lifespan: 20,
+    woodDensity: 0.15,
     climateZones: ['tropical'],
     soilPreferences: ['well-drained', 'loamy'],
     waterNeeds: 'medium',
@@ -618,6 +683,7 @@ export const TREE_TYPES: TreeType[] = [
     growthRate: 'medium',
     maxHeight: 20,
     lifespan: 100,
+    woodDensity: 0.52,
     climateZones: ['tropical'],
     soilPreferences: ['well-drained', 'loamy'],
     waterNeeds: 'medium',
@@ -634,6 +700,7 @@ export const TREE_TYPES: TreeType[] = [
     growthRate: 'medium',
     maxHeight: 15,
     lifespan: 80,
+    woodDensity: 0.50,
     climateZones: ['tropical', 'mediterranean'],
     soilPreferences: ['well-drained', 'loamy'],
     waterNeeds: 'medium',
@@ -650,6 +717,7 @@ export const TREE_TYPES: TreeType[] = [
     growthRate: 'fast',
     maxHeight: 6,
     lifespan: 25,
+    woodDensity: 0.10,
     climateZones: ['tropical'],
     soilPreferences: ['moist', 'well-drained'],
     waterNeeds: 'high',
@@ -666,6 +734,7 @@ export const TREE_TYPES: TreeType[] = [
     growthRate: 'medium',
     maxHeight: 12,
     lifespan: 60,
+    woodDensity: 0.46,
     climateZones: ['tropical'],
     soilPreferences: ['well-drained', 'sandy'],
     waterNeeds: 'medium',
@@ -682,7 +751,9 @@ export const TREE_TYPES: TreeType[] = [
     growthRate: 'medium',
     maxHeight: 20,
     lifespan: 25,
+    woodDensity: 0.35,
     climateZones: ['tropical'],
+    climateEnvelope: { minTemperature: 22, minPrecipitation: 1600 }, // Humid lowland tropics only
     soilPreferences: ['moist', 'well-drained'],
     waterNeeds: 'high',
     biodiversityValue: 2,
@@ -699,6 +770,7 @@ export const TREE_TYPES: TreeType[] = [
     growthRate: 'medium',
     maxHeight: 25,
     lifespan: 200,
+    woodDensity: 0.43,
     climateZones: ['temperate'],
     soilPreferences: ['moist', 'well-drained'],
     waterNeeds: 'medium',
@@ -715,6 +787,7 @@ export const TREE_TYPES: TreeType[] = [
     growthRate: 'slow',
     maxHeight: 20,
     lifespan: 150,
+    woodDensity: 0.63,
     climateZones: ['temperate'],
     soilPreferences: ['moist', 'well-drained'],
     waterNeeds: 'medium',
@@ -731,6 +804,7 @@ export const TREE_TYPES: TreeType[] = [
     growthRate: 'fast',
     maxHeight: 30,
     lifespan: 200,
+    woodDensity: 0.51,
     climateZones: ['temperate'],
     soilPreferences: ['moist', 'well-drained'],
     waterNeeds: 'medium',
@@ -748,6 +822,7 @@ export const TREE_TYPES: TreeType[] = [
     growthRate: 'slow',
     maxHeight: 30,
     lifespan: 300,
+    woodDensity: 0.64,
     climateZones: ['temperate'],
     soilPreferences: ['well-drained', 'loamy'],
     waterNeeds: 'medium',
@@ -764,6 +839,7 @@ export const TREE_TYPES: TreeType[] = [
     growthRate: 'slow',
     maxHeight: 35,
     lifespan: 250,
+    woodDensity: 0.51,
     climateZones: ['temperate'],
     soilPreferences: ['well-drained', 'loamy'],
     waterNeeds: 'medium',
@@ -780,6 +856,7 @@ export const TREE_TYPES: TreeType[] = [
     growthRate: 'slow',
     maxHeight: 30,
     lifespan: 400,
+    woodDensity: 0.60,
     climateZones: ['temperate'],
     soilPreferences: ['well-drained', 'loamy'],
     waterNeeds: 'medium',
@@ -797,6 +874,7 @@ export const TREE_TYPES: TreeType[] = [
     growthRate: 'medium',
     maxHeight: 25,
     lifespan: 150,
+    woodDensity: 0.45,
     climateZones: ['tropical', 'subtropical'],
     soilPreferences: ['well-drained', 'loamy'],
     waterNeeds: 'medium',
@@ -813,6 +891,7 @@ export const TREE_TYPES: TreeType[] = [
     growthRate: 'slow',
     maxHeight: 15,
     lifespan: 100,
+    woodDensity: 0.80,
     climateZones: ['tropical'],
     soilPreferences: ['well-drained', 'sandy'],
     waterNeeds: 'low',
@@ -829,6 +908,7 @@ export const TREE_TYPES: TreeType[] = [
     growthRate: 'medium',
     maxHeight: 20,
     lifespan: 150,
+    woodDensity: 0.56,
     climateZones: ['tropical'],
     soilPreferences: ['well-drained', 'sandy'],
     waterNeeds: 'low',
@@ -846,6 +926,7 @@ export const TREE_TYPES: TreeType[] = [
     growthRate: 'slow',
     maxHeight: 18,
     lifespan: 150,
+    woodDensity: 0.50,
     climateZones: ['tropical'],
     soilPreferences: ['well-drained', 'sandy'],
     waterNeeds: 'low',
@@ -862,6 +943,7 @@ export const TREE_TYPES: TreeType[] = [
     growthRate: 'slow',
     maxHeight: 15,
     lifespan: 200,
+    woodDensity: 0.73,
     climateZones: ['tropical'],
     soilPreferences: ['well-drained', 'sandy'],
     waterNeeds: 'low',
@@ -879,6 +961,7 @@ export const TREE_TYPES: TreeType[] = [
     growthRate: 'medium',
     maxHeight: 60,
     lifespan: 500,
+    woodDensity: 0.45,
     climateZones: ['temperate'],
     soilPreferences: ['moist', 'well-drained'],
     waterNeeds: 'medium',
@@ -895,6 +978,7 @@ export const TREE_TYPES: TreeType[] = [
     growthRate: 'slow',
     maxHeight: 30,
     lifespan: 300,
+    woodDensity: 0.38,
     climateZones: ['temperate'],
     soilPreferences: ['moist', 'acidic'],
     waterNeeds: 'high',
@@ -911,6 +995,7 @@ export const TREE_TYPES: TreeType[] = [
     growthRate: 'medium',
     maxHeight: 35,
     lifespan: 200,
+    woodDensity: 0.46,
     climateZones: ['temperate', 'boreal'],
     soilPreferences: ['moist', 'well-drained'],
     waterNeeds: 'medium',
@@ -928,7 +1013,9 @@ export const TREE_TYPES: TreeType[] = [
     growthRate: 'slow',
     maxHeight: 25,
     lifespan: 200,
+    woodDensity: 0.38,
     climateZones: ['boreal'],
+    climateEnvelope: { maxTemperature: 5 }, // Cold boreal peatlands
     soilPreferences: ['moist', 'acidic', 'peat'],
     waterNeeds: 'high',
     biodiversityValue: 4,
@@ -944,6 +1031,7 @@ export const TREE_TYPES: TreeType[] = [
     growthRate: 'slow',
     maxHeight: 30,
     lifespan: 250,
+    woodDensity: 0.37,
     climateZones: ['boreal', 'temperate'],
     soilPreferences: ['moist', 'well-drained'],
     waterNeeds: 'medium',
@@ -960,6 +1048,7 @@ export const TREE_TYPES: TreeType[] = [
     growthRate: 'slow',
     maxHeight: 20,
     lifespan: 150,
+    woodDensity: 0.33,
     climateZones: ['boreal'],
     soilPreferences: ['moist', 'acidic'],
     waterNeeds: 'high',
@@ -976,6 +1065,7 @@ export const TREE_TYPES: TreeType[] = [
     growthRate: 'slow',
     maxHeight: 20,
     lifespan: 180,
+    woodDensity: 0.49,
     climateZones: ['boreal'],
     soilPreferences: ['moist', 'acidic', 'peat'],
     waterNeeds: 'high',
@@ -992,6 +1082,7 @@ export const TREE_TYPES: TreeType[] = [
     growthRate: 'slow',
     maxHeight: 15,
     lifespan: 150,
+    woodDensity: 0.40,
     climateZones: ['boreal'],
     soilPreferences: ['sandy', 'well-drained'],
     waterNeeds: 'low',
@@ -1009,6 +1100,7 @@ export const TREE_TYPES: TreeType[] = [
     growthRate: 'slow',
     maxHeight: 30,
     lifespan: 1000,
+    woodDensity: 0.44,
     climateZones: ['temperate'],
     soilPreferences: ['well-drained', 'acidic'],
     waterNeeds: 'medium',
@@ -1025,6 +1117,7 @@ export const TREE_TYPES: TreeType[] = [
     growthRate: 'slow',
     maxHeight: 12,
     lifespan: 600,
+    woodDensity: 0.40,
     climateZones: ['tropical'],
     soilPreferences: ['rocky', 'well-drained'],
     waterNeeds: 'low',
@@ -1042,6 +1135,7 @@ export const TREE_TYPES: TreeType[] = [
     growthRate: 'medium',
     maxHeight: 8,
     lifespan: 100,
+    woodDensity: 0.70,
     climateZones: ['arid'],
     soilPreferences: ['sandy', 'well-drained', 'poor'],
     waterNeeds: 'low',
@@ -1058,6 +1152,7 @@ export const TREE_TYPES: TreeType[] = [
     growthRate: 'fast',
     maxHeight: 10,
     lifespan: 120,
+    woodDensity: 0.55,
     climateZones: ['arid'],
     soilPreferences: ['sandy', 'well-drained', 'rocky'],
     waterNeeds: 'low',
@@ -1074,6 +1169,7 @@ export const TREE_TYPES: TreeType[] = [
     growthRate: 'slow',
     maxHeight: 15,
     lifespan: 800,
+    woodDensity: 0.95,
     climateZones: ['arid'],
     soilPreferences: ['rocky', 'well-drained'],
     waterNeeds: 'low',
@@ -1090,6 +1186,7 @@ export const TREE_TYPES: TreeType[] = [
     growthRate: 'slow',
     maxHeight: 12,
     lifespan: 150,
+    woodDensity: 0.25,
     climateZones: ['arid'],
     soilPreferences: ['sandy', 'well-drained'],
     waterNeeds: 'low',
@@ -1106,6 +1203,7 @@ export const TREE_TYPES: TreeType[] = [
     growthRate: 'fast',
     maxHeight: 8,
     lifespan: 40,
+    woodDensity: 0.50,
     climateZones: ['arid'],
     soilPreferences: ['sandy', 'well-drained'],
     waterNeeds: 'low',
@@ -1122,6 +1220,7 @@ export const TREE_TYPES: TreeType[] = [
     growthRate: 'medium',
     maxHeight: 20,
     lifespan: 200,
+    woodDensity: 0.75,
     climateZones: ['arid'],
     soilPreferences: ['sandy', 'rocky', 'well-drained'],
     waterNeeds: 'low',
@@ -1138,6 +1237,7 @@ export const TREE_TYPES: TreeType[] = [
     growthRate: 'fast',
     maxHeight: 6,
     lifespan: 50,
+    woodDensity: 0.55,
     climateZones: ['arid'],
     soilPreferences: ['sandy', 'saline', 'poor'],
     waterNeeds: 'low',
@@ -1154,6 +1254,7 @@ export const TREE_TYPES: TreeType[] = [
     growthRate: 'fast',
     maxHeight: 4,
     lifespan: 30,
+    woodDensity: 0.45,
     climateZones: ['arid'],
     soilPreferences: ['sandy', 'rocky', 'poor'],
     waterNeeds: 'low',
@@ -1171,6 +1272,7 @@ export const TREE_TYPES: TreeType[] = [
     growthRate: 'slow',
     maxHeight: 25,
     lifespan: 300,
+    woodDensity: 0.80,
     climateZones: ['subtropical'],
     soilPreferences: ['well-drained', 'sandy', 'loamy'],
     waterNeeds: 'medium',
@@ -1187,6 +1289,7 @@ export const TREE_TYPES: TreeType[] = [
     growthRate: 'medium',
     maxHeight: 35,
     lifespan: 600,
+    woodDensity: 0.42,
     climateZones: ['subtropical'],
     soilPreferences: ['wet', 'swampy', 'acidic'],
     waterNeeds: 'high',
@@ -1203,6 +1306,7 @@ export const TREE_TYPES: TreeType[] = [
     growthRate: 'medium',
     maxHeight: 25,
     lifespan: 200,
+    woodDensity: 0.46,
     climateZones: ['subtropical'],
     soilPreferences: ['moist', 'well-drained', 'acidic'],
     waterNeeds: 'medium',
@@ -1219,6 +1323,7 @@ export const TREE_TYPES: TreeType[] = [
     growthRate: 'medium',
     maxHeight: 30,
     lifespan: 300,
+    woodDensity: 0.60,
     climateZones: ['subtropical'],
     soilPreferences: ['deep', 'well-drained', 'fertile'],
     waterNeeds: 'medium',
@@ -1235,6 +1340,7 @@ export const TREE_TYPES: TreeType[] = [
     growthRate: 'fast',
     maxHeight: 30,
     lifespan: 200,
+    woodDensity: 0.54,
     climateZones: ['subtropical'],
     soilPreferences: ['sandy', 'well-drained', 'acidic'],
     waterNeeds: 'medium',
@@ -1251,6 +1357,7 @@ export const TREE_TYPES: TreeType[] = [
     growthRate: 'fast',
     maxHeight: 25,
     lifespan: 150,
+    woodDensity: 0.46,
     climateZones: ['subtropical', 'temperate'],
     soilPreferences: ['moist', 'well-drained'],
     waterNeeds: 'medium',
@@ -1267,6 +1374,7 @@ export const TREE_TYPES: TreeType[] = [
     growthRate: 'fast',
     maxHeight: 35,
     lifespan: 200,
+    woodDensity: 0.47,
     climateZones: ['subtropical'],
     soilPreferences: ['moist', 'well-drained', 'acidic'],
     waterNeeds: 'medium',
@@ -1283,6 +1391,7 @@ export const TREE_TYPES: TreeType[] = [
     growthRate: 'fast',
     maxHeight: 18,
     lifespan: 100,
+    woodDensity: 0.70,
     climateZones: ['subtropical', 'temperate'],
     soilPreferences: ['well-drained', 'adaptable'],
     waterNeeds: 'medium',
@@ -1299,6 +1408,7 @@ export const TREE_TYPES: TreeType[] = [
     growthRate: 'fast',
     maxHeight: 40,
     lifespan: 200,
+    woodDensity: 0.40,
     climateZones: ['subtropical', 'temperate'],
     soilPreferences: ['deep', 'moist', 'well-drained'],
     waterNeeds: 'medium',
@@ -1315,6 +1425,7 @@ export const TREE_TYPES: TreeType[] = [
     growthRate: 'medium',
     maxHeight: 20,
     lifespan: 150,
+    woodDensity: 0.55,
     climateZones: ['subtropical', 'mediterranean'],
     soilPreferences: ['well-drained', 'sandy'],
     waterNeeds: 'medium',
@@ -0,0 +1,124 @@
+/**
+ * Agroforestry layout and crop yields
+ * Trees are planted in rows with crops grown in the alleys between them. The
+ * row layout sets how many trees fit on the area, and crop yields fall as the
+ * tree crowns spread over the alleys and shade them.
+ */
+
+import { ModelParameters, DEFAULT_MODEL_PARAMETERS } from '@/utils/modelParameters';
+import { RegionBounds, TreePlantingConfig, calculateRegionArea } from '@/utils/treePlanting';
+
+export type AgroforestryCropKey = 'none' | 'maize' | 'beans' | 'wheat' | 'coffee' | 'cocoa' | 'pasture';
+
+export interface AgroforestryCrop {
+  key: AgroforestryCropKey;
+  label: string;
+  yield: number; // t/ha/year in full sun
+  price: number; // USD per tonne
+  shadeTolerance: number; // 0-1, share of the shade loss the crop avoids
+}
+
+export interface AgroforestrySettings {
+  alleyWidth: number; // metres from one tree row to the next
+  inRowSpacing: number; // metres between trees along a row
+  crop: AgroforestryCropKey;
+  cropYield?: number; // t/ha/year in full sun, crop default when unset
+  cropPrice?: number; // USD per tonne, crop default when unset
+}
+
+export interface AgroforestryLayout {
+  rowsPerHectare: number; // rows across a 100 m wide hectare
+  rowLength: number; // metres of tree row per hectare
+  treesPerHectare: number;
+  cropShare: number; // share of the area cropped (0-1)
+  spacing: number; // square spacing with the same area per tree, m
+}
+
+// Crops offered in the settings panel
+export const AGROFORESTRY_CROPS: AgroforestryCrop[] = [
+  { key: 'none', label: 'No crop', yield: 0, price: 0, shadeTolerance: 0 },
+  { key: 'maize', label: 'Maize', yield: 4, price: 200, shadeTolerance: 0 },
+  { key: 'beans', label: 'Beans', yield: 1.2, price: 700, shadeTolerance: 0.2 },
+  { key: 'wheat', label: 'Wheat', yield: 3.5, price: 230, shadeTolerance: 0 },
+  { key: 'coffee', label: 'Coffee', yield: 0.8, price: 3000, shadeTolerance: 0.7 },
+  { key: 'cocoa', label: 'Cocoa', yield: 0.5, price: 2500, shadeTolerance: 0.8 },
+  { key: 'pasture', label: 'Pasture (hay)', yield: 6, price: 100, shadeTolerance: 0.4 }
+];
+
+export const DEFAULT_AGROFORESTRY_SETTINGS: AgroforestrySettings = {
+  alleyWidth: 12,
+  inRowSpacing: 4,
+  crop: 'maize'
+};
+
+export const MIN_ALLEY_WIDTH = 4;
+export const MAX_ALLEY_WIDTH = 50;
+
+// Clamp settings to usable values
+export const normalizeAgroforestrySettings = (settings: AgroforestrySettings): AgroforestrySettings => ({
+  alleyWidth: Math.max(MIN_ALLEY_WIDTH, Math.min(MAX_ALLEY_WIDTH, settings.alleyWidth || MIN_ALLEY_WIDTH)),
+  inRowSpacing: Math.max(1, Math.min(20, settings.inRowSpacing || 1)),
+  crop: AGROFORESTRY_CROPS.some(crop => crop.key === settings.crop) ? settings.crop : 'none',
+  cropYield: settings.cropYield !== undefined ? Math.max(0, settings.cropYield) : undefined,
+  cropPrice: settings.cropPrice !== undefined ? Math.max(0, settings.cropPrice) : undefined
+});
+
+export const getAgroforestryCrop = (key: AgroforestryCropKey): AgroforestryCrop => {
+  return AGROFORESTRY_CROPS.find(crop => crop.key === key) ?? AGROFORESTRY_CROPS[0];
+};
+
+// Full-sun yield (t/ha/year) and price (USD/t), the user's values or the crop's defaults
+export const getCropYield = (settings: AgroforestrySettings): number => {
+  return settings.crop === 'none' ? 0 : settings.cropYield ?? getAgroforestryCrop(settings.crop).yield;
+};
+
+export const getCropPrice = (settings: AgroforestrySettings): number => {
+  return settings.crop === 'none' ? 0 : settings.cropPrice ?? getAgroforestryCrop(settings.crop).price;
+};
+
+// Trees per hectare and cropped share from the row layout
+export const calculateAgroforestryLayout = (
+  settings: AgroforestrySettings,
+  parameters: ModelParameters = DEFAULT_MODEL_PARAMETERS
+): AgroforestryLayout => {
+  const { alleyWidth, inRowSpacing } = normalizeAgroforestrySettings(settings);
+  const areaPerTree = alleyWidth * inRowSpacing;
+
+  return {
+    rowsPerHectare: 100 / alleyWidth,
+    rowLength: 10000 / alleyWidth,
+    treesPerHectare: 10000 / areaPerTree,
+    cropShare: Math.max(0, 1 - parameters.agroforestry.TREE_STRIP_WIDTH / alleyWidth),
+    spacing: Math.sqrt(areaPerTree)
+  };
+};
+
+// Planting configuration for the region, with the tree count set by the row layout
+export const calculateAgroforestryPlanting = (bounds: RegionBounds, settings: AgroforestrySettings): TreePlantingConfig => {
+  const area = calculateRegionArea(bounds);
+  const { treesPerHectare, spacing } = calculateAgroforestryLayout(settings);
+
+  return {
+    spacing,
+    density: treesPerHectare,
+    area,
+    totalTrees: Math.floor(area * treesPerHectare),
+    carbonSequestration: 0 // Will be calculated based on tree type
+  };
+};
+
+/**
+ * Share of the crop yield lost to shade (0-1)
+ * Crowns widen with DBH and shade the alley from both rows; shade-tolerant
+ * crops such as coffee and cocoa lose little.
+ */
+export const getShadeLoss = (
+  settings: AgroforestrySettings,
+  dbh: number,
+  parameters: ModelParameters = DEFAULT_MODEL_PARAMETERS
+): number => {
+  const { alleyWidth, crop } = normalizeAgroforestrySettings(settings);
+  const crownWidth = Math.max(0, dbh) * parameters.agroforestry.CROWN_WIDTH_PER_DBH;
+  const cover = Math.min(1, crownWidth / alleyWidth);
+  return cover * parameters.agroforestry.MAX_SHADE_LOSS * (1 - getAgroforestryCrop(crop).shadeTolerance);
+};
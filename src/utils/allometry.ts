@@ -0,0 +1,148 @@
+/**
+ * Allometric tree size and biomass model
+ * Height and diameter at breast height (DBH) grow along Chapman-Richards
+ * curves; species-group allometric equations turn size and wood density into
+ * biomass, and sequestration is the yearly change in whole-tree biomass.
+ */
+
+import { TreeType } from '@/types/treeTypes';
+import { ModelParameters, DEFAULT_MODEL_PARAMETERS } from '@/utils/modelParameters';
+import { getGrowthCurve } from '@/utils/growthCurves';
+import { getRootShootRatio } from '@/utils/carbonPools';
+
+export type GrowthModel = 'allometric' | 'rate';
+
+export const DEFAULT_GROWTH_MODEL: GrowthModel = 'allometric';
+
+// Options offered in the settings panel
+export const GROWTH_MODEL_OPTIONS: Array<{ key: GrowthModel; label: string; description: string }> = [
+  { key: 'allometric', label: 'Allometric (DBH & height)', description: 'Sequestration follows the yearly biomass gain of growing trees' },
+  { key: 'rate', label: 'Species rate curve', description: 'Each species\' mature kg CO₂/year rate scaled by its growth curve' }
+];
+
+export type AllometricGroup = 'conifer' | 'broadleaf' | 'tropical' | 'dryland';
+
+export interface TreeSize {
+  dbh: number; // cm at 1.3 m
+  height: number; // m
+  aboveGroundBiomass: number; // kg dry matter
+  totalBiomass: number; // kg dry matter including roots
+  carbonStock: number; // kg CO2 held in the living tree
+}
+
+// Allometric equation family for a species category
+export const getAllometricGroup = (tree: TreeType): AllometricGroup => {
+  switch (tree.category) {
+    case 'coniferous':
+    case 'boreal':
+      return 'conifer';
+    case 'deciduous':
+    case 'mediterranean':
+      return 'broadleaf';
+    case 'tropical':
+    case 'subtropical':
+      return 'tropical';
+    case 'arid':
+      return 'dryland';
+  }
+};
+
+const getGroupCoefficients = (group: AllometricGroup, parameters: ModelParameters) => {
+  const allometry = parameters.allometry;
+  switch (group) {
+    case 'conifer':
+      return { coefficient: allometry.CONIFER_COEFFICIENT, exponent: allometry.CONIFER_EXPONENT, diameterPerHeight: allometry.DIAMETER_PER_HEIGHT_CONIFER, woodDensity: allometry.WOOD_DENSITY_CONIFER };
+    case 'broadleaf':
+      return { coefficient: allometry.BROADLEAF_COEFFICIENT, exponent: allometry.BROADLEAF_EXPONENT, diameterPerHeight: allometry.DIAMETER_PER_HEIGHT_BROADLEAF, woodDensity: allometry.WOOD_DENSITY_BROADLEAF };
+    case 'tropical':
+      return { coefficient: allometry.TROPICAL_COEFFICIENT, exponent: allometry.TROPICAL_EXPONENT, diameterPerHeight: allometry.DIAMETER_PER_HEIGHT_TROPICAL, woodDensity: allometry.WOOD_DENSITY_TROPICAL };
+    case 'dryland':
+      return { coefficient: allometry.DRYLAND_COEFFICIENT, exponent: allometry.DRYLAND_EXPONENT, diameterPerHeight: allometry.DIAMETER_PER_HEIGHT_DRYLAND, woodDensity: allometry.WOOD_DENSITY_DRYLAND };
+  }
+};
+
+// Wood density (g/cm³) of a species, falling back to its group default
+export const getWoodDensity = (tree: TreeType, parameters: ModelParameters = DEFAULT_MODEL_PARAMETERS): number => {
+  return tree.woodDensity ?? getGroupCoefficients(getAllometricGroup(tree), parameters).woodDensity;
+};
+
+// Largest DBH (cm) a species reaches in open growth
+export const getMaxDiameter = (tree: TreeType, parameters: ModelParameters = DEFAULT_MODEL_PARAMETERS): number => {
+  return tree.maxHeight * getGroupCoefficients(getAllometricGroup(tree), parameters).diameterPerHeight;
+};
+
+// Largest DBH (cm) trees at this spacing reach before the stand closes
+export const getStandDiameterLimit = (spacing: number, parameters: ModelParameters = DEFAULT_MODEL_PARAMETERS): number => {
+  const treesPerHectare = 10000 / Math.max(0.1, spacing * spacing);
+  // Basal area per tree (m²) -> diameter (cm)
+  return 200 * Math.sqrt(parameters.allometry.MAX_BASAL_AREA / (Math.PI * treesPerHectare));
+};
+
+/**
+ * Above-ground biomass (kg) from DBH (cm), height (m) and wood density (g/cm³)
+ */
+export const calculateAboveGroundBiomass = (
+  dbh: number,
+  height: number,
+  woodDensity: number,
+  group: AllometricGroup,
+  parameters: ModelParameters = DEFAULT_MODEL_PARAMETERS
+): number => {
+  if (dbh <= 0 || height <= 0) return 0;
+  const { coefficient, exponent } = getGroupCoefficients(group, parameters);
+  return coefficient * Math.pow(woodDensity * dbh * dbh * height, exponent);
+};
+
+/**
+ * Size, biomass and carbon of one tree at a given age
+ * Height approaches the species maximum over a multiple of its years to
+ * maturity; diameter grows more slowly and keeps growing after height levels
+ * off, until the stand closes at its spacing.
+ */
+export const getTreeSize = (
+  tree: TreeType,
+  age: number,
+  spacing: number,
+  parameters: ModelParameters = DEFAULT_MODEL_PARAMETERS
+): TreeSize => {
+  if (age <= 0) return { dbh: 0, height: 0, aboveGroundBiomass: 0, totalBiomass: 0, carbonStock: 0 };
+
+  const allometry = parameters.allometry;
+  const curve = getGrowthCurve(tree, parameters.growthCurve);
+  const threshold = parameters.growthCurve.MATURITY_THRESHOLD;
+
+  // Rate constant that brings height to the maturity threshold of its maximum
+  const sizeYears = Math.max(1, curve.yearsToMaturity * allometry.SIZE_MATURITY_FACTOR);
+  const heightRate = -Math.log(1 - Math.pow(threshold, 1 / allometry.HEIGHT_SHAPE)) / sizeYears;
+  const diameterRate = heightRate * allometry.DIAMETER_RATE_RATIO;
+
+  const height = tree.maxHeight * Math.pow(1 - Math.exp(-heightRate * age), allometry.HEIGHT_SHAPE);
+  // Trees shorter than breast height have no DBH yet
+  const dbh = height > allometry.BREAST_HEIGHT
+    ? Math.min(
+        getMaxDiameter(tree, parameters) * Math.pow(1 - Math.exp(-diameterRate * age), allometry.DIAMETER_SHAPE),
+        getStandDiameterLimit(spacing, parameters)
+      )
+    : 0;
+
+  const aboveGroundBiomass = calculateAboveGroundBiomass(dbh, height, getWoodDensity(tree, parameters), getAllometricGroup(tree), parameters);
+  const totalBiomass = aboveGroundBiomass * (1 + getRootShootRatio(tree, parameters));
+
+  return {
+    dbh,
+    height,
+    aboveGroundBiomass,
+    totalBiomass,
+    carbonStock: totalBiomass * allometry.CARBON_FRACTION * parameters.carbon.CARBON_TO_CO2
+  };
+};
+
+// kg CO2 taken up by one tree in the year it reaches the given age
+export const getBiomassIncrement = (
+  tree: TreeType,
+  age: number,
+  spacing: number,
+  parameters: ModelParameters = DEFAULT_MODEL_PARAMETERS
+): number => {
+  return Math.max(0, getTreeSize(tree, age, spacing, parameters).carbonStock - getTreeSize(tree, age - 1, spacing, parameters).carbonStock);
+};
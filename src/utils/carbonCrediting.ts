@@ -0,0 +1,97 @@
+/**
+ * Carbon crediting: net creditable tonnes for a registry
+ * The stand's removals each year are reduced by what the land would have
+ * taken up anyway (the baseline), by the emissions displaced elsewhere
+ * (leakage), by a deduction for uncertainty, and by the contribution to the
+ * non-permanence buffer pool. What remains can be issued as credits.
+ */
+
+import { TreeType } from '@/types/treeTypes';
+import { ModelParameters, DEFAULT_MODEL_PARAMETERS } from '@/utils/modelParameters';
+
+export type CreditingBaselineType = 'none' | 'fixed' | 'share';
+
+export interface CreditingSettings {
+  enabled: boolean;
+  baselineType: CreditingBaselineType;
+  baselineValue: number; // t CO2/ha/yr for a fixed baseline, % of the project removals for a share
+  leakage: number; // % of the net removals
+  uncertainty: number; // % deducted after leakage
+}
+
+// Deductions from one year's removals, t CO2
+export interface CreditingDeductions {
+  baseline: number;
+  leakage: number;
+  uncertainty: number;
+  buffer: number;
+}
+
+export const CREDITING_BASELINE_TYPES: Array<{ key: CreditingBaselineType; label: string }> = [
+  { key: 'none', label: 'No removals (degraded land)' },
+  { key: 'fixed', label: 'Fixed removals (t CO₂/ha/yr)' },
+  { key: 'share', label: 'Share of project removals (%)' }
+];
+
+// Display order and labels
+export const CREDITING_DEDUCTIONS: Array<{ key: keyof CreditingDeductions; label: string }> = [
+  { key: 'baseline', label: 'Baseline' },
+  { key: 'leakage', label: 'Leakage' },
+  { key: 'uncertainty', label: 'Uncertainty' },
+  { key: 'buffer', label: 'Buffer pool' }
+];
+
+export const DEFAULT_CREDITING_SETTINGS: CreditingSettings = {
+  enabled: false,
+  baselineType: 'none',
+  baselineValue: 0,
+  leakage: 5,
+  uncertainty: 5
+};
+
+// Clamp settings to usable values
+export const normalizeCreditingSettings = (settings: CreditingSettings): CreditingSettings => {
+  const clampPercent = (value: number) => Math.max(0, Math.min(100, isFinite(value) ? value : 0));
+  const baselineType = CREDITING_BASELINE_TYPES.some(type => type.key === settings.baselineType) ? settings.baselineType : 'none';
+  return {
+    enabled: settings.enabled,
+    baselineType,
+    baselineValue: baselineType === 'share' ? clampPercent(settings.baselineValue) : Math.max(0, isFinite(settings.baselineValue) ? settings.baselineValue : 0),
+    leakage: clampPercent(settings.leakage),
+    uncertainty: clampPercent(settings.uncertainty)
+  };
+};
+
+/**
+ * Share of credits (%) a species contributes to the buffer pool
+ * Species that withstand drought, storms and fire put their carbon at less
+ * risk of reversal and contribute less.
+ */
+export const getBufferContribution = (tree: TreeType, parameters: ModelParameters = DEFAULT_MODEL_PARAMETERS): number => {
+  const { crediting } = parameters;
+  const contribution = crediting.BUFFER_BASE +
+    crediting.BUFFER_PER_RESILIENCE_POINT * (5 - tree.resilienceScore) +
+    crediting.BUFFER_PER_FIRE_RESISTANCE_POINT * (5 - (tree.fireResistance ?? 3));
+  return Math.max(crediting.MIN_BUFFER, Math.min(crediting.MAX_BUFFER, contribution));
+};
+
+/**
+ * Deductions from a year's project removals (t CO2)
+ * Leakage, uncertainty and the buffer only apply to net removals; a year in
+ * which the stand loses carbon is a reversal and is carried in full.
+ */
+export const getCreditingDeductions = (
+  removals: number,
+  baselineRemovals: number, // t CO2 of a fixed baseline that year
+  settings: CreditingSettings,
+  bufferContribution: number // %
+): CreditingDeductions => {
+  const baseline = settings.baselineType === 'share'
+    ? Math.max(0, removals) * settings.baselineValue / 100
+    : settings.baselineType === 'fixed' ? baselineRemovals : 0;
+  const net = Math.max(0, removals - baseline);
+  const leakage = net * settings.leakage / 100;
+  const uncertainty = (net - leakage) * settings.uncertainty / 100;
+  const buffer = (net - leakage - uncertainty) * bufferContribution / 100;
+  return { baseline, leakage, uncertainty, buffer };
+};
@@ -0,0 +1,161 @@
+/**
+ * Carbon pool accounting for planted stands
+ * Tracks above-ground and root biomass, deadwood from mortality, litter and
+ * soil organic carbon year by year. All pools are kg CO2 gained since planting.
+ */
+
+import { TreeType } from '@/types/treeTypes';
+import { ModelParameters, DEFAULT_MODEL_PARAMETERS } from '@/utils/modelParameters';
+import { DisturbanceLosses } from '@/utils/disturbance';
+
+export interface CarbonPools {
+  aboveGround: number; // living stems, branches and foliage
+  belowGround: number; // living roots
+  deadwood: number; // stems and roots of trees lost to mortality, less decomposition
+  litter: number; // fallen leaves and twigs, less decomposition
+  soil: number; // change in soil organic carbon
+}
+
+export type CarbonPoolKey = keyof CarbonPools;
+
+// Display order, labels and chart colors (bottom of the stack first)
+export const CARBON_POOL_KEYS: Array<{ key: CarbonPoolKey; label: string; color: string }> = [
+  { key: 'aboveGround', label: 'Above-ground biomass', color: '#1B4D3E' },
+  { key: 'belowGround', label: 'Root biomass', color: '#92400e' },
+  { key: 'deadwood', label: 'Deadwood', color: '#78716c' },
+  { key: 'litter', label: 'Litter', color: '#ca8a04' },
+  { key: 'soil', label: 'Soil organic carbon', color: '#57534e' }
+];
+
+// One cohort's state for a year, as produced by the engine's cohort growth
+export interface PoolCohortYear {
+  livingTrees: number; // at the end of the year, after any harvest
+  annualCarbon: number; // kg CO2 taken up by the living trees that year
+  removedTrees?: number; // trees harvested at the end of the year (rotation forestry)
+  recruitedTrees?: number; // seedlings that established that year (natural regeneration)
+  disturbedTrees?: DisturbanceLosses; // trees killed by fire, drought, windthrow and pest outbreaks that year
+}
+
+export const getTotalPoolCarbon = (pools: CarbonPools): number => {
+  return pools.aboveGround + pools.belowGround + pools.deadwood + pools.litter + pools.soil;
+};
+
+// Root biomass per unit of above-ground biomass for a species
+export const getRootShootRatio = (tree: TreeType, parameters: ModelParameters = DEFAULT_MODEL_PARAMETERS): number => {
+  const pools = parameters.carbonPools;
+  switch (tree.category) {
+    case 'coniferous': return pools.ROOT_SHOOT_CONIFEROUS;
+    case 'deciduous': return pools.ROOT_SHOOT_DECIDUOUS;
+    case 'tropical': return pools.ROOT_SHOOT_TROPICAL;
+    case 'mediterranean': return pools.ROOT_SHOOT_MEDITERRANEAN;
+    case 'boreal': return pools.ROOT_SHOOT_BOREAL;
+    case 'arid': return pools.ROOT_SHOOT_ARID;
+    case 'subtropical': return pools.ROOT_SHOOT_SUBTROPICAL;
+  }
+};
+
+// Annual decomposition rates; warmer climates decompose faster
+export const getPoolDecayRates = (latitude: number, parameters: ModelParameters = DEFAULT_MODEL_PARAMETERS): { litter: number; deadwood: number } => {
+  const { carbonPools: pools, defaultClimate } = parameters;
+  const absLat = Math.abs(latitude);
+
+  if (absLat < defaultClimate.TROPICAL_MAX_LATITUDE) {
+    return { litter: pools.LITTER_DECAY_TROPICAL, deadwood: pools.DEADWOOD_DECAY_TROPICAL };
+  }
+  if (absLat < defaultClimate.TEMPERATE_MAX_LATITUDE) {
+    return { litter: pools.LITTER_DECAY_TEMPERATE, deadwood: pools.DEADWOOD_DECAY_TEMPERATE };
+  }
+  return { litter: pools.LITTER_DECAY_BOREAL, deadwood: pools.DEADWOOD_DECAY_BOREAL };
+};
+
+/**
+ * Topsoil organic carbon stock (t C/ha) from a SoilGrids SOC concentration (g/kg)
+ */
+export const estimateSoilCarbonStock = (soilCarbon: number, parameters: ModelParameters = DEFAULT_MODEL_PARAMETERS): number => {
+  const pools = parameters.carbonPools;
+  // g/kg × g/cm³ × cm × 0.1 = t C/ha
+  return soilCarbon * pools.SOIL_BULK_DENSITY * pools.SOIL_DEPTH * 0.1;
+};
+
+/**
+ * Soil organic carbon gained after afforestation (t C/ha) once the transition completes
+ * A share of the stock missing up to saturation is gained, so carbon-poor soils
+ * gain the most and soils at saturation gain nothing.
+ */
+export const estimateSoilCarbonGain = (soilCarbon: number, parameters: ModelParameters = DEFAULT_MODEL_PARAMETERS): number => {
+  const pools = parameters.carbonPools;
+  const deficit = Math.max(0, pools.SOIL_CARBON_SATURATION - soilCarbon);
+  return estimateSoilCarbonStock(deficit, parameters) * pools.SOIL_CARBON_GAIN;
+};
+
+/**
+ * Create a year-by-year pool tracker for a set of species cohorts
+ * Each call advances one year. Trees that die move their accumulated biomass
+ * into deadwood, less the share that burns when a fire killed them; harvested trees take their above-ground biomass out of the
+ * stand and leave their roots as deadwood, and a cleared cohort that is
+ * replanted starts again from seedlings. Litter builds up from the
+ * above-ground stock; soil carbon moves linearly to its new level over the
+ * transition period.
+ */
+export const createCarbonPoolTracker = (options: {
+  trees: TreeType[]; // species of each cohort
+  plantedTrees: number[]; // trees planted in each cohort, none when it regenerates naturally
+  latitude: number;
+  soilCarbon: number | null; // SoilGrids SOC (g/kg), null when unknown
+  soilArea: number; // hectares of soil affected
+  parameters?: ModelParameters;
+}) => {
+  const { trees, latitude, soilCarbon, soilArea, parameters = DEFAULT_MODEL_PARAMETERS } = options;
+  const ratios = trees.map(tree => getRootShootRatio(tree, parameters));
+  const decay = getPoolDecayRates(latitude, parameters);
+  const { LITTERFALL_RATE, SOIL_TRANSITION_YEARS } = parameters.carbonPools;
+  const soilGain = soilCarbon
+    ? estimateSoilCarbonGain(soilCarbon, parameters) * soilArea * 1000 * parameters.carbon.CARBON_TO_CO2
+    : 0;
+
+  const living = [...options.plantedTrees];
+  const perTreeStock = trees.map(() => 0);
+  let deadwood = 0;
+  let litter = 0;
+  let year = 0;
+
+  return (cohortYear: PoolCohortYear[]): CarbonPools => {
+    year++;
+    let aboveGround = 0;
+    let belowGround = 0;
+    let mortality = 0;
+
+    cohortYear.forEach((entry, i) => {
+      const removed = entry.removedTrees ?? 0;
+      const recruited = entry.recruitedTrees ?? 0;
+      const grown = entry.livingTrees + removed;
+      if (living[i] <= 0) perTreeStock[i] = 0;
+
+      // Trees that died this year take last year's biomass with them; trees
+      // recruited this year join with none, lowering the average
+      const survivors = Math.max(0, Math.min(living[i], grown - recruited));
+      const burned = Math.min(living[i] - survivors, entry.disturbedTrees?.fire ?? 0);
+      mortality += (living[i] - survivors - burned * parameters.disturbance.FIRE_COMBUSTION) * perTreeStock[i];
+      if (grown > 0) perTreeStock[i] = (survivors * perTreeStock[i] + entry.annualCarbon) / grown;
+      // Roots of harvested trees stay behind; their stems leave the stand
+      mortality += removed * perTreeStock[i] * ratios[i] / (1 + ratios[i]);
+      living[i] = entry.livingTrees;
+
+      // Species uptake is whole-tree; the root:shoot ratio splits it between pools
+      const stock = living[i] * perTreeStock[i];
+      aboveGround += stock / (1 + ratios[i]);
+      belowGround += stock * ratios[i] / (1 + ratios[i]);
+    });
+
+    deadwood = deadwood * (1 - decay.deadwood) + mortality;
+    litter = litter * (1 - decay.litter) + aboveGround * LITTERFALL_RATE;
+
+    return {
+      aboveGround,
+      belowGround,
+      deadwood,
+      litter,
+      soil: soilGain * Math.min(1, year / SOIL_TRANSITION_YEARS)
+    };
+  };
+};
@@ -0,0 +1,95 @@
+/**
+ * Carbon price paths and credit issuance
+ * Credits are issued at each verification for the carbon the stand has added
+ * since the last one, and sold at that year's price. A price path is flat,
+ * grows linearly, or follows a per-year table entered by the user.
+ */
+
+export type CarbonPricePathType = 'flat' | 'linear' | 'table';
+
+export interface CarbonPriceScenario {
+  name: string;
+  type: CarbonPricePathType;
+  startPrice: number; // USD per t CO2 in year 1 (flat and linear paths)
+  annualIncrease: number; // USD per t CO2 added each year (linear paths)
+  prices: number[]; // USD per t CO2 from year 1, the last price held after the table ends (table paths)
+}
+
+// Credits issued at one verification
+export interface CarbonIssuance {
+  year: number;
+  vintageStart: number; // first year of carbon covered
+  vintageEnd: number; // last year of carbon covered
+  tonnes: number; // t CO2 issued
+}
+
+export const CARBON_PRICE_PATH_TYPES: Array<{ key: CarbonPricePathType; label: string }> = [
+  { key: 'flat', label: 'Flat' },
+  { key: 'linear', label: 'Linear growth' },
+  { key: 'table', label: 'Per-year table' }
+];
+
+export const DEFAULT_CARBON_PRICE_SCENARIOS: CarbonPriceScenario[] = [
+  { name: 'Central', type: 'linear', startPrice: 20, annualIncrease: 1, prices: [] },
+  { name: 'Low', type: 'flat', startPrice: 10, annualIncrease: 0, prices: [] },
+  { name: 'High', type: 'linear', startPrice: 40, annualIncrease: 3, prices: [] }
+];
+
+export const DEFAULT_VERIFICATION_INTERVAL = 5;
+export const MAX_VERIFICATION_INTERVAL = 20;
+export const MAX_PRICE_SCENARIOS = 4;
+
+// Clamp a scenario to usable values
+export const normalizeCarbonPriceScenario = (scenario: CarbonPriceScenario): CarbonPriceScenario => ({
+  name: scenario.name.trim() || 'Scenario',
+  type: CARBON_PRICE_PATH_TYPES.some(path => path.key === scenario.type) ? scenario.type : 'flat',
+  startPrice: Math.max(0, scenario.startPrice || 0),
+  annualIncrease: isFinite(scenario.annualIncrease) ? scenario.annualIncrease : 0,
+  prices: scenario.prices.filter(price => isFinite(price)).map(price => Math.max(0, price))
+});
+
+// USD per t CO2 in a simulation year, never below zero
+export const getCarbonPrice = (scenario: CarbonPriceScenario, year: number): number => {
+  if (scenario.type === 'table' && scenario.prices.length > 0) {
+    return scenario.prices[Math.max(0, Math.min(scenario.prices.length, year) - 1)];
+  }
+  if (scenario.type === 'linear') {
+    return Math.max(0, scenario.startPrice + scenario.annualIncrease * (Math.max(1, year) - 1));
+  }
+  return scenario.startPrice;
+};
+
+// "20, 21.5, 23" -> [20, 21.5, 23]
+export const parsePriceTable = (text: string): number[] => {
+  return text.split(/[\s,;]+/).map(value => parseFloat(value)).filter(value => isFinite(value) && value >= 0);
+};
+
+/**
+ * Credits issued at each verification
+ * Verifications fall every interval years and in the final year. Each issues
+ * the carbon stored above the most ever credited before, so carbon lost to a
+ * harvest or disturbance must be regrown before new credits are issued.
+ */
+export const getIssuanceSchedule = (
+  cumulativeCarbon: number[], // kg CO2 stored (or creditable) at the end of each year from year 1
+  verificationInterval: number
+): CarbonIssuance[] => {
+  const interval = Math.max(1, Math.round(verificationInterval));
+  const issuances: CarbonIssuance[] = [];
+  let credited = 0;
+  let vintageStart = 1;
+
+  cumulativeCarbon.forEach((stored, i) => {
+    const year = i + 1;
+    if (year % interval !== 0 && year !== cumulativeCarbon.length) return;
+
+    const tonnes = Math.max(0, stored - credited) / 1000;
+    if (tonnes > 0) {
+      issuances.push({ year, vintageStart, vintageEnd: year, tonnes });
+      credited = stored;
+    }
+    vintageStart = year + 1;
+  });
+
+  return issuances;
+};
@@ -0,0 +1,112 @@
+/**
+ * Project cash flow
+ * Planting is paid up front, the stand is maintained every year, and it earns
+ * carbon credits at each verification and timber revenue when it is harvested.
+ * Flows are discounted to today to give the net present value, the internal
+ * rate of return, the payback year and the cost per tonne of CO2.
+ */
+
+import { TreeType } from '@/types/treeTypes';
+import { ModelParameters, DEFAULT_MODEL_PARAMETERS } from '@/utils/modelParameters';
+import { CarbonPriceScenario, DEFAULT_CARBON_PRICE_SCENARIOS, DEFAULT_VERIFICATION_INTERVAL, MAX_PRICE_SCENARIOS, MAX_VERIFICATION_INTERVAL, normalizeCarbonPriceScenario } from '@/utils/carbonPricing';
+
+export interface CashFlowSettings {
+  discountRate: number; // % per year
+  verificationInterval: number; // years between credit issuances
+  priceScenarios: CarbonPriceScenario[]; // the first sets the project cash flow; the others are compared with it
+}
+
+// Costs are positive; the net flow subtracts them from the revenue (USD)
+export interface CashFlowYear {
+  year: number; // 0 is the planting year
+  planting: number; // planting and replanting, or establishing a regenerating stand
+  maintenance: number;
+  carbonCredits: number;
+  creditsIssued: number; // t CO2 issued that year
+  carbonPrice: number; // USD per t CO2 that year
+  timber: number;
+  crops: number; // alley crops (agroforestry mode)
+  netCashFlow: number;
+  cumulativeCashFlow: number;
+  discountedCashFlow: number; // cumulative, discounted to today
+}
+
+export const DEFAULT_CASH_FLOW_SETTINGS: CashFlowSettings = {
+  discountRate: 5,
+  verificationInterval: DEFAULT_VERIFICATION_INTERVAL,
+  priceScenarios: DEFAULT_CARBON_PRICE_SCENARIOS
+};
+
+export const MAX_DISCOUNT_RATE = 30;
+
+// Clamp settings to usable values
+export const normalizeCashFlowSettings = (settings: CashFlowSettings): CashFlowSettings => ({
+  discountRate: Math.max(0, Math.min(MAX_DISCOUNT_RATE, isFinite(settings.discountRate) ? settings.discountRate : DEFAULT_CASH_FLOW_SETTINGS.discountRate)),
+  verificationInterval: Math.max(1, Math.min(MAX_VERIFICATION_INTERVAL, Math.round(settings.verificationInterval) || DEFAULT_VERIFICATION_INTERVAL)),
+  priceScenarios: (settings.priceScenarios?.length ? settings.priceScenarios : DEFAULT_CARBON_PRICE_SCENARIOS)
+    .slice(0, MAX_PRICE_SCENARIOS)
+    .map(normalizeCarbonPriceScenario)
+});
+
+// USD to plant one tree and to maintain one living tree for a year
+export const getPlantingCost = (tree: TreeType, parameters: ModelParameters = DEFAULT_MODEL_PARAMETERS): number => {
+  return tree.plantingCost ?? parameters.cashFlow.PLANTING_COST_PER_TREE;
+};
+
+export const getMaintenanceCost = (tree: TreeType, parameters: ModelParameters = DEFAULT_MODEL_PARAMETERS): number => {
+  return tree.maintenanceCost ?? parameters.cashFlow.MAINTENANCE_COST_PER_TREE;
+};
+
+// Present value of yearly flows, the first in year 0
+export const getNetPresentValue = (flows: number[], discountRate: number): number => {
+  return flows.reduce((sum, flow, year) => sum + flow / Math.pow(1 + discountRate / 100, year), 0);
+};
+
+/**
+ * Discount rate (%) at which the flows break even
+ * Rates from -90% to 300% are scanned for a change in sign of the net present
+ * value and the change is narrowed down by bisection. Flows that turn from
+ * costs to revenue and back to costs can break even at more than one rate;
+ * the highest is returned, or null when they never break even.
+ */
+export const getInternalRateOfReturn = (flows: number[]): number | null => {
+  if (!flows.some(flow => flow < 0) || !flows.some(flow => flow > 0)) return null;
+
+  const roots: number[] = [];
+  for (let rate = -90; rate < 300; rate++) {
+    let low = rate;
+    let high = rate + 1;
+    let lowValue = getNetPresentValue(flows, low);
+    if (lowValue === 0) {
+      roots.push(low);
+      continue;
+    }
+    if (Math.sign(lowValue) === Math.sign(getNetPresentValue(flows, high))) continue;
+
+    for (let i = 0; i < 40; i++) {
+      const middle = (low + high) / 2;
+      const value = getNetPresentValue(flows, middle);
+      if (Math.sign(value) === Math.sign(lowValue)) {
+        low = middle;
+        lowValue = value;
+      } else {
+        high = middle;
+      }
+    }
+    roots.push((low + high) / 2);
+  }
+
+  return roots.length > 0 ? Math.max(...roots) : null;
+};
+
+// First year the cumulative flow is back to zero or above after the costs, null if it never is
+export const getPaybackYear = (flows: number[]): number | null => {
+  let cumulative = 0;
+  let invested = false;
+  for (let year = 0; year < flows.length; year++) {
+    cumulative += flows[year];
+    if (cumulative < 0) invested = true;
+    else if (invested) return year;
+  }
+  return invested ? null : 0;
+};
@@ -0,0 +1,236 @@
+/**
+ * Framework-free line chart geometry for simulation time series
+ * Shared by the interactive SVG charts and the PDF report
+ */
+
+export interface ChartSeries {
+  key: string;
+  label: string;
+  color: string;
+  values: number[];
+  dashed?: boolean;
+  band?: {
+    lower: number[];
+    median?: number[];
+    upper: number[];
+  };
+  baseline?: number[]; // Fill the area down to these values (stacked charts)
+}
+
+export interface ChartLayout {
+  width: number;
+  height: number;
+  padding: {
+    top: number;
+    right: number;
+    bottom: number;
+    left: number;
+  };
+}
+
+export interface ChartTick {
+  value: number;
+  position: number;
+  label: string;
+}
+
+export interface ChartLine {
+  key: string;
+  label: string;
+  color: string;
+  dashed: boolean;
+  points: Array<[number, number]>;
+  path: string;
+  bandPath: string | null; // Closed area between the band's lower and upper values
+  areaPath: string | null; // Closed area between the baseline and the line
+}
+
+export interface LineChartGeometry {
+  plot: {
+    left: number;
+    top: number;
+    right: number;
+    bottom: number;
+  };
+  xTicks: ChartTick[];
+  yTicks: ChartTick[];
+  lines: ChartLine[];
+  xScale: (x: number) => number;
+  yScale: (y: number) => number;
+  xFromPosition: (position: number) => number;
+}
+
+export const DEFAULT_CHART_LAYOUT: ChartLayout = {
+  width: 560,
+  height: 220,
+  padding: { top: 12, right: 16, bottom: 28, left: 56 }
+};
+
+// Format an axis value compactly (1.2k, 3.4M)
+export const formatAxisValue = (value: number): string => {
+  const abs = Math.abs(value);
+  if (abs >= 1e9) return `${(value / 1e9).toFixed(1)}B`;
+  if (abs >= 1e6) return `${(value / 1e6).toFixed(1)}M`;
+  if (abs >= 1e3) return `${(value / 1e3).toFixed(1)}k`;
+  if (abs >= 10 || value === 0) return value.toFixed(0);
+  return value.toFixed(abs >= 1 ? 1 : 2);
+};
+
+// Round tick spacing to 1, 2 or 5 times a power of ten
+export const niceTicks = (min: number, max: number, count: number = 5): number[] => {
+  if (!isFinite(min) || !isFinite(max)) return [0];
+  if (min === max) {
+    max = min === 0 ? 1 : min + Math.abs(min) * 0.1;
+  }
+
+  const rawStep = (max - min) / Math.max(1, count);
+  const magnitude = Math.pow(10, Math.floor(Math.log10(rawStep)));
+  const residual = rawStep / magnitude;
+  const step = (residual > 5 ? 10 : residual > 2 ? 5 : residual > 1 ? 2 : 1) * magnitude;
+
+  // Extend the last tick to cover the maximum value
+  const ticks: number[] = [];
+  const first = Math.floor(min / step) * step;
+  for (let i = 0; ; i++) {
+    const tick = Number((first + i * step).toPrecision(12));
+    ticks.push(tick);
+    if (tick >= max) break;
+  }
+  return ticks;
+};
+
+// SVG path through a list of points
+const toPath = (points: Array<[number, number]>): string => {
+  return points.map(([x, y], i) => `${i === 0 ? 'M' : 'L'}${x.toFixed(2)},${y.toFixed(2)}`).join(' ');
+};
+
+/**
+ * Compute scales, ticks and polyline points for a multi-series line chart
+ */
+export const buildLineChart = (
+  xValues: number[],
+  series: ChartSeries[],
+  layout: ChartLayout = DEFAULT_CHART_LAYOUT
+): LineChartGeometry => {
+  const plot = {
+    left: layout.padding.left,
+    top: layout.padding.top,
+    right: layout.width - layout.padding.right,
+    bottom: layout.height - layout.padding.bottom
+  };
+
+  const xMin = xValues.length > 0 ? xValues[0] : 0;
+  const xMax = xValues.length > 1 ? xValues[xValues.length - 1] : xMin + 1;
+
+  const allValues = series
+    .flatMap(s => [...s.values, ...(s.band ? [...s.band.lower, ...s.band.upper] : []), ...(s.baseline ?? [])])
+    .filter(v => isFinite(v));
+  const dataMin = allValues.length > 0 ? Math.min(0, ...allValues) : 0;
+  const dataMax = allValues.length > 0 ? Math.max(...allValues) : 1;
+  const yTickValues = niceTicks(dataMin, dataMax);
+  const yMin = yTickValues[0];
+  const yMax = yTickValues[yTickValues.length - 1];
+
+  const xScale = (x: number) => plot.left + ((x - xMin) / (xMax - xMin || 1)) * (plot.right - plot.left);
+  const yScale = (y: number) => plot.bottom - ((y - yMin) / (yMax - yMin || 1)) * (plot.bottom - plot.top);
+  const xFromPosition = (position: number) => xMin + ((position - plot.left) / (plot.right - plot.left || 1)) * (xMax - xMin);
+
+  const lines: ChartLine[] = series.map(s => {
+    const points: Array<[number, number]> = xValues.map((x, i) => [xScale(x), yScale(s.values[i] ?? 0)]);
+    const path = toPath(points);
+
+    let bandPath: string | null = null;
+    if (s.band) {
+      const upper: Array<[number, number]> = xValues.map((x, i) => [xScale(x), yScale(s.band!.upper[i] ?? 0)]);
+      const lower: Array<[number, number]> = xValues.map((x, i) => [xScale(x), yScale(s.band!.lower[i] ?? 0)]);
+      bandPath = `${toPath([...upper, ...lower.reverse()])} Z`;
+    }
+
+    let areaPath: string | null = null;
+    if (s.baseline) {
+      const base: Array<[number, number]> = xValues.map((x, i) => [xScale(x), yScale(s.baseline![i] ?? 0)]);
+      areaPath = `${toPath([...points, ...base.reverse()])} Z`;
+    }
+
+    return { key: s.key, label: s.label, color: s.color, dashed: !!s.dashed, points, path, bandPath, areaPath };
+  });
+
+  const xTickValues = niceTicks(xMin, xMax, Math.min(10, Math.max(1, xMax - xMin)))
+    .filter(x => x >= xMin && x <= xMax && Number.isInteger(x));
+
+  return {
+    plot,
+    xTicks: xTickValues.map(value => ({ value, position: xScale(value), label: value.toString() })),
+    yTicks: yTickValues.map(value => ({ value, position: yScale(value), label: formatAxisValue(value) })),
+    lines,
+    xScale,
+    yScale,
+    xFromPosition
+  };
+};
+
+// Escape text placed inside SVG markup
+const escapeXml = (text: string): string => {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+};
+
+/**
+ * Render a chart as standalone SVG markup (for reports and downloads)
+ */
+export const renderLineChartSVG = (
+  geometry: LineChartGeometry,
+  layout: ChartLayout = DEFAULT_CHART_LAYOUT,
+  options: { title?: string; markerX?: number | null; markerLabel?: string } = {}
+): string => {
+  const { plot } = geometry;
+  const parts: string[] = [];
+
+  parts.push(`<svg xmlns="http://www.w3.org/2000/svg" width="${layout.width}" height="${layout.height}" viewBox="0 0 ${layout.width} ${layout.height}" font-family="Arial, Helvetica, sans-serif" font-size="10">`);
+  if (options.title) {
+    parts.push(`<title>${escapeXml(options.title)}</title>`);
+  }
+
+  geometry.yTicks.forEach(tick => {
+    parts.push(`<line x1="${plot.left}" x2="${plot.right}" y1="${tick.position}" y2="${tick.position}" stroke="#e5e7eb" />`);
+    parts.push(`<text x="${plot.left - 6}" y="${tick.position + 3}" text-anchor="end" fill="#6b7280">${tick.label}</text>`);
+  });
+  geometry.xTicks.forEach(tick => {
+    parts.push(`<text x="${tick.position}" y="${plot.bottom + 14}" text-anchor="middle" fill="#6b7280">${tick.label}</text>`);
+  });
+  parts.push(`<line x1="${plot.left}" x2="${plot.right}" y1="${plot.bottom}" y2="${plot.bottom}" stroke="#9ca3af" />`);
+
+  if (options.markerX !== undefined && options.markerX !== null) {
+    const x = geometry.xScale(options.markerX);
+    parts.push(`<line x1="${x}" x2="${x}" y1="${plot.top}" y2="${plot.bottom}" stroke="#b45309" stroke-dasharray="4 3" />`);
+    if (options.markerLabel) {
+      parts.push(`<text x="${x + 4}" y="${plot.top + 10}" fill="#b45309">${escapeXml(options.markerLabel)}</text>`);
+    }
+  }
+
+  geometry.lines.forEach(line => {
+    if (line.areaPath) {
+      parts.push(`<path d="${line.areaPath}" fill="${line.color}" fill-opacity="0.6" stroke="none" />`);
+    }
+    if (line.bandPath) {
+      parts.push(`<path d="${line.bandPath}" fill="${line.color}" fill-opacity="0.15" stroke="none" />`);
+    }
+  });
+  geometry.lines.forEach(line => {
+    parts.push(`<path d="${line.path}" fill="none" stroke="${line.color}" stroke-width="2"${line.dashed ? ' stroke-dasharray="5 4"' : ''} />`);
+  });
+
+  parts.push('</svg>');
+  return parts.join('');
+};
+
+// Stack series on top of each other: each series' values become running totals
+// with the previous total as its baseline
+export const stackSeries = (series: ChartSeries[]): ChartSeries[] => {
+  let running: number[] | null = null;
+  return series.map(s => {
+    const baseline: number[] = running ?? s.values.map(() => 0);
+    const values = s.values.map((value, i) => baseline[i] + value);
+    running = values;
+    return { ...s, values, baseline };
+  });
+};
@@ -0,0 +1,117 @@
+/**
+ * Climate scenarios: projected warming and precipitation change
+ * Each Shared Socioeconomic Pathway (SSP) sets how much the world warms in
+ * each decade from today (IPCC AR6 multi-model means). Regions scale that
+ * warming by their own pattern: land and high latitudes warm faster, and
+ * annual precipitation rises or falls by a share per degree of global warming.
+ * The tables are bundled so projections need no network access.
+ */
+
+import { RegionBounds } from '@/utils/treePlanting';
+
+export type ClimateScenario = 'ssp126' | 'ssp245' | 'ssp585';
+
+export interface ClimateScenarioOption {
+  key: ClimateScenario;
+  name: string; // short scenario name, e.g. SSP2-4.5
+  label: string;
+  description: string;
+}
+
+export interface ClimateRegion {
+  key: string;
+  label: string;
+  bounds: RegionBounds; // the first region containing a location applies
+  warmingRatio: number; // regional warming per °C of global warming
+  precipitationPerDegree: number; // % change in annual precipitation per °C of global warming
+}
+
+// Change from today's climate in a simulation year
+export interface ClimateChange {
+  warming: number; // °C
+  precipitationChange: number; // % of current annual precipitation
+}
+
+// Scenario, region and change by the final simulation year
+export interface ClimateProjection extends ClimateChange {
+  scenario: ClimateScenario;
+  region: string;
+  year: number;
+}
+
+export const CLIMATE_SCENARIO_OPTIONS: ClimateScenarioOption[] = [
+  { key: 'ssp126', name: 'SSP1-2.6', label: 'SSP1-2.6 (low emissions)', description: 'Rapid emission cuts; warming levels off by mid-century' },
+  { key: 'ssp245', name: 'SSP2-4.5', label: 'SSP2-4.5 (intermediate)', description: 'Current policies; warming slows in the second half of the century' },
+  { key: 'ssp585', name: 'SSP5-8.5', label: 'SSP5-8.5 (very high emissions)', description: 'Fossil-fuelled growth; warming keeps accelerating' }
+];
+
+export const DEFAULT_CLIMATE_SCENARIO: ClimateScenario = 'ssp245';
+
+// Years from today at which the global warming table is given
+export const SCENARIO_DECADES = [0, 10, 20, 30, 40, 50, 60, 70, 80, 90, 100];
+
+// Global mean warming above today, °C, at each of SCENARIO_DECADES
+export const GLOBAL_WARMING: Record<ClimateScenario, number[]> = {
+  ssp126: [0, 0.3, 0.45, 0.55, 0.6, 0.6, 0.6, 0.55, 0.55, 0.5, 0.5],
+  ssp245: [0, 0.35, 0.7, 0.95, 1.15, 1.35, 1.5, 1.6, 1.7, 1.75, 1.8],
+  ssp585: [0, 0.45, 0.95, 1.45, 1.95, 2.45, 2.9, 3.35, 3.75, 4.1, 4.4]
+};
+
+// Regional patterns: known hotspots first, then latitude bands covering the globe
+export const CLIMATE_REGIONS: ClimateRegion[] = [
+  { key: 'mediterranean', label: 'Mediterranean', bounds: { south: 30, north: 46, west: -10, east: 40 }, warmingRatio: 1.5, precipitationPerDegree: -4 },
+  { key: 'western-north-america', label: 'Western North America', bounds: { south: 25, north: 50, west: -125, east: -100 }, warmingRatio: 1.4, precipitationPerDegree: -1 },
+  { key: 'amazon', label: 'Amazon', bounds: { south: -20, north: 10, west: -80, east: -45 }, warmingRatio: 1.3, precipitationPerDegree: -2 },
+  { key: 'sahel', label: 'Sahel', bounds: { south: 8, north: 20, west: -18, east: 40 }, warmingRatio: 1.2, precipitationPerDegree: 2 },
+  { key: 'southern-africa', label: 'Southern Africa', bounds: { south: -35, north: -10, west: 10, east: 45 }, warmingRatio: 1.4, precipitationPerDegree: -3 },
+  { key: 'south-asia', label: 'South Asia', bounds: { south: 5, north: 35, west: 60, east: 95 }, warmingRatio: 1.1, precipitationPerDegree: 5 },
+  { key: 'southeast-asia', label: 'Southeast Asia', bounds: { south: -11, north: 20, west: 95, east: 155 }, warmingRatio: 1.0, precipitationPerDegree: 2 },
+  { key: 'australia', label: 'Australia', bounds: { south: -45, north: -10, west: 112, east: 155 }, warmingRatio: 1.2, precipitationPerDegree: -2 },
+  { key: 'arctic', label: 'Arctic', bounds: { south: 60, north: 90, west: -180, east: 180 }, warmingRatio: 2.4, precipitationPerDegree: 7 },
+  { key: 'northern-mid-latitudes', label: 'Northern mid-latitudes', bounds: { south: 45, north: 60, west: -180, east: 180 }, warmingRatio: 1.7, precipitationPerDegree: 4 },
+  { key: 'northern-subtropics', label: 'Northern subtropics', bounds: { south: 23.5, north: 45, west: -180, east: 180 }, warmingRatio: 1.4, precipitationPerDegree: 1 },
+  { key: 'tropics', label: 'Tropics', bounds: { south: -23.5, north: 23.5, west: -180, east: 180 }, warmingRatio: 1.1, precipitationPerDegree: 2 },
+  { key: 'southern-mid-latitudes', label: 'Southern mid-latitudes', bounds: { south: -60, north: -23.5, west: -180, east: 180 }, warmingRatio: 1.0, precipitationPerDegree: 0 },
+  { key: 'antarctic', label: 'Antarctic', bounds: { south: -90, north: -60, west: -180, east: 180 }, warmingRatio: 1.3, precipitationPerDegree: 5 }
+];
+
+export const getClimateScenarioOption = (scenario: ClimateScenario): ClimateScenarioOption => {
+  return CLIMATE_SCENARIO_OPTIONS.find(option => option.key === scenario) ?? CLIMATE_SCENARIO_OPTIONS[1];
+};
+
+export const getClimateRegion = (latitude: number, longitude: number): ClimateRegion => {
+  const region = CLIMATE_REGIONS.find(({ bounds }) =>
+    latitude >= bounds.south && latitude <= bounds.north && longitude >= bounds.west && longitude <= bounds.east
+  );
+  return region ?? CLIMATE_REGIONS[CLIMATE_REGIONS.length - 1];
+};
+
+// Global warming above today after a number of years, interpolated between decades
+export const getGlobalWarming = (scenario: ClimateScenario, year: number): number => {
+  const warming = GLOBAL_WARMING[scenario] ?? GLOBAL_WARMING[DEFAULT_CLIMATE_SCENARIO];
+  const lastDecade = SCENARIO_DECADES[SCENARIO_DECADES.length - 1];
+  const clamped = Math.max(0, Math.min(lastDecade, year));
+  const index = Math.min(SCENARIO_DECADES.length - 2, Math.floor(clamped / 10));
+  const fraction = (clamped - SCENARIO_DECADES[index]) / (SCENARIO_DECADES[index + 1] - SCENARIO_DECADES[index]);
+  return warming[index] + (warming[index + 1] - warming[index]) * fraction;
+};
+
+/**
+ * Regional change from today's climate after a number of years
+ * The scale multiplies the change (uncertainty and sensitivity runs).
+ */
+export const getClimateChange = (
+  latitude: number,
+  longitude: number,
+  scenario: ClimateScenario,
+  year: number,
+  scale: number = 1
+): ClimateChange => {
+  const region = getClimateRegion(latitude, longitude);
+  const globalWarming = getGlobalWarming(scenario, year) * scale;
+
+  return {
+    warming: globalWarming * region.warmingRatio,
+    precipitationChange: Math.max(-100, globalWarming * region.precipitationPerDegree)
+  };
+};
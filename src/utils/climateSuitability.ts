@@ -0,0 +1,81 @@
+/**
+ * Species climate suitability
+ * Each species tolerates a range of mean annual temperature and annual
+ * precipitation, derived from its climate zones and water needs unless the
+ * species sets its own. Outside that envelope trees grow more slowly and die
+ * more often; far enough outside, the species is flagged unsuitable.
+ */
+
+import { ClimateEnvelope, TreeType } from '@/types/treeTypes';
+import { ModelParameters, DEFAULT_MODEL_PARAMETERS } from '@/utils/modelParameters';
+
+export interface ClimateSuitability {
+  temperatureStress: number; // °C outside the temperature range
+  precipitationStress: number; // % outside the precipitation range
+  growthFactor: number; // share of growth left (0-1)
+  extraMortality: number; // % per year added to the mortality rate
+  stressed: boolean; // outside the envelope
+  suitable: boolean; // within the unsuitability margins
+}
+
+// Envelopes of species with medium water needs in each climate zone
+export const CLIMATE_ZONE_ENVELOPES: Record<string, ClimateEnvelope> = {
+  tropical: { minTemperature: 18, maxTemperature: 30, minPrecipitation: 1000, maxPrecipitation: 4500 },
+  subtropical: { minTemperature: 14, maxTemperature: 24, minPrecipitation: 800, maxPrecipitation: 2200 },
+  mediterranean: { minTemperature: 10, maxTemperature: 21, minPrecipitation: 350, maxPrecipitation: 1100 },
+  temperate: { minTemperature: 3, maxTemperature: 16, minPrecipitation: 500, maxPrecipitation: 1800 },
+  boreal: { minTemperature: -6, maxTemperature: 8, minPrecipitation: 250, maxPrecipitation: 900 },
+  arid: { minTemperature: 10, maxTemperature: 30, minPrecipitation: 50, maxPrecipitation: 700 }
+};
+
+/**
+ * Temperature and precipitation range a species tolerates
+ * The widest range across its climate zones, with the precipitation minimum
+ * lowered for low and raised for high water needs; values the species sets
+ * itself take precedence.
+ */
+export const getClimateEnvelope = (tree: TreeType, parameters: ModelParameters = DEFAULT_MODEL_PARAMETERS): ClimateEnvelope => {
+  const { climateSuitability } = parameters;
+  const zones = tree.climateZones.map(zone => CLIMATE_ZONE_ENVELOPES[zone]).filter(Boolean);
+  const envelopes = zones.length > 0 ? zones : [CLIMATE_ZONE_ENVELOPES.temperate];
+  const waterNeeds = tree.waterNeeds === 'low'
+    ? climateSuitability.LOW_WATER_NEEDS_PRECIPITATION
+    : tree.waterNeeds === 'high' ? climateSuitability.HIGH_WATER_NEEDS_PRECIPITATION : 1;
+
+  return {
+    minTemperature: Math.min(...envelopes.map(envelope => envelope.minTemperature)),
+    maxTemperature: Math.max(...envelopes.map(envelope => envelope.maxTemperature)),
+    minPrecipitation: Math.min(...envelopes.map(envelope => envelope.minPrecipitation)) * waterNeeds,
+    maxPrecipitation: Math.max(...envelopes.map(envelope => envelope.maxPrecipitation)),
+    ...tree.climateEnvelope
+  };
+};
+
+// Growth and survival of a species at a mean annual temperature (°C) and precipitation (mm/year)
+export const getClimateSuitability = (
+  tree: TreeType,
+  temperature: number,
+  precipitation: number,
+  parameters: ModelParameters = DEFAULT_MODEL_PARAMETERS
+): ClimateSuitability => {
+  const { climateSuitability } = parameters;
+  const envelope = getClimateEnvelope(tree, parameters);
+  const temperatureStress = Math.max(0, envelope.minTemperature - temperature, temperature - envelope.maxTemperature);
+  const precipitationStress = Math.max(
+    0,
+    envelope.minPrecipitation > 0 ? (envelope.minPrecipitation - precipitation) / envelope.minPrecipitation * 100 : 0,
+    envelope.maxPrecipitation > 0 ? (precipitation - envelope.maxPrecipitation) / envelope.maxPrecipitation * 100 : 0
+  );
+  const growthLoss = climateSuitability.GROWTH_LOSS_PER_DEGREE * temperatureStress + climateSuitability.GROWTH_LOSS_PER_PRECIPITATION * precipitationStress;
+  const extraMortality = climateSuitability.MORTALITY_PER_DEGREE * temperatureStress + climateSuitability.MORTALITY_PER_PRECIPITATION * precipitationStress;
+
+  return {
+    temperatureStress,
+    precipitationStress,
+    growthFactor: Math.max(climateSuitability.MIN_GROWTH_FACTOR, Math.min(1, 1 - growthLoss)),
+    extraMortality: Math.max(0, Math.min(climateSuitability.MAX_EXTRA_MORTALITY, extraMortality)),
+    stressed: temperatureStress > 0 || precipitationStress > 0,
+    suitable: temperatureStress < climateSuitability.UNSUITABLE_TEMPERATURE_MARGIN &&
+      precipitationStress < climateSuitability.UNSUITABLE_PRECIPITATION_MARGIN
+  };
+};
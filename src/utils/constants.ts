@@ -2,28 +2,139 @@
  * Application-wide constants for calculations and configurations
  */
 
-// Growth factors for tree carbon sequestration (by year)
-export const TREE_GROWTH_FACTORS = {
-  YEAR_1: 0.05,   // 5% of mature rate - establishment phase
-  YEAR_2: 0.15,   // 15% of mature rate - early growth
-  YEAR_3: 0.30,   // 30% of mature rate
-  YEAR_4: 0.50,   // 50% of mature rate
-  YEAR_5: 0.70,   // 70% of mature rate
-  YEAR_6: 0.85,   // 85% of mature rate
-  YEAR_7_PLUS: 0.95  // 95% of mature rate - approaching maturity
-} as const;
-
-// Tree age-based growth factors for clear-cutting calculations
-export const TREE_AGE_GROWTH_FACTORS = {
-  AGE_1: 0.05,
-  AGE_2: 0.15,
-  AGE_3: 0.30,
-  AGE_4: 0.50,
-  AGE_5: 0.70,
-  AGE_6: 0.85,
-  AGE_7_TO_20: 0.95,   // Mature trees
-  AGE_21_TO_50: 0.90,  // Older mature trees
-  AGE_50_PLUS: 0.85    // Very old trees
+// Species growth curves for carbon sequestration (Chapman-Richards with senescence)
+export const GROWTH_CURVE = {
+  FAST_YEARS_TO_MATURITY: 8,        // Years to ~95% of the mature rate
+  MEDIUM_YEARS_TO_MATURITY: 15,
+  SLOW_YEARS_TO_MATURITY: 25,
+  MATURITY_THRESHOLD: 0.95,         // Share of the peak rate reached at maturity
+  SHAPE: 2,                         // Higher = longer slow start
+  REFERENCE_LIFESPAN: 150,          // Longer-lived species mature more slowly
+  LIFESPAN_EXPONENT: 0.3,           // Maturity scales with (lifespan / reference)^exponent
+  MIN_LIFESPAN_FACTOR: 0.6,
+  MAX_LIFESPAN_FACTOR: 1.6,
+  MAX_MATURITY_SHARE: 0.5,          // Maturity within the first half of the lifespan
+  SENESCENCE_ONSET_SHARE: 0.75,     // Decline starts in the last quarter of the lifespan
+  SENESCENCE_FLOOR: 0.4             // Old trees keep 40% of their peak rate
+} as const;
+
+// Carbon stored in the trunk of a felled tree (kg carbon), accumulated by age
+export const TRUNK_CARBON = {
+  YOUNG_RATE: 2,                    // kg carbon per year up to YOUNG_MAX_AGE
+  YOUNG_MAX_AGE: 5,
+  GROWING_RATE: 1.5,                // kg carbon per year up to GROWING_MAX_AGE
+  GROWING_MAX_AGE: 20,
+  MATURE_RATE: 0.5,                 // kg carbon per year up to MATURE_MAX_AGE
+  MATURE_MAX_AGE: 50                // No further accumulation for older trees
+} as const;
+
+// Harvested wood products: end-use shares of felled-tree carbon (%) and
+// IPCC (2013) default half-lives; the remainder is residue burnt or left to rot
+export const HARVESTED_WOOD = {
+  SAWNWOOD_HALF_LIFE: 35,           // years
+  PANELS_HALF_LIFE: 25,
+  PAPER_HALF_LIFE: 2,
+  SAWNWOOD_SHARE_CONIFER: 45,       // % of harvested carbon, by allometric species group
+  PANELS_SHARE_CONIFER: 20,
+  PAPER_SHARE_CONIFER: 15,
+  SAWNWOOD_SHARE_BROADLEAF: 30,
+  PANELS_SHARE_BROADLEAF: 25,
+  PAPER_SHARE_BROADLEAF: 15,
+  SAWNWOOD_SHARE_TROPICAL: 30,
+  PANELS_SHARE_TROPICAL: 15,
+  PAPER_SHARE_TROPICAL: 5,
+  SAWNWOOD_SHARE_DRYLAND: 10,       // Dryland harvests go mostly to fuelwood
+  PANELS_SHARE_DRYLAND: 5,
+  PAPER_SHARE_DRYLAND: 0
+} as const;
+
+// Selective harvest: a logged stand's uptake recovers as residual trees expand
+// into the gaps left by felled and damaged trees and the gaps regenerate
+export const SELECTIVE_HARVEST = {
+  RECOVERY_YEARS: 25,               // Years for the gaps to close
+  RECOVERY_SHARE: 1                 // Share of the lost uptake regained once they close
+} as const;
+
+// Natural regeneration: seedlings recruit from nearby seed sources instead of
+// being planted, so the stand fills in gradually
+export const NATURAL_REGENERATION = {
+  MAX_RECRUITMENT: 400,             // Seedlings established per hectare per year beside a seed source
+  SEED_DISPERSAL_DISTANCE: 100,     // Metres over which seed rain falls to about a third
+  ESTABLISHMENT_DELAY: 3,           // Years before the first seedlings establish
+  ASSISTED_ESTABLISHMENT_DELAY: 1,  // With protection and weeding (ANR)
+  ASSISTED_RECRUITMENT: 1.5,        // Recruitment multiplier with protection and weeding (ANR)
+  ASSISTED_COST_PER_HECTARE: 300,   // USD for fencing, fire breaks and weeding (ANR)
+  REGROWTH_TROPICAL: 1.2,           // Regional recruitment and growth multipliers
+  REGROWTH_TEMPERATE: 1.0,
+  REGROWTH_BOREAL: 0.6
+} as const;
+
+// Agroforestry: trees in rows with crops grown in the alleys between them
+export const AGROFORESTRY = {
+  TREE_STRIP_WIDTH: 2,              // Metres along each tree row left uncropped
+  CROWN_WIDTH_PER_DBH: 0.2,         // Metres of crown width per cm of DBH
+  MAX_SHADE_LOSS: 0.8               // Yield lost by a shade-intolerant crop under a closed canopy
+} as const;
+
+// Disturbance: annual chance of fire, drought, windthrow and pest outbreaks and the share of trees an event kills
+export const DISTURBANCE = {
+  FIRE_PROBABILITY_TROPICAL: 0.01,  // Annual chance of a stand-replacing fire by latitude band
+  FIRE_PROBABILITY_TEMPERATE: 0.005,
+  FIRE_PROBABILITY_BOREAL: 0.008,
+  FIRE_SEVERITY: 0.6,               // Share of trees killed by a fire in the least fire-resistant stand
+  FIRE_COMBUSTION: 0.3,             // Share of a burned tree's carbon released at once; the rest becomes deadwood
+  DROUGHT_PROBABILITY: 0.03,        // Annual chance of a severe drought at normal rainfall
+  DROUGHT_SEVERITY: 0.1,            // Share of medium water-need trees killed by a drought
+  WINDTHROW_PROBABILITY_TROPICAL: 0.01, // Annual chance of a damaging storm by latitude band
+  WINDTHROW_PROBABILITY_TEMPERATE: 0.02,
+  WINDTHROW_PROBABILITY_BOREAL: 0.015,
+  WINDTHROW_SEVERITY: 0.2,          // Share of trees blown down by a storm in the least resilient stand
+  PEST_PROBABILITY_TROPICAL: 0.02,  // Annual chance of an insect or disease outbreak by latitude band
+  PEST_PROBABILITY_TEMPERATE: 0.015,
+  PEST_PROBABILITY_BOREAL: 0.02,
+  PEST_SEVERITY: 0.15,              // Share of trees killed by an outbreak in the least resilient stand
+  CONIFER_PEST_SEVERITY: 1.5,       // Outbreak deaths in coniferous and boreal species (bark beetles) relative to others
+  PEST_DRYNESS_FACTOR: 1,           // Extra outbreak risk at no rainfall, as drought-stressed trees resist less
+  PEST_WARMING_FACTOR: 0.2,         // Extra outbreak risk per °C of predicted warming (milder winters)
+  DRY_PRECIPITATION: 600,           // mm/year below which fire and drought become more likely
+  FIRE_DRYNESS_FACTOR: 2,           // Extra fire risk at no rainfall (×1 + factor × dryness)
+  DROUGHT_DRYNESS_FACTOR: 3,        // Extra drought risk at no rainfall
+  FIRE_WARMING_FACTOR: 0.15,        // Extra fire risk per °C of predicted warming
+  DROUGHT_WARMING_FACTOR: 0.1,      // Extra drought risk per °C of predicted warming
+  FIRE_RESISTANCE_PROTECTION: 0.8,  // Share of fire deaths avoided at the top fire resistance score
+  RESILIENCE_PROTECTION: 0.6,       // Share of drought, storm and outbreak deaths avoided at the top resilience score
+  LOW_WATER_NEEDS_SEVERITY: 0.5,    // Drought deaths relative to medium water needs
+  HIGH_WATER_NEEDS_SEVERITY: 1.5,
+  MAX_PROBABILITY: 0.5              // Cap on any annual event probability
+} as const;
+
+// Species climate envelopes: growth and survival outside the tolerated range
+export const CLIMATE_SUITABILITY = {
+  GROWTH_LOSS_PER_DEGREE: 0.08,         // Share of growth lost per °C outside the temperature range
+  GROWTH_LOSS_PER_PRECIPITATION: 0.01,  // Share of growth lost per % outside the precipitation range
+  MIN_GROWTH_FACTOR: 0.2,               // Growth left however far outside the envelope
+  MORTALITY_PER_DEGREE: 1,              // Extra annual mortality (%) per °C outside the temperature range
+  MORTALITY_PER_PRECIPITATION: 0.05,    // Extra annual mortality (%) per % outside the precipitation range
+  MAX_EXTRA_MORTALITY: 10,              // Cap on the extra annual mortality (%)
+  UNSUITABLE_TEMPERATURE_MARGIN: 2,     // °C beyond the range at which a species is flagged unsuitable
+  UNSUITABLE_PRECIPITATION_MARGIN: 25,  // % beyond the range at which a species is flagged unsuitable
+  LOW_WATER_NEEDS_PRECIPITATION: 0.7,   // Minimum precipitation relative to medium water needs
+  HIGH_WATER_NEEDS_PRECIPITATION: 1.3
+} as const;
+
+// Project cash flow: values for species without their own economic data
+export const CASH_FLOW = {
+  PLANTING_COST_PER_TREE: 2,        // USD per seedling planted, for species without their own planting cost
+  MAINTENANCE_COST_PER_TREE: 0.3    // USD per living tree per year for weeding, protection and monitoring
+} as const;
+
+// Carbon crediting: contribution of each species to the non-permanence buffer pool (%)
+export const CREDITING = {
+  BUFFER_BASE: 10,                        // Contribution of a species with top resilience and fire resistance
+  BUFFER_PER_RESILIENCE_POINT: 2.5,       // Added per point of resilience below 5
+  BUFFER_PER_FIRE_RESISTANCE_POINT: 2.5,  // Added per point of fire resistance below 5
+  MIN_BUFFER: 10,
+  MAX_BUFFER: 60
 } as const;
 
 // Biodiversity and resilience growth factors
@@ -49,15 +160,68 @@ export const CLIMATE_THRESHOLDS = {
 // Carbon conversion factors
 export const CARBON_CONVERSION = {
   CARBON_TO_CO2: 3.67,          // Convert carbon (C) to CO2
-  SOIL_CARBON_MODIFIER: 0.1,    // kg CO2/year per g/kg of soil carbon
   KG_TO_METRIC_TONS: 1000       // Conversion factor
 } as const;
 
+// Carbon pools: root:shoot ratios by species category (IPCC 2019 Table 4.4),
+// litter and deadwood turnover by climate band, and soil organic carbon change
+export const CARBON_POOLS = {
+  ROOT_SHOOT_CONIFEROUS: 0.29,
+  ROOT_SHOOT_DECIDUOUS: 0.26,
+  ROOT_SHOOT_TROPICAL: 0.24,
+  ROOT_SHOOT_MEDITERRANEAN: 0.32,
+  ROOT_SHOOT_BOREAL: 0.39,
+  ROOT_SHOOT_ARID: 0.40,
+  ROOT_SHOOT_SUBTROPICAL: 0.28,
+  LITTERFALL_RATE: 0.03,            // Share of above-ground stock shed as litter each year
+  LITTER_DECAY_TROPICAL: 0.6,       // Share of the litter pool decomposed each year
+  LITTER_DECAY_TEMPERATE: 0.3,
+  LITTER_DECAY_BOREAL: 0.12,
+  DEADWOOD_DECAY_TROPICAL: 0.12,    // Share of the deadwood pool decomposed each year
+  DEADWOOD_DECAY_TEMPERATE: 0.05,
+  DEADWOOD_DECAY_BOREAL: 0.03,
+  SOIL_BULK_DENSITY: 1.3,           // g/cm³
+  SOIL_DEPTH: 30,                   // cm of topsoil counted
+  SOIL_CARBON_GAIN: 0.1,            // Share of the SOC deficit to saturation gained after afforestation
+  SOIL_CARBON_SATURATION: 60,       // g/kg above which soils gain no more carbon
+  SOIL_TRANSITION_YEARS: 20         // IPCC default period to reach the new SOC level
+} as const;
+
+// Allometric tree size and biomass: Chapman-Richards height and DBH growth,
+// Chave et al. (2014) for tropical species, stem volume × expansion factor elsewhere
+export const ALLOMETRY = {
+  SIZE_MATURITY_FACTOR: 3,          // Height nears its maximum at 3× the years to maturity
+  HEIGHT_SHAPE: 1.5,
+  DIAMETER_SHAPE: 1.2,
+  DIAMETER_RATE_RATIO: 0.5,         // Diameter keeps growing after height levels off
+  BREAST_HEIGHT: 1.3,               // m
+  MAX_BASAL_AREA: 40,               // m²/ha a closed stand can carry; caps DBH at close spacing
+  CARBON_FRACTION: 0.47,            // IPCC default carbon share of dry biomass
+  DIAMETER_PER_HEIGHT_CONIFER: 1.6, // Maximum DBH (cm) per meter of maximum height
+  DIAMETER_PER_HEIGHT_BROADLEAF: 2.2,
+  DIAMETER_PER_HEIGHT_TROPICAL: 1.8,
+  DIAMETER_PER_HEIGHT_DRYLAND: 3.0,
+  CONIFER_COEFFICIENT: 0.0459,      // AGB (kg) = coefficient × (wood density × DBH² × height)^exponent
+  CONIFER_EXPONENT: 1,
+  BROADLEAF_COEFFICIENT: 0.055,
+  BROADLEAF_EXPONENT: 1,
+  TROPICAL_COEFFICIENT: 0.0673,
+  TROPICAL_EXPONENT: 0.976,
+  DRYLAND_COEFFICIENT: 0.0691,
+  DRYLAND_EXPONENT: 1,
+  WOOD_DENSITY_CONIFER: 0.42,       // g/cm³, used when a species has no wood density
+  WOOD_DENSITY_BROADLEAF: 0.56,
+  WOOD_DENSITY_TROPICAL: 0.58,
+  WOOD_DENSITY_DRYLAND: 0.65
+} as const;
+
 // Environmental modifiers
 export const ENVIRONMENTAL_MODIFIERS = {
   PRECIPITATION_TO_RESILIENCE: 0.001,  // Precipitation (mm) to resilience modifier
   TEMPERATURE_CHANGE_FACTOR: 0.02,     // Growth modifier per degree Celsius
-  PRECIPITATION_CHANGE_FACTOR: 0.0001  // Growth modifier per mm precipitation
+  PRECIPITATION_CHANGE_FACTOR: 0.0001, // Growth modifier per mm precipitation
+  MIN_GROWTH_MODIFIER: 0.5,
+  MAX_GROWTH_MODIFIER: 1.5
 } as const;
 
 // Water retention factors
@@ -71,6 +235,15 @@ export const WATER_RETENTION = {
   HIGH_PRECIPITATION_THRESHOLD: 1500,  // mm/year
   MEDIUM_PRECIPITATION_THRESHOLD: 1000,
   LOW_PRECIPITATION_THRESHOLD: 500,
+  HIGH_PRECIPITATION_BONUS: 15,     // Bonus above each precipitation threshold
+  MEDIUM_PRECIPITATION_BONUS: 10,
+  LOW_PRECIPITATION_BONUS: 5,
+  MIN_BASE: 60,                     // Range of the climate-adjusted base
+  MAX_BASE: 90,
+  SIZE_FACTOR: 2,                   // Bonus per log10 of tree count (planting)
+  MAX_SIZE_BONUS: 10,
+  SIZE_FACTOR_CLEARING: 3,          // Loss per log10 of tree count (clear-cutting)
+  MAX_SIZE_IMPACT_CLEARING: 15,
   MAX_RETENTION: 95                 // Maximum retention cap
 } as const;
 
@@ -88,8 +261,17 @@ export const AIR_QUALITY = {
   TEMPERATURE_LOW_THRESHOLD: 10,    // °C
   TEMP_BONUS_HIGH: 5,
   TEMP_PENALTY_LOW: -5,
+  PRECIPITATION_HIGH_THRESHOLD: 1000, // mm/year
+  PRECIPITATION_LOW_THRESHOLD: 500,
   PRECIP_BONUS_HIGH: 3,
-  PRECIP_PENALTY_LOW: -3
+  PRECIP_PENALTY_LOW: -3,
+  MIN_BASE: 40,                     // Range of the climate-adjusted base
+  MAX_BASE: 80,
+  SIZE_FACTOR: 3,                   // Bonus per log10 of tree count (planting)
+  MAX_SIZE_BONUS: 15,
+  IMMEDIATE_SIZE_FACTOR: 5,         // Immediate loss per log10 of tree count (clear-cutting)
+  MAX_IMMEDIATE_IMPACT: 30,
+  PER_TREE_IMMEDIATE_IMPACT: 10     // Immediate loss for a single tree
 } as const;
 
 // Biodiversity and resilience caps
@@ -99,7 +281,10 @@ export const IMPACT_CAPS = {
   MAX_RESILIENCE: 5.0,
   MIN_RESILIENCE: 0.0,
   BIODIVERSITY_TIME_BONUS: 0.05,    // Bonus per year
-  RESILIENCE_TIME_BONUS: 0.03       // Bonus per year
+  RESILIENCE_TIME_BONUS: 0.03,      // Bonus per year
+  MAX_TIME_BONUS: 1.0,
+  FOREST_SIZE_FACTOR: 0.2,          // Bonus per log10 of tree count
+  MAX_FOREST_SIZE_BONUS: 1.0
 } as const;
 
 // Social impact factors
@@ -115,6 +300,9 @@ export const SOCIAL_IMPACT = {
   MAX_DIVERSITY_BONUS: 1.0,
   MAX_TIME_BONUS: 1.0,
   MAX_AREA_BONUS: 1.0,
+  MAX_DIVERSITY_PENALTY: 0.5,
+  MAX_TIME_PENALTY: 0.5,
+  MAX_AREA_PENALTY: 0.5,
   MAX_SCORE: 5.0,
   MIN_SCORE: 1.0
 } as const;
@@ -129,8 +317,43 @@ export const LAND_USE_IMPACT = {
   HABITAT_AREA_FACTOR_CLEARING: 3.0, // Clear-cutting: loss per hectare
   WATER_TIME_FACTOR: 1.2,           // Water quality improvement per year
   WATER_TIME_FACTOR_CLEARING: 1.8,  // Water quality decline per year
-  MAX_PERCENTAGE: 95,
-  MAX_DEGRADATION: 80
+  MAX_EROSION_CHANGE: 95,           // Caps (%) for both modes
+  MAX_SOIL_CHANGE: 80,
+  MAX_HABITAT_CHANGE: 90,
+  MAX_WATER_QUALITY_CHANGE: 85
+} as const;
+
+// Jobs by project size (hectares); larger projects scale by area
+export const JOB_CREATION = {
+  PLANTING_UNDER_0_1_HA: 2,         // Planting team
+  PLANTING_UNDER_0_5_HA: 2,
+  PLANTING_UNDER_1_HA: 3,           // Planting, supervision
+  PLANTING_UNDER_5_HA: 4,           // Planting, maintenance
+  PLANTING_UNDER_20_HA: 6,          // Planting, maintenance, monitoring
+  PLANTING_UNDER_50_HA: 10,         // Full team
+  PLANTING_UNDER_100_HA: 15,        // Multiple crews
+  PLANTING_HECTARES_PER_JOB: 10,    // 100+ ha
+  CLEARING_UNDER_0_1_HA: 3,         // Logger, helper, supervisor
+  CLEARING_UNDER_0_5_HA: 4,
+  CLEARING_UNDER_1_HA: 5,
+  CLEARING_UNDER_5_HA: 8,           // Crew, equipment, transport
+  CLEARING_UNDER_20_HA: 15,         // Heavy machinery, transport, processing
+  CLEARING_UNDER_50_HA: 30,
+  CLEARING_UNDER_100_HA: 50,
+  CLEARING_HECTARES_PER_JOB: 2      // 100+ ha, intensive operations
+} as const;
+
+// Employment by phase, in job-years (full-time jobs for a year)
+export const LABOR = {
+  WORKING_DAYS_PER_YEAR: 220,               // Days in a job-year
+  NURSERY_DAYS_PER_1000_TREES: 4,           // Raising seedlings
+  SITE_PREPARATION_DAYS_PER_HECTARE: 10,    // Clearing, ground preparation and fencing
+  ANR_SITE_PREPARATION_SHARE: 0.3,          // Site preparation of assisted natural regeneration relative to planting
+  DEFAULT_JOBS_PER_1000_TREES: 0.5,         // Establishment maintenance of species without a job creation factor
+  ESTABLISHMENT_YEARS: 3,                   // Years the establishment maintenance is spread over
+  MATURE_MAINTENANCE_SHARE: 0.1,            // Maintenance of an established stand relative to establishment
+  MONITORING_DAYS_PER_HECTARE: 0.5,         // Inventory and reporting per year
+  HARVEST_DAYS_PER_1000_TREES: 20           // Felling, extraction and transport
 } as const;
 
 // API and performance constants
@@ -157,7 +380,10 @@ export const DEFAULT_CLIMATE = {
   TEMPERATE_TEMP: 15,
   BOREAL_TEMP: 5,
   ARCTIC_TEMP: -5,
-  DEFAULT_PRECIPITATION: 1000       // mm/year
+  DEFAULT_PRECIPITATION: 1000,      // mm/year
+  TROPICAL_MAX_LATITUDE: 30,        // Latitude bands for fallback estimates
+  TEMPERATE_MAX_LATITUDE: 60,
+  BOREAL_MAX_LATITUDE: 70
 } as const;
 
 // Historical data configuration
@@ -0,0 +1,111 @@
+/**
+ * Report currency
+ * Costs, prices and revenue in the species data and the model are in US
+ * dollars. Results are converted for display and reports with a bundled table
+ * of exchange rates that users can update when rates move; nothing is fetched
+ * from a live service.
+ */
+
+export type CurrencyCode = 'USD' | 'EUR' | 'BRL' | 'KES';
+
+export interface ExchangeRate {
+  rate: number; // units of the currency per US dollar
+  date: string; // YYYY-MM-DD the rate was quoted
+}
+
+export type ExchangeRateTable = Record<CurrencyCode, ExchangeRate>;
+
+export interface CurrencySettings {
+  currency: CurrencyCode;
+  rates: ExchangeRateTable;
+}
+
+// Currency a report was converted to, with the rate and its date
+export interface ReportCurrency {
+  code: CurrencyCode;
+  rate: number;
+  date: string;
+}
+
+export const CURRENCIES: Array<{ code: CurrencyCode; name: string; symbol: string }> = [
+  { code: 'USD', name: 'US dollar', symbol: '$' },
+  { code: 'EUR', name: 'Euro', symbol: '€' },
+  { code: 'BRL', name: 'Brazilian real', symbol: 'R$' },
+  { code: 'KES', name: 'Kenyan shilling', symbol: 'KSh ' }
+];
+
+// Bundled rates; update them in the Economic tab or here with each release
+export const DEFAULT_EXCHANGE_RATES: ExchangeRateTable = {
+  USD: { rate: 1, date: '2025-06-30' },
+  EUR: { rate: 0.853, date: '2025-06-30' },
+  BRL: { rate: 5.46, date: '2025-06-30' },
+  KES: { rate: 129.2, date: '2025-06-30' }
+};
+
+export const DEFAULT_CURRENCY_SETTINGS: CurrencySettings = {
+  currency: 'USD',
+  rates: DEFAULT_EXCHANGE_RATES
+};
+
+export const USD: ReportCurrency = { code: 'USD', ...DEFAULT_EXCHANGE_RATES.USD };
+
+const CURRENCY_KEY = 'forest-sim-currency';
+
+const isCurrencyCode = (code: unknown): code is CurrencyCode => CURRENCIES.some(currency => currency.code === code);
+
+// Clamp settings to usable values; a missing or invalid rate falls back to the bundled one
+export const normalizeCurrencySettings = (settings: CurrencySettings): CurrencySettings => ({
+  currency: isCurrencyCode(settings.currency) ? settings.currency : 'USD',
+  rates: CURRENCIES.reduce((rates, { code }) => {
+    const entry = settings.rates?.[code];
+    const valid = code !== 'USD' && !!entry && isFinite(entry.rate) && entry.rate > 0;
+    rates[code] = valid
+      ? { rate: entry.rate, date: /^\d{4}-\d{2}-\d{2}$/.test(entry.date) ? entry.date : DEFAULT_EXCHANGE_RATES[code].date }
+      : DEFAULT_EXCHANGE_RATES[code];
+    return rates;
+  }, {} as ExchangeRateTable)
+});
+
+export const getCurrency = (code: CurrencyCode) => CURRENCIES.find(currency => currency.code === code) ?? CURRENCIES[0];
+
+export const getReportCurrency = (settings: CurrencySettings): ReportCurrency => ({
+  code: settings.currency,
+  ...settings.rates[settings.currency]
+});
+
+export const convertFromUsd = (value: number, currency: ReportCurrency = USD): number => value * currency.rate;
+
+// "-R$1,234"; the value must already be in the currency
+export const formatMoney = (value: number, code: CurrencyCode = 'USD', fractionDigits = 0): string => {
+  const amount = Math.abs(value).toLocaleString(undefined, { minimumFractionDigits: fractionDigits, maximumFractionDigits: fractionDigits });
+  return `${value < 0 ? '-' : ''}${getCurrency(code).symbol}${amount}`;
+};
+
+/**
+ * Currency and rates saved in localStorage
+ */
+export const loadCurrencySettings = (): CurrencySettings => {
+  if (typeof window === 'undefined') {
+    return DEFAULT_CURRENCY_SETTINGS;
+  }
+
+  try {
+    const stored = localStorage.getItem(CURRENCY_KEY);
+    return stored ? normalizeCurrencySettings(JSON.parse(stored) as CurrencySettings) : DEFAULT_CURRENCY_SETTINGS;
+  } catch (error) {
+    console.error('Error reading currency settings:', error);
+    return DEFAULT_CURRENCY_SETTINGS;
+  }
+};
+
+export const saveCurrencySettings = (settings: CurrencySettings): void => {
+  if (typeof window === 'undefined') {
+    return;
+  }
+
+  try {
+    localStorage.setItem(CURRENCY_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error('Error saving currency settings:', error);
+  }
+};
@@ -0,0 +1,133 @@
+/**
+ * Disturbance risk: fire, drought, windthrow and pest outbreaks
+ * Each year a stand may burn, dry out, be hit by a storm or by an insect or
+ * disease outbreak. The chance of an
+ * event depends on the latitude band and the predicted climate, and the share
+ * of trees it kills depends on the species' fire resistance, water needs and
+ * resilience. Deterministic runs apply the expected losses every year;
+ * Monte Carlo runs draw whether each event strikes.
+ */
+
+import { TreeType } from '@/types/treeTypes';
+import { ModelParameters, DEFAULT_MODEL_PARAMETERS } from '@/utils/modelParameters';
+
+export type DisturbanceType = 'fire' | 'drought' | 'windthrow' | 'pest';
+
+export interface DisturbanceSettings {
+  enabled: boolean;
+}
+
+// Annual chance of an event (0-1) and the share of trees it kills (0-1)
+export interface DisturbanceRisk {
+  probability: number;
+  severity: number;
+}
+
+export type DisturbanceRisks = Record<DisturbanceType, DisturbanceRisk>;
+
+// Trees (or shares of trees) killed by each disturbance
+export type DisturbanceLosses = Record<DisturbanceType, number>;
+
+// Uniform draws (0-1) deciding whether each event strikes in a year; an event
+// strikes when its draw falls below its probability
+export type DisturbanceDraw = Record<DisturbanceType, number>;
+
+// Year-to-year conditions that change the chance of fire, drought and outbreaks
+export interface DisturbanceConditions {
+  precipitation: number; // predicted mm/year
+  warming: number; // °C above current temperature
+}
+
+// Display order and labels
+export const DISTURBANCE_TYPES: Array<{ key: DisturbanceType; label: string }> = [
+  { key: 'fire', label: 'Fire' },
+  { key: 'drought', label: 'Drought' },
+  { key: 'windthrow', label: 'Windthrow' },
+  { key: 'pest', label: 'Pest outbreak' }
+];
+
+export const DEFAULT_DISTURBANCE_SETTINGS: DisturbanceSettings = {
+  enabled: false
+};
+
+export const createDisturbanceLosses = (): DisturbanceLosses => ({ fire: 0, drought: 0, windthrow: 0, pest: 0 });
+
+export const getTotalDisturbanceLoss = (losses: DisturbanceLosses): number => {
+  return losses.fire + losses.drought + losses.windthrow + losses.pest;
+};
+
+// Protection (0-1) from a 1-5 trait score
+const getTraitProtection = (score: number): number => Math.max(0, Math.min(1, (score - 1) / 4));
+
+/**
+ * Annual chance and severity of each disturbance for a species
+ * Fire, storms and outbreaks are likelier in some latitude bands; dry and
+ * warming climates make fire, drought and outbreaks likelier, and outbreaks
+ * kill more conifers.
+ */
+export const getDisturbanceRisks = (
+  tree: TreeType,
+  latitude: number,
+  conditions: DisturbanceConditions,
+  parameters: ModelParameters = DEFAULT_MODEL_PARAMETERS
+): DisturbanceRisks => {
+  const { disturbance, defaultClimate } = parameters;
+  const absLat = Math.abs(latitude);
+  const [fireProbability, windthrowProbability, pestProbability] = absLat < defaultClimate.TROPICAL_MAX_LATITUDE
+    ? [disturbance.FIRE_PROBABILITY_TROPICAL, disturbance.WINDTHROW_PROBABILITY_TROPICAL, disturbance.PEST_PROBABILITY_TROPICAL]
+    : absLat < defaultClimate.TEMPERATE_MAX_LATITUDE
+      ? [disturbance.FIRE_PROBABILITY_TEMPERATE, disturbance.WINDTHROW_PROBABILITY_TEMPERATE, disturbance.PEST_PROBABILITY_TEMPERATE]
+      : [disturbance.FIRE_PROBABILITY_BOREAL, disturbance.WINDTHROW_PROBABILITY_BOREAL, disturbance.PEST_PROBABILITY_BOREAL];
+  const dryness = Math.max(0, Math.min(1, 1 - conditions.precipitation / Math.max(1, disturbance.DRY_PRECIPITATION)));
+  const warming = Math.max(0, conditions.warming);
+  const cap = (probability: number) => Math.max(0, Math.min(disturbance.MAX_PROBABILITY, probability));
+  const waterNeeds = tree.waterNeeds === 'low'
+    ? disturbance.LOW_WATER_NEEDS_SEVERITY
+    : tree.waterNeeds === 'high' ? disturbance.HIGH_WATER_NEEDS_SEVERITY : 1;
+  const resilience = 1 - disturbance.RESILIENCE_PROTECTION * getTraitProtection(tree.resilienceScore);
+  const conifer = tree.category === 'coniferous' || tree.category === 'boreal' ? disturbance.CONIFER_PEST_SEVERITY : 1;
+
+  return {
+    fire: {
+      probability: cap(fireProbability * (1 + disturbance.FIRE_DRYNESS_FACTOR * dryness) * (1 + disturbance.FIRE_WARMING_FACTOR * warming)),
+      severity: disturbance.FIRE_SEVERITY * (1 - disturbance.FIRE_RESISTANCE_PROTECTION * getTraitProtection(tree.fireResistance ?? 3))
+    },
+    drought: {
+      probability: cap(disturbance.DROUGHT_PROBABILITY * (1 + disturbance.DROUGHT_DRYNESS_FACTOR * dryness) * (1 + disturbance.DROUGHT_WARMING_FACTOR * warming)),
+      severity: Math.min(1, disturbance.DROUGHT_SEVERITY * waterNeeds * resilience)
+    },
+    windthrow: {
+      probability: cap(windthrowProbability),
+      severity: disturbance.WINDTHROW_SEVERITY * resilience
+    },
+    pest: {
+      probability: cap(pestProbability * (1 + disturbance.PEST_DRYNESS_FACTOR * dryness) * (1 + disturbance.PEST_WARMING_FACTOR * warming)),
+      severity: Math.min(1, disturbance.PEST_SEVERITY * conifer * resilience)
+    }
+  };
+};
+
+/**
+ * Share of trees killed by each disturbance in a year (0-1)
+ * Without a draw the expected loss (chance × severity) applies; with one,
+ * an event kills its full share or nothing. Events strike in turn, each on
+ * the trees the previous ones left.
+ */
+export const getDisturbanceLosses = (risks: DisturbanceRisks, draw?: DisturbanceDraw | null): DisturbanceLosses => {
+  const losses = createDisturbanceLosses();
+  let surviving = 1;
+
+  DISTURBANCE_TYPES.forEach(({ key }) => {
+    const { probability, severity } = risks[key];
+    const share = draw ? (draw[key] < probability ? severity : 0) : probability * severity;
+    losses[key] = surviving * Math.max(0, Math.min(1, share));
+    surviving -= losses[key];
+  });
+
+  return losses;
+};
+
+// One draw per event type for every simulation year
+export const sampleDisturbanceDraws = (years: number, random: () => number): DisturbanceDraw[] => {
+  return Array.from({ length: Math.max(0, years) }, () => ({ fire: random(), drought: random(), windthrow: random(), pest: random() }));
+};
@@ -0,0 +1,76 @@
+/**
+ * Employment by project phase
+ * Labour is counted in job-years: one full-time job for one year. Nursery,
+ * site preparation and planting work follow the stand's planting seasons and
+ * crew; maintenance follows the living trees and each species' job creation
+ * factor, heavier while the stand establishes; monitoring follows the area
+ * and harvests follow the trees felled.
+ */
+
+import { TreeType } from '@/types/treeTypes';
+import { ModelParameters, DEFAULT_MODEL_PARAMETERS } from '@/utils/modelParameters';
+import { calculatePlantingTimeline } from '@/utils/treePlanting';
+
+export type LaborPhase = 'nursery' | 'sitePreparation' | 'planting' | 'maintenance' | 'monitoring' | 'harvest';
+
+// Job-years in each phase
+export type LaborPhases = Record<LaborPhase, number>;
+
+// Display order, labels and chart colors
+export const LABOR_PHASES: Array<{ key: LaborPhase; label: string; color: string }> = [
+  { key: 'nursery', label: 'Nursery', color: '#65a30d' },
+  { key: 'sitePreparation', label: 'Site preparation', color: '#92400e' },
+  { key: 'planting', label: 'Planting', color: '#1B4D3E' },
+  { key: 'maintenance', label: 'Maintenance', color: '#0891b2' },
+  { key: 'monitoring', label: 'Monitoring', color: '#7c3aed' },
+  { key: 'harvest', label: 'Harvest', color: '#b45309' }
+];
+
+export const createLaborPhases = (): LaborPhases => ({
+  nursery: 0,
+  sitePreparation: 0,
+  planting: 0,
+  maintenance: 0,
+  monitoring: 0,
+  harvest: 0
+});
+
+export const getTotalJobYears = (phases: LaborPhases): number => {
+  return LABOR_PHASES.reduce((sum, { key }) => sum + phases[key], 0);
+};
+
+// Job-years of maintenance per 1000 trees over the establishment years
+export const getMaintenanceJobs = (tree: TreeType, parameters: ModelParameters = DEFAULT_MODEL_PARAMETERS): number => {
+  return tree.jobCreationFactor ?? parameters.labor.DEFAULT_JOBS_PER_1000_TREES;
+};
+
+/**
+ * Nursery, site preparation and planting job-years of planting a stand
+ * The trees are planted over the seasons the planting timeline needs; each
+ * season the crew works whole days until that season's trees are in. One
+ * entry per season, from the first.
+ */
+export const getPlantingLabor = (
+  trees: number,
+  hectares: number,
+  parameters: ModelParameters = DEFAULT_MODEL_PARAMETERS
+): LaborPhases[] => {
+  if (trees <= 0) return [];
+  const { labor } = parameters;
+  const timeline = calculatePlantingTimeline(trees);
+  const seasons: LaborPhases[] = [];
+  let remaining = trees;
+
+  for (let season = 0; season < timeline.yearsToComplete && remaining > 0; season++) {
+    const planted = Math.min(timeline.treesPerSeason, remaining);
+    remaining -= planted;
+    seasons.push({
+      ...createLaborPhases(),
+      nursery: planted / 1000 * labor.NURSERY_DAYS_PER_1000_TREES / labor.WORKING_DAYS_PER_YEAR,
+      sitePreparation: hectares * (planted / trees) * labor.SITE_PREPARATION_DAYS_PER_HECTARE / labor.WORKING_DAYS_PER_YEAR,
+      planting: timeline.crewSize * Math.ceil(planted / timeline.treesPerDay) / labor.WORKING_DAYS_PER_YEAR
+    });
+  }
+
+  return seasons;
+};
@@ -3,6 +3,20 @@
  */
 
 import { TreeType } from '@/types/treeTypes';
+import { SimulationYear, CarbonPayback, RotationSummary, SelectiveHarvestSummary, NaturalRegenerationSummary, AgroforestrySummary, DisturbanceSummary, SpeciesClimateSuitability, CashFlowSummary, CreditingSummary, EmploymentSummary, ClearCuttingCarbon, TreeSurvival, SpeciesResult } from '@/utils/simulationEngine';
+import { MortalitySettings } from '@/utils/treeMortality';
+import { UncertaintyResult, Percentiles } from '@/utils/monteCarlo';
+import { SensitivityResult, SENSITIVITY_METRICS, getSwing } from '@/utils/sensitivity';
+import { ModelParameterOverrides, serializeOverrides } from '@/utils/modelParameters';
+import { CarbonPools, CARBON_POOL_KEYS } from '@/utils/carbonPools';
+import { GrowthModel, DEFAULT_GROWTH_MODEL, getWoodDensity } from '@/utils/allometry';
+import { WoodProductOverrides, WOOD_PRODUCT_KEYS, resolveWoodProductShares } from '@/utils/harvestedWood';
+import { DISTURBANCE_TYPES } from '@/utils/disturbance';
+import { CREDITING_DEDUCTIONS } from '@/utils/carbonCrediting';
+import { CarbonPriceScenario } from '@/utils/carbonPricing';
+import { LABOR_PHASES } from '@/utils/employment';
+import { ClimateScenario, ClimateProjection, DEFAULT_CLIMATE_SCENARIO } from '@/utils/climateScenarios';
+import { ReportCurrency, USD, convertFromUsd } from '@/utils/currency';
 
 export interface ExportData {
   metadata: {
@@ -22,7 +36,12 @@ export interface ExportData {
       years: number;
       selectedTrees: TreeType[];
       treePercentages: { [key: string]: number };
+      parameterOverrides?: ModelParameterOverrides; // Coefficients changed from constants.ts
+      growthModel?: GrowthModel; // How yearly sequestration was derived
+      climateScenario?: ClimateScenario; // Emissions scenario for the projected climate
+      woodProductShares?: WoodProductOverrides; // End-use shares changed from the species defaults
     };
+    currency?: ReportCurrency; // Currency of the money values, with its rate per USD and the date of the rate
   };
   environmentalData: {
     soil?: {
@@ -50,6 +69,24 @@ export interface ExportData {
     averageBiodiversity: number;
     averageResilience: number;
   };
+  timeSeries?: SimulationYear[];
+  climateProjection?: ClimateProjection | null; // Scenario warming and precipitation change by the final year (with climate data)
+  carbonPayback?: CarbonPayback | null;
+  rotation?: RotationSummary | null; // Rotation settings, harvests and timber revenue (rotation mode)
+  selectiveHarvest?: SelectiveHarvestSummary | null; // Harvest settings, released carbon and recovery (selective harvest mode)
+  naturalRegeneration?: NaturalRegenerationSummary | null; // Recruitment, establishment and the planting comparison (natural regeneration mode)
+  agroforestry?: AgroforestrySummary | null; // Row layout, alley crop output and revenue (agroforestry mode)
+  disturbance?: DisturbanceSummary | null; // Fire, drought, windthrow and pest outbreak risk and losses (when disturbance risk is on)
+  climateSuitability?: SpeciesClimateSuitability[] | null; // Species climate envelopes and the years each leaves its envelope (with climate data)
+  cashFlow?: CashFlowSummary | null; // Yearly costs and revenue, NPV, IRR, payback and cost per tonne (grown stands)
+  crediting?: CreditingSummary | null; // Deductions and net creditable tonnes per vintage year (when carbon crediting is on)
+  employment?: EmploymentSummary | null; // Job-years by project phase, year by year (per-area mode)
+  mortality?: (TreeSurvival & { settings: MortalitySettings }) | null;
+  species?: SpeciesResult[];
+  carbonPools?: CarbonPools | null;
+  clearCutting?: ClearCuttingCarbon | null; // Per-tree harvest carbon and wood products (clear-cutting mode)
+  uncertainty?: UncertaintyResult | null;
+  sensitivity?: SensitivityResult | null;
   plantingData?: {
     area: number;
     totalTrees: number;
@@ -62,6 +99,76 @@ export interface ExportData {
   } | null;
 }
 
+// CSV column name for a carbon pool ("aboveGround" -> "pool_above_ground_kg_co2")
+const poolColumn = (key: string): string => `pool_${key.replace(/[A-Z]/g, c => `_${c.toLowerCase()}`)}_kg_co2`;
+
+// CSV column name for a labour phase ("sitePreparation" -> "site_preparation_job_years")
+const laborColumn = (key: string): string => `${key.replace(/[A-Z]/g, c => `_${c.toLowerCase()}`)}_job_years`;
+
+/**
+ * Export data with its money values in the report currency
+ * The model works in USD; each export converts once at the rate recorded in
+ * the metadata so the JSON, CSV and PDF reports agree.
+ */
+export const convertExportCurrency = (data: ExportData): ExportData => {
+  const currency = data.metadata.currency;
+  if (!currency || currency.code === 'USD') return data;
+  const convert = (value: number) => convertFromUsd(value, currency);
+  const convertScenario = (scenario: CarbonPriceScenario): CarbonPriceScenario => ({
+    ...scenario,
+    startPrice: convert(scenario.startPrice),
+    annualIncrease: convert(scenario.annualIncrease),
+    prices: scenario.prices.map(convert)
+  });
+  const { rotation, naturalRegeneration, agroforestry, cashFlow } = data;
+
+  return {
+    ...data,
+    rotation: rotation && {
+      ...rotation,
+      harvests: rotation.harvests.map(harvest => ({ ...harvest, revenue: convert(harvest.revenue) })),
+      totalRevenue: convert(rotation.totalRevenue)
+    },
+    naturalRegeneration: naturalRegeneration && {
+      ...naturalRegeneration,
+      establishmentCost: convert(naturalRegeneration.establishmentCost),
+      plantingCost: convert(naturalRegeneration.plantingCost)
+    },
+    agroforestry: agroforestry && {
+      ...agroforestry,
+      cropPrice: convert(agroforestry.cropPrice),
+      totalCropRevenue: convert(agroforestry.totalCropRevenue)
+    },
+    cashFlow: cashFlow && {
+      ...cashFlow,
+      settings: { ...cashFlow.settings, priceScenarios: cashFlow.settings.priceScenarios.map(convertScenario) },
+      years: cashFlow.years.map(year => ({
+        ...year,
+        planting: convert(year.planting),
+        maintenance: convert(year.maintenance),
+        carbonCredits: convert(year.carbonCredits),
+        carbonPrice: convert(year.carbonPrice),
+        timber: convert(year.timber),
+        crops: convert(year.crops),
+        netCashFlow: convert(year.netCashFlow),
+        cumulativeCashFlow: convert(year.cumulativeCashFlow),
+        discountedCashFlow: convert(year.discountedCashFlow)
+      })),
+      scenarios: cashFlow.scenarios.map(result => ({
+        ...result,
+        scenario: convertScenario(result.scenario),
+        creditRevenue: convert(result.creditRevenue),
+        averagePrice: convert(result.averagePrice),
+        netPresentValue: convert(result.netPresentValue)
+      })),
+      totalCosts: convert(cashFlow.totalCosts),
+      totalRevenue: convert(cashFlow.totalRevenue),
+      netPresentValue: convert(cashFlow.netPresentValue),
+      costPerTonne: cashFlow.costPerTonne !== null ? convert(cashFlow.costPerTonne) : null
+    }
+  };
+};
+
 export const generateGeoJSON = (data: ExportData): string => {
   const features: Array<{
     type: string;
@@ -140,10 +247,11 @@ export const generateGeoJSON = (data: ExportData): string => {
 };
 
 export const generateJSON = (data: ExportData): string => {
-  return JSON.stringify(data, null, 2);
+  return JSON.stringify(convertExportCurrency(data), null, 2);
 };
 
-export const generateCSV = (data: ExportData): string => {
+export const generateCSV = (exportData: ExportData): string => {
+  const data = convertExportCurrency(exportData);
   // Create a single row with all data for R/Python compatibility
   const row: string[] = [];
   
@@ -166,6 +274,10 @@ export const generateCSV = (data: ExportData): string => {
   row.push(data.environmentalData.soil?.texture || "");
   row.push(data.environmentalData.climate?.temperature?.toString() || "");
   row.push(data.environmentalData.climate?.precipitation?.toString() || "");
+  row.push(data.metadata.simulation.climateScenario || DEFAULT_CLIMATE_SCENARIO);
+  row.push(data.climateProjection?.region || "");
+  row.push(data.climateProjection?.warming.toFixed(2) ?? "");
+  row.push(data.climateProjection?.precipitationChange.toFixed(1) ?? "");
   
   // Impact results
   row.push(data.impactResults.carbonSequestration.toFixed(1));
@@ -185,10 +297,19 @@ export const generateCSV = (data: ExportData): string => {
   row.push(data.plantingData?.timeline?.yearsToComplete?.toString() || "");
   row.push(data.plantingData?.timeline?.treesPerSeason?.toString() || "");
   
+  // Mortality (if applied)
+  row.push(data.mortality?.settings.establishmentRate.toString() || "");
+  row.push(data.mortality?.settings.establishmentYears.toString() || "");
+  row.push(data.mortality?.settings.matureRate?.toString() || "");
+  row.push(data.mortality?.survivingTrees.toString() || "");
+  row.push(data.mortality?.deadTrees.toString() || "");
+  row.push(data.mortality?.survivalRate.toFixed(1) || "");
+  
   // Tree data (concatenated for multiple trees)
   const treeNames = data.metadata.simulation.selectedTrees.map(t => t.name).join(";");
   const treeScientificNames = data.metadata.simulation.selectedTrees.map(t => t.scientificName).join(";");
   const treeCarbonRates = data.metadata.simulation.selectedTrees.map(t => t.carbonSequestration.toString()).join(";");
+  const treeWoodDensities = data.metadata.simulation.selectedTrees.map(t => getWoodDensity(t).toFixed(2)).join(";");
   const treePercentages = data.metadata.simulation.selectedTrees.map(t => 
     (data.metadata.simulation.treePercentages[t.id] || 0).toString()
   ).join(";");
@@ -196,19 +317,234 @@ export const generateCSV = (data: ExportData): string => {
   row.push(treeNames);
   row.push(treeScientificNames);
   row.push(treeCarbonRates);
+  row.push(treeWoodDensities);
   row.push(treePercentages);
   
+  // Species cohort results (same order as the tree columns)
+  const cohorts = data.metadata.simulation.selectedTrees.map(t => data.species?.find(s => s.speciesId === t.id));
+  row.push(cohorts.map(c => c ? Math.round(c.plantedTrees).toString() : "").join(";"));
+  row.push(cohorts.map(c => c ? c.survivingTrees.toString() : "").join(";"));
+  row.push(cohorts.map(c => c ? c.totalCarbon.toFixed(1) : "").join(";"));
+  row.push(cohorts.map(c => c ? c.carbonShare.toFixed(1) : "").join(";"));
+  row.push(cohorts.map(c => c ? c.dbh.toFixed(1) : "").join(";"));
+  row.push(cohorts.map(c => c ? c.height.toFixed(1) : "").join(";"));
+  
+  // Carbon pools at the end of the simulation (planting mode)
+  CARBON_POOL_KEYS.forEach(pool => row.push(data.carbonPools ? data.carbonPools[pool.key].toFixed(1) : ""));
+  
+  // Harvested carbon per felled tree and where it goes (clear-cutting mode)
+  const harvest = data.clearCutting;
+  row.push(harvest?.harvested.toFixed(1) ?? "");
+  row.push(harvest?.immediate.toFixed(1) ?? "");
+  row.push(harvest?.productEmissions.toFixed(1) ?? "");
+  row.push(harvest?.storedInProducts.toFixed(1) ?? "");
+  WOOD_PRODUCT_KEYS.forEach(product => row.push(harvest?.productShares[product.key].toFixed(1) ?? ""));
+  row.push(harvest
+    ? data.metadata.simulation.selectedTrees.map(t => {
+        const shares = resolveWoodProductShares(t, data.metadata.simulation.woodProductShares);
+        return WOOD_PRODUCT_KEYS.map(product => shares[product.key].toFixed(0)).join("/");
+      }).join(";")
+    : "");
+  
+  // Carbon debt and payback of harvest-and-replant (clear-cutting mode)
+  const payback = data.carbonPayback;
+  row.push(payback?.carbonDebt.toFixed(1) ?? "");
+  row.push(payback?.paybackYear?.toString() ?? "");
+  row.push(payback?.parityYear?.toString() ?? "");
+  row.push(payback?.replantSpecies.join(";") ?? "");
+  
+  // Rotation length, thinnings (age:%), harvest totals and long-term stock (rotation mode)
+  const rotation = data.rotation;
+  row.push(rotation?.settings.rotationLength.toString() ?? "");
+  row.push(rotation?.settings.thinnings.map(t => `${t.year}:${t.percentRemoved}`).join(";") ?? "");
+  row.push(rotation ? (rotation.settings.replant ? rotation.settings.replantDelay.toString() : "none") : "");
+  row.push(rotation?.cycles.toString() ?? "");
+  row.push(rotation?.completedRotations.toString() ?? "");
+  row.push(rotation?.totalRemovals.toFixed(1) ?? "");
+  row.push(rotation?.totalRevenue.toFixed(2) ?? "");
+  row.push(rotation?.averageCarbonStock.toFixed(1) ?? "");
+  row.push(rotation?.averageStandingStock.toFixed(1) ?? "");
+  
+  // Intensity, harvest timing and the carbon released by a selective harvest (selective harvest mode)
+  const selective = data.selectiveHarvest;
+  row.push(selective?.settings.intensity.toString() ?? "");
+  row.push(selective?.settings.basis ?? "");
+  row.push(selective?.settings.minimumAge.toString() ?? "");
+  row.push(selective?.settings.damageRate.toString() ?? "");
+  row.push(selective?.harvestYear?.toString() ?? "");
+  row.push(selective ? Math.round(selective.felledTrees).toString() : "");
+  row.push(selective ? Math.round(selective.damagedTrees).toString() : "");
+  row.push(selective?.basalAreaRemoved.toFixed(1) ?? "");
+  row.push(selective?.disturbance.toFixed(1) ?? "");
+  row.push(selective?.harvested.toFixed(1) ?? "");
+  row.push(selective?.deadwoodEmissions.toFixed(1) ?? "");
+  row.push(selective?.lostSequestration.toFixed(1) ?? "");
+  row.push(selective?.recoveryUptake.toFixed(1) ?? "");
+  row.push(selective?.total.toFixed(1) ?? "");
+  
+  // Seed source, recruitment and the comparison with planting (natural regeneration mode)
+  const regeneration = data.naturalRegeneration;
+  row.push(regeneration?.settings.seedSourceDistance.toString() ?? "");
+  row.push(regeneration ? (regeneration.settings.assisted ? "yes" : "no") : "");
+  row.push(regeneration?.recruitmentRate.toFixed(1) ?? "");
+  row.push(regeneration?.regrowthFactor.toFixed(2) ?? "");
+  row.push(regeneration?.firstRecruitmentYear?.toString() ?? "");
+  row.push(regeneration?.stockedYear?.toString() ?? "");
+  row.push(regeneration ? Math.round(regeneration.establishedTrees).toString() : "");
+  row.push(regeneration?.establishmentCost.toFixed(2) ?? "");
+  row.push(regeneration?.plantingCost.toFixed(2) ?? "");
+  row.push(regeneration?.plantingCarbon.toFixed(1) ?? "");
+  
+  // Row layout and the alley crop's output and revenue (agroforestry mode)
+  const agroforestry = data.agroforestry;
+  row.push(agroforestry?.settings.alleyWidth.toString() ?? "");
+  row.push(agroforestry?.settings.inRowSpacing.toString() ?? "");
+  row.push(agroforestry?.layout.rowsPerHectare.toFixed(2) ?? "");
+  row.push(agroforestry?.layout.treesPerHectare.toFixed(0) ?? "");
+  row.push(agroforestry?.settings.crop ?? "");
+  row.push(agroforestry?.cropArea.toFixed(4) ?? "");
+  row.push(agroforestry?.cropYield.toString() ?? "");
+  row.push(agroforestry?.cropPrice.toString() ?? "");
+  row.push(agroforestry?.totalCropOutput.toFixed(3) ?? "");
+  row.push(agroforestry?.totalCropRevenue.toFixed(2) ?? "");
+  row.push(agroforestry?.finalShadeLoss.toFixed(1) ?? "");
+  
+  // Annual chance, severity and trees lost per disturbance, and the carbon lost (when disturbance risk is on)
+  const disturbance = data.disturbance;
+  DISTURBANCE_TYPES.forEach(({ key }) => {
+    row.push(disturbance ? (disturbance.risks[key].probability * 100).toFixed(2) : "");
+    row.push(disturbance ? (disturbance.risks[key].severity * 100).toFixed(1) : "");
+    row.push(disturbance?.treesLost[key].toFixed(1) ?? "");
+  });
+  row.push(disturbance?.totalTreesLost.toFixed(1) ?? "");
+  row.push(disturbance?.carbonLoss.toFixed(1) ?? "");
+  
+  // Years each species leaves its climate envelope and its growth and mortality by the final year (same order as the tree columns)
+  const suitability = data.metadata.simulation.selectedTrees.map(t => data.climateSuitability?.find(s => s.speciesId === t.id));
+  const hasSuitability = !!data.climateSuitability;
+  row.push(hasSuitability ? suitability.map(s => s?.stressedYear?.toString() ?? "").join(";") : "");
+  row.push(hasSuitability ? suitability.map(s => s?.unsuitableYear?.toString() ?? "").join(";") : "");
+  row.push(hasSuitability ? suitability.map(s => s?.finalGrowthFactor.toFixed(2) ?? "").join(";") : "");
+  row.push(hasSuitability ? suitability.map(s => s?.finalExtraMortality.toFixed(1) ?? "").join(";") : "");
+  
+  // Report currency and the rate the money columns were converted at
+  const currency = data.metadata.currency ?? USD;
+  row.push(currency.code);
+  row.push(currency.rate.toString());
+  row.push(currency.date);
+  
+  // Project cash flow and returns (grown stands)
+  const cashFlow = data.cashFlow;
+  row.push(cashFlow?.settings.discountRate.toString() ?? "");
+  row.push(cashFlow?.years[0]?.planting.toFixed(2) ?? "");
+  row.push(cashFlow?.totalCosts.toFixed(2) ?? "");
+  row.push(cashFlow?.totalRevenue.toFixed(2) ?? "");
+  row.push(cashFlow?.netPresentValue.toFixed(2) ?? "");
+  row.push(cashFlow?.internalRateOfReturn?.toFixed(2) ?? "");
+  row.push(cashFlow?.paybackYear?.toString() ?? "");
+  row.push(cashFlow?.costPerTonne?.toFixed(2) ?? "");
+  
+  // Credit issuance and the returns under each carbon price scenario (same order as the scenario names)
+  row.push(cashFlow?.settings.verificationInterval.toString() ?? "");
+  row.push(cashFlow?.issuedTonnes.toFixed(3) ?? "");
+  row.push(cashFlow?.scenarios.map(s => s.scenario.name).join(";") ?? "");
+  row.push(cashFlow?.scenarios.map(s => s.netPresentValue.toFixed(2)).join(";") ?? "");
+  row.push(cashFlow?.scenarios.map(s => s.internalRateOfReturn?.toFixed(2) ?? "").join(";") ?? "");
+  
+  // Crediting deductions and net creditable tonnes (when carbon crediting is on)
+  const crediting = data.crediting;
+  row.push(crediting ? (crediting.settings.baselineType === 'none' ? "none" : `${crediting.settings.baselineType}:${crediting.settings.baselineValue}`) : "");
+  row.push(crediting?.settings.leakage.toString() ?? "");
+  row.push(crediting?.settings.uncertainty.toString() ?? "");
+  row.push(crediting?.bufferContribution.toFixed(1) ?? "");
+  CREDITING_DEDUCTIONS.forEach(({ key }) => row.push(crediting?.totalDeductions[key].toFixed(3) ?? ""));
+  row.push(crediting?.totalCreditable.toFixed(3) ?? "");
+  
+  // Job-years by phase and the busiest year (per-area mode)
+  const employment = data.employment;
+  row.push(employment?.totalJobYears.toFixed(2) ?? "");
+  row.push(employment?.peakJobs.toFixed(2) ?? "");
+  row.push(employment?.peakYear?.toString() ?? "");
+  LABOR_PHASES.forEach(({ key }) => row.push(employment?.totals[key].toFixed(2) ?? ""));
+  
+  // Monte Carlo percentiles (empty when uncertainty analysis is off)
+  const pushPercentiles = (percentiles: Percentiles | null | undefined, digits: number) => {
+    row.push(percentiles?.p10.toFixed(digits) ?? "");
+    row.push(percentiles?.p50.toFixed(digits) ?? "");
+    row.push(percentiles?.p90.toFixed(digits) ?? "");
+  };
+  const uncertainty = data.uncertainty;
+  row.push(uncertainty?.iterations.toString() || "");
+  row.push(uncertainty?.settings.distribution || "");
+  pushPercentiles(uncertainty?.totalCarbon, 1);
+  pushPercentiles(uncertainty?.annualCarbon, 1);
+  pushPercentiles(uncertainty?.averageBiodiversity, 2);
+  pushPercentiles(uncertainty?.averageResilience, 2);
+  pushPercentiles(uncertainty?.waterRetention, 1);
+  pushPercentiles(uncertainty?.airQuality, 1);
+  pushPercentiles(uncertainty?.survivingTrees, 0);
+  pushPercentiles(uncertainty?.disturbanceTreesLost, 0);
+  pushPercentiles(uncertainty?.disturbanceCarbonLoss, 1);
+  
+  // Growth model and advanced assumptions (group.KEY=value;...) so the run can be reproduced
+  row.push(data.metadata.simulation.growthModel || DEFAULT_GROWTH_MODEL);
+  row.push(serializeOverrides(data.metadata.simulation.parameterOverrides));
+  
   // Create header row
+  const percentileHeaders = (name: string) => [`${name}_p10`, `${name}_p50`, `${name}_p90`];
   const headers = [
     "timestamp", "simulator_version", "simulation_years",
     "latitude", "longitude", "region_north", "region_south", "region_east", "region_west",
     "soil_carbon_g_kg", "soil_ph", "soil_texture", "temperature_c", "precipitation_mm",
+    "climate_scenario", "climate_region", "projected_warming_c", "projected_precipitation_change_percent",
     "annual_carbon_sequestration_kg_co2_year", "total_carbon_kg_co2", "biodiversity_impact", 
     "forest_resilience", "water_retention_percent", "air_quality_improvement_percent",
     "average_biodiversity", "average_resilience",
     "area_hectares", "total_trees", "spacing_meters", "density_trees_hectare",
     "years_to_complete", "trees_per_season",
-    "tree_names", "tree_scientific_names", "tree_carbon_rates_kg_co2_year", "tree_percentages"
+    "establishment_mortality_percent_year", "establishment_years", "mature_mortality_percent_year",
+    "surviving_trees", "dead_trees", "survival_rate_percent",
+    "tree_names", "tree_scientific_names", "tree_carbon_rates_kg_co2_year", "tree_wood_density_g_cm3", "tree_percentages",
+    "species_planted_trees", "species_surviving_trees", "species_total_carbon_kg_co2", "species_carbon_share_percent",
+    "species_dbh_cm", "species_height_m",
+    ...CARBON_POOL_KEYS.map(pool => poolColumn(pool.key)),
+    "harvested_carbon_kg_co2_per_tree", "residue_release_kg_co2_per_tree",
+    "product_emissions_kg_co2_per_tree", "product_stored_kg_co2_per_tree",
+    ...WOOD_PRODUCT_KEYS.map(product => `${product.key}_share_percent`),
+    "species_wood_product_shares_percent",
+    "carbon_debt_kg_co2", "payback_year", "parity_year", "replant_species",
+    "rotation_length_years", "thinnings_age_percent", "replant_delay_years", "rotation_cycles", "completed_rotations",
+    "total_removals_kg_co2", "timber_revenue", "average_carbon_stock_kg_co2", "average_standing_stock_kg_co2",
+    "selective_intensity_percent", "selective_intensity_basis", "minimum_harvest_age_years", "residual_damage_percent",
+    "selective_harvest_year", "felled_trees", "damaged_trees", "basal_area_removed_percent", "stand_disturbance_percent",
+    "selective_harvested_kg_co2", "harvest_deadwood_emissions_kg_co2", "lost_sequestration_kg_co2", "recovery_uptake_kg_co2",
+    "selective_harvest_emissions_kg_co2",
+    "seed_source_distance_m", "assisted_regeneration", "recruitment_trees_ha_year", "regrowth_factor",
+    "first_recruitment_year", "stocked_year", "established_trees", "regeneration_cost", "planting_cost",
+    "planting_total_carbon_kg_co2",
+    "alley_width_m", "in_row_spacing_m", "tree_rows_per_hectare", "agroforestry_trees_hectare", "alley_crop",
+    "crop_area_hectares", "crop_yield_t_ha_year", "crop_price_per_t", "total_crop_output_t", "crop_revenue",
+    "final_shade_loss_percent",
+    ...DISTURBANCE_TYPES.flatMap(({ key }) => [`${key}_probability_percent_year`, `${key}_severity_percent`, `${key}_trees_lost`]),
+    "disturbance_trees_lost", "disturbance_carbon_loss_kg_co2",
+    "species_climate_stressed_year", "species_climate_unsuitable_year", "species_climate_growth_factor",
+    "species_climate_extra_mortality_percent_year",
+    "currency", "exchange_rate_per_usd", "exchange_rate_date",
+    "discount_rate_percent", "initial_cost", "total_costs", "total_revenue",
+    "npv", "irr_percent", "payback_year", "cost_per_tonne_co2",
+    "verification_interval_years", "credits_issued_t_co2", "carbon_price_scenarios", "carbon_price_scenario_npv",
+    "carbon_price_scenario_irr_percent",
+    "crediting_baseline", "crediting_leakage_percent", "crediting_uncertainty_percent", "crediting_buffer_percent",
+    "crediting_baseline_t_co2", "crediting_leakage_t_co2", "crediting_uncertainty_t_co2", "crediting_buffer_t_co2",
+    "net_creditable_t_co2",
+    "total_job_years", "peak_jobs", "peak_jobs_year", ...LABOR_PHASES.map(phase => laborColumn(phase.key)),
+    "monte_carlo_iterations", "monte_carlo_distribution",
+    ...percentileHeaders("total_carbon_kg_co2"), ...percentileHeaders("annual_carbon_kg_co2_year"),
+    ...percentileHeaders("average_biodiversity"), ...percentileHeaders("average_resilience"),
+    ...percentileHeaders("water_retention_percent"), ...percentileHeaders("air_quality_improvement_percent"),
+    ...percentileHeaders("surviving_trees"),
+    ...percentileHeaders("disturbance_trees_lost"), ...percentileHeaders("disturbance_carbon_loss_kg_co2"),
+    "growth_model", "parameter_overrides"
   ];
   
   // Escape values that contain commas or quotes
@@ -224,6 +560,147 @@ export const generateCSV = (data: ExportData): string => {
   return [headers.join(','), escapedRow.join(',')].join('\n');
 };
 
+export const generateTimeSeriesCSV = (exportData: ExportData): string => {
+  const data = convertExportCurrency(exportData);
+  // One row per simulated year for plotting and auditing trajectories
+  const bands = data.uncertainty && data.uncertainty.timeSeries.length === (data.timeSeries || []).length
+    ? data.uncertainty.timeSeries
+    : null;
+  const hasPools = !!data.timeSeries?.[0]?.pools;
+  const hasProducts = !!data.timeSeries?.[0]?.woodProducts;
+  const payback = data.carbonPayback?.timeline.length === data.timeSeries?.length ? data.carbonPayback?.timeline : null;
+  const hasRotation = !!data.rotation;
+  const hasRemovals = hasRotation || !!data.selectiveHarvest;
+  const hasCrop = !!data.agroforestry;
+  const hasDisturbance = !!data.timeSeries?.[0]?.disturbance;
+  // Cash flow years start with the planting year 0, before the first simulated year
+  const cashFlowYears = data.cashFlow?.years.length === (data.timeSeries || []).length + 1 ? data.cashFlow.years.slice(1) : null;
+  const vintages = data.crediting?.vintages.length === (data.timeSeries || []).length ? data.crediting.vintages : null;
+  const laborYears = data.employment?.years.length === (data.timeSeries || []).length ? data.employment.years : null;
+  const currency = (data.metadata.currency ?? USD).code;
+  const headers = [
+    "year", "annual_carbon_kg_co2", "cumulative_carbon_kg_co2", "living_trees", "dead_trees",
+    "biodiversity", "resilience", "water_retention_percent", "air_quality_percent",
+    "predicted_temperature_c", "predicted_precipitation_mm", "growth_modifier",
+    // Carbon stored per pool (planting mode)
+    ...(hasPools ? CARBON_POOL_KEYS.map(pool => poolColumn(pool.key)) : []),
+    // Harvest emissions and carbon still in wood products (harvest and rotation modes)
+    ...(hasProducts ? ["harvest_emissions_kg_co2", ...WOOD_PRODUCT_KEYS.map(product => `wood_${product.key}_kg_co2`)] : []),
+    // Cumulative harvest-and-replant carbon against leaving the stand
+    ...(payback ? ["released_to_date_kg_co2", "replanted_uptake_kg_co2", "standing_uptake_kg_co2"] : []),
+    // Carbon in living trees (rotation mode) and harvested from them (rotation and selective harvest modes)
+    ...(hasRotation ? ["standing_stock_kg_co2"] : []),
+    ...(hasRemovals ? ["removals_kg_co2"] : []),
+    // Alley crop output and the yield lost to tree shade (agroforestry mode)
+    ...(hasCrop ? ["crop_output_t", "shade_loss_percent"] : []),
+    // Trees killed by each disturbance (when disturbance risk is on)
+    ...(hasDisturbance ? DISTURBANCE_TYPES.map(({ key }) => `${key}_trees_killed`) : []),
+    // Costs, revenue and cumulative cash flow in the report currency; the cumulative flows include the planting year (grown stands)
+    ...(cashFlowYears ? [
+      "currency", "planting_cost", "maintenance_cost", "credits_issued_t_co2", "carbon_price_per_t", "carbon_credit_revenue",
+      "timber_revenue", "crop_revenue", "net_cash_flow", "cumulative_cash_flow", "discounted_cash_flow"
+    ] : []),
+    // Deductions and net creditable tonnes of each vintage year (when carbon crediting is on)
+    ...(vintages ? [
+      ...CREDITING_DEDUCTIONS.map(({ key }) => `crediting_${key}_t_co2`), "net_creditable_t_co2", "cumulative_creditable_t_co2"
+    ] : []),
+    // Job-years of work in each phase (per-area mode)
+    ...(laborYears ? [...LABOR_PHASES.map(phase => laborColumn(phase.key)), "total_job_years"] : []),
+    // Per-species cohort columns for mixed plantings
+    ...(data.species || []).flatMap(s => [
+      `${s.speciesId}_living_trees`, `${s.speciesId}_annual_carbon_kg_co2`,
+      `${s.speciesId}_cumulative_carbon_kg_co2`, `${s.speciesId}_carbon_share_percent`,
+      `${s.speciesId}_dbh_cm`, `${s.speciesId}_height_m`
+    ]),
+    // Monte Carlo percentiles when uncertainty analysis ran
+    ...(bands ? [
+      "cumulative_carbon_kg_co2_p10", "cumulative_carbon_kg_co2_p50", "cumulative_carbon_kg_co2_p90",
+      "annual_carbon_kg_co2_p10", "annual_carbon_kg_co2_p50", "annual_carbon_kg_co2_p90",
+      "living_trees_p10", "living_trees_p50", "living_trees_p90"
+    ] : [])
+  ];
+  
+  const rows = (data.timeSeries || []).map((point, index) => [
+    point.year.toString(),
+    point.annualCarbon.toFixed(1),
+    point.cumulativeCarbon.toFixed(1),
+    point.livingTrees.toString(),
+    point.deadTrees.toString(),
+    point.biodiversity.toFixed(2),
+    point.resilience.toFixed(2),
+    point.waterRetention.toFixed(1),
+    point.airQuality.toFixed(1),
+    point.temperature !== null ? point.temperature.toFixed(2) : "",
+    point.precipitation !== null ? point.precipitation.toFixed(1) : "",
+    point.growthModifier.toFixed(3),
+    ...(hasPools ? CARBON_POOL_KEYS.map(pool => point.pools?.[pool.key].toFixed(1) ?? "") : []),
+    ...(hasProducts ? [
+      point.harvestEmissions.toFixed(1),
+      ...WOOD_PRODUCT_KEYS.map(product => point.woodProducts?.[product.key].toFixed(1) ?? "")
+    ] : []),
+    ...(payback ? [payback[index].released.toFixed(1), payback[index].replanted.toFixed(1), payback[index].standing.toFixed(1)] : []),
+    ...(hasRotation ? [point.standingStock.toFixed(1)] : []),
+    ...(hasRemovals ? [point.removals.toFixed(1)] : []),
+    ...(hasCrop ? [point.cropOutput.toFixed(3), point.shadeLoss.toFixed(1)] : []),
+    ...(hasDisturbance ? DISTURBANCE_TYPES.map(({ key }) => point.disturbance?.[key].toFixed(2) ?? "") : []),
+    ...(cashFlowYears ? [currency, ...[
+      cashFlowYears[index].planting, cashFlowYears[index].maintenance, cashFlowYears[index].creditsIssued, cashFlowYears[index].carbonPrice,
+      cashFlowYears[index].carbonCredits, cashFlowYears[index].timber, cashFlowYears[index].crops,
+      cashFlowYears[index].netCashFlow, cashFlowYears[index].cumulativeCashFlow, cashFlowYears[index].discountedCashFlow
+    ].map((value, i) => value.toFixed(i === 2 ? 3 : 2))] : []),
+    ...(vintages ? [
+      ...CREDITING_DEDUCTIONS.map(({ key }) => vintages[index].deductions[key]), vintages[index].creditable, vintages[index].cumulativeCreditable
+    ].map(value => value.toFixed(3)) : []),
+    ...(laborYears ? [...LABOR_PHASES.map(({ key }) => laborYears[index].jobYears[key]), laborYears[index].total].map(value => value.toFixed(3)) : []),
+    ...(data.species || []).flatMap((_, i) => {
+      const cohort = point.species?.[i];
+      return cohort
+        ? [
+            cohort.livingTrees.toFixed(Number.isInteger(cohort.livingTrees) ? 0 : 2), cohort.annualCarbon.toFixed(1), cohort.cumulativeCarbon.toFixed(1), cohort.carbonShare.toFixed(1),
+            cohort.dbh.toFixed(1), cohort.height.toFixed(1)
+          ]
+        : ["", "", "", "", "", ""];
+    }),
+    ...(bands ? [
+      bands[index].cumulativeCarbon.p10.toFixed(1), bands[index].cumulativeCarbon.p50.toFixed(1), bands[index].cumulativeCarbon.p90.toFixed(1),
+      bands[index].annualCarbon.p10.toFixed(1), bands[index].annualCarbon.p50.toFixed(1), bands[index].annualCarbon.p90.toFixed(1),
+      bands[index].livingTrees.p10.toFixed(0), bands[index].livingTrees.p50.toFixed(0), bands[index].livingTrees.p90.toFixed(0)
+    ] : [])
+  ].join(','));
+  
+  return [headers.join(','), ...rows].join('\n');
+};
+
+export const generateSensitivityCSV = (data: ExportData): string => {
+  // One row per input and indicator: the tornado chart data in long format
+  const headers = [
+    "parameter", "label", "low_input", "high_input", "metric",
+    "base_value", "low_value", "high_value", "low_change_percent", "high_change_percent", "swing"
+  ];
+  
+  const sensitivity = data.sensitivity;
+  const percentChange = (value: number, base: number) => base !== 0 ? (((value - base) / Math.abs(base)) * 100).toFixed(2) : "";
+  
+  const rows = (sensitivity?.entries || []).flatMap(entry => SENSITIVITY_METRICS.map(({ key }) => {
+    const base = sensitivity!.base[key];
+    return [
+      entry.parameter,
+      `"${entry.label}"`,
+      `"${entry.lowInput}"`,
+      `"${entry.highInput}"`,
+      key,
+      base.toFixed(2),
+      entry.low[key].toFixed(2),
+      entry.high[key].toFixed(2),
+      percentChange(entry.low[key], base),
+      percentChange(entry.high[key], base),
+      getSwing(entry, sensitivity!.base, key).toFixed(2)
+    ].join(',');
+  }));
+  
+  return [headers.join(','), ...rows].join('\n');
+};
+
 export const downloadFile = (content: string, filename: string, mimeType: string) => {
   const blob = new Blob([content], { type: mimeType });
   const url = URL.createObjectURL(blob);
@@ -0,0 +1,94 @@
+/**
+ * Species-specific growth curves for carbon sequestration
+ * Relative annual sequestration follows a Chapman-Richards curve up to maturity
+ * and declines with senescence as trees approach their lifespan.
+ */
+
+import { TreeType, GrowthCurveParameters } from '@/types/treeTypes';
+import { ModelParameters, DEFAULT_MODEL_PARAMETERS } from '@/utils/modelParameters';
+
+type GrowthCurveCoefficients = ModelParameters['growthCurve'];
+
+const DEFAULT_COEFFICIENTS = DEFAULT_MODEL_PARAMETERS.growthCurve;
+
+// Years for a species to reach the maturity threshold, by growth rate
+const getBaseYearsToMaturity = (growthRate: TreeType['growthRate'], coefficients: GrowthCurveCoefficients): number => {
+  switch (growthRate) {
+    case 'fast': return coefficients.FAST_YEARS_TO_MATURITY;
+    case 'medium': return coefficients.MEDIUM_YEARS_TO_MATURITY;
+    case 'slow': return coefficients.SLOW_YEARS_TO_MATURITY;
+  }
+};
+
+// Derive curve parameters from growth rate and lifespan
+export const deriveGrowthCurve = (
+  growthRate: TreeType['growthRate'],
+  lifespan: number,
+  coefficients: GrowthCurveCoefficients = DEFAULT_COEFFICIENTS
+): GrowthCurveParameters => {
+  // Longer-lived species mature more slowly, shorter-lived faster
+  const lifespanFactor = Math.max(
+    coefficients.MIN_LIFESPAN_FACTOR,
+    Math.min(coefficients.MAX_LIFESPAN_FACTOR, Math.pow(lifespan / coefficients.REFERENCE_LIFESPAN, coefficients.LIFESPAN_EXPONENT))
+  );
+  const yearsToMaturity = Math.min(
+    lifespan * coefficients.MAX_MATURITY_SHARE,
+    getBaseYearsToMaturity(growthRate, coefficients) * lifespanFactor
+  );
+
+  return {
+    yearsToMaturity: Math.max(1, yearsToMaturity),
+    shape: coefficients.SHAPE,
+    senescenceOnset: lifespan * coefficients.SENESCENCE_ONSET_SHARE,
+    senescenceFloor: coefficients.SENESCENCE_FLOOR
+  };
+};
+
+// Growth curve for a species, applying any overrides carried by the tree type
+export const getGrowthCurve = (tree: TreeType, coefficients: GrowthCurveCoefficients = DEFAULT_COEFFICIENTS): GrowthCurveParameters => {
+  return {
+    ...deriveGrowthCurve(tree.growthRate, tree.lifespan, coefficients),
+    ...tree.growthCurve
+  };
+};
+
+/**
+ * Relative annual sequestration (0-1) for a tree of the given age
+ */
+export const getRelativeSequestration = (
+  curve: GrowthCurveParameters,
+  age: number,
+  lifespan: number,
+  maturityThreshold: number = DEFAULT_COEFFICIENTS.MATURITY_THRESHOLD
+): number => {
+  if (age <= 0) return 0;
+
+  // Solve (1 - e^(-k * maturity))^shape = threshold for the rate constant k
+  const k = -Math.log(1 - Math.pow(maturityThreshold, 1 / curve.shape)) / curve.yearsToMaturity;
+  const growth = Math.pow(1 - Math.exp(-k * age), curve.shape);
+
+  // Linear senescence decline from onset to the end of the lifespan
+  let senescence = 1;
+  if (age > curve.senescenceOnset) {
+    const progress = Math.min(1, (age - curve.senescenceOnset) / Math.max(1, lifespan - curve.senescenceOnset));
+    senescence = 1 - progress * (1 - curve.senescenceFloor);
+  }
+
+  return growth * senescence;
+};
+
+// Generic medium-growth curve for stands without a species
+export const getDefaultGrowthFactor = (age: number, coefficients: GrowthCurveCoefficients = DEFAULT_COEFFICIENTS): number => {
+  const lifespan = coefficients.REFERENCE_LIFESPAN;
+  return getRelativeSequestration(deriveGrowthCurve('medium', lifespan, coefficients), age, lifespan, coefficients.MATURITY_THRESHOLD);
+};
+
+// Convenience wrapper for a species at a given age
+export const getSpeciesGrowthFactor = (tree: TreeType, age: number, coefficients: GrowthCurveCoefficients = DEFAULT_COEFFICIENTS): number => {
+  return getRelativeSequestration(getGrowthCurve(tree, coefficients), age, tree.lifespan, coefficients.MATURITY_THRESHOLD);
+};
+
+// Age at which a species reaches its maturity threshold
+export const getYearsToMaturity = (tree: TreeType, coefficients: GrowthCurveCoefficients = DEFAULT_COEFFICIENTS): number => {
+  return Math.round(getGrowthCurve(tree, coefficients).yearsToMaturity);
+};
@@ -0,0 +1,164 @@
+/**
+ * Harvested wood products (HWP) for clear-cut, rotation and selectively logged stands
+ * Felled-tree carbon is split between sawnwood, wood panels and paper by
+ * end-use shares; each product pool releases its carbon by IPCC first-order
+ * decay, and the residue is released in the harvest year.
+ */
+
+import { TreeType } from '@/types/treeTypes';
+import { ModelParameters, DEFAULT_MODEL_PARAMETERS } from '@/utils/modelParameters';
+import { getAllometricGroup } from '@/utils/allometry';
+
+export interface WoodProductPools {
+  sawnwood: number; // kg CO2 held in sawn timber
+  panels: number; // kg CO2 held in plywood, particle and fibre board
+  paper: number; // kg CO2 held in paper and paperboard
+}
+
+export type WoodProductKey = keyof WoodProductPools;
+
+// % of harvested carbon going into each product; the rest is residue
+export type WoodProductShares = WoodProductPools;
+
+// Per-species share overrides keyed by tree id; missing products use the defaults
+export type WoodProductOverrides = { [speciesId: string]: Partial<WoodProductShares> };
+
+export interface WoodProductYear {
+  emissions: number; // kg CO2 released that year, including residue in year 1
+  pools: WoodProductPools; // kg CO2 still stored in products at the end of the year
+}
+
+export interface WoodProductSeries {
+  residue: number; // kg CO2 released at harvest
+  series: WoodProductYear[];
+}
+
+// Display order, labels and chart colors (bottom of the stack first)
+export const WOOD_PRODUCT_KEYS: Array<{ key: WoodProductKey; label: string; color: string }> = [
+  { key: 'sawnwood', label: 'Sawnwood', color: '#92400e' },
+  { key: 'panels', label: 'Wood panels', color: '#ca8a04' },
+  { key: 'paper', label: 'Paper & paperboard', color: '#0284c7' }
+];
+
+export const getTotalProductCarbon = (pools: WoodProductPools): number => {
+  return pools.sawnwood + pools.panels + pools.paper;
+};
+
+// Share of harvested carbon (%) that goes into no product
+export const getResidueShare = (shares: WoodProductShares): number => {
+  return Math.max(0, 100 - getTotalProductCarbon(shares));
+};
+
+// Default end-use shares for a species' allometric group
+export const getDefaultWoodProductShares = (tree: TreeType, parameters: ModelParameters = DEFAULT_MODEL_PARAMETERS): WoodProductShares => {
+  const hwp = parameters.harvestedWood;
+  switch (getAllometricGroup(tree)) {
+    case 'conifer':
+      return { sawnwood: hwp.SAWNWOOD_SHARE_CONIFER, panels: hwp.PANELS_SHARE_CONIFER, paper: hwp.PAPER_SHARE_CONIFER };
+    case 'broadleaf':
+      return { sawnwood: hwp.SAWNWOOD_SHARE_BROADLEAF, panels: hwp.PANELS_SHARE_BROADLEAF, paper: hwp.PAPER_SHARE_BROADLEAF };
+    case 'tropical':
+      return { sawnwood: hwp.SAWNWOOD_SHARE_TROPICAL, panels: hwp.PANELS_SHARE_TROPICAL, paper: hwp.PAPER_SHARE_TROPICAL };
+    case 'dryland':
+      return { sawnwood: hwp.SAWNWOOD_SHARE_DRYLAND, panels: hwp.PANELS_SHARE_DRYLAND, paper: hwp.PAPER_SHARE_DRYLAND };
+  }
+};
+
+/**
+ * End-use shares for a species with any user overrides applied
+ * Shares are clamped to 0-100% and scaled down if they exceed 100% together.
+ */
+export const resolveWoodProductShares = (
+  tree: TreeType,
+  overrides?: WoodProductOverrides | null,
+  parameters: ModelParameters = DEFAULT_MODEL_PARAMETERS
+): WoodProductShares => {
+  const shares = { ...getDefaultWoodProductShares(tree, parameters), ...overrides?.[tree.id] };
+  const clamped = {
+    sawnwood: Math.max(0, Math.min(100, shares.sawnwood)),
+    panels: Math.max(0, Math.min(100, shares.panels)),
+    paper: Math.max(0, Math.min(100, shares.paper))
+  };
+  const total = getTotalProductCarbon(clamped);
+  if (total <= 100) return clamped;
+
+  return {
+    sawnwood: (clamped.sawnwood / total) * 100,
+    panels: (clamped.panels / total) * 100,
+    paper: (clamped.paper / total) * 100
+  };
+};
+
+// Combine species shares, weighted by the carbon each species contributes
+export const blendWoodProductShares = (entries: Array<{ weight: number; shares: WoodProductShares }>): WoodProductShares => {
+  const totalWeight = entries.reduce((sum, entry) => sum + entry.weight, 0);
+  if (totalWeight <= 0) return { sawnwood: 0, panels: 0, paper: 0 };
+
+  const blend = (key: WoodProductKey) => entries.reduce((sum, entry) => sum + entry.shares[key] * entry.weight, 0) / totalWeight;
+  return { sawnwood: blend('sawnwood'), panels: blend('panels'), paper: blend('paper') };
+};
+
+// Annual first-order decay constant, k = ln(2) / half-life
+export const getProductDecayRate = (key: WoodProductKey, parameters: ModelParameters = DEFAULT_MODEL_PARAMETERS): number => {
+  const hwp = parameters.harvestedWood;
+  const halfLife = key === 'sawnwood' ? hwp.SAWNWOOD_HALF_LIFE : key === 'panels' ? hwp.PANELS_HALF_LIFE : hwp.PAPER_HALF_LIFE;
+  return Math.LN2 / Math.max(0.1, halfLife);
+};
+
+/**
+ * Year-by-year emissions and product stocks for a series of harvests
+ * Follows the IPCC first-order decay equation with each year's harvest as
+ * that year's inflow: C(i) = e^(-k) × C(i-1) + ((1 - e^(-k)) / k) × Inflow(i).
+ * Residue is released in the year of its harvest.
+ */
+export const decayWoodProductInflows = (
+  harvests: number[],
+  shares: WoodProductShares,
+  parameters: ModelParameters = DEFAULT_MODEL_PARAMETERS
+): WoodProductYear[] => {
+  const pools: WoodProductPools = { sawnwood: 0, panels: 0, paper: 0 };
+
+  return harvests.map(harvested => {
+    let emissions = harvested * getResidueShare(shares) / 100;
+
+    WOOD_PRODUCT_KEYS.forEach(({ key }) => {
+      const k = getProductDecayRate(key, parameters);
+      const inflow = harvested * shares[key] / 100;
+      const stock = Math.exp(-k) * pools[key] + ((1 - Math.exp(-k)) / k) * inflow;
+      emissions += pools[key] + inflow - stock;
+      pools[key] = stock;
+    });
+
+    return { emissions, pools: { ...pools } };
+  });
+};
+
+// Emissions and product stocks after a single harvest in year 1
+export const decayWoodProducts = (
+  harvested: number,
+  shares: WoodProductShares,
+  years: number,
+  parameters: ModelParameters = DEFAULT_MODEL_PARAMETERS
+): WoodProductSeries => {
+  const harvests = Array.from({ length: Math.max(0, years) }, (_, index) => index === 0 ? harvested : 0);
+  return {
+    residue: harvested * getResidueShare(shares) / 100,
+    series: decayWoodProductInflows(harvests, shares, parameters)
+  };
+};
+
+// Add product series year by year, e.g. the harvests of several species
+export const sumWoodProductYears = (seriesList: WoodProductYear[][], years: number): WoodProductYear[] => {
+  return Array.from({ length: years }, (_, index) => seriesList.reduce<WoodProductYear>((total, series) => {
+    const entry = series[index];
+    if (!entry) return total;
+    return {
+      emissions: total.emissions + entry.emissions,
+      pools: {
+        sawnwood: total.pools.sawnwood + entry.pools.sawnwood,
+        panels: total.pools.panels + entry.pools.panels,
+        paper: total.pools.paper + entry.pools.paper
+      }
+    };
+  }, { emissions: 0, pools: { sawnwood: 0, panels: 0, paper: 0 } }));
+};
@@ -0,0 +1,206 @@
+/**
+ * Typed model coefficients with user overrides
+ * Defaults come from constants.ts; overrides are kept as a sparse set so
+ * exports and share links only record what the user changed.
+ */
+
+import {
+  GROWTH_CURVE,
+  BIODIVERSITY_GROWTH_FACTORS,
+  CARBON_CONVERSION,
+  CARBON_POOLS,
+  ALLOMETRY,
+  TRUNK_CARBON,
+  HARVESTED_WOOD,
+  SELECTIVE_HARVEST,
+  NATURAL_REGENERATION,
+  AGROFORESTRY,
+  DISTURBANCE,
+  CLIMATE_SUITABILITY,
+  CASH_FLOW,
+  CREDITING,
+  ENVIRONMENTAL_MODIFIERS,
+  DEFAULT_CLIMATE,
+  IMPACT_CAPS,
+  WATER_RETENTION,
+  AIR_QUALITY,
+  SOCIAL_IMPACT,
+  LAND_USE_IMPACT,
+  JOB_CREATION,
+  LABOR,
+  COMPARISON_FACTORS
+} from '@/utils/constants';
+
+// Editable numeric copy of a constants group
+type Coefficients<T> = { -readonly [K in keyof T]: number };
+
+export interface ModelParameters {
+  growthCurve: Coefficients<typeof GROWTH_CURVE>;
+  ecosystemGrowth: Coefficients<typeof BIODIVERSITY_GROWTH_FACTORS>;
+  carbon: Coefficients<Omit<typeof CARBON_CONVERSION, 'KG_TO_METRIC_TONS'>>;
+  carbonPools: Coefficients<typeof CARBON_POOLS>;
+  allometry: Coefficients<typeof ALLOMETRY>;
+  trunkCarbon: Coefficients<typeof TRUNK_CARBON>;
+  harvestedWood: Coefficients<typeof HARVESTED_WOOD>;
+  selectiveHarvest: Coefficients<typeof SELECTIVE_HARVEST>;
+  naturalRegeneration: Coefficients<typeof NATURAL_REGENERATION>;
+  agroforestry: Coefficients<typeof AGROFORESTRY>;
+  disturbance: Coefficients<typeof DISTURBANCE>;
+  climateSuitability: Coefficients<typeof CLIMATE_SUITABILITY>;
+  cashFlow: Coefficients<typeof CASH_FLOW>;
+  crediting: Coefficients<typeof CREDITING>;
+  environment: Coefficients<typeof ENVIRONMENTAL_MODIFIERS>;
+  defaultClimate: Coefficients<typeof DEFAULT_CLIMATE>;
+  impact: Coefficients<typeof IMPACT_CAPS>;
+  waterRetention: Coefficients<typeof WATER_RETENTION>;
+  airQuality: Coefficients<typeof AIR_QUALITY>;
+  social: Coefficients<typeof SOCIAL_IMPACT>;
+  landUse: Coefficients<typeof LAND_USE_IMPACT>;
+  jobs: Coefficients<typeof JOB_CREATION>;
+  labor: Coefficients<typeof LABOR>;
+  comparisons: Coefficients<typeof COMPARISON_FACTORS>;
+}
+
+export type ModelParameterGroup = keyof ModelParameters;
+
+export type ModelParameterOverrides = {
+  [G in ModelParameterGroup]?: Partial<ModelParameters[G]>;
+};
+
+export const DEFAULT_MODEL_PARAMETERS: ModelParameters = {
+  growthCurve: { ...GROWTH_CURVE },
+  ecosystemGrowth: { ...BIODIVERSITY_GROWTH_FACTORS },
+  carbon: {
+    CARBON_TO_CO2: CARBON_CONVERSION.CARBON_TO_CO2
+  },
+  carbonPools: { ...CARBON_POOLS },
+  allometry: { ...ALLOMETRY },
+  trunkCarbon: { ...TRUNK_CARBON },
+  harvestedWood: { ...HARVESTED_WOOD },
+  selectiveHarvest: { ...SELECTIVE_HARVEST },
+  naturalRegeneration: { ...NATURAL_REGENERATION },
+  agroforestry: { ...AGROFORESTRY },
+  disturbance: { ...DISTURBANCE },
+  climateSuitability: { ...CLIMATE_SUITABILITY },
+  cashFlow: { ...CASH_FLOW },
+  crediting: { ...CREDITING },
+  environment: { ...ENVIRONMENTAL_MODIFIERS },
+  defaultClimate: { ...DEFAULT_CLIMATE },
+  impact: { ...IMPACT_CAPS },
+  waterRetention: { ...WATER_RETENTION },
+  airQuality: { ...AIR_QUALITY },
+  social: { ...SOCIAL_IMPACT },
+  landUse: { ...LAND_USE_IMPACT },
+  jobs: { ...JOB_CREATION },
+  labor: { ...LABOR },
+  comparisons: { ...COMPARISON_FACTORS }
+};
+
+// Display order and titles for the advanced assumptions panel
+export const MODEL_PARAMETER_GROUPS: Array<{ key: ModelParameterGroup; title: string }> = [
+  { key: 'growthCurve', title: 'Tree Growth Curves' },
+  { key: 'allometry', title: 'Tree Size & Biomass' },
+  { key: 'ecosystemGrowth', title: 'Ecosystem Development' },
+  { key: 'carbon', title: 'Carbon Conversion' },
+  { key: 'carbonPools', title: 'Carbon Pools' },
+  { key: 'trunkCarbon', title: 'Trunk Carbon (Clear-cutting)' },
+  { key: 'harvestedWood', title: 'Harvested Wood Products' },
+  { key: 'selectiveHarvest', title: 'Selective Harvest Recovery' },
+  { key: 'naturalRegeneration', title: 'Natural Regeneration' },
+  { key: 'agroforestry', title: 'Agroforestry' },
+  { key: 'disturbance', title: 'Disturbance Risk' },
+  { key: 'climateSuitability', title: 'Species Climate Envelopes' },
+  { key: 'cashFlow', title: 'Project Cash Flow' },
+  { key: 'crediting', title: 'Carbon Crediting Buffer' },
+  { key: 'environment', title: 'Climate Modifiers' },
+  { key: 'defaultClimate', title: 'Fallback Climate' },
+  { key: 'impact', title: 'Biodiversity & Resilience' },
+  { key: 'waterRetention', title: 'Water Retention' },
+  { key: 'airQuality', title: 'Air Quality' },
+  { key: 'social', title: 'Social Impact' },
+  { key: 'landUse', title: 'Land Use Impact' },
+  { key: 'jobs', title: 'Job Creation' },
+  { key: 'labor', title: 'Employment by Phase' },
+  { key: 'comparisons', title: 'Real-world Comparisons' }
+];
+
+// "MAX_SIZE_BONUS" -> "Max size bonus"
+export const formatParameterLabel = (key: string): string => {
+  const words = key.toLowerCase().split('_').join(' ');
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+const isKnownParameter = (group: string, key: string): group is ModelParameterGroup => {
+  return group in DEFAULT_MODEL_PARAMETERS &&
+    key in DEFAULT_MODEL_PARAMETERS[group as ModelParameterGroup];
+};
+
+/**
+ * Merge overrides onto the defaults
+ */
+export const resolveModelParameters = (overrides?: ModelParameterOverrides | null): ModelParameters => {
+  if (!overrides) return DEFAULT_MODEL_PARAMETERS;
+
+  const resolved = { ...DEFAULT_MODEL_PARAMETERS };
+  const mergeGroup = <G extends ModelParameterGroup>(group: G) => {
+    resolved[group] = { ...DEFAULT_MODEL_PARAMETERS[group], ...overrides[group] };
+  };
+  (Object.keys(overrides) as ModelParameterGroup[]).forEach(group => {
+    if (overrides[group] && group in DEFAULT_MODEL_PARAMETERS) mergeGroup(group);
+  });
+  return resolved;
+};
+
+/**
+ * Drop unknown keys, non-finite values and values equal to the default
+ */
+export const cleanOverrides = (overrides: ModelParameterOverrides): ModelParameterOverrides => {
+  const cleaned: ModelParameterOverrides = {};
+
+  Object.entries(overrides).forEach(([group, values]) => {
+    Object.entries(values || {}).forEach(([key, value]) => {
+      if (!isKnownParameter(group, key) || typeof value !== 'number' || !isFinite(value)) return;
+      const defaults = DEFAULT_MODEL_PARAMETERS[group] as Record<string, number>;
+      if (defaults[key] === value) return;
+      cleaned[group] = { ...cleaned[group], [key]: value };
+    });
+  });
+
+  return cleaned;
+};
+
+// Flat list of overridden coefficients for tables and exports
+export const listOverrides = (overrides?: ModelParameterOverrides | null): Array<{ group: ModelParameterGroup; key: string; value: number; defaultValue: number }> => {
+  if (!overrides) return [];
+
+  return MODEL_PARAMETER_GROUPS.flatMap(({ key: group }) =>
+    Object.entries(overrides[group] || {}).map(([key, value]) => ({
+      group,
+      key,
+      value: value as number,
+      defaultValue: (DEFAULT_MODEL_PARAMETERS[group] as Record<string, number>)[key]
+    }))
+  );
+};
+
+/**
+ * Compact text form: group.KEY=value;group.KEY=value
+ */
+export const serializeOverrides = (overrides?: ModelParameterOverrides | null): string => {
+  return listOverrides(overrides).map(({ group, key, value }) => `${group}.${key}=${value}`).join(';');
+};
+
+export const parseOverrides = (text: string): ModelParameterOverrides => {
+  const parsed: ModelParameterOverrides = {};
+
+  text.split(';').forEach(entry => {
+    const [path, rawValue] = entry.split('=');
+    const [group, key] = (path || '').split('.');
+    const value = parseFloat(rawValue);
+    if (group && key && isKnownParameter(group, key) && isFinite(value)) {
+      parsed[group] = { ...parsed[group], [key]: value };
+    }
+  });
+
+  return cleanOverrides(parsed);
+};
@@ -0,0 +1,284 @@
+/**
+ * Monte Carlo uncertainty analysis for the simulation engine
+ * Samples uncertain inputs, runs the engine N times and reports P10/P50/P90.
+ */
+
+import { TreeType } from '@/types/treeTypes';
+import { SimulationInput, SimulationResult, simulate } from '@/utils/simulationEngine';
+import { getGrowthCurve } from '@/utils/growthCurves';
+import { getWoodDensity } from '@/utils/allometry';
+import { sampleDisturbanceDraws } from '@/utils/disturbance';
+import { SensitivityResult } from '@/utils/sensitivity';
+
+export type DistributionType = 'normal' | 'uniform' | 'triangular';
+
+export interface UncertaintySettings {
+  enabled: boolean;
+  iterations: number;
+  distribution: DistributionType; // spreads are 1 standard deviation (normal) or half-ranges (uniform, triangular)
+  seed: number;
+  carbonRate: number; // % spread of species carbon sequestration rates
+  mortality: number; // % spread of mortality rates
+  growth: number; // % spread of species years to maturity
+  soilCarbon: number; // % spread of soil carbon content
+  temperature: number; // °C spread of current temperature
+  precipitation: number; // % spread of current precipitation
+  climateTrend: number; // % spread of the projected warming and precipitation change
+}
+
+export interface Percentiles {
+  p10: number;
+  p50: number;
+  p90: number;
+}
+
+export interface UncertaintyYear {
+  year: number;
+  annualCarbon: Percentiles;
+  cumulativeCarbon: Percentiles;
+  livingTrees: Percentiles;
+  biodiversity: Percentiles;
+  resilience: Percentiles;
+  waterRetention: Percentiles;
+  airQuality: Percentiles;
+}
+
+export interface UncertaintyResult {
+  iterations: number;
+  settings: UncertaintySettings;
+  totalCarbon: Percentiles;
+  annualCarbon: Percentiles;
+  averageBiodiversity: Percentiles;
+  averageResilience: Percentiles;
+  waterRetention: Percentiles;
+  airQuality: Percentiles;
+  survivingTrees: Percentiles | null;
+  disturbanceTreesLost: Percentiles | null; // trees killed by sampled fire, drought, windthrow and pest events
+  disturbanceCarbonLoss: Percentiles | null; // kg CO2 less stored than without disturbance
+  timeSeries: UncertaintyYear[];
+}
+
+// Messages exchanged with monteCarlo.worker.ts, which also runs the sensitivity analysis
+export type MonteCarloRequest =
+  | { type: 'uncertainty'; input: SimulationInput; settings: UncertaintySettings }
+  | { type: 'sensitivity'; input: SimulationInput; variation: number };
+
+export type MonteCarloMessage =
+  | { type: 'progress'; completed: number; total: number }
+  | { type: 'result'; result: UncertaintyResult }
+  | { type: 'sensitivity'; result: SensitivityResult }
+  | { type: 'error'; message: string };
+
+export const DEFAULT_UNCERTAINTY_SETTINGS: UncertaintySettings = {
+  enabled: false,
+  iterations: 500,
+  distribution: 'normal',
+  seed: 42,
+  carbonRate: 20,
+  mortality: 30,
+  growth: 20,
+  soilCarbon: 25,
+  temperature: 1,
+  precipitation: 15,
+  climateTrend: 50
+};
+
+export const MAX_ITERATIONS = 2000;
+
+// Run counts offered in the settings panel
+export const ITERATION_OPTIONS = [100, 250, 500, 1000, MAX_ITERATIONS];
+
+// Seeded PRNG (mulberry32) so repeated runs give identical bands
+export const createRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Draw a standardised deviation: N(0, 1) or a symmetric distribution on [-1, 1]
+export const sampleDeviation = (random: () => number, distribution: DistributionType): number => {
+  switch (distribution) {
+    case 'uniform':
+      return random() * 2 - 1;
+    case 'triangular':
+      return random() + random() - 1;
+    case 'normal': {
+      const u1 = Math.max(random(), Number.EPSILON);
+      const u2 = random();
+      return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+    }
+  }
+};
+
+// Multiplier around 1 for a relative spread in percent, never negative
+const sampleScale = (random: () => number, distribution: DistributionType, spreadPercent: number): number => {
+  return Math.max(0, 1 + (spreadPercent / 100) * sampleDeviation(random, distribution));
+};
+
+// Linear-interpolated percentile of an ascending-sorted array
+export const percentile = (sorted: number[], p: number): number => {
+  if (sorted.length === 0) return 0;
+  const index = (sorted.length - 1) * p;
+  const lower = Math.floor(index);
+  const upper = Math.ceil(index);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower);
+};
+
+export const summarizePercentiles = (values: number[]): Percentiles => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    p10: percentile(sorted, 0.1),
+    p50: percentile(sorted, 0.5),
+    p90: percentile(sorted, 0.9)
+  };
+};
+
+// Perturb one species' carbon rate and growth speed
+const sampleTree = (tree: TreeType, random: () => number, settings: UncertaintySettings, input: SimulationInput): TreeType => {
+  const growthScale = Math.max(0.1, sampleScale(random, settings.distribution, settings.growth));
+  // One draw covers the species rate and, for the allometric model, the biomass per unit of size
+  const carbonScale = sampleScale(random, settings.distribution, settings.carbonRate);
+  return {
+    ...tree,
+    carbonSequestration: tree.carbonSequestration * carbonScale,
+    woodDensity: getWoodDensity(tree, input.parameters) * carbonScale,
+    growthCurve: {
+      ...tree.growthCurve,
+      yearsToMaturity: getGrowthCurve(tree, input.parameters?.growthCurve).yearsToMaturity * growthScale
+    }
+  };
+};
+
+/**
+ * Draw one set of uncertain inputs around the deterministic input
+ */
+export const sampleInput = (input: SimulationInput, random: () => number, settings: UncertaintySettings): SimulationInput => {
+  const { distribution } = settings;
+  const { soil, climate } = input;
+
+  return {
+    ...input,
+    selectedTreeType: input.selectedTreeType ? sampleTree(input.selectedTreeType, random, settings, input) : input.selectedTreeType,
+    selectedTrees: input.selectedTrees?.map(tree => sampleTree(tree, random, settings, input)),
+    soil: soil && soil.carbon !== null
+      ? { ...soil, carbon: soil.carbon * sampleScale(random, distribution, settings.soilCarbon) }
+      : soil,
+    climate: climate && climate.temperature !== null && climate.precipitation !== null
+      ? {
+          ...climate,
+          temperature: climate.temperature + settings.temperature * sampleDeviation(random, distribution),
+          precipitation: climate.precipitation * sampleScale(random, distribution, settings.precipitation)
+        }
+      : climate,
+    scales: {
+      ...input.scales,
+      mortality: (input.scales?.mortality ?? 1) * sampleScale(random, distribution, settings.mortality),
+      climateTrend: (input.scales?.climateTrend ?? 1) * (1 + (settings.climateTrend / 100) * sampleDeviation(random, distribution))
+    },
+    // Each run draws its own fire, drought, windthrow and pest events
+    disturbanceDraws: input.disturbance?.enabled ? sampleDisturbanceDraws(input.years, random) : input.disturbanceDraws
+  };
+};
+
+// Yearly fields that get P10/P50/P90 bands
+type BandField = 'annualCarbon' | 'cumulativeCarbon' | 'livingTrees' | 'biodiversity' | 'resilience' | 'waterRetention' | 'airQuality';
+
+// What the percentiles need from one run; the rest of the result is dropped as soon as the run finishes
+interface RunSample {
+  totalCarbon: number;
+  annualCarbon: number;
+  averageBiodiversity: number;
+  averageResilience: number;
+  waterRetention: number;
+  airQuality: number;
+  survivingTrees: number | null;
+  disturbanceTreesLost: number | null;
+  disturbanceCarbonLoss: number | null;
+  years: Record<BandField, number>[];
+}
+
+const sampleRun = (run: SimulationResult): RunSample => ({
+  totalCarbon: run.totalCarbon,
+  annualCarbon: run.annualCarbon,
+  averageBiodiversity: run.averageBiodiversity,
+  averageResilience: run.averageResilience,
+  waterRetention: run.impact.waterRetention,
+  airQuality: run.impact.airQualityImprovement,
+  survivingTrees: run.survival ? run.survival.survivingTrees : null,
+  disturbanceTreesLost: run.disturbance ? run.disturbance.totalTreesLost : null,
+  disturbanceCarbonLoss: run.disturbance ? run.disturbance.carbonLoss : null,
+  years: run.timeSeries.map(point => ({
+    annualCarbon: point.annualCarbon,
+    cumulativeCarbon: point.cumulativeCarbon,
+    livingTrees: point.livingTrees,
+    biodiversity: point.biodiversity,
+    resilience: point.resilience,
+    waterRetention: point.waterRetention,
+    airQuality: point.airQuality
+  }))
+});
+
+/**
+ * Run the Monte Carlo analysis
+ * onProgress is called periodically so a worker can report back to the UI.
+ * Only the aggregated percentiles are returned.
+ */
+export const runMonteCarlo = (
+  input: SimulationInput,
+  settings: UncertaintySettings,
+  onProgress?: (completed: number, total: number) => void
+): UncertaintyResult => {
+  const iterations = Math.max(1, Math.min(MAX_ITERATIONS, Math.round(settings.iterations)));
+  const random = createRandom(settings.seed);
+  const runs: RunSample[] = [];
+  let years: number[] = [];
+  const progressStep = Math.max(1, Math.floor(iterations / 20));
+
+  for (let i = 0; i < iterations; i++) {
+    const run = simulate(sampleInput(input, random, settings));
+    if (i === 0) years = run.timeSeries.map(point => point.year);
+    runs.push(sampleRun(run));
+    if (onProgress && ((i + 1) % progressStep === 0 || i + 1 === iterations)) {
+      onProgress(i + 1, iterations);
+    }
+  }
+
+  const timeSeries = years.map((year, index) => {
+    const at = (field: BandField) => summarizePercentiles(runs.map(run => run.years[index]?.[field] ?? 0));
+
+    return {
+      year,
+      annualCarbon: at('annualCarbon'),
+      cumulativeCarbon: at('cumulativeCarbon'),
+      livingTrees: at('livingTrees'),
+      biodiversity: at('biodiversity'),
+      resilience: at('resilience'),
+      waterRetention: at('waterRetention'),
+      airQuality: at('airQuality')
+    };
+  });
+
+  // Percentiles of an optional metric, null when the first run did not produce it
+  const optional = (field: 'survivingTrees' | 'disturbanceTreesLost' | 'disturbanceCarbonLoss') =>
+    runs[0][field] !== null ? summarizePercentiles(runs.map(run => run[field] ?? 0)) : null;
+
+  return {
+    iterations,
+    settings,
+    totalCarbon: summarizePercentiles(runs.map(run => run.totalCarbon)),
+    annualCarbon: summarizePercentiles(runs.map(run => run.annualCarbon)),
+    averageBiodiversity: summarizePercentiles(runs.map(run => run.averageBiodiversity)),
+    averageResilience: summarizePercentiles(runs.map(run => run.averageResilience)),
+    waterRetention: summarizePercentiles(runs.map(run => run.waterRetention)),
+    airQuality: summarizePercentiles(runs.map(run => run.airQuality)),
+    survivingTrees: optional('survivingTrees'),
+    disturbanceTreesLost: optional('disturbanceTreesLost'),
+    disturbanceCarbonLoss: optional('disturbanceCarbonLoss'),
+    timeSeries
+  };
+};
@@ -0,0 +1,25 @@
+/**
+ * Web Worker running Monte Carlo and sensitivity simulations off the main thread
+ */
+
+import { MonteCarloMessage, MonteCarloRequest, runMonteCarlo } from '@/utils/monteCarlo';
+import { runSensitivity } from '@/utils/sensitivity';
+
+const ctx = self as unknown as Worker;
+
+const post = (message: MonteCarloMessage) => ctx.postMessage(message);
+
+ctx.onmessage = (event: MessageEvent<MonteCarloRequest>) => {
+  const request = event.data;
+  try {
+    if (request.type === 'sensitivity') {
+      post({ type: 'sensitivity', result: runSensitivity(request.input, request.variation) });
+      return;
+    }
+    const result = runMonteCarlo(request.input, request.settings, (completed, total) => post({ type: 'progress', completed, total }));
+    post({ type: 'result', result });
+  } catch (error) {
+    const fallback = request.type === 'sensitivity' ? 'Sensitivity analysis failed' : 'Monte Carlo simulation failed';
+    post({ type: 'error', message: error instanceof Error ? error.message : fallback });
+  }
+};
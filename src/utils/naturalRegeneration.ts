@@ -0,0 +1,67 @@
+/**
+ * Natural regeneration settings and recruitment
+ * Instead of planting, the site is left to seed in from nearby forest. Seed
+ * rain falls off with distance from the seed source, the first seedlings take
+ * a few years to establish, and assisted natural regeneration (ANR) protects
+ * and weeds them to speed things up.
+ */
+
+import { ModelParameters, DEFAULT_MODEL_PARAMETERS } from '@/utils/modelParameters';
+
+export interface NaturalRegenerationSettings {
+  seedSourceDistance: number; // metres to the nearest seed-bearing forest
+  assisted: boolean; // ANR: fencing, fire breaks and weeding around natural seedlings
+}
+
+export const DEFAULT_NATURAL_REGENERATION_SETTINGS: NaturalRegenerationSettings = {
+  seedSourceDistance: 100,
+  assisted: false
+};
+
+export const MAX_SEED_SOURCE_DISTANCE = 2000;
+
+// Clamp settings to usable values
+export const normalizeNaturalRegenerationSettings = (settings: NaturalRegenerationSettings): NaturalRegenerationSettings => ({
+  seedSourceDistance: Math.max(0, Math.min(MAX_SEED_SOURCE_DISTANCE, settings.seedSourceDistance || 0)),
+  assisted: !!settings.assisted
+});
+
+// Regional recruitment and growth multiplier: secondary forest regrows fastest in the tropics
+export const getRegrowthFactor = (latitude: number, parameters: ModelParameters = DEFAULT_MODEL_PARAMETERS): number => {
+  const { naturalRegeneration: regeneration, defaultClimate } = parameters;
+  const absLat = Math.abs(latitude);
+
+  if (absLat < defaultClimate.TROPICAL_MAX_LATITUDE) return regeneration.REGROWTH_TROPICAL;
+  if (absLat < defaultClimate.TEMPERATE_MAX_LATITUDE) return regeneration.REGROWTH_TEMPERATE;
+  return regeneration.REGROWTH_BOREAL;
+};
+
+/**
+ * Seedlings established per hectare per year
+ * Seed rain falls off exponentially with distance from the seed source.
+ */
+export const getRecruitmentRate = (
+  settings: NaturalRegenerationSettings,
+  latitude: number,
+  parameters: ModelParameters = DEFAULT_MODEL_PARAMETERS
+): number => {
+  const regeneration = parameters.naturalRegeneration;
+  const seedRain = Math.exp(-settings.seedSourceDistance / Math.max(1, regeneration.SEED_DISPERSAL_DISTANCE));
+  const assistance = settings.assisted ? regeneration.ASSISTED_RECRUITMENT : 1;
+  return Math.max(0, regeneration.MAX_RECRUITMENT * seedRain * assistance * getRegrowthFactor(latitude, parameters));
+};
+
+// Years before the first seedlings establish
+export const getEstablishmentDelay = (settings: NaturalRegenerationSettings, parameters: ModelParameters = DEFAULT_MODEL_PARAMETERS): number => {
+  const regeneration = parameters.naturalRegeneration;
+  return Math.max(0, Math.round(settings.assisted ? regeneration.ASSISTED_ESTABLISHMENT_DELAY : regeneration.ESTABLISHMENT_DELAY));
+};
+
+// USD to establish the stand: nothing is planted, so only ANR measures cost anything
+export const getRegenerationCost = (
+  settings: NaturalRegenerationSettings,
+  hectares: number,
+  parameters: ModelParameters = DEFAULT_MODEL_PARAMETERS
+): number => {
+  return settings.assisted ? Math.max(0, hectares) * parameters.naturalRegeneration.ASSISTED_COST_PER_HECTARE : 0;
+};
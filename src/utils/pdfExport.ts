@@ -4,10 +4,115 @@
 
 import { jsPDF } from 'jspdf';
 import autoTable from 'jspdf-autotable';
-import { ExportData } from './exportUtils';
+import { ExportData, convertExportCurrency } from './exportUtils';
+import { ChartLayout, ChartSeries, buildLineChart } from './chartUtils';
+import { MODEL_PARAMETER_GROUPS, formatParameterLabel, listOverrides } from './modelParameters';
+import { CARBON_POOL_KEYS, getTotalPoolCarbon } from './carbonPools';
+import { DEFAULT_GROWTH_MODEL, GROWTH_MODEL_OPTIONS } from './allometry';
+import { WOOD_PRODUCT_KEYS } from './harvestedWood';
+import { USD, formatMoney } from './currency';
+import { getAgroforestryCrop } from './agroforestry';
+import { DISTURBANCE_TYPES } from './disturbance';
+import { CREDITING_DEDUCTIONS } from './carbonCrediting';
+import { LABOR_PHASES } from './employment';
+import { getClimateScenarioOption } from './climateScenarios';
 
-export async function generatePDFReport(data: ExportData): Promise<void> {
+// Draw a line chart at (x, y) using the shared chart geometry (units in mm)
+function drawLineChart(
+  doc: jsPDF,
+  x: number,
+  y: number,
+  title: string,
+  years: number[],
+  series: ChartSeries[],
+  markerYear?: number | null
+): void {
+  const layout: ChartLayout = {
+    width: 182,
+    height: 60,
+    padding: { top: 8, right: 4, bottom: 8, left: 16 }
+  };
+  const geometry = buildLineChart(years, series, layout);
+  const { plot } = geometry;
+  
+  doc.setFontSize(10);
+  doc.setFont('helvetica', 'bold');
+  doc.setTextColor(0, 0, 0);
+  doc.text(title, x, y + 4);
+  
+  // Grid lines and axis labels
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(7);
+  doc.setTextColor(107, 114, 128);
+  doc.setLineWidth(0.1);
+  doc.setDrawColor(229, 231, 235);
+  geometry.yTicks.forEach(tick => {
+    doc.line(x + plot.left, y + tick.position, x + plot.right, y + tick.position);
+    doc.text(tick.label, x + plot.left - 2, y + tick.position + 1, { align: 'right' });
+  });
+  geometry.xTicks.forEach(tick => {
+    doc.text(tick.label, x + tick.position, y + plot.bottom + 4, { align: 'center' });
+  });
+  
+  if (markerYear !== undefined && markerYear !== null) {
+    const markerX = x + geometry.xScale(markerYear);
+    doc.setDrawColor(180, 83, 9);
+    doc.setLineDashPattern([1, 1], 0);
+    doc.line(markerX, y + plot.top, markerX, y + plot.bottom);
+    doc.setLineDashPattern([], 0);
+  }
+  
+  // Draw a polyline in chart coordinates, optionally dashed
+  const drawPolyline = (points: Array<[number, number]>, dashed: boolean) => {
+    if (dashed) doc.setLineDashPattern([1.5, 1], 0);
+    for (let i = 1; i < points.length; i++) {
+      const [x1, y1] = points[i - 1];
+      const [x2, y2] = points[i];
+      doc.line(x + x1, y + y1, x + x2, y + y2);
+    }
+    if (dashed) doc.setLineDashPattern([], 0);
+  };
+  
+  // Series lines, with P10/P90 uncertainty bounds as thin dashed lines
+  geometry.lines.forEach((line, index) => {
+    const [r, g, b] = [1, 3, 5].map(i => parseInt(line.color.slice(i, i + 2), 16));
+    doc.setDrawColor(r, g, b);
+    
+    const band = series[index].band;
+    if (band) {
+      doc.setLineWidth(0.2);
+      [band.lower, band.upper].forEach(values => {
+        drawPolyline(years.map((year, i) => [geometry.xScale(year), geometry.yScale(values[i] ?? 0)]), true);
+      });
+    }
+    
+    doc.setLineWidth(0.5);
+    drawPolyline(line.points, line.dashed);
+  });
+  
+  // Legend
+  let legendX = x + plot.left;
+  geometry.lines.forEach(line => {
+    const [r, g, b] = [1, 3, 5].map(i => parseInt(line.color.slice(i, i + 2), 16));
+    doc.setFillColor(r, g, b);
+    doc.rect(legendX, y + layout.height - 1.5, 2, 2, 'F');
+    doc.setTextColor(55, 65, 81);
+    doc.text(line.label, legendX + 3, y + layout.height + 0.3);
+    legendX += doc.getTextWidth(line.label) + 8;
+  });
+  if (series.some(s => s.band)) {
+    doc.text('Dashed: P10 / P90', legendX, y + layout.height + 0.3);
+  }
+  doc.setLineWidth(0.2);
+  doc.setDrawColor(0, 0, 0);
+}
+
+export async function generatePDFReport(exportData: ExportData): Promise<void> {
   const doc = new jsPDF();
+  // Money values in the report currency
+  const data = convertExportCurrency(exportData);
+  const currency = data.metadata.currency ?? USD;
+  const formatCost = (value: number, fractionDigits = 0) => formatMoney(value, currency.code, fractionDigits);
   
   // Colors
   const primaryColor: [number, number, number] = [27, 77, 62]; // #1B4D3E
@@ -54,6 +159,7 @@ export async function generatePDFReport(data: ExportData): Promise<void> {
   const metadataInfo = [
     ['Generated', new Date(data.metadata.timestamp).toLocaleString()],
     ['Simulation Years', data.metadata.simulation?.years?.toString() || 'N/A'],
+    ['Currency', currency.code === 'USD' ? 'USD' : `${currency.code} at ${currency.rate} per USD (${currency.date})`],
   ];
   
   // Add location information
@@ -145,18 +251,41 @@ export async function generatePDFReport(data: ExportData): Promise<void> {
     doc.text('Selected Tree Species', 14, yPos);
     yPos += 8;
     
-    const treeData = data.metadata.simulation.selectedTrees.map((tree: { name: string; scientificName: string }) => {
-      const percentage = data.metadata.simulation?.treePercentages?.[tree.name.toLowerCase().replace(/\s+/g, '-')] || 0;
-      return [
+    // Per-species cohort results for mixed plantings
+    const cohorts = data.species && data.species.length > 1 ? data.species : null;
+    // Final tree size for planted stands
+    const sizes = data.species?.some(entry => entry.height > 0) ? data.species : null;
+    
+    const treeData = data.metadata.simulation.selectedTrees.map((tree: { id: string; name: string; scientificName: string }) => {
+      const percentage = data.metadata.simulation?.treePercentages?.[tree.id] || 0;
+      const row = [
         tree.name,
         tree.scientificName,
         `${percentage.toFixed(1)}%`
       ];
+      const cohort = cohorts?.find(entry => entry.speciesId === tree.id);
+      if (cohorts) {
+        row.push(
+          cohort ? Math.round(cohort.plantedTrees).toLocaleString() : '-',
+          cohort ? cohort.survivingTrees.toLocaleString() : '-',
+          cohort ? `${cohort.totalCarbon.toFixed(0)} kg (${cohort.carbonShare.toFixed(0)}%)` : '-'
+        );
+      }
+      const size = sizes?.find(entry => entry.speciesId === tree.id);
+      if (sizes) {
+        row.push(size ? `${size.dbh.toFixed(0)} cm / ${size.height.toFixed(0)} m` : '-');
+      }
+      return row;
     });
     
     autoTable(doc, {
       startY: yPos,
-      head: [['Common Name', 'Scientific Name', 'Percentage']],
+      head: [[
+        ...(cohorts
+          ? ['Common Name', 'Scientific Name', 'Percentage', 'Planted', 'Surviving', 'Carbon CO2 (share)']
+          : ['Common Name', 'Scientific Name', 'Percentage']),
+        ...(sizes ? ['DBH / Height'] : [])
+      ]],
       body: treeData,
       theme: 'striped',
       headStyles: { fillColor: primaryColor, textColor: 255 },
@@ -190,9 +319,30 @@ export async function generatePDFReport(data: ExportData): Promise<void> {
     ['Air Quality Improvement', `${data.impactResults.airQualityImprovement?.toFixed(0) || 'N/A'}%`],
   ];
   
+  // Monte Carlo P10-P90 ranges alongside the central values
+  const uncertainty = data.uncertainty;
+  if (uncertainty) {
+    const range = (p: { p10: number; p90: number } | null, digits: number, unit: string = '') =>
+      p ? `${p.p10.toFixed(digits)} – ${p.p90.toFixed(digits)}${unit}` : '';
+    const ranges = [
+      range(uncertainty.annualCarbon, 2, ' kg CO₂/year'),
+      range(uncertainty.totalCarbon, 2, ' kg CO₂'),
+      '',
+      range(uncertainty.averageBiodiversity, 1, '/5'),
+      '',
+      range(uncertainty.averageResilience, 1, '/5'),
+      range(uncertainty.waterRetention, 0, '%'),
+      range(uncertainty.airQuality, 0, '%')
+    ];
+    impactData.forEach((entry, i) => entry.push(ranges[i]));
+    if (uncertainty.survivingTrees) {
+      impactData.push(['Surviving Trees', data.mortality?.survivingTrees.toLocaleString() ?? 'N/A', range(uncertainty.survivingTrees, 0)]);
+    }
+  }
+  
   autoTable(doc, {
     startY: yPos,
-    head: [['Metric', 'Value']],
+    head: [uncertainty ? ['Metric', 'Value', `P10 – P90 (${uncertainty.iterations} runs)`] : ['Metric', 'Value']],
     body: impactData,
     theme: 'striped',
     headStyles: { fillColor: primaryColor, textColor: 255 },
@@ -205,6 +355,590 @@ export async function generatePDFReport(data: ExportData): Promise<void> {
   
   yPos = (doc as jsPDF & { lastAutoTable: { finalY: number } }).lastAutoTable.finalY + 10;
   
+  // Where the stored carbon sits at the end of the simulation
+  if (data.carbonPools) {
+    const pools = data.carbonPools;
+    const total = getTotalPoolCarbon(pools);
+    if (yPos > 230) {
+      doc.addPage();
+      yPos = 20;
+    }
+    
+    doc.setFontSize(16);
+    doc.setFont('helvetica', 'bold');
+    doc.setTextColor(...primaryColor);
+    doc.text('Carbon Pools', 14, yPos);
+    yPos += 8;
+    
+    autoTable(doc, {
+      startY: yPos,
+      head: [['Pool', 'Carbon Stored', 'Share']],
+      body: CARBON_POOL_KEYS.map(pool => [
+        pool.label,
+        `${pools[pool.key].toFixed(2)} kg CO₂`,
+        total > 0 ? `${((pools[pool.key] / total) * 100).toFixed(0)}%` : '0%'
+      ]),
+      theme: 'striped',
+      headStyles: { fillColor: primaryColor, textColor: 255 },
+      styles: { fontSize: 10, cellPadding: 3 },
+      columnStyles: {
+        0: { fontStyle: 'bold', cellWidth: 80 }
+      }
+    });
+    
+    yPos = (doc as jsPDF & { lastAutoTable: { finalY: number } }).lastAutoTable.finalY + 10;
+  }
+  
+  // Where the carbon of a felled tree goes (clear-cutting mode)
+  if (data.clearCutting && data.clearCutting.harvested > 0) {
+    const harvest = data.clearCutting;
+    const years = data.metadata.simulation.years;
+    if (yPos > 200) {
+      doc.addPage();
+      yPos = 20;
+    }
+    
+    doc.setFontSize(16);
+    doc.setFont('helvetica', 'bold');
+    doc.setTextColor(...primaryColor);
+    doc.text('Harvested Wood Products', 14, yPos);
+    yPos += 8;
+    
+    const share = (value: number) => `${((value / harvest.harvested) * 100).toFixed(0)}%`;
+    autoTable(doc, {
+      startY: yPos,
+      head: [['Per Felled Tree', 'Carbon', 'Share']],
+      body: [
+        ['Harvested carbon', `${harvest.harvested.toFixed(1)} kg CO₂`, '100%'],
+        ['Residue released at harvest', `${harvest.immediate.toFixed(1)} kg CO₂`, share(harvest.immediate)],
+        [`Released by products over ${years} years`, `${harvest.productEmissions.toFixed(1)} kg CO₂`, share(harvest.productEmissions)],
+        ...WOOD_PRODUCT_KEYS.map(product => [
+          `Still in ${product.label.toLowerCase()} (${harvest.productShares[product.key].toFixed(0)}% at harvest)`,
+          `${harvest.woodProducts[product.key].toFixed(1)} kg CO₂`,
+          share(harvest.woodProducts[product.key])
+        ])
+      ],
+      theme: 'striped',
+      headStyles: { fillColor: primaryColor, textColor: 255 },
+      styles: { fontSize: 10, cellPadding: 3 },
+      columnStyles: {
+        0: { fontStyle: 'bold', cellWidth: 100 }
+      }
+    });
+    
+    yPos = (doc as jsPDF & { lastAutoTable: { finalY: number } }).lastAutoTable.finalY + 10;
+    
+    // Annual emissions curve of the harvest
+    if (data.timeSeries && data.timeSeries.length > 1 && data.timeSeries[0].woodProducts) {
+      if (yPos > 200) {
+        doc.addPage();
+        yPos = 20;
+      }
+      drawLineChart(doc, 14, yPos, 'Harvest & Product Emissions (kg CO₂/yr)', data.timeSeries.map(point => point.year), [
+        { key: 'harvestEmissions', label: 'Harvest & product emissions', color: '#b45309', values: data.timeSeries.map(point => point.harvestEmissions) }
+      ]);
+      yPos += 70;
+    }
+  }
+  
+  // Rotation settings, harvest totals and every thinning and final harvest (rotation mode)
+  if (data.rotation) {
+    const rotation = data.rotation;
+    if (yPos > 200) {
+      doc.addPage();
+      yPos = 20;
+    }
+    
+    doc.setFontSize(16);
+    doc.setFont('helvetica', 'bold');
+    doc.setTextColor(...primaryColor);
+    doc.text('Rotation Forestry', 14, yPos);
+    yPos += 8;
+    
+    autoTable(doc, {
+      startY: yPos,
+      head: [['Rotation', 'Value']],
+      body: [
+        ['Rotation length', `${rotation.settings.rotationLength} years`],
+        ['Thinnings', rotation.settings.thinnings.length > 0
+          ? rotation.settings.thinnings.map(thinning => `${thinning.percentRemoved}% at age ${thinning.year}`).join(', ')
+          : 'None'],
+        ['Replanting', rotation.settings.replant ? `${rotation.settings.replantDelay} year(s) after each final harvest` : 'None'],
+        ['Rotations started / completed', `${rotation.cycles} / ${rotation.completedRotations}`],
+        ['Total removals', `${rotation.totalRemovals.toFixed(1)} kg CO₂`],
+        ['Timber revenue', formatCost(rotation.totalRevenue)],
+        ['Long-term average carbon stock', `${rotation.averageCarbonStock.toFixed(1)} kg CO₂`],
+        ['Average standing stock', `${rotation.averageStandingStock.toFixed(1)} kg CO₂`]
+      ],
+      theme: 'striped',
+      headStyles: { fillColor: primaryColor, textColor: 255 },
+      styles: { fontSize: 10, cellPadding: 3 },
+      columnStyles: {
+        0: { fontStyle: 'bold', cellWidth: 80 }
+      }
+    });
+    
+    yPos = (doc as jsPDF & { lastAutoTable: { finalY: number } }).lastAutoTable.finalY + 10;
+    
+    if (rotation.harvests.length > 0) {
+      autoTable(doc, {
+        startY: yPos,
+        head: [['Year', 'Rotation', 'Harvest', 'Stand Age', 'Trees Removed', 'Removals', 'Revenue']],
+        body: rotation.harvests.map(harvest => [
+          harvest.year.toString(),
+          harvest.cycle.toString(),
+          harvest.type === 'final' ? 'Final' : 'Thinning',
+          harvest.standAge.toString(),
+          Math.round(harvest.removedTrees).toLocaleString(),
+          `${harvest.removals.toFixed(1)} kg CO₂`,
+          formatCost(harvest.revenue)
+        ]),
+        theme: 'striped',
+        headStyles: { fillColor: primaryColor, textColor: 255 },
+        styles: { fontSize: 9, cellPadding: 2 },
+      });
+      
+      yPos = (doc as jsPDF & { lastAutoTable: { finalY: number } }).lastAutoTable.finalY + 10;
+    }
+    
+    // Standing stock through the rotations
+    if (data.timeSeries && data.timeSeries.length > 1) {
+      if (yPos > 200) {
+        doc.addPage();
+        yPos = 20;
+      }
+      drawLineChart(doc, 14, yPos, 'Standing Stock & Removals (kg CO₂)', data.timeSeries.map(point => point.year), [
+        { key: 'standingStock', label: 'Standing stock', color: '#1B4D3E', values: data.timeSeries.map(point => point.standingStock) },
+        { key: 'removals', label: 'Removals', color: '#b45309', values: data.timeSeries.map(point => point.removals) }
+      ]);
+      yPos += 70;
+    }
+  }
+
+  // Harvest settings and where the released carbon comes from (selective harvest mode)
+  if (data.selectiveHarvest) {
+    const selective = data.selectiveHarvest;
+    if (yPos > 200) {
+      doc.addPage();
+      yPos = 20;
+    }
+
+    doc.setFontSize(16);
+    doc.setFont('helvetica', 'bold');
+    doc.setTextColor(...primaryColor);
+    doc.text('Selective Harvest', 14, yPos);
+    yPos += 8;
+
+    autoTable(doc, {
+      startY: yPos,
+      head: [['Selective Harvest', 'Value']],
+      body: [
+        ['Intensity', `${selective.settings.intensity}% of ${selective.settings.basis === 'basalArea' ? 'basal area' : 'stems'}`],
+        ['Minimum harvest age', `${selective.settings.minimumAge} years`],
+        ['Residual damage', `${selective.settings.damageRate}% of remaining trees`],
+        ['Harvest year', selective.harvestYear !== null ? `Year ${selective.harvestYear} (stand age ${selective.standAge})` : 'Not reached'],
+        ['Trees felled / killed by damage', `${Math.round(selective.felledTrees).toLocaleString()} / ${Math.round(selective.damagedTrees).toLocaleString()}`],
+        ['Stems / basal area felled', `${selective.stemsRemoved.toFixed(0)}% / ${selective.basalAreaRemoved.toFixed(0)}%`],
+        ['Stand disturbed', `${selective.disturbance.toFixed(0)}%`],
+        ['Residue released at harvest', `${selective.immediate.toFixed(1)} kg CO₂`],
+        ['Wood product emissions', `${selective.productEmissions.toFixed(1)} kg CO₂`],
+        ['Deadwood emissions', `${selective.deadwoodEmissions.toFixed(1)} kg CO₂`],
+        ['Lost sequestration', `${selective.lostSequestration.toFixed(1)} kg CO₂`],
+        ['Uptake regained by recovery', `${selective.recoveryUptake.toFixed(1)} kg CO₂`],
+        ['Total emissions', `${selective.total.toFixed(1)} kg CO₂`]
+      ],
+      theme: 'striped',
+      headStyles: { fillColor: primaryColor, textColor: 255 },
+      styles: { fontSize: 10, cellPadding: 3 },
+      columnStyles: {
+        0: { fontStyle: 'bold', cellWidth: 80 }
+      }
+    });
+
+    yPos = (doc as jsPDF & { lastAutoTable: { finalY: number } }).lastAutoTable.finalY + 10;
+  }
+
+  // Recruitment from seed sources and the comparison with planting (natural regeneration mode)
+  if (data.naturalRegeneration) {
+    const regeneration = data.naturalRegeneration;
+    const formatYear = (year: number | null) => year !== null ? `Year ${year}` : `Beyond year ${data.metadata.simulation.years}`;
+    if (yPos > 200) {
+      doc.addPage();
+      yPos = 20;
+    }
+
+    doc.setFontSize(16);
+    doc.setFont('helvetica', 'bold');
+    doc.setTextColor(...primaryColor);
+    doc.text('Natural Regeneration', 14, yPos);
+    yPos += 8;
+
+    autoTable(doc, {
+      startY: yPos,
+      head: [['Natural Regeneration', 'Value']],
+      body: [
+        ['Distance to seed source', `${regeneration.settings.seedSourceDistance} m`],
+        ['Assisted natural regeneration', regeneration.settings.assisted ? 'Yes' : 'No'],
+        ['Recruitment', `${Math.round(regeneration.recruitmentRate).toLocaleString()} seedlings/ha/year`],
+        ['Regional regrowth factor', `×${regeneration.regrowthFactor.toFixed(1)}`],
+        ['First seedlings', formatYear(regeneration.firstRecruitmentYear)],
+        ['Fully stocked', formatYear(regeneration.stockedYear)],
+        ['Trees established / planting target', `${Math.round(regeneration.establishedTrees).toLocaleString()} / ${Math.round(regeneration.targetTrees).toLocaleString()}`],
+        ['Total carbon / with planting', `${data.impactResults.totalCarbon.toFixed(1)} / ${regeneration.plantingCarbon.toFixed(1)} kg CO₂`],
+        ['Establishment cost / planting cost', `${formatCost(regeneration.establishmentCost)} / ${formatCost(regeneration.plantingCost)}`]
+      ],
+      theme: 'striped',
+      headStyles: { fillColor: primaryColor, textColor: 255 },
+      styles: { fontSize: 10, cellPadding: 3 },
+      columnStyles: {
+        0: { fontStyle: 'bold', cellWidth: 80 }
+      }
+    });
+
+    yPos = (doc as jsPDF & { lastAutoTable: { finalY: number } }).lastAutoTable.finalY + 10;
+  }
+
+  // Row layout and what the alley crop yields (agroforestry mode)
+  if (data.agroforestry) {
+    const agroforestry = data.agroforestry;
+    const crop = getAgroforestryCrop(agroforestry.settings.crop);
+    if (yPos > 200) {
+      doc.addPage();
+      yPos = 20;
+    }
+
+    doc.setFontSize(16);
+    doc.setFont('helvetica', 'bold');
+    doc.setTextColor(...primaryColor);
+    doc.text('Agroforestry', 14, yPos);
+    yPos += 8;
+
+    autoTable(doc, {
+      startY: yPos,
+      head: [['Agroforestry', 'Value']],
+      body: [
+        ['Row layout', `${agroforestry.settings.alleyWidth} m alleys × ${agroforestry.settings.inRowSpacing} m along rows`],
+        ['Rows / trees per hectare', `${agroforestry.layout.rowsPerHectare.toFixed(1)} / ${Math.round(agroforestry.layout.treesPerHectare).toLocaleString()}`],
+        ['Cropped area', `${agroforestry.cropArea.toFixed(2)} ha (${(agroforestry.layout.cropShare * 100).toFixed(0)}%)`],
+        ['Alley crop', agroforestry.settings.crop !== 'none' ? `${crop.label}, ${agroforestry.cropYield} t/ha/year at ${formatCost(agroforestry.cropPrice, agroforestry.cropPrice < 10 ? 2 : 0)}/t` : crop.label],
+        ['Crop output in year 1 / final year', `${agroforestry.firstYearOutput.toFixed(2)} / ${agroforestry.finalYearOutput.toFixed(2)} t`],
+        ['Total crop output / revenue', `${agroforestry.totalCropOutput.toFixed(1)} t / ${formatCost(agroforestry.totalCropRevenue)}`],
+        ['Yield lost to shade in final year', `${agroforestry.finalShadeLoss.toFixed(0)}%`],
+        ['Tree carbon', `${data.impactResults.totalCarbon.toFixed(1)} kg CO₂`]
+      ],
+      theme: 'striped',
+      headStyles: { fillColor: primaryColor, textColor: 255 },
+      styles: { fontSize: 10, cellPadding: 3 },
+      columnStyles: {
+        0: { fontStyle: 'bold', cellWidth: 80 }
+      }
+    });
+
+    yPos = (doc as jsPDF & { lastAutoTable: { finalY: number } }).lastAutoTable.finalY + 10;
+  }
+
+  // Chance, severity and losses of fire, drought, windthrow and pest outbreaks (when disturbance risk is on)
+  if (data.disturbance) {
+    const disturbance = data.disturbance;
+    const lossRange = data.uncertainty?.disturbanceTreesLost;
+    if (yPos > 200) {
+      doc.addPage();
+      yPos = 20;
+    }
+
+    doc.setFontSize(16);
+    doc.setFont('helvetica', 'bold');
+    doc.setTextColor(...primaryColor);
+    doc.text('Disturbance Risk', 14, yPos);
+    yPos += 8;
+
+    autoTable(doc, {
+      startY: yPos,
+      head: [['Disturbance', 'Chance/year', 'Trees killed per event', 'Trees lost']],
+      body: [
+        ...DISTURBANCE_TYPES.map(({ key, label }) => [
+          label,
+          `${(disturbance.risks[key].probability * 100).toFixed(1)}%`,
+          `${(disturbance.risks[key].severity * 100).toFixed(0)}%`,
+          Math.round(disturbance.treesLost[key]).toLocaleString()
+        ]),
+        ['Total', '', '', `${Math.round(disturbance.totalTreesLost).toLocaleString()}${lossRange ? ` (P10–P90 ${Math.round(lossRange.p10).toLocaleString()} – ${Math.round(lossRange.p90).toLocaleString()})` : ''}`],
+        ['Carbon lost', '', '', `${(disturbance.carbonLoss / 1000).toFixed(1)} t CO₂`]
+      ],
+      theme: 'striped',
+      headStyles: { fillColor: primaryColor, textColor: 255 },
+      styles: { fontSize: 10, cellPadding: 3 },
+      columnStyles: {
+        0: { fontStyle: 'bold' }
+      }
+    });
+
+    yPos = (doc as jsPDF & { lastAutoTable: { finalY: number } }).lastAutoTable.finalY + 10;
+  }
+
+  // Species climate envelopes and when the projected climate leaves them (with climate data)
+  if (data.climateSuitability) {
+    const suitability = data.climateSuitability;
+    if (yPos > 200) {
+      doc.addPage();
+      yPos = 20;
+    }
+
+    doc.setFontSize(16);
+    doc.setFont('helvetica', 'bold');
+    doc.setTextColor(...primaryColor);
+    doc.text('Climate Suitability', 14, yPos);
+    yPos += 8;
+
+    autoTable(doc, {
+      startY: yPos,
+      head: [['Species', 'Temperature', 'Precipitation', 'Outside range', 'Unsuitable', 'Growth (final year)']],
+      body: suitability.map(species => [
+        species.name,
+        `${species.envelope.minTemperature}–${species.envelope.maxTemperature}°C`,
+        `${Math.round(species.envelope.minPrecipitation).toLocaleString()}–${Math.round(species.envelope.maxPrecipitation).toLocaleString()} mm`,
+        species.stressedYear !== null ? `Year ${species.stressedYear}` : '—',
+        species.unsuitableYear !== null ? `Year ${species.unsuitableYear}` : '—',
+        `${Math.round(species.finalGrowthFactor * 100)}%`
+      ]),
+      theme: 'striped',
+      headStyles: { fillColor: primaryColor, textColor: 255 },
+      styles: { fontSize: 10, cellPadding: 3 },
+      columnStyles: {
+        0: { fontStyle: 'bold' }
+      }
+    });
+
+    yPos = (doc as jsPDF & { lastAutoTable: { finalY: number } }).lastAutoTable.finalY + 10;
+  }
+
+  // Costs, revenue and returns of the project (grown stands)
+  if (data.cashFlow) {
+    const cashFlow = data.cashFlow;
+    const sumOf = (key: 'planting' | 'maintenance' | 'carbonCredits' | 'timber' | 'crops') => cashFlow.years.reduce((sum, year) => sum + year[key], 0);
+    if (yPos > 200) {
+      doc.addPage();
+      yPos = 20;
+    }
+
+    doc.setFontSize(16);
+    doc.setFont('helvetica', 'bold');
+    doc.setTextColor(...primaryColor);
+    doc.text('Project Cash Flow', 14, yPos);
+    yPos += 8;
+
+    autoTable(doc, {
+      startY: yPos,
+      head: [['Measure', 'Value']],
+      body: [
+        [`Net present value (${cashFlow.settings.discountRate}% discount rate)`, formatCost(cashFlow.netPresentValue)],
+        ['Internal rate of return', cashFlow.internalRateOfReturn !== null ? `${cashFlow.internalRateOfReturn.toFixed(1)}%` : 'Never breaks even'],
+        ['Payback year', cashFlow.paybackYear !== null ? `Year ${cashFlow.paybackYear}` : `Beyond ${data.metadata.simulation.years} years`],
+        ['Cost per tonne CO₂', cashFlow.costPerTonne !== null ? formatCost(cashFlow.costPerTonne, 2) : 'No carbon stored'],
+        [`Credits issued (every ${cashFlow.settings.verificationInterval} years)`, `${cashFlow.issuedTonnes.toFixed(2)} t CO₂ in ${cashFlow.issuances.length} issuances`],
+        ['Planting & establishment', formatCost(-sumOf('planting'))],
+        ['Maintenance', formatCost(-sumOf('maintenance'))],
+        ['Carbon credits', formatCost(sumOf('carbonCredits'))],
+        ['Timber', formatCost(sumOf('timber'))],
+        ...(sumOf('crops') > 0 ? [['Alley crops', formatCost(sumOf('crops'))]] : []),
+        ['Net cash flow (undiscounted)', formatCost(cashFlow.totalRevenue - cashFlow.totalCosts)]
+      ],
+      theme: 'striped',
+      headStyles: { fillColor: primaryColor, textColor: 255 },
+      styles: { fontSize: 10, cellPadding: 3 },
+      columnStyles: {
+        0: { fontStyle: 'bold', cellWidth: 100 }
+      }
+    });
+
+    yPos = (doc as jsPDF & { lastAutoTable: { finalY: number } }).lastAutoTable.finalY + 6;
+
+    // Returns under each carbon price path; the first sets the cash flow above
+    autoTable(doc, {
+      startY: yPos,
+      head: [['Price scenario', 'Average price', 'Credit revenue', 'NPV', 'IRR']],
+      body: cashFlow.scenarios.map(result => [
+        result.scenario.name,
+        `${formatCost(result.averagePrice, 2)}/t`,
+        formatCost(result.creditRevenue),
+        formatCost(result.netPresentValue),
+        result.internalRateOfReturn !== null ? `${result.internalRateOfReturn.toFixed(1)}%` : '-'
+      ]),
+      theme: 'striped',
+      headStyles: { fillColor: primaryColor, textColor: 255 },
+      styles: { fontSize: 10, cellPadding: 3 },
+      columnStyles: {
+        0: { fontStyle: 'bold' }
+      }
+    });
+
+    yPos = (doc as jsPDF & { lastAutoTable: { finalY: number } }).lastAutoTable.finalY + 10;
+  }
+
+  // Deductions and net creditable tonnes per vintage year (when carbon crediting is on)
+  if (data.crediting) {
+    const crediting = data.crediting;
+    const formatTonnes = (value: number) => value.toFixed(2);
+    if (yPos > 200) {
+      doc.addPage();
+      yPos = 20;
+    }
+
+    doc.setFontSize(16);
+    doc.setFont('helvetica', 'bold');
+    doc.setTextColor(...primaryColor);
+    doc.text('Net Creditable Carbon', 14, yPos);
+    yPos += 8;
+
+    doc.setFontSize(10);
+    doc.setFont('helvetica', 'normal');
+    doc.setTextColor(0, 0, 0);
+    doc.text(
+      `Leakage ${crediting.settings.leakage}%, uncertainty ${crediting.settings.uncertainty}%, buffer ${crediting.bufferContribution.toFixed(1)}%. ` +
+      `${formatTonnes(crediting.totalCreditable)} of ${formatTonnes(crediting.totalRemovals)} t CO₂ removed is creditable.`,
+      14,
+      yPos
+    );
+    yPos += 6;
+
+    autoTable(doc, {
+      startY: yPos,
+      head: [['Vintage', 'Removals (t)', ...CREDITING_DEDUCTIONS.map(({ label }) => `${label} (t)`), 'Creditable (t)', 'Cumulative (t)']],
+      body: crediting.vintages.map(vintage => [
+        `Year ${vintage.year}`,
+        formatTonnes(vintage.removals),
+        ...CREDITING_DEDUCTIONS.map(({ key }) => formatTonnes(vintage.deductions[key])),
+        formatTonnes(vintage.creditable),
+        formatTonnes(vintage.cumulativeCreditable)
+      ]),
+      theme: 'striped',
+      headStyles: { fillColor: primaryColor, textColor: 255 },
+      styles: { fontSize: 8, cellPadding: 2 }
+    });
+
+    yPos = (doc as jsPDF & { lastAutoTable: { finalY: number } }).lastAutoTable.finalY + 10;
+  }
+
+  // Job-years by project phase (per-area mode)
+  if (data.employment && data.employment.totalJobYears > 0) {
+    const employment = data.employment;
+    if (yPos > 220) {
+      doc.addPage();
+      yPos = 20;
+    }
+
+    doc.setFontSize(16);
+    doc.setFont('helvetica', 'bold');
+    doc.setTextColor(...primaryColor);
+    doc.text('Employment by Phase', 14, yPos);
+    yPos += 8;
+
+    autoTable(doc, {
+      startY: yPos,
+      head: [['Phase', 'Job-years']],
+      body: [
+        ...LABOR_PHASES.filter(({ key }) => employment.totals[key] > 0).map(phase => [phase.label, employment.totals[phase.key].toFixed(1)]),
+        ['Total', employment.totalJobYears.toFixed(1)],
+        [`Peak full-time jobs${employment.peakYear !== null ? ` (year ${employment.peakYear})` : ''}`, employment.peakJobs.toFixed(1)],
+        ...(employment.planting ? [['Planting crew', `${employment.planting.crewSize} people, ${employment.planting.seasons} season(s)`]] : [])
+      ],
+      theme: 'striped',
+      headStyles: { fillColor: primaryColor, textColor: 255 },
+      styles: { fontSize: 10, cellPadding: 3 },
+      columnStyles: {
+        0: { fontStyle: 'bold', cellWidth: 100 }
+      }
+    });
+
+    yPos = (doc as jsPDF & { lastAutoTable: { finalY: number } }).lastAutoTable.finalY + 10;
+  }
+
+  // Advanced assumptions changed from the default coefficients
+  const overrides = listOverrides(data.metadata.simulation.parameterOverrides);
+  if (overrides.length > 0) {
+    if (yPos > 240) {
+      doc.addPage();
+      yPos = 20;
+    }
+    
+    doc.setFontSize(16);
+    doc.setFont('helvetica', 'bold');
+    doc.setTextColor(...primaryColor);
+    doc.text('Advanced Assumptions', 14, yPos);
+    yPos += 8;
+    
+    autoTable(doc, {
+      startY: yPos,
+      head: [['Group', 'Coefficient', 'Default', 'Used']],
+      body: overrides.map(({ group, key, value, defaultValue }) => [
+        MODEL_PARAMETER_GROUPS.find(entry => entry.key === group)?.title ?? group,
+        formatParameterLabel(key),
+        defaultValue.toString(),
+        value.toString()
+      ]),
+      theme: 'striped',
+      headStyles: { fillColor: primaryColor, textColor: 255 },
+      styles: { fontSize: 9, cellPadding: 3 },
+    });
+    
+    yPos = (doc as jsPDF & { lastAutoTable: { finalY: number } }).lastAutoTable.finalY + 10;
+  }
+  
+  // Simulation Trajectory Section
+  if (data.timeSeries && data.timeSeries.length > 1) {
+    doc.addPage();
+    yPos = 20;
+    
+    doc.setFontSize(16);
+    doc.setFont('helvetica', 'bold');
+    doc.setTextColor(...primaryColor);
+    doc.text('Simulation Trajectory', 14, yPos);
+    yPos += 6;
+    
+    const years = data.timeSeries.map(point => point.year);
+    const paybackYear = data.carbonPayback?.paybackYear ?? null;
+    const bands = data.uncertainty && data.uncertainty.timeSeries.length === years.length ? data.uncertainty.timeSeries : null;
+    
+    drawLineChart(doc, 14, yPos, 'Cumulative Carbon (kg CO₂)', years, [
+      { key: 'cumulativeCarbon', label: 'Cumulative carbon', color: '#1B4D3E', values: data.timeSeries.map(point => point.cumulativeCarbon),
+        band: bands ? { lower: bands.map(point => point.cumulativeCarbon.p10), upper: bands.map(point => point.cumulativeCarbon.p90) } : undefined }
+    ], paybackYear);
+    yPos += 70;
+    
+    drawLineChart(doc, 14, yPos, 'Biodiversity & Resilience (/5)', years, [
+      { key: 'biodiversity', label: 'Biodiversity', color: '#7c3aed', values: data.timeSeries.map(point => point.biodiversity),
+        band: bands ? { lower: bands.map(point => point.biodiversity.p10), upper: bands.map(point => point.biodiversity.p90) } : undefined },
+      { key: 'resilience', label: 'Resilience', color: '#2563eb', values: data.timeSeries.map(point => point.resilience),
+        band: bands ? { lower: bands.map(point => point.resilience.p10), upper: bands.map(point => point.resilience.p90) } : undefined }
+    ]);
+    yPos += 70;
+    
+    drawLineChart(doc, 14, yPos, 'Water Retention & Air Quality (%)', years, [
+      { key: 'waterRetention', label: 'Water retention', color: '#0284c7', values: data.timeSeries.map(point => point.waterRetention),
+        band: bands ? { lower: bands.map(point => point.waterRetention.p10), upper: bands.map(point => point.waterRetention.p90) } : undefined },
+      { key: 'airQuality', label: 'Air quality', color: '#ca8a04', values: data.timeSeries.map(point => point.airQuality),
+        band: bands ? { lower: bands.map(point => point.airQuality.p10), upper: bands.map(point => point.airQuality.p90) } : undefined }
+    ]);
+    yPos += 70;
+    
+    if (data.carbonPayback) {
+      const payback = data.carbonPayback;
+      doc.setFontSize(9);
+      doc.setTextColor(180, 83, 9);
+      doc.text(paybackYear !== null
+        ? `Replanting with ${payback.replantSpecies.join(', ')} repays the harvest carbon debt in year ${paybackYear}.`
+        : `Replanting with ${payback.replantSpecies.join(', ')} does not repay the harvest carbon debt within ${years.length} years.`, 14, yPos);
+      yPos += 5;
+      doc.text(payback.parityYear !== null
+        ? `Harvest and replant catches up with leaving the stand in year ${payback.parityYear}.`
+        : 'Leaving the stand stores more carbon for the whole simulation.', 14, yPos);
+      yPos += 8;
+    }
+    
+    doc.addPage();
+    yPos = 20;
+  }
+  
   // Environmental Data Section
   if (data.environmentalData && Object.keys(data.environmentalData).length > 0) {
     if (yPos > 230) {
@@ -250,6 +984,15 @@ export async function generatePDFReport(data: ExportData): Promise<void> {
       ]);
     }
     
+    if (data.climateProjection) {
+      const { scenario, region, year, warming, precipitationChange } = data.climateProjection;
+      envData.push(
+        ['Climate Scenario', getClimateScenarioOption(scenario).label],
+        ['Regional Pattern', region],
+        [`Projected Change by Year ${year}`, `${warming >= 0 ? '+' : ''}${warming.toFixed(1)}°C, ${precipitationChange >= 0 ? '+' : ''}${precipitationChange.toFixed(0)}% precipitation`]
+      );
+    }
+    
     if (envData.length > 0) {
       autoTable(doc, {
         startY: yPos,
@@ -281,13 +1024,25 @@ export async function generatePDFReport(data: ExportData): Promise<void> {
     doc.text('Forest Management Details', 14, yPos);
     yPos += 8;
     
+    const growthModel = data.metadata.simulation.growthModel || DEFAULT_GROWTH_MODEL;
     const plantingInfo = [
       ['Total Area', `${data.plantingData.area?.toFixed(2) || 'N/A'} hectares`],
       ['Total Trees', (data.plantingData.totalTrees || 0).toLocaleString()],
       ['Tree Spacing', `${data.plantingData.spacing?.toFixed(1) || 'N/A'} meters`],
       ['Planting Density', `${typeof data.plantingData.density === 'number' ? data.plantingData.density.toFixed(0) : 'N/A'} trees/hectare`],
+      ['Growth Model', GROWTH_MODEL_OPTIONS.find(option => option.key === growthModel)?.label ?? growthModel],
     ];
     
+    if (data.mortality) {
+      const { settings } = data.mortality;
+      plantingInfo.push(
+        ['Establishment Mortality', `${settings.establishmentRate}%/yr for ${settings.establishmentYears} years`],
+        ['Mature Mortality', settings.matureRate !== undefined ? `${settings.matureRate}%/yr` : 'Species default'],
+        ['Surviving Trees', `${data.mortality.survivingTrees.toLocaleString()} (${data.mortality.survivalRate.toFixed(1)}%)`],
+        ['Dead Trees', data.mortality.deadTrees.toLocaleString()]
+      );
+    }
+    
     autoTable(doc, {
       startY: yPos,
       head: [['Parameter', 'Value']],
@@ -0,0 +1,85 @@
+/**
+ * Rotation forestry settings and timber value
+ * A managed stand is thinned at set ages, clear-felled at the end of each
+ * rotation and replanted, repeating over the simulation horizon.
+ */
+
+import { TreeType } from '@/types/treeTypes';
+import { ModelParameters, DEFAULT_MODEL_PARAMETERS } from '@/utils/modelParameters';
+import { getGrowthCurve } from '@/utils/growthCurves';
+import { getTreeSize } from '@/utils/allometry';
+
+export interface ThinningEvent {
+  year: number; // stand age (years since planting) in every rotation
+  percentRemoved: number; // % of living trees removed
+}
+
+export interface RotationSettings {
+  rotationLength: number; // stand age at the final harvest
+  thinnings: ThinningEvent[];
+  replant: boolean; // replant after each final harvest, or leave the site bare
+  replantDelay: number; // years the site stays bare before replanting
+}
+
+export const DEFAULT_ROTATION_SETTINGS: RotationSettings = {
+  rotationLength: 40,
+  thinnings: [
+    { year: 15, percentRemoved: 25 },
+    { year: 25, percentRemoved: 20 }
+  ],
+  replant: true,
+  replantDelay: 1
+};
+
+export const MAX_ROTATION_LENGTH = 200;
+
+/**
+ * Clamp settings to usable values
+ * Thinnings at or after the final harvest are dropped, and thinnings in the
+ * same year are merged.
+ */
+export const normalizeRotationSettings = (settings: RotationSettings): RotationSettings => {
+  const rotationLength = Math.max(1, Math.min(MAX_ROTATION_LENGTH, Math.round(settings.rotationLength) || 1));
+  const byYear = new Map<number, number>();
+
+  settings.thinnings.forEach(thinning => {
+    const year = Math.round(thinning.year);
+    const percent = Math.max(0, Math.min(100, thinning.percentRemoved || 0));
+    if (year < 1 || year >= rotationLength || percent <= 0) return;
+    byYear.set(year, Math.min(100, (byYear.get(year) ?? 0) + percent));
+  });
+
+  return {
+    rotationLength,
+    thinnings: Array.from(byYear.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([year, percentRemoved]) => ({ year, percentRemoved })),
+    replant: settings.replant,
+    replantDelay: Math.max(0, Math.round(settings.replantDelay) || 0)
+  };
+};
+
+// % of living trees removed at a stand age: all of them at the final harvest
+export const getRemovalPercent = (settings: RotationSettings, standAge: number): number => {
+  if (standAge >= settings.rotationLength) return 100;
+  return settings.thinnings.find(thinning => thinning.year === standAge)?.percentRemoved ?? 0;
+};
+
+/**
+ * Timber value (USD) of one harvested tree
+ * A species' timberValue is the value of a mature tree; younger trees are
+ * worth their share of its above-ground biomass.
+ */
+export const getTimberValue = (
+  tree: TreeType,
+  age: number,
+  spacing: number,
+  parameters: ModelParameters = DEFAULT_MODEL_PARAMETERS
+): number => {
+  if (!tree.timberValue || age <= 0) return 0;
+
+  const maturityAge = getGrowthCurve(tree, parameters.growthCurve).yearsToMaturity;
+  const mature = getTreeSize(tree, maturityAge, spacing, parameters).aboveGroundBiomass;
+  const current = getTreeSize(tree, age, spacing, parameters).aboveGroundBiomass;
+  return mature > 0 ? tree.timberValue * Math.min(1, current / mature) : 0;
+};
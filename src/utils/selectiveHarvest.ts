@@ -0,0 +1,85 @@
+/**
+ * Selective harvest settings and stand recovery
+ * Part of an existing stand is felled once it reaches a minimum age; felling
+ * and skidding kill some of the trees left behind, and the residual stand
+ * grows back into the gaps.
+ */
+
+import { ModelParameters, DEFAULT_MODEL_PARAMETERS } from '@/utils/modelParameters';
+
+export type HarvestIntensityBasis = 'stems' | 'basalArea';
+
+export interface SelectiveHarvestSettings {
+  intensity: number; // % of stems or basal area felled
+  basis: HarvestIntensityBasis;
+  minimumAge: number; // stand age at which the harvest takes place
+  damageRate: number; // % of the remaining trees killed by felling and skidding
+}
+
+export const DEFAULT_SELECTIVE_HARVEST_SETTINGS: SelectiveHarvestSettings = {
+  intensity: 30,
+  basis: 'basalArea',
+  minimumAge: 30,
+  damageRate: 10
+};
+
+// Options offered in the settings panel
+export const HARVEST_INTENSITY_BASES: Array<{ key: HarvestIntensityBasis; label: string }> = [
+  { key: 'basalArea', label: '% of basal area' },
+  { key: 'stems', label: '% of stems' }
+];
+
+// Clamp settings to usable values
+export const normalizeSelectiveHarvestSettings = (settings: SelectiveHarvestSettings): SelectiveHarvestSettings => ({
+  intensity: Math.max(0, Math.min(100, settings.intensity || 0)),
+  basis: settings.basis === 'stems' ? 'stems' : 'basalArea',
+  minimumAge: Math.max(0, Math.round(settings.minimumAge) || 0),
+  damageRate: Math.max(0, Math.min(100, settings.damageRate || 0))
+});
+
+// Simulation year of the harvest: the first year the stand is at least the minimum age
+export const getHarvestYear = (settings: SelectiveHarvestSettings, standAge: number): number => {
+  return Math.max(1, Math.round(settings.minimumAge - standAge));
+};
+
+/**
+ * Share of each cohort's trees felled
+ * Stem intensity fells the same share of every cohort; basal area intensity
+ * fells the largest trees first until that share of the stand's basal area
+ * has been removed.
+ */
+export const allocateHarvest = (
+  cohorts: Array<{ trees: number; dbh: number }>,
+  settings: SelectiveHarvestSettings
+): number[] => {
+  const share = settings.intensity / 100;
+  // Proportional to basal area; the π/40000 factor cancels out
+  const basalAreas = cohorts.map(cohort => cohort.trees * cohort.dbh * cohort.dbh);
+  const totalBasalArea = basalAreas.reduce((sum, basalArea) => sum + basalArea, 0);
+  if (settings.basis === 'stems' || totalBasalArea <= 0) return cohorts.map(() => share);
+
+  const shares = cohorts.map(() => 0);
+  let remaining = share * totalBasalArea;
+  cohorts
+    .map((_, i) => i)
+    .sort((a, b) => cohorts[b].dbh - cohorts[a].dbh)
+    .forEach(i => {
+      const felled = Math.min(basalAreas[i], remaining);
+      shares[i] = basalAreas[i] > 0 ? felled / basalAreas[i] : 0;
+      remaining -= felled;
+    });
+  return shares;
+};
+
+// Share of the stand felled or killed by the harvest: 0 leaves it untouched, 1 clears it
+export const getDisturbanceShare = (settings: SelectiveHarvestSettings): number => {
+  const felled = settings.intensity / 100;
+  return felled + (settings.damageRate / 100) * (1 - felled);
+};
+
+// Share of the uptake lost to the harvest that the stand has regained
+export const getRecoveryShare = (yearsSinceHarvest: number, parameters: ModelParameters = DEFAULT_MODEL_PARAMETERS): number => {
+  const { RECOVERY_YEARS, RECOVERY_SHARE } = parameters.selectiveHarvest;
+  if (yearsSinceHarvest <= 0) return 0;
+  return Math.max(0, Math.min(1, RECOVERY_SHARE)) * Math.min(1, yearsSinceHarvest / Math.max(1, RECOVERY_YEARS));
+};
@@ -0,0 +1,196 @@
+/**
+ * One-at-a-time sensitivity analysis for the simulation engine
+ * Each input is moved to a low and a high value while everything else stays
+ * at its central value, giving the swing data for a tornado chart.
+ */
+
+import { TreeType } from '@/types/treeTypes';
+import { SimulationInput, SimulationResult, simulate, resolveTotalTrees } from '@/utils/simulationEngine';
+import { getWoodDensity } from '@/utils/allometry';
+import { TREE_SPACING_CONFIGS, getRecommendedSpacing } from '@/utils/treePlanting';
+
+export type SensitivityParameter = 'carbonRate' | 'spacing' | 'mortality' | 'soilCarbon' | 'climateTrend' | 'years';
+
+export type SensitivityMetric = 'totalCarbon' | 'annualCarbon' | 'averageBiodiversity' | 'averageResilience' | 'waterRetention' | 'airQuality';
+
+export type SensitivityMetrics = Record<SensitivityMetric, number>;
+
+export interface SensitivityEntry {
+  parameter: SensitivityParameter;
+  label: string;
+  lowInput: string; // Description of the low input value
+  highInput: string;
+  low: SensitivityMetrics;
+  high: SensitivityMetrics;
+}
+
+export interface SensitivityResult {
+  variation: number; // ± % applied to each relative input
+  base: SensitivityMetrics;
+  entries: SensitivityEntry[];
+}
+
+export const SENSITIVITY_METRICS: Array<{ key: SensitivityMetric; label: string }> = [
+  { key: 'totalCarbon', label: 'Total carbon' },
+  { key: 'annualCarbon', label: 'Annual carbon' },
+  { key: 'averageBiodiversity', label: 'Biodiversity' },
+  { key: 'averageResilience', label: 'Resilience' },
+  { key: 'waterRetention', label: 'Water retention' },
+  { key: 'airQuality', label: 'Air quality' }
+];
+
+export const DEFAULT_SENSITIVITY_VARIATION = 20;
+
+const toMetrics = (result: SimulationResult): SensitivityMetrics => ({
+  totalCarbon: result.totalCarbon,
+  annualCarbon: result.annualCarbon,
+  averageBiodiversity: result.averageBiodiversity,
+  averageResilience: result.averageResilience,
+  waterRetention: result.impact.waterRetention,
+  airQuality: result.impact.airQualityImprovement
+});
+
+// Spacing configurations ordered from densest to widest
+const SPACING_STEPS = Object.values(TREE_SPACING_CONFIGS).sort((a, b) => a.spacing - b.spacing);
+
+// Neighbouring spacing configurations around the current spacing
+const getSpacingNeighbours = (spacing: number) => {
+  const denser = [...SPACING_STEPS].reverse().find(config => config.spacing < spacing);
+  const wider = SPACING_STEPS.find(config => config.spacing > spacing);
+  return {
+    low: denser ?? { spacing, density: 10000 / (spacing * spacing) },
+    high: wider ?? { spacing, density: 10000 / (spacing * spacing) }
+  };
+};
+
+// Re-plant the area at another spacing, keeping the planted area fixed
+const withSpacing = (input: SimulationInput, baseSpacing: number, spacing: number): SimulationInput => {
+  const totalTrees = resolveTotalTrees(input.plantingData, input.selectedRegion);
+  const ratio = (baseSpacing / spacing) ** 2;
+  const density = 10000 / (spacing * spacing);
+
+  return {
+    ...input,
+    plantingData: {
+      area: input.plantingData?.area ?? totalTrees / (10000 / (baseSpacing * baseSpacing)),
+      ...input.plantingData,
+      totalTrees: Math.max(1, Math.round(totalTrees * ratio)),
+      spacing,
+      density
+    }
+  };
+};
+
+// Species rates for the rate model, wood density (biomass per unit of size) for the allometric model
+const scaleCarbonRates = (input: SimulationInput, factor: number): SimulationInput => {
+  const scaleTree = (tree: TreeType): TreeType => ({
+    ...tree,
+    carbonSequestration: tree.carbonSequestration * factor,
+    woodDensity: getWoodDensity(tree, input.parameters) * factor
+  });
+
+  return {
+    ...input,
+    selectedTreeType: input.selectedTreeType ? scaleTree(input.selectedTreeType) : input.selectedTreeType,
+    selectedTrees: input.selectedTrees?.map(scaleTree)
+  };
+};
+
+const scaleSoilCarbon = (input: SimulationInput, factor: number): SimulationInput => ({
+  ...input,
+  soil: input.soil && input.soil.carbon !== null ? { ...input.soil, carbon: input.soil.carbon * factor } : input.soil
+});
+
+const withScale = (input: SimulationInput, key: 'mortality' | 'climateTrend', factor: number): SimulationInput => ({
+  ...input,
+  scales: { ...input.scales, [key]: (input.scales?.[key] ?? 1) * factor }
+});
+
+const clampYears = (years: number): number => Math.max(1, Math.min(100, Math.round(years)));
+
+/**
+ * Run the sensitivity analysis with a ± variation in percent
+ */
+export const runSensitivity = (input: SimulationInput, variation: number = DEFAULT_SENSITIVITY_VARIATION): SensitivityResult => {
+  const low = 1 - variation / 100;
+  const high = 1 + variation / 100;
+  const percentLabel = (sign: string) => `${sign}${variation}%`;
+
+  const trees = input.selectedTrees && input.selectedTrees.length > 0
+    ? input.selectedTrees
+    : input.selectedTreeType ? [input.selectedTreeType] : [];
+  const baseSpacing = input.plantingData?.spacing
+    ?? TREE_SPACING_CONFIGS[trees.length > 0 ? getRecommendedSpacing(trees[0].name) : 'standard'].spacing;
+  const spacing = getSpacingNeighbours(baseSpacing);
+  const lowYears = clampYears(input.years * low);
+  const highYears = clampYears(input.years * high);
+
+  // Totals are reported for the planted area, so spacing only matters per area
+  const variations: Array<{ parameter: SensitivityParameter; label: string; lowInput: string; highInput: string; apply: (factor: 'low' | 'high') => SimulationInput }> = [
+    {
+      parameter: 'carbonRate',
+      label: 'Species carbon uptake',
+      lowInput: percentLabel('-'),
+      highInput: percentLabel('+'),
+      apply: side => scaleCarbonRates(input, side === 'low' ? low : high)
+    },
+    {
+      parameter: 'spacing',
+      label: 'Spacing / density',
+      lowInput: `${spacing.low.spacing}m (${Math.round(spacing.low.density)}/ha)`,
+      highInput: `${spacing.high.spacing}m (${Math.round(spacing.high.density)}/ha)`,
+      apply: side => input.calculationMode === 'perArea'
+        ? withSpacing(input, baseSpacing, side === 'low' ? spacing.low.spacing : spacing.high.spacing)
+        : input
+    },
+    {
+      parameter: 'mortality',
+      label: 'Mortality rates',
+      lowInput: percentLabel('-'),
+      highInput: percentLabel('+'),
+      apply: side => withScale(input, 'mortality', side === 'low' ? low : high)
+    },
+    {
+      parameter: 'soilCarbon',
+      label: 'Soil organic carbon',
+      lowInput: percentLabel('-'),
+      highInput: percentLabel('+'),
+      apply: side => scaleSoilCarbon(input, side === 'low' ? low : high)
+    },
+    {
+      parameter: 'climateTrend',
+      label: 'Climate change',
+      lowInput: percentLabel('-'),
+      highInput: percentLabel('+'),
+      apply: side => withScale(input, 'climateTrend', side === 'low' ? low : high)
+    },
+    {
+      parameter: 'years',
+      label: 'Simulation years',
+      lowInput: `${lowYears} years`,
+      highInput: `${highYears} years`,
+      apply: side => ({ ...input, years: side === 'low' ? lowYears : highYears })
+    }
+  ];
+
+  return {
+    variation,
+    base: toMetrics(simulate(input)),
+    entries: variations.map(({ apply, ...entry }) => ({
+      ...entry,
+      low: toMetrics(simulate(apply('low'))),
+      high: toMetrics(simulate(apply('high')))
+    }))
+  };
+};
+
+// Width of the tornado bar for one metric: the range spanned by low, base and high
+export const getSwing = (entry: SensitivityEntry, base: SensitivityMetrics, metric: SensitivityMetric): number => {
+  const values = [entry.low[metric], base[metric], entry.high[metric]];
+  return Math.max(...values) - Math.min(...values);
+};
+
+// Entries ordered from the most to the least influential for a metric
+export const sortBySwing = (result: SensitivityResult, metric: SensitivityMetric): SensitivityEntry[] => {
+  return [...result.entries].sort((a, b) => getSwing(b, result.base, metric) - getSwing(a, result.base, metric));
+};
@@ -2,8 +2,40 @@
  * Utilities for creating shareable links with encoded analysis parameters
  */
 
-export interface ShareableState {
-  mode: 'planting' | 'clear-cutting';
+import { ModelParameterOverrides, serializeOverrides, parseOverrides } from '@/utils/modelParameters';
+import { SimulationMode } from '@/utils/simulationEngine';
+import { MortalitySettings, DEFAULT_MORTALITY_SETTINGS } from '@/utils/treeMortality';
+import { DisturbanceSettings, DEFAULT_DISTURBANCE_SETTINGS } from '@/utils/disturbance';
+import { UncertaintySettings, DEFAULT_UNCERTAINTY_SETTINGS } from '@/utils/monteCarlo';
+import { GrowthModel, DEFAULT_GROWTH_MODEL, GROWTH_MODEL_OPTIONS } from '@/utils/allometry';
+import { ClimateScenario, DEFAULT_CLIMATE_SCENARIO, CLIMATE_SCENARIO_OPTIONS } from '@/utils/climateScenarios';
+import { WoodProductOverrides } from '@/utils/harvestedWood';
+import { RotationSettings, DEFAULT_ROTATION_SETTINGS, normalizeRotationSettings } from '@/utils/rotationForestry';
+import { SelectiveHarvestSettings, DEFAULT_SELECTIVE_HARVEST_SETTINGS, normalizeSelectiveHarvestSettings } from '@/utils/selectiveHarvest';
+import { NaturalRegenerationSettings, DEFAULT_NATURAL_REGENERATION_SETTINGS, normalizeNaturalRegenerationSettings } from '@/utils/naturalRegeneration';
+import { AgroforestrySettings, DEFAULT_AGROFORESTRY_SETTINGS, normalizeAgroforestrySettings } from '@/utils/agroforestry';
+import { CashFlowSettings, DEFAULT_CASH_FLOW_SETTINGS, normalizeCashFlowSettings } from '@/utils/cashFlow';
+import { CreditingSettings, DEFAULT_CREDITING_SETTINGS, normalizeCreditingSettings } from '@/utils/carbonCrediting';
+
+// Settings panels a link carries; mortality is always encoded, the others only when changed from their defaults
+export interface SharedSettings {
+  mortality?: MortalitySettings;
+  disturbance?: DisturbanceSettings;
+  uncertainty?: UncertaintySettings;
+  growthModel?: GrowthModel;
+  climateScenario?: ClimateScenario;
+  woodProductShares?: WoodProductOverrides;
+  replanting?: { treeIds: string[]; percentages: { [key: string]: number } }; // Replanting mix after a clear-cut
+  rotation?: RotationSettings;
+  selectiveHarvest?: SelectiveHarvestSettings;
+  naturalRegeneration?: NaturalRegenerationSettings;
+  agroforestry?: AgroforestrySettings;
+  cashFlow?: CashFlowSettings;
+  crediting?: CreditingSettings;
+}
+
+export interface ShareableState extends SharedSettings {
+  mode: SimulationMode;
   latitude?: number;
   longitude?: number;
   region?: {
@@ -17,17 +49,112 @@ export interface ShareableState {
   averageTreeAge?: number;
   treeIds: string[]; // Store only IDs, not full tree objects
   treePercentages: { [key: string]: number };
+  parameterOverrides?: ModelParameterOverrides; // Advanced assumptions changed from the defaults
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Parsed settings laid over the defaults, so a missing or mistyped field keeps its default
+function withDefaults<T extends object>(defaults: T, value: unknown): T {
+  if (!isObject(value)) return defaults;
+  const merged = { ...defaults } as Record<string, unknown>;
+  Object.entries(value).forEach(([key, entry]) => {
+    const fallback = (defaults as Record<string, unknown>)[key];
+    if (fallback === undefined || typeof entry === typeof fallback && Array.isArray(entry) === Array.isArray(fallback)) {
+      merged[key] = entry;
+    }
+  });
+  return merged as T;
+}
+
+// Links made before mortality was modelled carry no mortality field and open without it
+const LEGACY_MORTALITY_SETTINGS: MortalitySettings = { ...DEFAULT_MORTALITY_SETTINGS, enabled: false };
+
+/**
+ * Settings segment: URI-encoded JSON of the mortality settings and the panels changed from their defaults
+ */
+function encodeSettings(state: ShareableState): string {
+  const changed = (value: unknown, defaults: unknown) => value !== undefined && JSON.stringify(value) !== JSON.stringify(defaults);
+  const settings: SharedSettings = {};
+
+  if (state.mortality) settings.mortality = state.mortality;
+  if (changed(state.disturbance, DEFAULT_DISTURBANCE_SETTINGS)) settings.disturbance = state.disturbance;
+  if (changed(state.uncertainty, DEFAULT_UNCERTAINTY_SETTINGS)) settings.uncertainty = state.uncertainty;
+  if (changed(state.growthModel, DEFAULT_GROWTH_MODEL)) settings.growthModel = state.growthModel;
+  if (changed(state.climateScenario, DEFAULT_CLIMATE_SCENARIO)) settings.climateScenario = state.climateScenario;
+  if (changed(state.woodProductShares, {})) settings.woodProductShares = state.woodProductShares;
+  if (state.replanting && state.replanting.treeIds.length > 0) settings.replanting = state.replanting;
+  if (changed(state.rotation, DEFAULT_ROTATION_SETTINGS)) settings.rotation = state.rotation;
+  if (changed(state.selectiveHarvest, DEFAULT_SELECTIVE_HARVEST_SETTINGS)) settings.selectiveHarvest = state.selectiveHarvest;
+  if (changed(state.naturalRegeneration, DEFAULT_NATURAL_REGENERATION_SETTINGS)) settings.naturalRegeneration = state.naturalRegeneration;
+  if (changed(state.agroforestry, DEFAULT_AGROFORESTRY_SETTINGS)) settings.agroforestry = state.agroforestry;
+  if (changed(state.cashFlow, DEFAULT_CASH_FLOW_SETTINGS)) settings.cashFlow = state.cashFlow;
+  if (changed(state.crediting, DEFAULT_CREDITING_SETTINGS)) settings.crediting = state.crediting;
+
+  return Object.keys(settings).length > 0 ? encodeURIComponent(JSON.stringify(settings)) : '';
+}
+
+/**
+ * Decode the settings segment, validating each panel; a panel that cannot be read is left at its default
+ * A link without mortality settings predates them, so mortality stays off.
+ */
+function decodeSettings(segment: string): SharedSettings {
+  let parsed: unknown = {};
+  try {
+    if (segment) parsed = JSON.parse(decodeURIComponent(segment));
+  } catch (error) {
+    console.error('Error decoding shared settings:', error);
+    return {};
+  }
+  if (!isObject(parsed)) return {};
+
+  // Each panel is read on its own so one malformed panel does not drop the others
+  const read = <T>(value: unknown, parse: (value: unknown) => T): T | undefined => {
+    if (value === undefined || value === null) return undefined;
+    try {
+      return parse(value);
+    } catch {
+      return undefined;
+    }
+  };
+
+  const settings: SharedSettings = {
+    mortality: read(parsed.mortality, value => withDefaults(DEFAULT_MORTALITY_SETTINGS, value)) ?? LEGACY_MORTALITY_SETTINGS,
+    disturbance: read(parsed.disturbance, value => withDefaults(DEFAULT_DISTURBANCE_SETTINGS, value)),
+    uncertainty: read(parsed.uncertainty, value => withDefaults(DEFAULT_UNCERTAINTY_SETTINGS, value)),
+    growthModel: GROWTH_MODEL_OPTIONS.find(option => option.key === parsed.growthModel)?.key,
+    climateScenario: CLIMATE_SCENARIO_OPTIONS.find(option => option.key === parsed.climateScenario)?.key,
+    woodProductShares: isObject(parsed.woodProductShares) ? parsed.woodProductShares as WoodProductOverrides : undefined,
+    replanting: read(parsed.replanting, value => isObject(value) && Array.isArray(value.treeIds)
+      ? {
+          treeIds: value.treeIds.filter((id): id is string => typeof id === 'string'),
+          percentages: isObject(value.percentages) ? value.percentages as { [key: string]: number } : {}
+        }
+      : undefined),
+    rotation: read(parsed.rotation, value => normalizeRotationSettings(withDefaults(DEFAULT_ROTATION_SETTINGS, value))),
+    selectiveHarvest: read(parsed.selectiveHarvest, value => normalizeSelectiveHarvestSettings(withDefaults(DEFAULT_SELECTIVE_HARVEST_SETTINGS, value))),
+    naturalRegeneration: read(parsed.naturalRegeneration, value => normalizeNaturalRegenerationSettings(withDefaults(DEFAULT_NATURAL_REGENERATION_SETTINGS, value))),
+    agroforestry: read(parsed.agroforestry, value => normalizeAgroforestrySettings(withDefaults(DEFAULT_AGROFORESTRY_SETTINGS, value))),
+    cashFlow: read(parsed.cashFlow, value => normalizeCashFlowSettings(withDefaults(DEFAULT_CASH_FLOW_SETTINGS, value))),
+    crediting: read(parsed.crediting, value => normalizeCreditingSettings(withDefaults(DEFAULT_CREDITING_SETTINGS, value)))
+  };
+
+  // Leave out what the link did not carry
+  (Object.keys(settings) as Array<keyof SharedSettings>).forEach(key => {
+    if (settings[key] === undefined) delete settings[key];
+  });
+  return settings;
 }
 
 /**
  * Ultra-compact URL encoding using delimiter-separated values
- * Format: m|y|c|lat,lon|n,s,e,w|a|treeId1:pct1,treeId2:pct2
+ * Format: m|y|c|lat,lon|n,s,e,w|a|treeId1:pct1,treeId2:pct2|group.KEY=value;group.KEY=value|settings
  */
 function toUltraCompactString(state: ShareableState): string {
   const parts: string[] = [];
   
-  // Mode: p=planting, c=clear-cutting
-  parts.push(state.mode === 'planting' ? 'p' : 'c');
+  // Mode: p=planting, c=clear-cutting, r=rotation, s=selective harvest, n=natural regeneration, a=agroforestry
+  parts.push(state.mode === 'planting' ? 'p' : state.mode === 'rotation' ? 'r' : state.mode === 'selective-harvest' ? 's' : state.mode === 'natural-regeneration' ? 'n' : state.mode === 'agroforestry' ? 'a' : 'c');
   
   // Years
   parts.push(state.years.toString());
@@ -68,6 +195,16 @@ function toUltraCompactString(state: ShareableState): string {
   });
   parts.push(treesWithPcts.join(','));
   
+  // Model parameter overrides and changed settings (only when any are set, keeping older links unchanged)
+  const overrides = serializeOverrides(state.parameterOverrides);
+  const settings = encodeSettings(state);
+  if (overrides || settings) {
+    parts.push(overrides);
+  }
+  if (settings) {
+    parts.push(settings);
+  }
+  
   return parts.join('|');
 }
 
@@ -78,7 +215,7 @@ function fromUltraCompactString(compact: string): ShareableState {
   const parts = compact.split('|');
   
   const state: ShareableState = {
-    mode: parts[0] === 'p' ? 'planting' : 'clear-cutting',
+    mode: parts[0] === 'p' ? 'planting' : parts[0] === 'r' ? 'rotation' : parts[0] === 's' ? 'selective-harvest' : parts[0] === 'n' ? 'natural-regeneration' : parts[0] === 'a' ? 'agroforestry' : 'clear-cutting',
     years: parseInt(parts[1]),
     calculationMode: parts[2] === 't' ? 'perTree' : 'perArea',
     treeIds: [],
@@ -112,6 +249,14 @@ function fromUltraCompactString(compact: string): ShareableState {
     });
   }
   
+  // Model parameter overrides
+  if (parts[7]) {
+    state.parameterOverrides = parseOverrides(parts[7]);
+  }
+  
+  // Mortality and the settings changed from their defaults
+  Object.assign(state, decodeSettings(parts[8] ?? ''));
+  
   return state;
 }
 
@@ -238,7 +383,7 @@ export async function copyToClipboard(text: string): Promise<boolean> {
  */
 export function validateState(state: ShareableState): boolean {
   // Check required fields
-  if (!state.mode || !['planting', 'clear-cutting'].includes(state.mode)) {
+  if (!state.mode || !['planting', 'clear-cutting', 'rotation', 'selective-harvest', 'natural-regeneration', 'agroforestry'].includes(state.mode)) {
     return false;
   }
   
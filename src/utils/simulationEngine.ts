@@ -0,0 +1,2218 @@
+/**
+ * Headless forest impact simulation engine
+ * Pure calculations shared by the UI, scripts, workers and server code
+ */
+
+import { ClimateEnvelope, TreeType } from '@/types/treeTypes';
+import { RegionBounds, TREE_SPACING_CONFIGS, calculatePlantingTimeline, calculateRegionArea, getRecommendedSpacing } from '@/utils/treePlanting';
+import { MortalitySettings, createAgeDependentMortality } from '@/utils/treeMortality';
+import { getDefaultGrowthFactor, getSpeciesGrowthFactor } from '@/utils/growthCurves';
+import { ModelParameters, DEFAULT_MODEL_PARAMETERS } from '@/utils/modelParameters';
+import { CarbonPools, createCarbonPoolTracker, getPoolDecayRates, getRootShootRatio, getTotalPoolCarbon } from '@/utils/carbonPools';
+import { GrowthModel, DEFAULT_GROWTH_MODEL, getBiomassIncrement, getTreeSize } from '@/utils/allometry';
+import { WoodProductOverrides, WoodProductPools, WoodProductShares, WoodProductYear, blendWoodProductShares, decayWoodProductInflows, decayWoodProducts, getResidueShare, getTotalProductCarbon, resolveWoodProductShares, sumWoodProductYears } from '@/utils/harvestedWood';
+import { RotationSettings, DEFAULT_ROTATION_SETTINGS, getRemovalPercent, getTimberValue, normalizeRotationSettings } from '@/utils/rotationForestry';
+import { SelectiveHarvestSettings, DEFAULT_SELECTIVE_HARVEST_SETTINGS, allocateHarvest, getDisturbanceShare, getHarvestYear, getRecoveryShare, normalizeSelectiveHarvestSettings } from '@/utils/selectiveHarvest';
+import { NaturalRegenerationSettings, DEFAULT_NATURAL_REGENERATION_SETTINGS, getEstablishmentDelay, getRecruitmentRate, getRegenerationCost, getRegrowthFactor, normalizeNaturalRegenerationSettings } from '@/utils/naturalRegeneration';
+import { AgroforestrySettings, AgroforestryLayout, DEFAULT_AGROFORESTRY_SETTINGS, calculateAgroforestryLayout, getCropPrice, getCropYield, getShadeLoss, normalizeAgroforestrySettings } from '@/utils/agroforestry';
+import { ClimateScenario, ClimateProjection, DEFAULT_CLIMATE_SCENARIO, getClimateChange, getClimateRegion } from '@/utils/climateScenarios';
+import { ClimateSuitability, getClimateEnvelope, getClimateSuitability } from '@/utils/climateSuitability';
+import { LaborPhases, LABOR_PHASES, createLaborPhases, getMaintenanceJobs, getPlantingLabor, getTotalJobYears } from '@/utils/employment';
+import { CREDITING_DEDUCTIONS, CreditingDeductions, CreditingSettings, getBufferContribution, getCreditingDeductions, normalizeCreditingSettings } from '@/utils/carbonCrediting';
+import { CarbonIssuance, CarbonPriceScenario, getCarbonPrice, getIssuanceSchedule } from '@/utils/carbonPricing';
+import { CashFlowSettings, CashFlowYear, DEFAULT_CASH_FLOW_SETTINGS, getInternalRateOfReturn, getMaintenanceCost, getNetPresentValue, getPaybackYear, getPlantingCost, normalizeCashFlowSettings } from '@/utils/cashFlow';
+import { DisturbanceSettings, DisturbanceDraw, DisturbanceLosses, DisturbanceRisks, DISTURBANCE_TYPES, createDisturbanceLosses, getDisturbanceLosses, getDisturbanceRisks, getTotalDisturbanceLoss } from '@/utils/disturbance';
+
+export type SimulationMode = 'planting' | 'clear-cutting' | 'rotation' | 'selective-harvest' | 'natural-regeneration' | 'agroforestry';
+export type CalculationMode = 'perTree' | 'perArea';
+
+export interface SoilData {
+  carbon: number | null;
+  ph: number | null;
+  isEstimated?: boolean;
+}
+
+export interface ClimateData {
+  temperature: number | null;
+  precipitation: number | null;
+  isEstimated?: boolean;
+  historicalData?: {
+    temperatures: number[];
+    precipitations: number[];
+    years: number[];
+  };
+}
+
+export interface ClimatePrediction {
+  temperature: number;
+  precipitation: number;
+  growthModifier: number;
+}
+
+export interface ImpactMetrics {
+  carbonSequestration: number;
+  biodiversityImpact: number;
+  forestResilience: number;
+  waterRetention: number;
+  airQualityImprovement: number;
+}
+
+export interface PlantingData {
+  area: number;
+  totalTrees: number;
+  spacing: number;
+  density: number;
+}
+
+// Per felled tree, in kg CO2
+export interface ClearCuttingCarbon {
+  harvested: number; // carbon in the felled tree
+  immediate: number; // residue released at harvest
+  productEmissions: number; // released by decaying wood products over the simulation
+  storedInProducts: number; // still held in wood products at the end of the simulation
+  woodProducts: WoodProductPools; // stored per product at the end of the simulation
+  productShares: WoodProductShares; // % of harvested carbon entering each product
+  lostFuture: number;
+  total: number; // immediate + product emissions + lost future sequestration
+}
+
+// Cumulative carbon of the harvest-and-replant and leave-standing scenarios, kg CO2 to date
+export interface PaybackYear {
+  year: number;
+  released: number; // harvest residue and wood product emissions
+  replanted: number; // taken up by the replanted stand
+  standing: number; // taken up by the stand had it not been cut
+}
+
+export interface CarbonPayback {
+  carbonDebt: number; // kg CO2 released by the harvest over the simulation, residue and products
+  paybackYear: number | null; // first year replanting repays the emissions to date, null if beyond the horizon
+  parityYear: number | null; // first year harvest-and-replant matches leaving the stand, null if beyond the horizon
+  replantSpecies: string[]; // names of the replanted species
+  timeline: PaybackYear[];
+}
+
+// Species replanted after a clear-cut
+export interface ReplantingSettings {
+  trees: TreeType[]; // empty replants the harvested species
+  percentages: { [key: string]: number }; // share of the replanted area per tree id
+}
+
+export interface TreeSurvival {
+  plantedTrees: number;
+  survivingTrees: number;
+  deadTrees: number;
+  survivalRate: number; // % of planted trees alive at the end of the simulation
+}
+
+export interface SpeciesCohort {
+  tree: TreeType;
+  areaShare: number; // share of the planted area (0-1)
+  spacing: number; // meters between trees of this species
+  plantedTrees: number; // trees planted (fractional in per-tree mode)
+  matureRate: number; // kg CO2/year per mature tree (whole-tree biomass)
+}
+
+// One cohort's state in one simulated year
+export interface CohortYear {
+  livingTrees: number;
+  annualCarbon: number; // kg CO2 taken up by the living trees
+  dbh: number; // cm
+  height: number; // m
+  recruitedTrees?: number; // seedlings that established that year (natural regeneration)
+  disturbedTrees?: DisturbanceLosses; // trees killed by fire, drought, windthrow and pest outbreaks that year
+}
+
+// One cohort's state in a year of a harvested stand
+export interface HarvestCohortYear extends CohortYear {
+  removedTrees: number; // harvested at the end of the year
+  removedCarbon: number; // kg CO2 in the stems and branches of the harvested trees
+}
+
+// One cohort's state in a year of rotation forestry
+export interface RotationCohortYear extends HarvestCohortYear {
+  revenue: number; // USD timber value of the harvested trees
+}
+
+export interface RotationHarvest {
+  year: number;
+  cycle: number; // rotation number, from 1
+  standAge: number;
+  type: 'thinning' | 'final';
+  removedTrees: number;
+  removals: number; // kg CO2 taken out of the stand
+  revenue: number; // USD
+}
+
+// Year-by-year growth and harvests of a rotation run
+export interface RotationGrowth {
+  cohortYears: RotationCohortYear[][];
+  harvests: RotationHarvest[];
+  cycles: number; // rotations started within the simulation
+}
+
+export interface RotationSummary {
+  settings: RotationSettings; // as simulated, after clamping
+  cycles: number; // rotations started within the simulation
+  completedRotations: number;
+  harvests: RotationHarvest[];
+  totalRemovals: number; // kg CO2
+  totalRevenue: number; // USD
+  averageCarbonStock: number; // long-term average of ecosystem and wood product carbon, kg CO2
+  averageStandingStock: number; // average carbon in living trees, kg CO2
+}
+
+// Year-by-year effect of a selective harvest on an existing stand
+export interface SelectiveHarvestGrowth {
+  cohortYears: HarvestCohortYear[][]; // annualCarbon is the uptake lost against leaving the stand
+  harvestYears: WoodProductYear[]; // residue, wood product and deadwood emissions
+  summary: SelectiveHarvestSummary;
+}
+
+// Stand totals, kg CO2 (per tree in per-tree mode)
+export interface SelectiveHarvestSummary {
+  settings: SelectiveHarvestSettings; // as simulated, after clamping
+  harvestYear: number | null; // null when the stand reaches the minimum age too late
+  standAge: number; // at the harvest
+  felledTrees: number;
+  damagedTrees: number; // remaining trees killed by felling and skidding
+  stemsRemoved: number; // % of stems felled
+  basalAreaRemoved: number; // % of basal area felled
+  disturbance: number; // % of the stand felled or killed
+  harvested: number; // carbon in the felled stems and branches
+  immediate: number; // residue released at harvest
+  productEmissions: number; // released by decaying wood products over the simulation
+  storedInProducts: number; // still held in wood products at the end of the simulation
+  deadwood: number; // carbon in the roots of felled trees and in the damaged trees
+  deadwoodEmissions: number; // released by that deadwood over the simulation
+  lostSequestration: number; // uptake lost against leaving the stand
+  recoveryUptake: number; // lost uptake regained as the residual stand closes the gaps
+  total: number; // immediate + product emissions + deadwood emissions + lost sequestration
+}
+
+// Recruitment, stocking and cost of a naturally regenerating stand against planting it
+export interface NaturalRegenerationSummary {
+  settings: NaturalRegenerationSettings; // as simulated, after clamping
+  recruitmentRate: number; // seedlings established per hectare per year
+  regrowthFactor: number; // regional recruitment and growth multiplier
+  firstRecruitmentYear: number | null; // null when no seedlings establish within the simulation
+  stockedYear: number | null; // year the last of the target trees establish
+  targetTrees: number; // the trees a planting would put in
+  establishedTrees: number; // living at the end of the simulation
+  establishmentCost: number; // USD for ANR measures; nothing is planted
+  plantingCost: number; // USD to plant the same stand instead
+  plantingCarbon: number; // kg CO2 the same stand would hold if planted
+}
+
+// Fire, drought, windthrow and pest outbreak losses of a grown stand
+export interface DisturbanceSummary {
+  sampled: boolean; // events drawn for this run (Monte Carlo) rather than expected losses
+  risks: DisturbanceRisks; // mean annual chance and share of trees killed, across years and species
+  treesLost: DisturbanceLosses; // trees killed over the simulation
+  totalTreesLost: number;
+  carbonLoss: number; // kg CO2 less stored than without disturbance
+  events: Array<{ year: number; type: keyof DisturbanceLosses }>; // years an event struck (sampled runs)
+}
+
+// Projected climate against a species' envelope
+export interface SpeciesClimateSuitability {
+  speciesId: string;
+  name: string;
+  envelope: ClimateEnvelope;
+  stressedYear: number | null; // first year the projected climate leaves the envelope, null if it never does
+  unsuitableYear: number | null; // first year it is far enough outside to flag the species unsuitable
+  finalGrowthFactor: number; // share of growth left in the final year (0-1)
+  finalExtraMortality: number; // %/yr added to mortality in the final year (applied when mortality is on)
+}
+
+// Removals credited for one vintage year, t CO2
+export interface CreditingVintage {
+  year: number;
+  removals: number; // change in the stand's carbon that year, negative for a reversal
+  deductions: CreditingDeductions;
+  creditable: number; // removals less the deductions
+  cumulativeCreditable: number;
+}
+
+// Net creditable tonnes of a grown stand (per tree in per-tree mode)
+export interface CreditingSummary {
+  settings: CreditingSettings; // as simulated, after clamping
+  bufferContribution: number; // % of the credits after leakage and uncertainty, weighted by species carbon
+  speciesBuffers: Array<{ speciesId: string; name: string; contribution: number }>;
+  vintages: CreditingVintage[];
+  totalRemovals: number; // t CO2
+  totalDeductions: CreditingDeductions;
+  totalCreditable: number;
+}
+
+// Credit revenue and returns of a grown stand under one carbon price path, USD
+export interface CarbonPriceScenarioResult {
+  scenario: CarbonPriceScenario;
+  creditRevenue: number;
+  averagePrice: number; // USD per t CO2 issued
+  netPresentValue: number;
+  internalRateOfReturn: number | null; // %, null when the flows never break even
+  paybackYear: number | null; // first year the cumulative flow is back to zero, null if beyond the horizon
+}
+
+// Costs, revenue and returns of a grown stand (per tree in per-tree mode), USD
+export interface CashFlowSummary {
+  settings: CashFlowSettings; // as simulated, after clamping
+  years: CashFlowYear[]; // from year 0 (planting) to the final year, at the first price scenario
+  issuances: CarbonIssuance[];
+  issuedTonnes: number; // t CO2 issued over the simulation
+  scenarios: CarbonPriceScenarioResult[]; // one per price scenario, in the order of the settings
+  totalCosts: number;
+  totalRevenue: number;
+  netPresentValue: number;
+  internalRateOfReturn: number | null; // %, null when the flows never break even
+  paybackYear: number | null; // first year the cumulative flow is back to zero, null if beyond the horizon
+  carbonTonnes: number; // t CO2 stored by the final year
+  costPerTonne: number | null; // present value of the costs per tonne stored, null when nothing is stored
+}
+
+// Row layout and crop output of an agroforestry stand (per tree in per-tree mode)
+export interface AgroforestrySummary {
+  settings: AgroforestrySettings; // as simulated, after clamping
+  layout: AgroforestryLayout;
+  cropArea: number; // hectares cropped between the tree rows
+  cropYield: number; // t/ha/year in full sun
+  cropPrice: number; // USD per tonne
+  firstYearOutput: number; // t
+  finalYearOutput: number; // t
+  totalCropOutput: number; // t over the simulation
+  totalCropRevenue: number; // USD
+  finalShadeLoss: number; // % of the yield lost to shade in the last year
+}
+
+export interface SpeciesYear {
+  speciesId: string;
+  livingTrees: number;
+  annualCarbon: number; // kg CO2 sequestered (or lost) by this species that year
+  cumulativeCarbon: number; // kg CO2 to date, excluding any harvest debt
+  carbonShare: number; // % of all species' cumulative carbon
+  dbh: number; // cm, planted trees of this species (0 once clear-cut)
+  height: number; // m
+}
+
+export interface SpeciesResult {
+  speciesId: string;
+  name: string;
+  areaShare: number; // % of the planted area
+  spacing: number;
+  plantedTrees: number;
+  survivingTrees: number;
+  totalCarbon: number; // kg CO2 over the simulation
+  carbonShare: number; // % of all species' carbon
+  dbh: number; // cm at the end of the simulation
+  height: number; // m at the end of the simulation
+}
+
+export interface LandUseImpact {
+  erosionReduction: number;
+  soilImprovement: number;
+  habitatCreation: number;
+  waterQuality: number;
+}
+
+export interface SocialImpact {
+  score: number;
+  diversityBonus: number;
+  timeBonus: number;
+  areaBonus: number;
+}
+
+export interface EconomicImpact {
+  jobCreation: number;
+}
+
+// Job-years of work in each phase in one simulation year
+export interface LaborYear {
+  year: number;
+  jobYears: LaborPhases;
+  total: number;
+}
+
+// Work the project creates over the simulation, in job-years (per-area mode)
+export interface EmploymentSummary {
+  planting: { crewSize: number; seasons: number; projectScale: string } | null; // first planting, null when nothing is planted
+  years: LaborYear[];
+  totals: LaborPhases;
+  totalJobYears: number;
+  peakJobs: number; // full-time jobs in the busiest year
+  peakYear: number | null;
+  averageJobs: number; // full-time jobs per year over the simulation
+}
+
+// Multipliers applied to model assumptions for uncertainty and sensitivity runs
+export interface SimulationScales {
+  mortality?: number; // scales every annual mortality rate
+  climateTrend?: number; // scales the projected warming and precipitation change
+}
+
+export interface SimulationInput {
+  latitude: number;
+  longitude: number;
+  years: number;
+  selectedRegion?: RegionBounds | null;
+  plantingData?: PlantingData | null;
+  selectedTreeType?: TreeType | null;
+  selectedTrees?: TreeType[];
+  treePercentages?: { [key: string]: number };
+  simulationMode?: SimulationMode;
+  calculationMode?: CalculationMode;
+  averageTreeAge?: number;
+  soil?: SoilData | null;
+  climate?: ClimateData | null;
+  climateScenario?: ClimateScenario; // Emissions scenario for the projected climate, SSP2-4.5 by default
+  mortality?: MortalitySettings | null;
+  scales?: SimulationScales;
+  parameters?: ModelParameters; // Model coefficients, defaults from constants.ts
+  growthModel?: GrowthModel; // How yearly sequestration is derived, allometric by default
+  woodProductShares?: WoodProductOverrides | null; // Per-species end-use shares of harvested carbon
+  replanting?: ReplantingSettings | null; // Species replanted after a clear-cut, the harvested species by default
+  rotation?: RotationSettings | null; // Rotation length, thinnings and replanting (rotation mode)
+  selectiveHarvest?: SelectiveHarvestSettings | null; // Intensity, minimum age and damage (selective harvest mode)
+  naturalRegeneration?: NaturalRegenerationSettings | null; // Seed source distance and assistance (natural regeneration mode)
+  agroforestry?: AgroforestrySettings | null; // Row layout and alley crop (agroforestry mode)
+  disturbance?: DisturbanceSettings | null; // Fire, drought, windthrow and pest outbreak risk for grown stands
+  disturbanceDraws?: DisturbanceDraw[] | null; // One draw per year to sample events (Monte Carlo runs); expected losses when unset
+  cashFlow?: CashFlowSettings | null; // Discount rate, verification interval and carbon prices for the project cash flow of grown stands
+  crediting?: CreditingSettings | null; // Baseline, leakage and uncertainty deductions for net creditable tonnes
+}
+
+export interface SimulationYear {
+  year: number;
+  annualCarbon: number; // kg CO2 sequestered (or lost) that year
+  cumulativeCarbon: number; // kg CO2 to date
+  livingTrees: number;
+  deadTrees: number; // cumulative planted or recruited trees lost to mortality
+  biodiversity: number;
+  resilience: number;
+  waterRetention: number;
+  airQuality: number;
+  temperature: number | null; // predicted °C, null without climate data
+  precipitation: number | null; // predicted mm, null without climate data
+  growthModifier: number;
+  species: SpeciesYear[];
+  pools: CarbonPools | null; // carbon stored per pool to date (planting, rotation and natural regeneration modes)
+  standingStock: number; // kg CO2 in living trees (planting and rotation modes)
+  removals: number; // kg CO2 harvested from the stand that year (rotation and selective harvest modes)
+  harvestEmissions: number; // kg CO2 released that year by harvest residue, wood products and harvest deadwood (harvest and rotation modes)
+  woodProducts: WoodProductPools | null; // carbon still stored in wood products (harvest and rotation modes)
+  cropOutput: number; // tonnes of crop harvested from the alleys that year (agroforestry mode)
+  shadeLoss: number; // % of the crop yield lost to tree shade that year (agroforestry mode)
+  disturbance: DisturbanceLosses | null; // trees killed by fire, drought, windthrow and pest outbreaks that year, null when disturbance risk is off
+}
+
+export interface SimulationResult {
+  totalTrees: number;
+  area: number;
+  hasClimateData: boolean;
+  climateProjection: ClimateProjection | null;
+  impact: ImpactMetrics;
+  annualCarbon: number;
+  totalCarbon: number;
+  clearCutting: ClearCuttingCarbon;
+  carbonPayback: CarbonPayback | null;
+  rotation: RotationSummary | null;
+  selectiveHarvest: SelectiveHarvestSummary | null;
+  naturalRegeneration: NaturalRegenerationSummary | null;
+  agroforestry: AgroforestrySummary | null;
+  disturbance: DisturbanceSummary | null;
+  climateSuitability: SpeciesClimateSuitability[] | null; // planted, rotation, regenerating and agroforestry stands with climate data
+  crediting: CreditingSummary | null; // grown stands when carbon crediting is on
+  cashFlow: CashFlowSummary | null; // planted, rotation, regenerating and agroforestry stands
+  survival: TreeSurvival | null;
+  species: SpeciesResult[];
+  carbonPools: CarbonPools | null; // final-year pool breakdown (planting mode)
+  averageBiodiversity: number;
+  averageResilience: number;
+  socialImpact: SocialImpact;
+  landUseImpact: LandUseImpact;
+  economicImpact: EconomicImpact;
+  employment: EmploymentSummary | null; // per-area mode
+  comparisons: string[];
+  timeSeries: SimulationYear[];
+}
+
+// Check whether both temperature and precipitation are known
+export const hasClimateData = (climate?: ClimateData | null): boolean => {
+  return climate?.temperature !== null && climate?.temperature !== undefined &&
+         climate?.precipitation !== null && climate?.precipitation !== undefined;
+};
+
+export const calculateGrowthModifier = (
+  predictedTemp: number,
+  predictedPrecip: number,
+  currentTemp: number,
+  currentPrecip: number,
+  parameters: ModelParameters = DEFAULT_MODEL_PARAMETERS
+): number => {
+  const { environment } = parameters;
+
+  // Temperature change impact (trees generally grow better with moderate warming)
+  const tempChange = predictedTemp - currentTemp;
+  const tempModifier = 1 + (tempChange * environment.TEMPERATURE_CHANGE_FACTOR);
+
+  // Precipitation change impact
+  const precipChange = predictedPrecip - currentPrecip;
+  const precipModifier = 1 + (precipChange * environment.PRECIPITATION_CHANGE_FACTOR);
+
+  return Math.max(environment.MIN_GROWTH_MODIFIER, Math.min(environment.MAX_GROWTH_MODIFIER, tempModifier * precipModifier));
+};
+
+// Fallback temperature for a latitude when no climate data is available
+const getFallbackTemperature = (latitude: number, parameters: ModelParameters): number => {
+  const { defaultClimate } = parameters;
+  const absLat = Math.abs(latitude);
+  if (absLat < defaultClimate.TROPICAL_MAX_LATITUDE) return defaultClimate.TROPICAL_TEMP;
+  if (absLat < defaultClimate.TEMPERATE_MAX_LATITUDE) return defaultClimate.TEMPERATE_TEMP;
+  if (absLat < defaultClimate.BOREAL_MAX_LATITUDE) return defaultClimate.BOREAL_TEMP;
+  return defaultClimate.ARCTIC_TEMP;
+};
+
+/**
+ * Climate in a simulation year under an emissions scenario
+ * Today's temperature and precipitation shift by the regional change the
+ * scenario projects for that many years ahead.
+ */
+export const predictFutureClimate = (
+  currentTemp: number | null,
+  currentPrecip: number | null,
+  year: number,
+  latitude: number,
+  longitude: number,
+  scenario: ClimateScenario = DEFAULT_CLIMATE_SCENARIO,
+  changeScale: number = 1,
+  parameters: ModelParameters = DEFAULT_MODEL_PARAMETERS
+): ClimatePrediction => {
+  // Default values based on latitude if no data available
+  const baseTemp = currentTemp ?? getFallbackTemperature(latitude, parameters);
+  const basePrecip = currentPrecip ?? parameters.defaultClimate.DEFAULT_PRECIPITATION;
+  const change = getClimateChange(latitude, longitude, scenario, year, changeScale);
+  const predictedTemp = baseTemp + change.warming;
+  const predictedPrecip = Math.max(0, basePrecip * (1 + change.precipitationChange / 100));
+
+  // Calculate growth modifier based on predicted conditions
+  const growthModifier = calculateGrowthModifier(predictedTemp, predictedPrecip, baseTemp, basePrecip, parameters);
+
+  return {
+    temperature: predictedTemp,
+    precipitation: predictedPrecip,
+    growthModifier
+  };
+};
+
+// Split a felled tree's carbon into residue and decaying wood products
+const splitHarvest = (
+  harvested: number,
+  lostFuture: number,
+  productShares: WoodProductShares,
+  simulationYears: number,
+  parameters: ModelParameters
+): ClearCuttingCarbon => {
+  const { residue, series } = decayWoodProducts(harvested, productShares, simulationYears, parameters);
+  const woodProducts = series.length > 0 ? series[series.length - 1].pools : { sawnwood: 0, panels: 0, paper: 0 };
+  const storedInProducts = series.length > 0 ? getTotalProductCarbon(woodProducts) : harvested - residue;
+  const productEmissions = harvested - residue - storedInProducts;
+
+  return {
+    harvested,
+    immediate: residue,
+    productEmissions,
+    storedInProducts,
+    woodProducts,
+    productShares,
+    lostFuture,
+    total: residue + productEmissions + lostFuture
+  };
+};
+
+// kg CO2 in the trunk of a felled tree of a given age
+export const getTrunkCarbon = (treeAge: number, parameters: ModelParameters = DEFAULT_MODEL_PARAMETERS): number => {
+  // Research shows mature oak stores ~20-50 kg carbon (73-183 kg CO2)
+  // Piecewise accumulation: fast when young, slower when growing, minimal when mature
+  const trunk = parameters.trunkCarbon;
+  const youngCarbon = trunk.YOUNG_RATE * trunk.YOUNG_MAX_AGE;
+  const growingCarbon = youngCarbon + trunk.GROWING_RATE * (trunk.GROWING_MAX_AGE - trunk.YOUNG_MAX_AGE);
+  let trunkCarbonKg = 0;
+  if (treeAge <= trunk.YOUNG_MAX_AGE) {
+    trunkCarbonKg = treeAge * trunk.YOUNG_RATE;
+  } else if (treeAge <= trunk.GROWING_MAX_AGE) {
+    trunkCarbonKg = youngCarbon + (treeAge - trunk.YOUNG_MAX_AGE) * trunk.GROWING_RATE;
+  } else {
+    // Very old trees stop accumulating after the mature age
+    trunkCarbonKg = growingCarbon + (Math.min(treeAge, trunk.MATURE_MAX_AGE) - trunk.GROWING_MAX_AGE) * trunk.MATURE_RATE;
+  }
+
+  // Convert carbon to CO2
+  return trunkCarbonKg * parameters.carbon.CARBON_TO_CO2;
+};
+
+// Carbon released and future sequestration lost when trees are clear-cut
+export const calculateClearCuttingCarbon = (
+  matureRate: number,
+  treeAge: number,
+  simulationYears: number,
+  growthFactor: (age: number) => number,
+  parameters: ModelParameters = DEFAULT_MODEL_PARAMETERS,
+  productShares: WoodProductShares = { sawnwood: 0, panels: 0, paper: 0 }
+): ClearCuttingCarbon => {
+  // Calculate realistic carbon stored in tree trunk based on age
+  const harvested = getTrunkCarbon(treeAge, parameters);
+
+  // Calculate lost future sequestration over simulation period
+  let lostFutureSequestration = 0;
+  for (let year = 1; year <= simulationYears; year++) {
+    const futureAge = treeAge + year;
+    const annualSequestration = matureRate * growthFactor(futureAge);
+    lostFutureSequestration += annualSequestration;
+  }
+
+  return splitHarvest(harvested, lostFutureSequestration, productShares, simulationYears, parameters);
+};
+
+// Resolve the number of trees simulated from planting data or the selected region
+export const resolveTotalTrees = (plantingData?: PlantingData | null, selectedRegion?: RegionBounds | null): number => {
+  return plantingData?.totalTrees || (selectedRegion ? calculateRegionArea(selectedRegion) * TREE_SPACING_CONFIGS.standard.density : 1);
+};
+
+// Resolve the simulated area in hectares
+export const resolveArea = (plantingData?: PlantingData | null, selectedRegion?: RegionBounds | null): number => {
+  return plantingData?.area || (selectedRegion ? calculateRegionArea(selectedRegion) : 0);
+};
+
+// Check whether tree percentages form a complete 100% distribution
+export const hasCompletePercentages = (treePercentages?: { [key: string]: number }): boolean => {
+  return !!treePercentages && Object.values(treePercentages).reduce((sum, p) => sum + (p || 0), 0) === 100;
+};
+
+// Modes that harvest an existing forest rather than grow a new one
+export const isHarvestMode = (simulationMode: SimulationMode): boolean => {
+  return simulationMode === 'clear-cutting' || simulationMode === 'selective-harvest';
+};
+
+/**
+ * Share of the stand felled or killed within the simulation (0-1)
+ * Grown stands are untouched and a clear-cut removes everything; a selective
+ * harvest counts once the stand reaches the minimum harvest age.
+ */
+export const getStandDisturbance = (input: SimulationInput): number => {
+  const { simulationMode = 'planting', years, averageTreeAge = 20 } = input;
+  if (simulationMode === 'clear-cutting') return 1;
+  if (simulationMode !== 'selective-harvest') return 0;
+
+  const settings = normalizeSelectiveHarvestSettings(input.selectiveHarvest ?? DEFAULT_SELECTIVE_HARVEST_SETTINGS);
+  return getHarvestYear(settings, averageTreeAge) <= years ? getDisturbanceShare(settings) : 0;
+};
+
+export const calculateImpact = (input: SimulationInput, totalTrees: number): ImpactMetrics => {
+  const {
+    latitude: lat,
+    years,
+    climate,
+    selectedTreeType: treeType,
+    selectedTrees: treeTypes,
+    treePercentages,
+    calculationMode = 'perArea',
+    parameters = DEFAULT_MODEL_PARAMETERS
+  } = input;
+  const { impact: caps, environment, defaultClimate, waterRetention: water, airQuality: air } = parameters;
+  const absLat = Math.abs(lat);
+
+  // Grown stands improve and cleared ones degrade; a selective harvest sits
+  // between the two in proportion to the share of the stand it fells or kills
+  const disturbance = getStandDisturbance(input);
+  const blend = (grown: number, cleared: number) => grown * (1 - disturbance) + cleared * disturbance;
+
+  // Handle multiple trees with percentage distribution
+  let biodiversityBase = 0;
+  let resilienceBase = 0;
+
+  if (treeTypes && treeTypes.length > 0) {
+    if (treePercentages && hasCompletePercentages(treePercentages)) {
+      // Use percentage distribution
+      treeTypes.forEach(tree => {
+        const percentage = treePercentages[tree.id] || 0;
+        const weight = percentage / 100;
+        biodiversityBase += tree.biodiversityValue * weight;
+        resilienceBase += tree.resilienceScore * weight;
+      });
+    } else {
+      // Fallback to equal distribution
+      const biodiversitySum = treeTypes.reduce((sum, tree) => sum + tree.biodiversityValue, 0);
+      const resilienceSum = treeTypes.reduce((sum, tree) => sum + tree.resilienceScore, 0);
+
+      biodiversityBase = biodiversitySum / treeTypes.length;
+      resilienceBase = resilienceSum / treeTypes.length;
+    }
+  } else if (treeType) {
+    // Single tree type
+    biodiversityBase = treeType.biodiversityValue;
+    resilienceBase = treeType.resilienceScore;
+  } else {
+    // No trees selected - return zero values
+    biodiversityBase = 0;
+    resilienceBase = 0;
+  }
+
+  // Apply environmental modifiers
+  if (climate?.precipitation) resilienceBase += climate.precipitation * environment.PRECIPITATION_TO_RESILIENCE;
+
+  // Mature stand sequestration: every species cohort at its own tree count
+  const carbonSequestration = buildCohorts(input, totalTrees)
+    .reduce((sum, cohort) => sum + cohort.plantedTrees * cohort.matureRate, 0);
+
+  // Biodiversity and resilience: grown stands improve over time, cleared stands
+  // degrade over time; both scale with forest size (more trees = more damage when cleared)
+  const biodiversityTimeBonus = blend(
+    Math.min(caps.MAX_TIME_BONUS, years * caps.BIODIVERSITY_TIME_BONUS),
+    Math.max(-caps.MAX_TIME_BONUS, -years * caps.BIODIVERSITY_TIME_BONUS)
+  );
+  const resilienceTimeBonus = blend(
+    Math.min(caps.MAX_TIME_BONUS, years * caps.RESILIENCE_TIME_BONUS),
+    Math.max(-caps.MAX_TIME_BONUS, -years * caps.RESILIENCE_TIME_BONUS)
+  );
+  const forestSizeBonus = calculationMode === 'perArea' ? Math.min(caps.MAX_FOREST_SIZE_BONUS, Math.log10(totalTrees) * caps.FOREST_SIZE_FACTOR) : 0;
+
+  const biodiversityImpact = Math.min(caps.MAX_BIODIVERSITY, Math.max(caps.MIN_BIODIVERSITY, biodiversityBase + biodiversityTimeBonus + forestSizeBonus));
+  const forestResilience = Math.min(caps.MAX_RESILIENCE, Math.max(caps.MIN_RESILIENCE, resilienceBase + resilienceTimeBonus + forestSizeBonus));
+
+  // Water retention calculation
+  let waterBase = water.BASE_RATE;
+
+  // Only apply geographic assumptions if we don't have actual climate data
+  if (climate?.precipitation === null || climate?.precipitation === undefined) {
+    // Use geographic fallbacks when no precipitation data available
+    waterBase = absLat < defaultClimate.TROPICAL_MAX_LATITUDE
+      ? water.BASE_RATE + water.TROPICAL_BONUS
+      : absLat < defaultClimate.TEMPERATE_MAX_LATITUDE ? water.BASE_RATE + water.TEMPERATE_BONUS : water.BOREAL_BASE;
+  } else {
+    // Use actual precipitation data to calculate water retention
+    // Higher precipitation means better water retention potential
+    const precipBonus = climate.precipitation > water.HIGH_PRECIPITATION_THRESHOLD ? water.HIGH_PRECIPITATION_BONUS
+      : climate.precipitation > water.MEDIUM_PRECIPITATION_THRESHOLD ? water.MEDIUM_PRECIPITATION_BONUS
+      : climate.precipitation > water.LOW_PRECIPITATION_THRESHOLD ? water.LOW_PRECIPITATION_BONUS : 0;
+    waterBase = Math.max(water.MIN_BASE, Math.min(water.MAX_BASE, water.BASE_RATE + precipBonus));
+  }
+
+  // Water retention: grown stands improve over time and scale with forest size
+  // (more trees = better retention); cleared stands degrade (more trees = more damage)
+  const waterTimeBonus = blend(years * water.ANNUAL_IMPROVEMENT, -years * water.ANNUAL_DEGRADATION);
+  const waterSizeBonus = calculationMode === 'perArea'
+    ? blend(
+        Math.min(water.MAX_SIZE_BONUS, Math.log10(totalTrees) * water.SIZE_FACTOR),
+        Math.min(water.MAX_SIZE_IMPACT_CLEARING, Math.log10(totalTrees) * water.SIZE_FACTOR_CLEARING)
+      )
+    : 0;
+
+  const waterRetention = Math.min(water.MAX_RETENTION, Math.max(0, waterBase + waterTimeBonus + waterSizeBonus));
+
+  // Air quality improves over time as trees mature and grow larger
+  // Base air quality improvement varies by climate zone (more impact in polluted areas)
+  let airQualityBase = air.BASE_QUALITY; // Default temperate zone
+
+  // Only apply geographic assumptions if we don't have actual climate data
+  if (climate?.temperature === null || climate?.temperature === undefined ||
+      climate?.precipitation === null || climate?.precipitation === undefined) {
+    // Use geographic fallbacks when no climate data available
+    if (absLat < defaultClimate.TROPICAL_MAX_LATITUDE) {
+      airQualityBase = air.BASE_QUALITY + air.TROPICAL_BONUS; // Tropical - higher impact due to year-round growth and dense vegetation
+    } else if (absLat < defaultClimate.TEMPERATE_MAX_LATITUDE) {
+      airQualityBase = air.BASE_QUALITY + air.TEMPERATE_BASELINE; // Temperate - moderate impact
+    } else {
+      airQualityBase = air.BASE_QUALITY + air.BOREAL_PENALTY; // Boreal/Arctic - lower impact due to shorter growing seasons
+    }
+  } else {
+    // Use actual climate data to adjust air quality impact
+    // Higher temperatures and precipitation generally mean better air quality improvement potential
+    const tempBonus = climate.temperature > air.TEMPERATURE_HIGH_THRESHOLD ? air.TEMP_BONUS_HIGH
+      : climate.temperature > air.TEMPERATURE_LOW_THRESHOLD ? 0 : air.TEMP_PENALTY_LOW;
+    const precipBonus = climate.precipitation > air.PRECIPITATION_HIGH_THRESHOLD ? air.PRECIP_BONUS_HIGH
+      : climate.precipitation > air.PRECIPITATION_LOW_THRESHOLD ? 0 : air.PRECIP_PENALTY_LOW;
+    airQualityBase = Math.max(air.MIN_BASE, Math.min(air.MAX_BASE, air.BASE_QUALITY + tempBonus + precipBonus));
+  }
+
+  // Air quality: grown stands improve over time and scale with forest size (more trees = better air quality)
+  const airTimeBonus = years * air.ANNUAL_IMPROVEMENT;
+  const airSizeBonus = calculationMode === 'perArea' ? Math.min(air.MAX_SIZE_BONUS, Math.log10(totalTrees) * air.SIZE_FACTOR) : 0;
+  const grownAirQuality = Math.min(air.MAX_IMPROVEMENT, Math.max(0, airQualityBase + airTimeBonus + airSizeBonus));
+
+  // Cleared stands: immediately negative impact, gets worse over time
+  const immediateImpact = calculationMode === 'perArea'
+    ? Math.min(air.MAX_IMMEDIATE_IMPACT, Math.log10(totalTrees) * air.IMMEDIATE_SIZE_FACTOR)
+    : air.PER_TREE_IMMEDIATE_IMPACT;
+  const timeDegradation = years * air.ANNUAL_DEGRADATION;
+  const clearedAirQuality = Math.max(air.MAX_DEGRADATION, -(immediateImpact + timeDegradation)); // Start negative
+
+  const airQualityImprovement = blend(grownAirQuality, clearedAirQuality);
+
+  return {
+    carbonSequestration: Math.max(0, carbonSequestration),
+    biodiversityImpact: Math.max(0, biodiversityImpact),
+    forestResilience: Math.max(0, forestResilience),
+    waterRetention: Math.max(0, waterRetention),
+    airQualityImprovement: Math.max(0, airQualityImprovement)
+  };
+};
+
+/**
+ * Split the stand into one cohort per species
+ * Percentages are shares of the planted area; each species is planted at its
+ * own recommended spacing, and counts are scaled to the stand's total trees.
+ */
+export const buildCohorts = (input: SimulationInput, totalTrees: number): SpeciesCohort[] => {
+  const { selectedTreeType, selectedTrees, treePercentages, calculationMode = 'perArea' } = input;
+  const trees = selectedTrees && selectedTrees.length > 0 ? selectedTrees : selectedTreeType ? [selectedTreeType] : [];
+  if (trees.length === 0) return [];
+
+  const useShares = trees.length > 1 && hasCompletePercentages(treePercentages);
+  const standTrees = calculationMode === 'perArea' ? totalTrees : 1;
+
+  const layout = trees.map(tree => {
+    const areaShare = useShares ? (treePercentages![tree.id] || 0) / 100 : 1 / trees.length;
+    const spacing = TREE_SPACING_CONFIGS[getRecommendedSpacing(tree.name)].spacing;
+    return { tree, areaShare, spacing, weight: areaShare * (10000 / (spacing * spacing)) };
+  });
+  const totalWeight = layout.reduce((sum, entry) => sum + entry.weight, 0);
+
+  return layout.map(({ tree, areaShare, spacing, weight }) => ({
+    tree,
+    areaShare,
+    spacing,
+    plantedTrees: totalWeight > 0 ? standTrees * weight / totalWeight : 0,
+    matureRate: tree.carbonSequestration
+  }));
+};
+
+/**
+ * Relative stand sequestration (0-1) at a given age
+ * Species curves are weighted by each cohort's mature sequestration.
+ */
+export const getStandGrowthFactor = (
+  cohorts: SpeciesCohort[],
+  age: number,
+  parameters: ModelParameters = DEFAULT_MODEL_PARAMETERS
+): number => {
+  const totalRate = cohorts.reduce((sum, cohort) => sum + cohort.plantedTrees * cohort.matureRate, 0);
+  if (totalRate <= 0) return getDefaultGrowthFactor(age, parameters.growthCurve);
+
+  return cohorts.reduce(
+    (sum, cohort) => sum + getSpeciesGrowthFactor(cohort.tree, age, parameters.growthCurve) * cohort.plantedTrees * cohort.matureRate,
+    0
+  ) / totalRate;
+};
+
+// Similar growth curve for biodiversity and resilience
+export const getEcosystemGrowthFactor = (year: number, parameters: ModelParameters = DEFAULT_MODEL_PARAMETERS): number => {
+  const factors = parameters.ecosystemGrowth;
+  if (year === 1) return factors.YEAR_1;
+  else if (year === 2) return factors.YEAR_2;
+  else if (year === 3) return factors.YEAR_3;
+  else if (year === 4) return factors.YEAR_4;
+  else if (year === 5) return factors.YEAR_5;
+  else if (year === 6) return factors.YEAR_6;
+  else return factors.YEAR_7_PLUS;
+};
+
+// Predict the climate for a simulation year - only when we have actual climate data
+export const getClimatePrediction = (input: SimulationInput, year: number): ClimatePrediction | null => {
+  const { climate, latitude, longitude, climateScenario, scales, parameters = DEFAULT_MODEL_PARAMETERS } = input;
+  if (!climate || !hasClimateData(climate)) return null;
+
+  return predictFutureClimate(
+    climate.temperature,
+    climate.precipitation,
+    year,
+    latitude,
+    longitude,
+    climateScenario ?? DEFAULT_CLIMATE_SCENARIO,
+    scales?.climateTrend,
+    parameters
+  );
+};
+
+// Scenario, region and change by the final year - only when we have actual climate data
+const getClimateProjection = (input: SimulationInput): ClimateProjection | null => {
+  if (!hasClimateData(input.climate)) return null;
+  const scenario = input.climateScenario ?? DEFAULT_CLIMATE_SCENARIO;
+
+  return {
+    scenario,
+    region: getClimateRegion(input.latitude, input.longitude).label,
+    year: input.years,
+    ...getClimateChange(input.latitude, input.longitude, scenario, input.years, input.scales?.climateTrend)
+  };
+};
+
+// Mortality thins whole stands; a single tree is simulated as a survivor
+export const isMortalityApplied = (input: SimulationInput): boolean => {
+  return !!input.mortality?.enabled && (input.calculationMode ?? 'perArea') === 'perArea';
+};
+
+// Disturbance thins grown stands; harvest modes and single trees are left alone
+export const isDisturbanceApplied = (input: SimulationInput): boolean => {
+  return !!input.disturbance?.enabled && (input.calculationMode ?? 'perArea') === 'perArea' && !isHarvestMode(input.simulationMode ?? 'planting');
+};
+
+// Disturbance risk of each cohort in a simulation year, from the predicted climate
+export const getCohortDisturbanceRisks = (input: SimulationInput, cohorts: SpeciesCohort[], year: number): DisturbanceRisks[] => {
+  const { latitude, climate, parameters = DEFAULT_MODEL_PARAMETERS } = input;
+  const prediction = getClimatePrediction(input, year);
+  const conditions = {
+    precipitation: prediction ? prediction.precipitation : parameters.defaultClimate.DEFAULT_PRECIPITATION,
+    warming: prediction && climate?.temperature != null ? prediction.temperature - climate.temperature : 0
+  };
+  return cohorts.map(cohort => getDisturbanceRisks(cohort.tree, latitude, conditions, parameters));
+};
+
+// Growth and extra mortality of each cohort in the projected climate, null without climate data
+export const getCohortSuitability = (input: SimulationInput, cohorts: SpeciesCohort[], year: number): ClimateSuitability[] | null => {
+  const prediction = getClimatePrediction(input, year);
+  if (!prediction) return null;
+  return cohorts.map(cohort => getClimateSuitability(cohort.tree, prediction.temperature, prediction.precipitation, input.parameters));
+};
+
+// Share of each cohort's trees killed by each disturbance in a year, null when disturbance is off
+const getCohortDisturbanceLosses = (input: SimulationInput, cohorts: SpeciesCohort[], year: number): DisturbanceLosses[] | null => {
+  if (!isDisturbanceApplied(input)) return null;
+  const draw = input.disturbanceDraws?.[year - 1] ?? null;
+  return getCohortDisturbanceRisks(input, cohorts, year).map(risks => getDisturbanceLosses(risks, draw));
+};
+
+// Trees killed by each disturbance out of the living trees
+const scaleDisturbanceLosses = (shares: DisturbanceLosses, trees: number): DisturbanceLosses => ({
+  fire: shares.fire * trees,
+  drought: shares.drought * trees,
+  windthrow: shares.windthrow * trees,
+  pest: shares.pest * trees
+});
+
+/**
+ * Spacing each cohort is actually planted at
+ * Stand tree counts may differ from the species' recommended spacing, so in
+ * per-area mode every spacing is scaled to fit the trees into the planted area.
+ */
+export const getPlantedSpacings = (input: SimulationInput, cohorts: SpeciesCohort[]): number[] => {
+  const footprint = cohorts.reduce((sum, cohort) => sum + cohort.plantedTrees * cohort.spacing * cohort.spacing, 0) / 10000;
+  const area = (input.calculationMode ?? 'perArea') === 'perArea' ? resolveArea(input.plantingData, input.selectedRegion) : 0;
+  const scale = area > 0 && footprint > 0 ? Math.sqrt(area / footprint) : 1;
+  return cohorts.map(cohort => cohort.spacing * scale);
+};
+
+/**
+ * Carbon released and future sequestration lost when allometric cohorts are clear-cut
+ * The harvest is the above-ground biomass of an average felled tree; roots stay in the soil.
+ */
+export const calculateAllometricClearCuttingCarbon = (input: SimulationInput, cohorts: SpeciesCohort[]): ClearCuttingCarbon => {
+  const { years, averageTreeAge = 20, parameters = DEFAULT_MODEL_PARAMETERS } = input;
+  const spacings = getPlantedSpacings(input, cohorts);
+  const plantedTrees = cohorts.reduce((sum, cohort) => sum + cohort.plantedTrees, 0);
+  const toCO2 = parameters.allometry.CARBON_FRACTION * parameters.carbon.CARBON_TO_CO2;
+
+  // Harvested carbon of each cohort, which also weights its product shares
+  const cohortHarvest = cohorts.map((cohort, i) => cohort.plantedTrees * getTreeSize(cohort.tree, averageTreeAge, spacings[i], parameters).aboveGroundBiomass * toCO2);
+  const harvested = plantedTrees > 0 ? cohortHarvest.reduce((sum, carbon) => sum + carbon, 0) / plantedTrees : 0;
+  const productShares = blendWoodProductShares(cohorts.map((cohort, i) => ({
+    weight: cohortHarvest[i],
+    shares: resolveWoodProductShares(cohort.tree, input.woodProductShares, parameters)
+  })));
+
+  // Uptake the average felled tree would have added had it been left standing
+  let lostFuture = 0;
+  for (let year = 1; year <= years; year++) {
+    lostFuture += cohorts.reduce((sum, cohort, i) => sum + cohort.plantedTrees * getBiomassIncrement(cohort.tree, averageTreeAge + year, spacings[i], parameters), 0);
+  }
+
+  return splitHarvest(harvested, plantedTrees > 0 ? lostFuture / plantedTrees : 0, productShares, years, parameters);
+};
+
+// kg CO2 an average tree takes up in a year: its biomass gain, or the species
+// rate on its growth curve; climate is applied by the caller
+const getTreeUptake = (
+  cohort: SpeciesCohort,
+  age: number,
+  stock: number,
+  previousStock: number,
+  parameters: ModelParameters,
+  growthModel: GrowthModel
+): number => {
+  return growthModel === 'allometric'
+    ? Math.max(0, stock - previousStock)
+    : cohort.matureRate * getSpeciesGrowthFactor(cohort.tree, age, parameters.growthCurve);
+};
+
+/**
+ * Grow each cohort year by year from a starting age
+ * Returns one entry per year with living trees, carbon and tree size for every cohort.
+ */
+export const growCohorts = (
+  input: SimulationInput,
+  cohorts: SpeciesCohort[],
+  options: { startAge: number; applyMortality: boolean; applyClimate: boolean; applyDisturbance?: boolean }
+): CohortYear[][] => {
+  const { years, mortality, scales, parameters = DEFAULT_MODEL_PARAMETERS, growthModel = DEFAULT_GROWTH_MODEL } = input;
+  const mortalityScale = scales?.mortality ?? 1;
+  const survivors = cohorts.map(cohort => cohort.plantedTrees);
+  const mortalityRates = cohorts.map(cohort => createAgeDependentMortality(cohort.tree.name, mortality ?? undefined));
+  const spacings = getPlantedSpacings(input, cohorts);
+  // Whole-tree carbon of an average survivor, for allometric increments
+  const treeStock = cohorts.map((cohort, i) => getTreeSize(cohort.tree, options.startAge, spacings[i], parameters).carbonStock);
+  const result = [];
+
+  for (let year = 1; year <= years; year++) {
+    const prediction = options.applyClimate ? getClimatePrediction(input, year) : null;
+    const growthModifier = prediction ? prediction.growthModifier : 1;
+    const age = options.startAge + year;
+    const disturbance = options.applyDisturbance ? getCohortDisturbanceLosses(input, cohorts, year) : null;
+    // Trees outside their climate envelope grow less and die more often
+    const suitability = options.applyClimate ? getCohortSuitability(input, cohorts, year) : null;
+
+    result.push(cohorts.map((cohort, i) => {
+      if (options.applyMortality) {
+        const extraMortality = suitability ? suitability[i].extraMortality : 0;
+        survivors[i] *= Math.max(0, 100 - Math.min(100, mortalityRates[i](year) * mortalityScale + extraMortality)) / 100;
+      }
+      // Fire, drought, windthrow and pest outbreaks kill a share of what mortality leaves
+      const disturbedTrees = disturbance ? scaleDisturbanceLosses(disturbance[i], survivors[i]) : undefined;
+      if (disturbedTrees) survivors[i] -= getTotalDisturbanceLoss(disturbedTrees);
+
+      // Mortality opens up room, so survivors grow as if planted wider
+      const livingSpacing = survivors[i] > 0 && cohort.plantedTrees > 0 ? spacings[i] * Math.sqrt(cohort.plantedTrees / survivors[i]) : spacings[i];
+      const size = getTreeSize(cohort.tree, age, livingSpacing, parameters);
+      const previousStock = treeStock[i];
+      treeStock[i] = size.carbonStock;
+
+      // Scaled by the climate modifier and suitability; only survivors sequester
+      const treeUptake = getTreeUptake(cohort, age, size.carbonStock, previousStock, parameters, growthModel);
+      return {
+        livingTrees: survivors[i],
+        annualCarbon: survivors[i] * treeUptake * growthModifier * (suitability ? suitability[i].growthFactor : 1),
+        dbh: size.dbh,
+        height: size.height,
+        disturbedTrees
+      };
+    }));
+  }
+
+  return result;
+};
+
+// Share of each cohort's target trees recruited per year, from its stems per hectare
+const getRecruitShares = (input: SimulationInput, cohorts: SpeciesCohort[], recruitmentRate: number): number[] => {
+  return getPlantedSpacings(input, cohorts).map(spacing => recruitmentRate * spacing * spacing / 10000);
+};
+
+/**
+ * Grow a stand that seeds in from nearby forest
+ * After the establishment delay, seedlings recruit every year until each
+ * species has recruited the trees a planting would put in; by then the canopy
+ * closes and shades out further seedlings. Each year's recruits grow and die
+ * as their own age class; the regional regrowth factor, the climate
+ * modifier and each species' climate suitability scale their uptake.
+ */
+export const growNaturalRegeneration = (input: SimulationInput, cohorts: SpeciesCohort[]): CohortYear[][] => {
+  const { latitude, years, parameters = DEFAULT_MODEL_PARAMETERS } = input;
+  const settings = normalizeNaturalRegenerationSettings(input.naturalRegeneration ?? DEFAULT_NATURAL_REGENERATION_SETTINGS);
+  const delay = getEstablishmentDelay(settings, parameters);
+  const regrowth = getRegrowthFactor(latitude, parameters);
+  const recruitShares = getRecruitShares(input, cohorts, getRecruitmentRate(settings, latitude, parameters));
+  // Survival and uptake of a cohort planted in year 1, scaled down to each year's recruits
+  const applyMortality = isMortalityApplied(input);
+  const template = growCohorts(input, cohorts, { startAge: 0, applyMortality, applyClimate: false });
+  const recruited = cohorts.map(() => 0);
+  const recruits: number[][] = [];
+  // Share of each year's recruits that disturbance and climate stress have left standing
+  const standing: number[][] = [];
+  const result: CohortYear[][] = [];
+
+  for (let year = 1; year <= years; year++) {
+    const prediction = getClimatePrediction(input, year);
+    const growthModifier = prediction ? prediction.growthModifier : 1;
+
+    recruits.push(cohorts.map((cohort, i) => {
+      if (year <= delay) return 0;
+      const count = Math.max(0, Math.min(cohort.plantedTrees * recruitShares[i], cohort.plantedTrees - recruited[i]));
+      recruited[i] += count;
+      return count;
+    }));
+    standing.push(cohorts.map(() => 1));
+    const disturbance = getCohortDisturbanceLosses(input, cohorts, year);
+    const suitability = getCohortSuitability(input, cohorts, year);
+
+    result.push(cohorts.map((cohort, i) => {
+      let livingTrees = 0;
+      let annualCarbon = 0;
+      let dbh = 0;
+      let height = 0;
+      const disturbedTrees = disturbance ? createDisturbanceLosses() : undefined;
+      recruits.forEach((ageClass, index) => {
+        if (ageClass[i] <= 0 || cohort.plantedTrees <= 0) return;
+        const entry = template[year - index - 1][i];
+        // Every age class loses the same share to climate stress and to a disturbance
+        if (applyMortality && suitability) standing[index][i] *= 1 - suitability[i].extraMortality / 100;
+        if (disturbance && disturbedTrees) {
+          const lost = scaleDisturbanceLosses(disturbance[i], entry.livingTrees * ageClass[i] / cohort.plantedTrees * standing[index][i]);
+          DISTURBANCE_TYPES.forEach(({ key }) => { disturbedTrees[key] += lost[key]; });
+          standing[index][i] *= 1 - getTotalDisturbanceLoss(disturbance[i]);
+        }
+        const scale = ageClass[i] / cohort.plantedTrees * standing[index][i];
+        livingTrees += entry.livingTrees * scale;
+        annualCarbon += entry.annualCarbon * scale;
+        dbh += entry.dbh * entry.livingTrees * scale;
+        height += entry.height * entry.livingTrees * scale;
+      });
+      return {
+        livingTrees,
+        annualCarbon: annualCarbon * regrowth * growthModifier * (suitability ? suitability[i].growthFactor : 1),
+        dbh: livingTrees > 0 ? dbh / livingTrees : 0,
+        height: livingTrees > 0 ? height / livingTrees : 0,
+        recruitedTrees: recruits[year - 1][i],
+        disturbedTrees
+      };
+    }));
+  }
+
+  return result;
+};
+
+/**
+ * Grow a managed stand through repeated rotations
+ * Each rotation is planted, thinned at the set stand ages and clear-felled at
+ * the rotation length; the site is replanted after the replanting delay, or
+ * left bare when replanting is off. Harvested trees are removed at the end of
+ * the year, so thinning gives the remaining trees more room to grow.
+ */
+export const growRotation = (input: SimulationInput, cohorts: SpeciesCohort[]): RotationGrowth => {
+  const { years, mortality, scales, parameters = DEFAULT_MODEL_PARAMETERS, growthModel = DEFAULT_GROWTH_MODEL } = input;
+  const settings = normalizeRotationSettings(input.rotation ?? DEFAULT_ROTATION_SETTINGS);
+  const applyMortality = isMortalityApplied(input);
+  const mortalityScale = scales?.mortality ?? 1;
+  const mortalityRates = cohorts.map(cohort => createAgeDependentMortality(cohort.tree.name, mortality ?? undefined));
+  const spacings = getPlantedSpacings(input, cohorts);
+  const ratios = cohorts.map(cohort => getRootShootRatio(cohort.tree, parameters));
+  const survivors = cohorts.map(cohort => cohort.plantedTrees);
+  // Whole-tree carbon of an average survivor: allometric stock, and uptake to date with climate
+  const treeStock = cohorts.map(() => 0);
+  const treeCarbon = cohorts.map(() => 0);
+  const cohortYears: RotationCohortYear[][] = [];
+  const harvests: RotationHarvest[] = [];
+  let standAge = 0;
+  let cycle = 1;
+  let bareYears = -1; // years since the last final harvest, -1 while a stand is growing
+
+  for (let year = 1; year <= years; year++) {
+    if (bareYears >= 0) {
+      if (!settings.replant || bareYears < settings.replantDelay) {
+        bareYears++;
+        cohortYears.push(cohorts.map(() => ({ livingTrees: 0, annualCarbon: 0, dbh: 0, height: 0, removedTrees: 0, removedCarbon: 0, revenue: 0 })));
+        continue;
+      }
+      cohorts.forEach((cohort, i) => {
+        survivors[i] = cohort.plantedTrees;
+        treeStock[i] = 0;
+        treeCarbon[i] = 0;
+      });
+      bareYears = -1;
+      cycle++;
+    }
+
+    const prediction = getClimatePrediction(input, year);
+    const growthModifier = prediction ? prediction.growthModifier : 1;
+    standAge++;
+    const removalPercent = getRemovalPercent(settings, standAge);
+    const disturbance = getCohortDisturbanceLosses(input, cohorts, year);
+    const suitability = getCohortSuitability(input, cohorts, year);
+
+    const cohortYear = cohorts.map((cohort, i) => {
+      if (applyMortality) {
+        const extraMortality = suitability ? suitability[i].extraMortality : 0;
+        survivors[i] *= Math.max(0, 100 - Math.min(100, mortalityRates[i](standAge) * mortalityScale + extraMortality)) / 100;
+      }
+      const disturbedTrees = disturbance ? scaleDisturbanceLosses(disturbance[i], survivors[i]) : undefined;
+      if (disturbedTrees) survivors[i] -= getTotalDisturbanceLoss(disturbedTrees);
+
+      const livingSpacing = survivors[i] > 0 && cohort.plantedTrees > 0 ? spacings[i] * Math.sqrt(cohort.plantedTrees / survivors[i]) : spacings[i];
+      const size = getTreeSize(cohort.tree, standAge, livingSpacing, parameters);
+      const previousStock = treeStock[i];
+      treeStock[i] = size.carbonStock;
+      const treeUptake = getTreeUptake(cohort, standAge, size.carbonStock, previousStock, parameters, growthModel) * growthModifier * (suitability ? suitability[i].growthFactor : 1);
+      treeCarbon[i] += treeUptake;
+      const annualCarbon = survivors[i] * treeUptake;
+
+      // Harvested trees take their above-ground carbon out of the stand
+      const removedTrees = survivors[i] * removalPercent / 100;
+      survivors[i] -= removedTrees;
+      return {
+        livingTrees: survivors[i],
+        annualCarbon,
+        dbh: size.dbh,
+        height: size.height,
+        removedTrees,
+        removedCarbon: removedTrees * treeCarbon[i] / (1 + ratios[i]),
+        revenue: removedTrees * getTimberValue(cohort.tree, standAge, livingSpacing, parameters),
+        disturbedTrees
+      };
+    });
+    cohortYears.push(cohortYear);
+
+    if (removalPercent > 0) {
+      harvests.push({
+        year,
+        cycle,
+        standAge,
+        type: standAge >= settings.rotationLength ? 'final' : 'thinning',
+        removedTrees: cohortYear.reduce((sum, entry) => sum + entry.removedTrees, 0),
+        removals: cohortYear.reduce((sum, entry) => sum + entry.removedCarbon, 0),
+        revenue: cohortYear.reduce((sum, entry) => sum + entry.revenue, 0)
+      });
+    }
+    if (standAge >= settings.rotationLength) {
+      standAge = 0;
+      bareYears = 0;
+    }
+  }
+
+  return { cohortYears, harvests, cycles: cycle };
+};
+
+// Wood product emissions and stocks from every thinning, selective or final harvest
+export const decayHarvestRemovals = (
+  input: SimulationInput,
+  cohorts: SpeciesCohort[],
+  cohortYears: HarvestCohortYear[][]
+): WoodProductYear[] => {
+  const parameters = input.parameters ?? DEFAULT_MODEL_PARAMETERS;
+  return sumWoodProductYears(cohorts.map((cohort, i) => decayWoodProductInflows(
+    cohortYears.map(cohortYear => cohortYear[i].removedCarbon),
+    resolveWoodProductShares(cohort.tree, input.woodProductShares, parameters),
+    parameters
+  )), cohortYears.length);
+};
+
+// kg CO2 in the stems and branches of a felled tree: its above-ground biomass, or its trunk carbon
+const getFelledTreeCarbon = (
+  tree: TreeType,
+  age: number,
+  spacing: number,
+  parameters: ModelParameters,
+  growthModel: GrowthModel
+): number => {
+  return growthModel === 'allometric'
+    ? getTreeSize(tree, age, spacing, parameters).aboveGroundBiomass * parameters.allometry.CARBON_FRACTION * parameters.carbon.CARBON_TO_CO2
+    : getTrunkCarbon(age, parameters);
+};
+
+/**
+ * Selectively log an existing stand
+ * The stand grows on from its current age and is harvested once it reaches the
+ * minimum harvest age. Felled stems go to residue and wood products; their roots
+ * and the trees killed by felling and skidding become deadwood that decays. Each
+ * year's entry is the uptake lost against leaving the stand, which shrinks as
+ * the residual stand grows back into the gaps.
+ */
+export const growSelectiveHarvest = (input: SimulationInput, cohorts: SpeciesCohort[]): SelectiveHarvestGrowth => {
+  const { latitude, averageTreeAge = 20, parameters = DEFAULT_MODEL_PARAMETERS, growthModel = DEFAULT_GROWTH_MODEL } = input;
+  const settings = normalizeSelectiveHarvestSettings(input.selectiveHarvest ?? DEFAULT_SELECTIVE_HARVEST_SETTINGS);
+  const baseline = growCohorts(input, cohorts, { startAge: averageTreeAge, applyMortality: false, applyClimate: false });
+  const year = getHarvestYear(settings, averageTreeAge);
+  const harvestIndex = year <= baseline.length ? year - 1 : -1;
+  const standAge = averageTreeAge + year;
+  const spacings = getPlantedSpacings(input, cohorts);
+  const ratios = cohorts.map(cohort => getRootShootRatio(cohort.tree, parameters));
+
+  // Trees felled and killed in each cohort
+  const felledShares = harvestIndex >= 0
+    ? allocateHarvest(cohorts.map((cohort, i) => ({ trees: cohort.plantedTrees, dbh: baseline[harvestIndex][i].dbh })), settings)
+    : cohorts.map(() => 0);
+  const felled = cohorts.map((cohort, i) => cohort.plantedTrees * felledShares[i]);
+  const damaged = cohorts.map((cohort, i) => harvestIndex >= 0 ? (cohort.plantedTrees - felled[i]) * settings.damageRate / 100 : 0);
+  const lostShares = cohorts.map((cohort, i) => cohort.plantedTrees > 0 ? (felled[i] + damaged[i]) / cohort.plantedTrees : 0);
+  const felledCarbon = cohorts.map((cohort, i) => getFelledTreeCarbon(cohort.tree, standAge, spacings[i], parameters, growthModel));
+
+  let recoveryUptake = 0;
+  const cohortYears: HarvestCohortYear[][] = baseline.map((cohortYear, index) => {
+    const logged = harvestIndex >= 0 && index >= harvestIndex;
+    // Felling happens at the end of the harvest year, recovery from the year after
+    const recovery = getRecoveryShare(index - harvestIndex, parameters);
+    return cohortYear.map((entry, i) => {
+      const gap = logged && index > harvestIndex ? entry.annualCarbon * lostShares[i] : 0;
+      recoveryUptake += gap * recovery;
+      return {
+        livingTrees: logged ? cohorts[i].plantedTrees - felled[i] - damaged[i] : entry.livingTrees,
+        annualCarbon: gap * (1 - recovery),
+        dbh: entry.dbh,
+        height: entry.height,
+        removedTrees: index === harvestIndex ? felled[i] : 0,
+        removedCarbon: index === harvestIndex ? felled[i] * felledCarbon[i] : 0
+      };
+    });
+  });
+
+  // Roots of felled trees and whole damaged trees decay as deadwood
+  const deadwood = cohorts.reduce((sum, _, i) => sum + (felled[i] * ratios[i] + damaged[i] * (1 + ratios[i])) * felledCarbon[i], 0);
+  const deadwoodDecay = getPoolDecayRates(latitude, parameters).deadwood;
+  let deadwoodStock = 0;
+  let deadwoodEmissions = 0;
+  const harvestYears = decayHarvestRemovals(input, cohorts, cohortYears).map((entry, index) => {
+    const released = deadwoodStock * deadwoodDecay;
+    deadwoodStock += (index === harvestIndex ? deadwood : 0) - released;
+    deadwoodEmissions += released;
+    return { emissions: entry.emissions + released, pools: entry.pools };
+  });
+
+  const harvested = cohortYears.reduce((sum, cohortYear) => sum + cohortYear.reduce((total, entry) => total + entry.removedCarbon, 0), 0);
+  const immediate = cohorts.reduce((sum, cohort, i) => sum + felled[i] * felledCarbon[i] * getResidueShare(resolveWoodProductShares(cohort.tree, input.woodProductShares, parameters)) / 100, 0);
+  const storedInProducts = harvestYears.length > 0 ? getTotalProductCarbon(harvestYears[harvestYears.length - 1].pools) : 0;
+  const lostSequestration = cohortYears.reduce((sum, cohortYear) => sum + cohortYear.reduce((total, entry) => total + entry.annualCarbon, 0), 0);
+  const standTrees = cohorts.reduce((sum, cohort) => sum + cohort.plantedTrees, 0);
+  const felledTrees = felled.reduce((sum, trees) => sum + trees, 0);
+  const basalAreas = cohorts.map((cohort, i) => harvestIndex >= 0 ? cohort.plantedTrees * baseline[harvestIndex][i].dbh ** 2 : 0);
+  const totalBasalArea = basalAreas.reduce((sum, basalArea) => sum + basalArea, 0);
+
+  return {
+    cohortYears,
+    harvestYears,
+    summary: {
+      settings,
+      harvestYear: harvestIndex >= 0 ? year : null,
+      standAge,
+      felledTrees,
+      damagedTrees: damaged.reduce((sum, trees) => sum + trees, 0),
+      stemsRemoved: standTrees > 0 ? (felledTrees / standTrees) * 100 : 0,
+      basalAreaRemoved: totalBasalArea > 0 ? (basalAreas.reduce((sum, basalArea, i) => sum + basalArea * felledShares[i], 0) / totalBasalArea) * 100 : 0,
+      disturbance: harvestIndex >= 0 ? getDisturbanceShare(settings) * 100 : 0,
+      harvested,
+      immediate,
+      productEmissions: harvested - immediate - storedInProducts,
+      storedInProducts,
+      deadwood,
+      deadwoodEmissions,
+      lostSequestration,
+      recoveryUptake,
+      total: harvested - storedInProducts + deadwoodEmissions + lostSequestration
+    }
+  };
+};
+
+// Long-term averages and totals of a rotation run
+export const summarizeRotation = (input: SimulationInput, growth: RotationGrowth, series: SimulationYear[]): RotationSummary => {
+  const { harvests, cycles } = growth;
+  return {
+    settings: normalizeRotationSettings(input.rotation ?? DEFAULT_ROTATION_SETTINGS),
+    cycles,
+    completedRotations: harvests.filter(harvest => harvest.type === 'final').length,
+    harvests,
+    totalRemovals: harvests.reduce((sum, harvest) => sum + harvest.removals, 0),
+    totalRevenue: harvests.reduce((sum, harvest) => sum + harvest.revenue, 0),
+    averageCarbonStock: series.length > 0 ? series.reduce((sum, point) => sum + point.cumulativeCarbon, 0) / series.length : 0,
+    averageStandingStock: series.length > 0 ? series.reduce((sum, point) => sum + point.standingStock, 0) / series.length : 0
+  };
+};
+
+// Hectares of soil under the stand: the planted area, or one tree's footprint per tree
+const getSoilArea = (input: SimulationInput, cohorts: SpeciesCohort[]): number => {
+  if ((input.calculationMode ?? 'perArea') === 'perArea') {
+    return resolveArea(input.plantingData, input.selectedRegion);
+  }
+  return cohorts.reduce((sum, cohort) => sum + cohort.plantedTrees * cohort.spacing * cohort.spacing, 0) / 10000;
+};
+
+// Recruitment and cost of natural regeneration, and what planting the same stand would give
+export const summarizeNaturalRegeneration = (
+  input: SimulationInput,
+  totalTrees: number,
+  impact: ImpactMetrics,
+  cohorts: SpeciesCohort[],
+  series: SimulationYear[]
+): NaturalRegenerationSummary => {
+  const { years, latitude, parameters = DEFAULT_MODEL_PARAMETERS } = input;
+  const settings = normalizeNaturalRegenerationSettings(input.naturalRegeneration ?? DEFAULT_NATURAL_REGENERATION_SETTINGS);
+  const recruitmentRate = getRecruitmentRate(settings, latitude, parameters);
+  const delay = getEstablishmentDelay(settings, parameters);
+  const targetTrees = cohorts.reduce((sum, cohort) => sum + cohort.plantedTrees, 0);
+  const spacings = getPlantedSpacings(input, cohorts);
+  const hectares = cohorts.reduce((sum, cohort, i) => sum + cohort.plantedTrees * spacings[i] * spacings[i], 0) / 10000;
+  // The slowest species to recruit all its trees sets when the stand is stocked
+  const yearsToStock = Math.max(0, ...getRecruitShares(input, cohorts, recruitmentRate).map(share => share > 0 ? Math.ceil(1 / share - 1e-9) : Infinity));
+  const finalYear = series.length > 0 ? series[series.length - 1] : null;
+  const planting = buildTimeSeries({ ...input, simulationMode: 'planting' }, totalTrees, impact, [], cohorts);
+
+  return {
+    settings,
+    recruitmentRate,
+    regrowthFactor: getRegrowthFactor(latitude, parameters),
+    firstRecruitmentYear: recruitmentRate > 0 && delay < years ? delay + 1 : null,
+    stockedYear: targetTrees > 0 && delay + yearsToStock <= years ? delay + yearsToStock : null,
+    targetTrees,
+    establishedTrees: finalYear ? finalYear.species.reduce((sum, entry) => sum + entry.livingTrees, 0) : 0,
+    establishmentCost: getRegenerationCost(settings, hectares, parameters),
+    plantingCost: cohorts.reduce((sum, cohort) => sum + cohort.plantedTrees * getPlantingCost(cohort.tree, parameters), 0),
+    plantingCarbon: planting.length > 0 ? planting[planting.length - 1].cumulativeCarbon : 0
+  };
+};
+
+// Hectares cropped between the tree rows: a share of the planted area, or of one tree's row space
+const getCropArea = (input: SimulationInput, layout: AgroforestryLayout): number => {
+  if ((input.calculationMode ?? 'perArea') === 'perArea') {
+    return resolveArea(input.plantingData, input.selectedRegion) * layout.cropShare;
+  }
+  return layout.cropShare / layout.treesPerHectare;
+};
+
+// Row layout and crop totals of an agroforestry stand
+export const summarizeAgroforestry = (input: SimulationInput, series: SimulationYear[]): AgroforestrySummary => {
+  const parameters = input.parameters ?? DEFAULT_MODEL_PARAMETERS;
+  const settings = normalizeAgroforestrySettings(input.agroforestry ?? DEFAULT_AGROFORESTRY_SETTINGS);
+  const layout = calculateAgroforestryLayout(settings, parameters);
+  const totalCropOutput = series.reduce((sum, point) => sum + point.cropOutput, 0);
+  const finalYear = series.length > 0 ? series[series.length - 1] : null;
+
+  return {
+    settings,
+    layout,
+    cropArea: getCropArea(input, layout),
+    cropYield: getCropYield(settings),
+    cropPrice: getCropPrice(settings),
+    firstYearOutput: series.length > 0 ? series[0].cropOutput : 0,
+    finalYearOutput: finalYear ? finalYear.cropOutput : 0,
+    totalCropOutput,
+    totalCropRevenue: totalCropOutput * getCropPrice(settings),
+    finalShadeLoss: finalYear ? finalYear.shadeLoss : 0
+  };
+};
+
+/**
+ * Net creditable tonnes of a grown stand per vintage year
+ * Each year's change in stored carbon is reduced by the baseline, leakage,
+ * uncertainty and buffer deductions. A fixed baseline is given per hectare
+ * and scaled to the stand, or to the ground one tree occupies in per-tree
+ * mode. The buffer contribution is the species' contributions weighted by
+ * the carbon each stores by the final year.
+ */
+export const summarizeCrediting = (input: SimulationInput, cohorts: SpeciesCohort[], series: SimulationYear[]): CreditingSummary | null => {
+  if (!input.crediting?.enabled || isHarvestMode(input.simulationMode ?? 'planting')) return null;
+  const parameters = input.parameters ?? DEFAULT_MODEL_PARAMETERS;
+  const settings = normalizeCreditingSettings(input.crediting);
+  const hectares = (input.calculationMode ?? 'perArea') === 'perArea'
+    ? resolveArea(input.plantingData, input.selectedRegion)
+    : 1 / (input.plantingData?.density || TREE_SPACING_CONFIGS.standard.density);
+
+  const speciesBuffers = cohorts.map(cohort => ({
+    speciesId: cohort.tree.id,
+    name: cohort.tree.name,
+    contribution: getBufferContribution(cohort.tree, parameters)
+  }));
+  const finalYear = series.length > 0 ? series[series.length - 1] : null;
+  const weights = cohorts.map((_, i) => Math.max(0, finalYear?.species[i]?.cumulativeCarbon ?? 0));
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  const bufferContribution = speciesBuffers.length === 0 ? 0 : totalWeight > 0
+    ? speciesBuffers.reduce((sum, species, i) => sum + species.contribution * weights[i], 0) / totalWeight
+    : speciesBuffers.reduce((sum, species) => sum + species.contribution, 0) / speciesBuffers.length;
+
+  const totalDeductions: CreditingDeductions = { baseline: 0, leakage: 0, uncertainty: 0, buffer: 0 };
+  let cumulativeCreditable = 0;
+  const vintages: CreditingVintage[] = series.map((point, i) => {
+    const removals = (point.cumulativeCarbon - (i > 0 ? series[i - 1].cumulativeCarbon : 0)) / 1000;
+    const deductions = getCreditingDeductions(removals, settings.baselineValue * hectares, settings, bufferContribution);
+    const creditable = removals - deductions.baseline - deductions.leakage - deductions.uncertainty - deductions.buffer;
+    cumulativeCreditable += creditable;
+    CREDITING_DEDUCTIONS.forEach(({ key }) => { totalDeductions[key] += deductions[key]; });
+    return { year: point.year, removals, deductions, creditable, cumulativeCreditable };
+  });
+
+  return {
+    settings,
+    bufferContribution,
+    speciesBuffers,
+    vintages,
+    totalRemovals: finalYear ? finalYear.cumulativeCarbon / 1000 : 0,
+    totalDeductions,
+    totalCreditable: cumulativeCreditable
+  };
+};
+
+/**
+ * Job-years of each project phase, year by year (per-area mode)
+ * Planted stands need nursery, site preparation and planting work over the
+ * seasons the planting crew takes, again whenever a rotation stand is
+ * replanted; an assisted regenerating stand only needs lighter site
+ * preparation. Maintained stands need full maintenance while they establish
+ * and a share of it after, scaled by each species' job creation factor.
+ * Grown stands are monitored every year, and every thinning, final harvest
+ * or felling adds harvest work.
+ */
+export const summarizeEmployment = (
+  input: SimulationInput,
+  totalTrees: number,
+  area: number,
+  cohorts: SpeciesCohort[],
+  series: SimulationYear[],
+  rotation: RotationSummary | null,
+  selectiveHarvest: SelectiveHarvestSummary | null,
+  naturalRegeneration: NaturalRegenerationSummary | null
+): EmploymentSummary | null => {
+  if ((input.calculationMode ?? 'perArea') !== 'perArea') return null;
+  const { labor } = input.parameters ?? DEFAULT_MODEL_PARAMETERS;
+  const simulationMode = input.simulationMode ?? 'planting';
+  const grown = !isHarvestMode(simulationMode);
+  const years: LaborYear[] = series.map(point => ({ year: point.year, jobYears: createLaborPhases(), total: 0 }));
+  const addLabor = (year: number, phases: Partial<LaborPhases>) => {
+    const entry = years[year - 1];
+    if (entry) LABOR_PHASES.forEach(({ key }) => { entry.jobYears[key] += phases[key] ?? 0; });
+  };
+
+  // Planted stands start in year 1; rotation stands are replanted after each final harvest
+  const plantedTrees = cohorts.reduce((sum, cohort) => sum + cohort.plantedTrees, 0);
+  const plantingYears = grown && !naturalRegeneration
+    ? [1, ...(rotation?.settings.replant
+        ? rotation.harvests.filter(harvest => harvest.type === 'final').map(harvest => harvest.year + rotation.settings.replantDelay + 1)
+        : [])]
+    : [];
+  plantingYears.forEach(start => {
+    getPlantingLabor(plantedTrees, area, input.parameters).forEach((season, i) => addLabor(start + i, season));
+  });
+  if (naturalRegeneration?.settings.assisted) {
+    addLabor(1, { sitePreparation: area * labor.SITE_PREPARATION_DAYS_PER_HECTARE * labor.ANR_SITE_PREPARATION_SHARE / labor.WORKING_DAYS_PER_YEAR });
+  }
+
+  // Maintenance is heaviest in the years after each planting
+  const maintenanceJobs = cohorts.map(cohort => getMaintenanceJobs(cohort.tree, input.parameters));
+  const maintained = grown && (!naturalRegeneration || naturalRegeneration.settings.assisted);
+  series.forEach(point => {
+    const lastPlanting = Math.max(1, ...plantingYears.filter(year => year <= point.year));
+    const intensity = (point.year - lastPlanting < labor.ESTABLISHMENT_YEARS ? 1 : labor.MATURE_MAINTENANCE_SHARE) / labor.ESTABLISHMENT_YEARS;
+    addLabor(point.year, {
+      maintenance: maintained ? point.species.reduce((sum, entry, i) => sum + entry.livingTrees / 1000 * maintenanceJobs[i], 0) * intensity : 0,
+      monitoring: grown ? area * labor.MONITORING_DAYS_PER_HECTARE / labor.WORKING_DAYS_PER_YEAR : 0
+    });
+  });
+
+  const harvestJobYears = (trees: number) => trees / 1000 * labor.HARVEST_DAYS_PER_1000_TREES / labor.WORKING_DAYS_PER_YEAR;
+  rotation?.harvests.forEach(harvest => addLabor(harvest.year, { harvest: harvestJobYears(harvest.removedTrees) }));
+  if (selectiveHarvest?.harvestYear) addLabor(selectiveHarvest.harvestYear, { harvest: harvestJobYears(selectiveHarvest.felledTrees) });
+  if (simulationMode === 'clear-cutting') addLabor(1, { harvest: harvestJobYears(totalTrees) });
+
+  const totals = createLaborPhases();
+  years.forEach(entry => {
+    entry.total = getTotalJobYears(entry.jobYears);
+    LABOR_PHASES.forEach(({ key }) => { totals[key] += entry.jobYears[key]; });
+  });
+  const totalJobYears = getTotalJobYears(totals);
+  const peak = years.reduce<LaborYear | null>((busiest, entry) => !busiest || entry.total > busiest.total ? entry : busiest, null);
+  const timeline = plantingYears.length > 0 && plantedTrees > 0 ? calculatePlantingTimeline(plantedTrees) : null;
+
+  return {
+    planting: timeline ? { crewSize: timeline.crewSize, seasons: timeline.yearsToComplete, projectScale: timeline.projectScale } : null,
+    years,
+    totals,
+    totalJobYears,
+    peakJobs: peak?.total ?? 0,
+    peakYear: peak && peak.total > 0 ? peak.year : null,
+    averageJobs: years.length > 0 ? totalJobYears / years.length : 0
+  };
+};
+
+/**
+ * Yearly costs and revenue of a grown stand and its returns
+ * Planting is paid in year 0 and again whenever a rotation stand is
+ * replanted; a regenerating stand pays only for its ANR measures and is
+ * maintained only when assisted. Living trees cost their maintenance every
+ * year; credits for the carbon stored, or the net creditable tonnes when
+ * crediting is on, are issued at each verification and sold at that year's
+ * price. The first price scenario sets the yearly cash
+ * flow, and every scenario is summarized for comparison.
+ */
+export const summarizeCashFlow = (
+  input: SimulationInput,
+  cohorts: SpeciesCohort[],
+  series: SimulationYear[],
+  rotation: RotationSummary | null,
+  naturalRegeneration: NaturalRegenerationSummary | null,
+  agroforestry: AgroforestrySummary | null,
+  crediting: CreditingSummary | null
+): CashFlowSummary | null => {
+  if (isHarvestMode(input.simulationMode ?? 'planting')) return null;
+  const parameters = input.parameters ?? DEFAULT_MODEL_PARAMETERS;
+  const settings = normalizeCashFlowSettings(input.cashFlow ?? DEFAULT_CASH_FLOW_SETTINGS);
+  const plantingCost = cohorts.reduce((sum, cohort) => sum + cohort.plantedTrees * getPlantingCost(cohort.tree, parameters), 0);
+  const maintenanceCosts = cohorts.map(cohort => getMaintenanceCost(cohort.tree, parameters));
+  const maintained = !naturalRegeneration || naturalRegeneration.settings.assisted;
+  // A rotation stand is replanted once the replant delay after each final harvest has passed
+  const replantYears = rotation?.settings.replant
+    ? rotation.harvests.filter(harvest => harvest.type === 'final').map(harvest => harvest.year + rotation.settings.replantDelay + 1)
+    : [];
+
+  const creditable = crediting
+    ? crediting.vintages.map(vintage => vintage.cumulativeCreditable * 1000)
+    : series.map(point => point.cumulativeCarbon);
+  const issuances = getIssuanceSchedule(creditable, settings.verificationInterval);
+  const issuedTonnes = issuances.reduce((sum, issuance) => sum + issuance.tonnes, 0);
+
+  const entries = [
+    { year: 0, planting: naturalRegeneration ? naturalRegeneration.establishmentCost : plantingCost, maintenance: 0, creditsIssued: 0, timber: 0, crops: 0 },
+    ...series.map(point => ({
+      year: point.year,
+      planting: replantYears.filter(year => year === point.year).length * plantingCost,
+      maintenance: maintained ? point.species.reduce((sum, entry, i) => sum + entry.livingTrees * maintenanceCosts[i], 0) : 0,
+      creditsIssued: issuances.find(issuance => issuance.year === point.year)?.tonnes ?? 0,
+      timber: rotation ? rotation.harvests.filter(harvest => harvest.year === point.year).reduce((sum, harvest) => sum + harvest.revenue, 0) : 0,
+      crops: agroforestry ? point.cropOutput * agroforestry.cropPrice : 0
+    }))
+  ];
+  const costs = entries.map(entry => entry.planting + entry.maintenance);
+  const getCredits = (scenario: CarbonPriceScenario) => entries.map(entry => entry.creditsIssued * getCarbonPrice(scenario, entry.year));
+  const getFlows = (credits: number[]) => entries.map((entry, i) => credits[i] + entry.timber + entry.crops - costs[i]);
+
+  const scenarios: CarbonPriceScenarioResult[] = settings.priceScenarios.map(scenario => {
+    const credits = getCredits(scenario);
+    const flows = getFlows(credits);
+    const creditRevenue = credits.reduce((sum, credit) => sum + credit, 0);
+    return {
+      scenario,
+      creditRevenue,
+      averagePrice: issuedTonnes > 0 ? creditRevenue / issuedTonnes : 0,
+      netPresentValue: getNetPresentValue(flows, settings.discountRate),
+      internalRateOfReturn: getInternalRateOfReturn(flows),
+      paybackYear: getPaybackYear(flows)
+    };
+  });
+  const [primary] = scenarios;
+  const credits = getCredits(primary.scenario);
+  const flows = getFlows(credits);
+
+  let cumulativeCashFlow = 0;
+  let discountedCashFlow = 0;
+  const years: CashFlowYear[] = entries.map((entry, i) => {
+    cumulativeCashFlow += flows[i];
+    discountedCashFlow += flows[i] / Math.pow(1 + settings.discountRate / 100, entry.year);
+    return {
+      ...entry,
+      carbonCredits: credits[i],
+      carbonPrice: getCarbonPrice(primary.scenario, entry.year),
+      netCashFlow: flows[i],
+      cumulativeCashFlow,
+      discountedCashFlow
+    };
+  });
+
+  const totalCosts = costs.reduce((sum, cost) => sum + cost, 0);
+  const carbonTonnes = series.length > 0 ? series[series.length - 1].cumulativeCarbon / 1000 : 0;
+  return {
+    settings,
+    years,
+    issuances,
+    issuedTonnes,
+    scenarios,
+    totalCosts,
+    totalRevenue: totalCosts + flows.reduce((sum, flow) => sum + flow, 0),
+    netPresentValue: primary.netPresentValue,
+    internalRateOfReturn: primary.internalRateOfReturn,
+    paybackYear: primary.paybackYear,
+    carbonTonnes,
+    costPerTonne: carbonTonnes > 0 ? getNetPresentValue(costs, settings.discountRate) / carbonTonnes : null
+  };
+};
+
+/**
+ * Each species' envelope against the projected climate
+ * Flags the first year the climate leaves a species' envelope and the first
+ * year it is far enough outside to make the species unsuitable.
+ */
+export const summarizeClimateSuitability = (input: SimulationInput, cohorts: SpeciesCohort[]): SpeciesClimateSuitability[] | null => {
+  if (isHarvestMode(input.simulationMode ?? 'planting') || !hasClimateData(input.climate)) return null;
+  const summary: SpeciesClimateSuitability[] = cohorts.map(cohort => ({
+    speciesId: cohort.tree.id,
+    name: cohort.tree.name,
+    envelope: getClimateEnvelope(cohort.tree, input.parameters),
+    stressedYear: null,
+    unsuitableYear: null,
+    finalGrowthFactor: 1,
+    finalExtraMortality: 0
+  }));
+
+  for (let year = 1; year <= input.years; year++) {
+    getCohortSuitability(input, cohorts, year)?.forEach((suitability, i) => {
+      if (suitability.stressed && summary[i].stressedYear === null) summary[i].stressedYear = year;
+      if (!suitability.suitable && summary[i].unsuitableYear === null) summary[i].unsuitableYear = year;
+      summary[i].finalGrowthFactor = suitability.growthFactor;
+      summary[i].finalExtraMortality = suitability.extraMortality;
+    });
+  }
+
+  return summary;
+};
+
+/**
+ * Trees and carbon lost to fire, drought, windthrow and pest outbreaks
+ * The carbon loss compares the stand with the same stand grown without
+ * disturbance, so it covers burned carbon, decaying deadwood and the uptake
+ * the dead trees would have added.
+ */
+export const summarizeDisturbance = (
+  input: SimulationInput,
+  totalTrees: number,
+  impact: ImpactMetrics,
+  cohorts: SpeciesCohort[],
+  series: SimulationYear[]
+): DisturbanceSummary => {
+  const { years, simulationMode = 'planting' } = input;
+  const treesLost = createDisturbanceLosses();
+  const events: DisturbanceSummary['events'] = [];
+  const sampled = !!input.disturbanceDraws;
+  series.forEach(point => DISTURBANCE_TYPES.forEach(({ key }) => {
+    const lost = point.disturbance?.[key] ?? 0;
+    treesLost[key] += lost;
+    if (sampled && lost > 0) events.push({ year: point.year, type: key });
+  }));
+
+  // Mean risk over the years, weighted by the trees planted of each species
+  const plantedTrees = cohorts.reduce((sum, cohort) => sum + cohort.plantedTrees, 0);
+  const risks: DisturbanceRisks = {
+    fire: { probability: 0, severity: 0 },
+    drought: { probability: 0, severity: 0 },
+    windthrow: { probability: 0, severity: 0 },
+    pest: { probability: 0, severity: 0 }
+  };
+  for (let year = 1; year <= years; year++) {
+    getCohortDisturbanceRisks(input, cohorts, year).forEach((cohortRisks, i) => {
+      const weight = plantedTrees > 0 ? cohorts[i].plantedTrees / plantedTrees / years : 0;
+      DISTURBANCE_TYPES.forEach(({ key }) => {
+        risks[key].probability += cohortRisks[key].probability * weight;
+        risks[key].severity += cohortRisks[key].severity * weight;
+      });
+    });
+  }
+
+  // The same stand without disturbance; rotation stands are regrown with their harvests
+  const undisturbedInput = { ...input, disturbance: null, disturbanceDraws: null };
+  const rotationGrowth = simulationMode === 'rotation' ? growRotation(undisturbedInput, cohorts) : null;
+  const undisturbed = buildTimeSeries(
+    undisturbedInput,
+    totalTrees,
+    impact,
+    rotationGrowth ? decayHarvestRemovals(undisturbedInput, cohorts, rotationGrowth.cohortYears) : [],
+    cohorts,
+    rotationGrowth?.cohortYears ?? null
+  );
+  const finalCarbon = series.length > 0 ? series[series.length - 1].cumulativeCarbon : 0;
+  const undisturbedCarbon = undisturbed.length > 0 ? undisturbed[undisturbed.length - 1].cumulativeCarbon : 0;
+
+  return {
+    sampled,
+    risks,
+    treesLost,
+    totalTreesLost: getTotalDisturbanceLoss(treesLost),
+    carbonLoss: undisturbedCarbon - finalCarbon,
+    events
+  };
+};
+
+/**
+ * Build the year-by-year simulation series
+ * Planting mode accumulates carbon across the stand's pools; rotation mode adds
+ * the carbon still held in wood products from its harvests; clear-cutting and
+ * selective harvest modes accumulate harvest residue, wood product and deadwood
+ * emissions plus the sequestration lost each year.
+ */
+export const buildTimeSeries = (
+  input: SimulationInput,
+  totalTrees: number,
+  impact: ImpactMetrics,
+  harvestYears: WoodProductYear[],
+  cohorts: SpeciesCohort[],
+  harvestCohortYears: HarvestCohortYear[][] | null = null
+): SimulationYear[] => {
+  const {
+    latitude,
+    simulationMode = 'planting',
+    calculationMode = 'perArea',
+    averageTreeAge = 20,
+    parameters = DEFAULT_MODEL_PARAMETERS
+  } = input;
+
+  // Planted, rotation and regenerating stands grow from seedlings; a harvested stand is the forest it replaced
+  const isPlanting = !isHarvestMode(simulationMode);
+  const regenerating = simulationMode === 'natural-regeneration';
+  // Trees are counted in grown stands and in what a selective harvest leaves standing
+  const countsTrees = isPlanting || simulationMode === 'selective-harvest';
+  const cohortYears: CohortYear[][] = harvestCohortYears ?? (regenerating
+    ? growNaturalRegeneration(input, cohorts)
+    : growCohorts(input, cohorts, isPlanting
+      ? { startAge: 0, applyMortality: isMortalityApplied(input), applyClimate: true, applyDisturbance: true }
+      : { startAge: averageTreeAge, applyMortality: false, applyClimate: false }));
+
+  const series: SimulationYear[] = [];
+  const plantedTrees = cohorts.reduce((sum, cohort) => sum + cohort.plantedTrees, 0);
+  const cohortCarbon = cohorts.map(() => 0);
+  const previousLiving = cohorts.map(cohort => regenerating ? 0 : cohort.plantedTrees);
+  let cumulativeCarbon = 0;
+  let deaths = 0;
+  // Alley crops, shaded more each year as the tree crowns spread
+  const agroforestry = simulationMode === 'agroforestry' ? normalizeAgroforestrySettings(input.agroforestry ?? DEFAULT_AGROFORESTRY_SETTINGS) : null;
+  const cropSettings = agroforestry && agroforestry.crop !== 'none' ? agroforestry : null;
+  const fullSunCrop = cropSettings ? getCropArea(input, calculateAgroforestryLayout(cropSettings, parameters)) * getCropYield(cropSettings) : 0;
+  const trackPools = isPlanting
+    ? createCarbonPoolTracker({
+        trees: cohorts.map(cohort => cohort.tree),
+        plantedTrees: cohorts.map(cohort => regenerating ? 0 : cohort.plantedTrees),
+        latitude,
+        soilCarbon: input.soil?.carbon ?? null,
+        soilArea: getSoilArea(input, cohorts),
+        parameters
+      })
+    : null;
+
+  cohortYears.forEach((cohortYear, index) => {
+    const year = index + 1;
+    const prediction = getClimatePrediction(input, year);
+    const growthModifier = prediction ? prediction.growthModifier : 1;
+
+    // Planted stands report the net change across all carbon pools and any wood
+    // products; cleared stands add the harvest emissions released that year
+    const pools = trackPools ? trackPools(cohortYear) : null;
+    const harvest = harvestYears[index] ?? null;
+    const harvestEmissions = harvest ? harvest.emissions : 0;
+    const previousCarbon = cumulativeCarbon;
+    cumulativeCarbon = pools
+      ? getTotalPoolCarbon(pools) + (harvest ? getTotalProductCarbon(harvest.pools) : 0)
+      : cumulativeCarbon + harvestEmissions + cohortYear.reduce((sum, entry) => sum + entry.annualCarbon, 0);
+    const annualCarbon = cumulativeCarbon - previousCarbon;
+    cohortYear.forEach((entry, i) => { cohortCarbon[i] += entry.annualCarbon; });
+    const speciesCarbon = cohortCarbon.reduce((sum, carbon) => sum + carbon, 0);
+
+    // Whole trees per species for a stand; fractions of the single simulated tree otherwise
+    const species = cohorts.map((cohort, i) => ({
+      speciesId: cohort.tree.id,
+      livingTrees: countsTrees ? (calculationMode === 'perArea' ? Math.round(cohortYear[i].livingTrees) : cohortYear[i].livingTrees) : 0,
+      annualCarbon: cohortYear[i].annualCarbon,
+      cumulativeCarbon: cohortCarbon[i],
+      carbonShare: speciesCarbon > 0 ? (cohortCarbon[i] / speciesCarbon) * 100 : 0,
+      dbh: countsTrees ? cohortYear[i].dbh : 0,
+      height: countsTrees ? cohortYear[i].height : 0
+    }));
+    const livingTrees = countsTrees ? Math.round(cohortYear.reduce((sum, entry) => sum + entry.livingTrees, 0)) : 0;
+    const standTrees = cohortYear.reduce((sum, entry) => sum + entry.livingTrees, 0);
+    const disturbance = isDisturbanceApplied(input) ? createDisturbanceLosses() : null;
+    if (disturbance) cohortYear.forEach(entry => DISTURBANCE_TYPES.forEach(({ key }) => { disturbance[key] += entry.disturbedTrees?.[key] ?? 0; }));
+    const shadeLoss = cropSettings && standTrees > 0
+      ? getShadeLoss(cropSettings, cohortYear.reduce((sum, entry) => sum + entry.dbh * entry.livingTrees, 0) / standTrees, parameters)
+      : 0;
+
+    // Harvested trees are not deaths; a replanted cohort starts a new count of survivors
+    const harvestCohortYear = harvestCohortYears ? harvestCohortYears[index] : null;
+    harvestCohortYear?.forEach((entry, i) => {
+      if (previousLiving[i] <= 0 && entry.livingTrees + entry.removedTrees > 0) previousLiving[i] = cohorts[i].plantedTrees;
+      deaths += Math.max(0, previousLiving[i] - entry.livingTrees - entry.removedTrees);
+      previousLiving[i] = entry.livingTrees;
+    });
+    // Recruits join a regenerating stand, so its deaths are counted year by year
+    if (regenerating) {
+      cohortYear.forEach((entry, i) => {
+        deaths += Math.max(0, previousLiving[i] + (entry.recruitedTrees ?? 0) - entry.livingTrees);
+        previousLiving[i] = entry.livingTrees;
+      });
+    }
+
+    // Water retention and air quality evolve with the years elapsed so far
+    const impactToDate = calculateImpact({ ...input, years: year }, totalTrees);
+    const ecosystemFactor = getEcosystemGrowthFactor(year, parameters) * growthModifier;
+
+    series.push({
+      year,
+      annualCarbon,
+      cumulativeCarbon,
+      livingTrees,
+      deadTrees: !countsTrees ? 0 : harvestCohortYear || regenerating ? Math.round(deaths) : Math.max(0, Math.round(plantedTrees) - livingTrees),
+      biodiversity: impact.biodiversityImpact * ecosystemFactor,
+      resilience: impact.forestResilience * ecosystemFactor,
+      waterRetention: impactToDate.waterRetention,
+      airQuality: impactToDate.airQualityImprovement,
+      temperature: prediction ? prediction.temperature : null,
+      precipitation: prediction ? prediction.precipitation : null,
+      growthModifier,
+      species,
+      pools,
+      standingStock: pools ? pools.aboveGround + pools.belowGround : 0,
+      removals: harvestCohortYear ? harvestCohortYear.reduce((sum, entry) => sum + entry.removedCarbon, 0) : 0,
+      harvestEmissions,
+      woodProducts: harvest ? harvest.pools : null,
+      cropOutput: fullSunCrop * (1 - shadeLoss),
+      shadeLoss: shadeLoss * 100,
+      disturbance
+    });
+  });
+
+  return series;
+};
+
+// Cohorts planted after a clear-cut: the replanting mix, or the harvested species again
+export const buildReplantCohorts = (input: SimulationInput, totalTrees: number): SpeciesCohort[] => {
+  const replanting = input.replanting;
+  if (!replanting || replanting.trees.length === 0) return buildCohorts(input, totalTrees);
+
+  return buildCohorts({
+    ...input,
+    selectedTreeType: replanting.trees[0],
+    selectedTrees: replanting.trees,
+    treePercentages: replanting.percentages
+  }, totalTrees);
+};
+
+/**
+ * Compare harvest-and-replant with leaving the stand standing
+ * The replanted stand must first repay the harvest emissions released to date
+ * (wood products keep releasing carbon as they decay), then catch up with the
+ * sequestration the uncut stand would have achieved.
+ */
+export const calculateCarbonPayback = (
+  input: SimulationInput,
+  totalTrees: number,
+  timeSeries: SimulationYear[]
+): CarbonPayback => {
+  const replantCohorts = buildReplantCohorts(input, totalTrees);
+  const regrowth = growCohorts(input, replantCohorts, { startAge: 0, applyMortality: isMortalityApplied(input), applyClimate: true });
+  const timeline: PaybackYear[] = [];
+  let paybackYear: number | null = null;
+  let parityYear: number | null = null;
+  let replanted = 0;
+  let released = 0;
+  let standing = 0;
+
+  timeSeries.forEach((point, index) => {
+    replanted += (regrowth[index] || []).reduce((sum, entry) => sum + entry.annualCarbon, 0);
+    released += point.harvestEmissions;
+    // The rest of a cleared stand's annual carbon is the sequestration it lost
+    standing += point.annualCarbon - point.harvestEmissions;
+    timeline.push({ year: point.year, released, replanted, standing });
+
+    if (paybackYear === null && replanted >= released) paybackYear = point.year;
+    if (parityYear === null && replanted - released >= standing) parityYear = point.year;
+  });
+
+  return {
+    carbonDebt: released,
+    paybackYear,
+    parityYear,
+    replantSpecies: replantCohorts.map(cohort => cohort.tree.name),
+    timeline
+  };
+};
+
+// Summarise each species cohort at the end of the simulation
+export const summarizeSpecies = (cohorts: SpeciesCohort[], series: SimulationYear[]): SpeciesResult[] => {
+  const finalYear = series.length > 0 ? series[series.length - 1] : null;
+
+  return cohorts.map((cohort, i) => {
+    const final = finalYear?.species[i];
+    return {
+      speciesId: cohort.tree.id,
+      name: cohort.tree.name,
+      areaShare: cohort.areaShare * 100,
+      spacing: cohort.spacing,
+      plantedTrees: cohort.plantedTrees,
+      survivingTrees: final ? final.livingTrees : 0,
+      totalCarbon: final ? final.cumulativeCarbon : 0,
+      carbonShare: final ? final.carbonShare : 0,
+      dbh: final ? final.dbh : 0,
+      height: final ? final.height : 0
+    };
+  });
+};
+
+// Average a series field over the simulation period
+const averageOf = (series: SimulationYear[], field: 'biodiversity' | 'resilience'): number => {
+  if (series.length === 0) return 0;
+  return series.reduce((sum, point) => sum + point[field], 0) / series.length;
+};
+
+export const calculateSocialImpact = (
+  simulationMode: SimulationMode,
+  years: number,
+  selectedTrees?: TreeType[],
+  selectedRegion?: RegionBounds | null,
+  parameters: ModelParameters = DEFAULT_MODEL_PARAMETERS
+): SocialImpact => {
+  const { social } = parameters;
+
+  if (!isHarvestMode(simulationMode)) {
+    // Planted and rotation stands: positive social benefits
+    const baseSocialScore = social.PLANTING_BASE_SCORE;
+    const treeDiversityBonus = selectedTrees && selectedTrees.length > 1 ? Math.min(selectedTrees.length * social.TREE_DIVERSITY_MULTIPLIER, social.MAX_DIVERSITY_BONUS) : 0;
+    const timeBonus = Math.min(years * social.TIME_MULTIPLIER_PLANTING, social.MAX_TIME_BONUS); // Benefits increase over time
+    const areaBonus = selectedRegion ? Math.min(calculateRegionArea(selectedRegion) * social.AREA_MULTIPLIER_PLANTING, social.MAX_AREA_BONUS) : 0;
+
+    return {
+      score: Math.min(baseSocialScore + treeDiversityBonus + timeBonus + areaBonus, social.MAX_SCORE),
+      diversityBonus: treeDiversityBonus,
+      timeBonus,
+      areaBonus
+    };
+  } else {
+    // Clear-cutting and selective harvest: negative social impacts
+    const baseSocialScore = social.CLEAR_CUTTING_BASE_SCORE; // Lower base score due to negative impacts
+    const treeDiversityPenalty = selectedTrees && selectedTrees.length > 1 ? Math.min(selectedTrees.length * social.TREE_DIVERSITY_PENALTY, social.MAX_DIVERSITY_PENALTY) : 0;
+    const timePenalty = Math.min(years * social.TIME_MULTIPLIER_CLEARING, social.MAX_TIME_PENALTY); // Negative impacts increase over time
+    const areaPenalty = selectedRegion ? Math.min(calculateRegionArea(selectedRegion) * social.AREA_MULTIPLIER_CLEARING, social.MAX_AREA_PENALTY) : 0;
+
+    return {
+      score: Math.max(baseSocialScore - treeDiversityPenalty - timePenalty - areaPenalty, social.MIN_SCORE),
+      diversityBonus: treeDiversityPenalty,
+      timeBonus: timePenalty,
+      areaBonus: areaPenalty
+    };
+  }
+};
+
+export const calculateLandUseImpact = (
+  simulationMode: SimulationMode,
+  area: number,
+  years: number,
+  parameters: ModelParameters = DEFAULT_MODEL_PARAMETERS
+): LandUseImpact => {
+  const { landUse } = parameters;
+
+  if (!isHarvestMode(simulationMode)) {
+    // Planted and rotation stands: positive land use improvements
+    const erosionReduction = Math.min(area * landUse.EROSION_AREA_FACTOR, landUse.MAX_EROSION_CHANGE); // Erosion reduction percentage
+    const soilImprovement = Math.min(years * landUse.SOIL_TIME_FACTOR, landUse.MAX_SOIL_CHANGE); // Soil quality improvement
+    const habitatCreation = Math.min(area * landUse.HABITAT_AREA_FACTOR, landUse.MAX_HABITAT_CHANGE); // Habitat creation percentage
+    const waterQuality = Math.min(years * landUse.WATER_TIME_FACTOR, landUse.MAX_WATER_QUALITY_CHANGE); // Water quality improvement
+
+    return {
+      erosionReduction,
+      soilImprovement,
+      habitatCreation,
+      waterQuality
+    };
+  } else {
+    // Clear-cutting and selective harvest: negative land use impacts
+    const erosionIncrease = Math.min(area * landUse.EROSION_AREA_FACTOR_CLEARING, landUse.MAX_EROSION_CHANGE); // Erosion increase percentage
+    const soilDegradation = Math.min(years * landUse.SOIL_TIME_FACTOR_CLEARING, landUse.MAX_SOIL_CHANGE); // Soil quality degradation
+    const habitatLoss = Math.min(area * landUse.HABITAT_AREA_FACTOR_CLEARING, landUse.MAX_HABITAT_CHANGE); // Habitat loss percentage
+    const waterQualityDecline = Math.min(years * landUse.WATER_TIME_FACTOR_CLEARING, landUse.MAX_WATER_QUALITY_CHANGE); // Water quality decline
+
+    return {
+      erosionReduction: erosionIncrease, // Using same property name for display
+      soilImprovement: soilDegradation, // Using same property name for display
+      habitatCreation: habitatLoss, // Using same property name for display
+      waterQuality: waterQualityDecline // Using same property name for display
+    };
+  }
+};
+
+// Calculate job creation based on project scale and simulation mode
+export const calculateEconomicImpact = (
+  simulationMode: SimulationMode,
+  areaHectares: number,
+  parameters: ModelParameters = DEFAULT_MODEL_PARAMETERS
+): EconomicImpact => {
+  const { jobs } = parameters;
+  let jobCreation;
+
+  if (!isHarvestMode(simulationMode)) {
+    // Planting and managed forestry: fewer workers, more long-term
+    // More granular thresholds for small projects
+    if (areaHectares < 0.1) {
+      jobCreation = jobs.PLANTING_UNDER_0_1_HA; // Very small (backyard/community): planting team
+    } else if (areaHectares < 0.5) {
+      jobCreation = jobs.PLANTING_UNDER_0_5_HA; // Small (large backyard): planting, support
+    } else if (areaHectares < 1) {
+      jobCreation = jobs.PLANTING_UNDER_1_HA; // Small project: planting, supervision
+    } else if (areaHectares < 5) {
+      jobCreation = jobs.PLANTING_UNDER_5_HA; // Medium-small: planting, maintenance
+    } else if (areaHectares < 20) {
+      jobCreation = jobs.PLANTING_UNDER_20_HA; // Medium projects: planting, maintenance, monitoring
+    } else if (areaHectares < 50) {
+      jobCreation = jobs.PLANTING_UNDER_50_HA; // Larger projects: full team
+    } else if (areaHectares < 100) {
+      jobCreation = jobs.PLANTING_UNDER_100_HA; // Large projects: multiple crews
+    } else {
+      jobCreation = Math.floor(areaHectares / jobs.PLANTING_HECTARES_PER_JOB); // Very large projects: scale with area
+    }
+  } else {
+    // Harvest operations: more workers, intensive short-term operations
+    if (areaHectares < 0.1) {
+      jobCreation = jobs.CLEARING_UNDER_0_1_HA; // Very small operations: logger, helper, supervisor
+    } else if (areaHectares < 0.5) {
+      jobCreation = jobs.CLEARING_UNDER_0_5_HA; // Small operations: crew, equipment
+    } else if (areaHectares < 1) {
+      jobCreation = jobs.CLEARING_UNDER_1_HA; // Small operations: logging crew, equipment
+    } else if (areaHectares < 5) {
+      jobCreation = jobs.CLEARING_UNDER_5_HA; // Medium-small: crew, equipment, transport
+    } else if (areaHectares < 20) {
+      jobCreation = jobs.CLEARING_UNDER_20_HA; // Medium operations: logging crew, heavy machinery, transport, processing
+    } else if (areaHectares < 50) {
+      jobCreation = jobs.CLEARING_UNDER_50_HA; // Larger operations: full logging team, multiple crews, processing
+    } else if (areaHectares < 100) {
+      jobCreation = jobs.CLEARING_UNDER_100_HA; // Large operations: multiple crews, processing, transport, management
+    } else {
+      jobCreation = Math.floor(areaHectares / jobs.CLEARING_HECTARES_PER_JOB); // Very large operations: intensive, scale with area
+    }
+  }
+
+  return {
+    jobCreation
+  };
+};
+
+// Calculate meaningful real-world comparisons for a carbon total (kg CO2)
+export const getComparisons = (
+  totalCarbon: number,
+  years: number,
+  calculationMode: CalculationMode,
+  selectedRegion?: RegionBounds | null,
+  parameters: ModelParameters = DEFAULT_MODEL_PARAMETERS
+): string[] => {
+  const comparisons = [];
+  const factors = parameters.comparisons;
+
+  // Car emissions comparison (average car emits ~4.6 metric tons CO2/year)
+  const carEmissions = factors.CAR_EMISSIONS_PER_YEAR; // kg CO2/year
+  const carYears = totalCarbon / carEmissions;
+  if (carYears >= 0.1) {
+    comparisons.push(`${carYears.toFixed(1)} year${carYears !== 1 ? 's' : ''} of average car emissions`);
+  }
+
+  // Flight comparison (one round-trip flight NY-London emits ~986 kg CO2)
+  const flightEmissions = factors.FLIGHT_NY_LONDON; // kg CO2 per round trip
+  const flights = totalCarbon / flightEmissions;
+  if (flights >= 0.1) {
+    comparisons.push(`${flights.toFixed(1)} round-trip flight${flights !== 1 ? 's' : ''} (NY-London)`);
+  }
+
+  // Household electricity comparison (average US household emits ~7.5 metric tons CO2/year)
+  const householdEmissions = factors.HOUSEHOLD_ELECTRICITY_PER_YEAR; // kg CO2/year
+  const householdYears = totalCarbon / householdEmissions;
+  if (householdYears >= 0.1) {
+    comparisons.push(`${householdYears.toFixed(1)} year${householdYears !== 1 ? 's' : ''} of average household electricity`);
+  }
+
+  // Add area-specific comparisons for entire area mode
+  if (calculationMode === 'perArea' && selectedRegion) {
+    const area = calculateRegionArea(selectedRegion);
+    if (area > 0) {
+      // Carbon sequestration per hectare
+      const carbonPerHectare = (totalCarbon / 1000) / area;
+      comparisons.push(`${carbonPerHectare.toFixed(1)} metric tons CO₂ per hectare over ${years} years`);
+    }
+  }
+
+  return comparisons;
+};
+
+/**
+ * Agroforestry stands hold the trees their row layout fits on the area,
+ * whatever tree count the planting data carries
+ */
+const withAgroforestryPlanting = (input: SimulationInput): SimulationInput => {
+  const area = resolveArea(input.plantingData, input.selectedRegion);
+  if (input.simulationMode !== 'agroforestry' || (input.calculationMode ?? 'perArea') !== 'perArea' || area <= 0) return input;
+
+  const { treesPerHectare, spacing } = calculateAgroforestryLayout(input.agroforestry ?? DEFAULT_AGROFORESTRY_SETTINGS, input.parameters);
+  return {
+    ...input,
+    plantingData: { area, totalTrees: Math.floor(area * treesPerHectare), spacing, density: treesPerHectare }
+  };
+};
+
+/**
+ * Run a complete forest impact simulation for the given inputs
+ */
+export const simulate = (simulationInput: SimulationInput): SimulationResult => {
+  const input = withAgroforestryPlanting(simulationInput);
+  const {
+    years,
+    selectedRegion,
+    plantingData,
+    selectedTrees,
+    simulationMode = 'planting',
+    calculationMode = 'perArea',
+    averageTreeAge = 20,
+    climate,
+    parameters = DEFAULT_MODEL_PARAMETERS,
+    growthModel = DEFAULT_GROWTH_MODEL
+  } = input;
+
+  const totalTrees = resolveTotalTrees(plantingData, selectedRegion);
+  const area = resolveArea(plantingData, selectedRegion);
+
+  const impact = calculateImpact(input, totalTrees);
+  const cohorts = buildCohorts(input, totalTrees);
+  const standTrees = cohorts.reduce((sum, cohort) => sum + cohort.plantedTrees, 0);
+  const clearCutting = growthModel === 'allometric' && cohorts.length > 0
+    ? calculateAllometricClearCuttingCarbon(input, cohorts)
+    : calculateClearCuttingCarbon(
+        // Mature uptake of the average tree; the stand's is the sum over all trees
+        standTrees > 0 ? impact.carbonSequestration / standTrees : 0,
+        averageTreeAge,
+        years,
+        age => getStandGrowthFactor(cohorts, age, parameters),
+        parameters,
+        // Trunk carbon is the same for every species, so trees weight the shares
+        blendWoodProductShares(cohorts.map(cohort => ({
+          weight: cohort.plantedTrees,
+          shares: resolveWoodProductShares(cohort.tree, input.woodProductShares, parameters)
+        })))
+      );
+
+  // Harvest carbon is per tree; scale it to the whole stand in per-area mode.
+  // Rotation stands send every thinning and final harvest into wood products;
+  // a selective harvest adds the deadwood it leaves behind.
+  const rotationGrowth = simulationMode === 'rotation' ? growRotation(input, cohorts) : null;
+  const selectiveGrowth = simulationMode === 'selective-harvest' ? growSelectiveHarvest(input, cohorts) : null;
+  const harvestYears = simulationMode === 'clear-cutting'
+    ? decayWoodProducts(clearCutting.harvested * (calculationMode === 'perArea' ? totalTrees : 1), clearCutting.productShares, years, parameters).series
+    : rotationGrowth ? decayHarvestRemovals(input, cohorts, rotationGrowth.cohortYears) : selectiveGrowth?.harvestYears ?? [];
+  const timeSeries = buildTimeSeries(input, totalTrees, impact, harvestYears, cohorts, rotationGrowth?.cohortYears ?? selectiveGrowth?.cohortYears ?? null);
+  const finalYear = timeSeries.length > 0 ? timeSeries[timeSeries.length - 1] : null;
+  const totalCarbon = finalYear ? finalYear.cumulativeCarbon : 0;
+
+  // Survivor counts only describe a planted stand thinned by mortality or disturbance
+  const survival = (simulationMode === 'planting' || simulationMode === 'agroforestry') && (isMortalityApplied(input) || isDisturbanceApplied(input)) && finalYear
+    ? {
+        plantedTrees: totalTrees,
+        survivingTrees: finalYear.livingTrees,
+        deadTrees: finalYear.deadTrees,
+        survivalRate: totalTrees > 0 ? (finalYear.livingTrees / totalTrees) * 100 : 0
+      }
+    : null;
+
+  const rotation = rotationGrowth ? summarizeRotation(input, rotationGrowth, timeSeries) : null;
+  const naturalRegeneration = simulationMode === 'natural-regeneration' ? summarizeNaturalRegeneration(input, totalTrees, impact, cohorts, timeSeries) : null;
+  const agroforestry = simulationMode === 'agroforestry' ? summarizeAgroforestry(input, timeSeries) : null;
+  const selectiveHarvest = selectiveGrowth?.summary ?? null;
+  const crediting = summarizeCrediting(input, cohorts, timeSeries);
+
+  return {
+    totalTrees,
+    area,
+    hasClimateData: hasClimateData(climate),
+    climateProjection: getClimateProjection(input),
+    impact,
+    annualCarbon: finalYear ? finalYear.annualCarbon : 0,
+    totalCarbon,
+    clearCutting,
+    carbonPayback: simulationMode === 'clear-cutting' ? calculateCarbonPayback(input, totalTrees, timeSeries) : null,
+    rotation,
+    selectiveHarvest,
+    naturalRegeneration,
+    agroforestry,
+    disturbance: isDisturbanceApplied(input) ? summarizeDisturbance(input, totalTrees, impact, cohorts, timeSeries) : null,
+    climateSuitability: summarizeClimateSuitability(input, cohorts),
+    crediting,
+    cashFlow: summarizeCashFlow(input, cohorts, timeSeries, rotation, naturalRegeneration, agroforestry, crediting),
+    survival,
+    species: summarizeSpecies(cohorts, timeSeries),
+    carbonPools: finalYear?.pools ?? null,
+    averageBiodiversity: averageOf(timeSeries, 'biodiversity'),
+    averageResilience: averageOf(timeSeries, 'resilience'),
+    socialImpact: calculateSocialImpact(simulationMode, years, selectedTrees, selectedRegion, parameters),
+    landUseImpact: calculateLandUseImpact(simulationMode, area, years, parameters),
+    economicImpact: calculateEconomicImpact(simulationMode, area, parameters),
+    employment: summarizeEmployment(input, totalTrees, area, cohorts, timeSeries, rotation, selectiveHarvest, naturalRegeneration),
+    comparisons: getComparisons(totalCarbon, years, calculationMode, selectedRegion, parameters),
+    timeSeries
+  };
+};
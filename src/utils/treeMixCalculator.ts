@@ -5,6 +5,8 @@
 import { TreeType, getTreeTypeById } from '@/types/treeTypes';
 import { TreeMix, TreeMixItem, TreeMixCalculation, ECOLOGICAL_MIXES } from '@/types/treeMix';
 import { getRecommendedSpacing } from '@/utils/treePlanting';
+import { MortalityRate, createAgeDependentMortality } from '@/utils/treeMortality';
+import { getSpeciesGrowthFactor } from '@/utils/growthCurves';
 
 // Calculate biodiversity score based on species diversity
 export const calculateBiodiversityScore = (speciesCount: number): number => {
@@ -118,54 +120,57 @@ export const getRecommendedMix = (climate?: string, latitude?: number): string =
 };
 
 // Calculate carbon sequestration for mixed species with mortality
+// Each species is tracked as its own cohort with its own growth curve and mortality;
+// pass a mortality rate to override the age-dependent species defaults.
 export const calculateMixedCarbonSequestration = (
   items: TreeMixItem[],
   totalTrees: number,
   years: number,
-  mortalityRate: number
+  mortalityRate?: MortalityRate
 ): {
   totalCarbon: number;
   averageAnnualCarbon: number;
   speciesBreakdown: Array<{
     species: string;
     trees: number;
+    survivingTrees: number;
     carbon: number;
     percentage: number;
+    carbonShare: number;
   }>;
 } => {
-  const mix = calculateTreeMix(items);
-  const weightedCarbon = mix.weightedCarbonSequestration;
-  
-  // Calculate total carbon with mortality
-  const annualSurvivalRate = (100 - mortalityRate) / 100;
-  let totalCarbon = 0;
-  let previousTrees = totalTrees;
-  
-  for (let year = 1; year <= years; year++) {
-    const currentTrees = Math.floor(previousTrees * annualSurvivalRate);
-    const carbonThisYear = currentTrees * weightedCarbon;
-    totalCarbon += carbonThisYear;
-    previousTrees = currentTrees;
-  }
-  
-  const averageAnnualCarbon = totalCarbon / years;
+  const totalPercentage = items.reduce((sum, item) => sum + item.percentage, 0);
   
-  // Calculate species breakdown
-  const speciesBreakdown = items.map(item => {
-    const speciesTrees = Math.floor(totalTrees * (item.percentage / 100));
-    const speciesCarbon = speciesTrees * item.treeType.carbonSequestration * years;
+  const cohorts = items.map(item => {
+    const speciesTrees = totalPercentage > 0 ? Math.floor(totalTrees * (item.percentage / totalPercentage)) : 0;
+    const rate = mortalityRate ?? createAgeDependentMortality(item.treeType.name);
+    
+    let survivors = speciesTrees;
+    let carbon = 0;
+    for (let year = 1; year <= years; year++) {
+      const annualRate = typeof rate === 'function' ? rate(year) : rate;
+      survivors = Math.floor(survivors * ((100 - annualRate) / 100));
+      carbon += survivors * item.treeType.carbonSequestration * getSpeciesGrowthFactor(item.treeType, year);
+    }
     
-    return {
-      species: item.treeType.name,
-      trees: speciesTrees,
-      carbon: speciesCarbon,
-      percentage: item.percentage
-    };
+    return { item, speciesTrees, survivors, carbon };
   });
   
+  const totalCarbon = cohorts.reduce((sum, cohort) => sum + cohort.carbon, 0);
+  const averageAnnualCarbon = years > 0 ? totalCarbon / years : 0;
+  
+  const speciesBreakdown = cohorts.map(cohort => ({
+    species: cohort.item.treeType.name,
+    trees: cohort.speciesTrees,
+    survivingTrees: cohort.survivors,
+    carbon: cohort.carbon,
+    percentage: cohort.item.percentage,
+    carbonShare: totalCarbon > 0 ? (cohort.carbon / totalCarbon) * 100 : 0
+  }));
+  
   return {
     totalCarbon,
     averageAnnualCarbon,
     speciesBreakdown
   };
-}; 
\ No newline at end of file
+};
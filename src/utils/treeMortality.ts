@@ -9,6 +9,17 @@ export interface MortalityConfig {
   source: string;
 }
 
+// Annual mortality rate as a fixed percentage or a function of tree age (years since planting)
+export type MortalityRate = number | ((age: number) => number);
+
+// User-adjustable mortality settings for simulations
+export interface MortalitySettings {
+  enabled: boolean;
+  establishmentRate: number; // Annual % during establishment
+  establishmentYears: number; // Years of high establishment mortality
+  matureRate?: number; // Annual % after establishment - species default when undefined
+}
+
 // Tree mortality rates by category (annual %)
 export const TREE_MORTALITY_RATES = {
   // Young trees (first 5 years) - higher mortality
@@ -39,13 +50,18 @@ export const TREE_MORTALITY_RATES = {
 
 // Get mortality rate based on tree type and age
 export const getMortalityRate = (treeType: string, years: number): number => {
-  const treeTypeLower = treeType.toLowerCase();
-  
   // Young trees (first 5 years) have higher mortality
   if (years <= 5) {
     return TREE_MORTALITY_RATES.young.rate;
   }
   
+  return getMatureMortalityRate(treeType);
+};
+
+// Get the post-establishment mortality rate for a species
+export const getMatureMortalityRate = (treeType: string): number => {
+  const treeTypeLower = treeType.toLowerCase();
+  
   // Fast-growing species have higher mortality
   if (treeTypeLower.includes('eucalyptus') || 
       treeTypeLower.includes('willow') || 
@@ -66,21 +82,44 @@ export const getMortalityRate = (treeType: string, years: number): number => {
   return TREE_MORTALITY_RATES.mature.rate;
 };
 
+export const DEFAULT_MORTALITY_SETTINGS: MortalitySettings = {
+  enabled: true,
+  establishmentRate: TREE_MORTALITY_RATES.young.rate,
+  establishmentYears: 5
+};
+
+// Resolve the annual rate for a given age
+const rateAtAge = (mortalityRate: MortalityRate, age: number): number => {
+  return typeof mortalityRate === 'function' ? mortalityRate(age) : mortalityRate;
+};
+
+// Build an age-dependent rate: establishment mortality first, then the mature rate
+export const createAgeDependentMortality = (
+  treeType: string,
+  settings: MortalitySettings = DEFAULT_MORTALITY_SETTINGS
+): ((age: number) => number) => {
+  const matureRate = settings.matureRate ?? getMatureMortalityRate(treeType);
+  
+  return (age: number) => age <= settings.establishmentYears ? settings.establishmentRate : matureRate;
+};
+
 // Calculate surviving trees after mortality
 export const calculateSurvivingTrees = (
   initialTrees: number,
-  mortalityRate: number,
+  mortalityRate: MortalityRate,
   years: number
 ): number => {
-  const annualSurvivalRate = (100 - mortalityRate) / 100;
-  const totalSurvivalRate = Math.pow(annualSurvivalRate, years);
+  let totalSurvivalRate = 1;
+  for (let age = 1; age <= years; age++) {
+    totalSurvivalRate *= (100 - rateAtAge(mortalityRate, age)) / 100;
+  }
   return Math.floor(initialTrees * totalSurvivalRate);
 };
 
 // Calculate cumulative mortality over time
 export const calculateCumulativeMortality = (
   initialTrees: number,
-  mortalityRate: number,
+  mortalityRate: MortalityRate,
   years: number
 ): {
   survivingTrees: number;
@@ -88,14 +127,13 @@ export const calculateCumulativeMortality = (
   survivalRate: number;
   annualBreakdown: Array<{ year: number; surviving: number; dead: number }>;
 } => {
-  const annualSurvivalRate = (100 - mortalityRate) / 100;
   const annualBreakdown = [];
   
   let currentTrees = initialTrees;
   
   for (let year = 1; year <= years; year++) {
     const previousTrees = currentTrees;
-    currentTrees = Math.floor(previousTrees * annualSurvivalRate);
+    currentTrees = Math.floor(previousTrees * ((100 - rateAtAge(mortalityRate, year)) / 100));
     const deadThisYear = previousTrees - currentTrees;
     
     annualBreakdown.push({
@@ -106,7 +144,7 @@ export const calculateCumulativeMortality = (
   }
   
   const totalDead = initialTrees - currentTrees;
-  const survivalRate = (currentTrees / initialTrees) * 100;
+  const survivalRate = initialTrees > 0 ? (currentTrees / initialTrees) * 100 : 0;
   
   return {
     survivingTrees: currentTrees,
@@ -139,7 +177,7 @@ export const getMortalityDescription = (treeType: string, years: number): string
 export const calculateAdjustedCarbonSequestration = (
   initialTrees: number,
   carbonPerTree: number,
-  mortalityRate: number,
+  mortalityRate: MortalityRate,
   years: number
 ): {
   totalCarbon: number;
@@ -154,7 +192,7 @@ export const calculateAdjustedCarbonSequestration = (
   let previousTrees = initialTrees;
   
   for (let year = 1; year <= years; year++) {
-    const currentTrees = Math.floor(previousTrees * ((100 - mortalityRate) / 100));
+    const currentTrees = Math.floor(previousTrees * ((100 - rateAtAge(mortalityRate, year)) / 100));
     const carbonThisYear = currentTrees * carbonPerTree;
     totalCarbon += carbonThisYear;
     previousTrees = currentTrees;
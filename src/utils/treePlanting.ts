@@ -192,6 +192,8 @@ export const calculatePlantingTimeline = (totalTrees: number): {
   treesPerSeason: number;
   projectScale: string;
   recommendedApproach: string;
+  crewSize: number; // people planting
+  treesPerDay: number; // planted by the whole crew in a day
 } => {
   // Determine project scale
   let projectScale: string;
@@ -243,21 +245,22 @@ export const calculatePlantingTimeline = (totalTrees: number): {
   // Ensure realistic project duration - minimum 1 year, but for very small projects, 
   // use a more realistic approach based on actual planting time
   let yearsToComplete: number;
+  let crewTreesPerDay: number;
   
   if (totalTrees < 100) {
     // For very small projects, calculate based on actual planting time
-    const treesPerDay = Math.min(treesPerPersonPerDay * people, 200); // Cap at 200 trees/day for small projects
-    const daysToComplete = Math.ceil(totalTrees / treesPerDay);
+    crewTreesPerDay = Math.min(treesPerPersonPerDay * people, 200); // Cap at 200 trees/day for small projects
+    const daysToComplete = Math.ceil(totalTrees / crewTreesPerDay);
     yearsToComplete = Math.max(1, Math.ceil(daysToComplete / 30)); // Assume 30-day planting window
   } else if (totalTrees < 10000) {
     // For medium projects, use more conservative rates
-    const treesPerDay = Math.min(treesPerPersonPerDay * people, 1000); // Cap at 1000 trees/day for medium projects
-    const daysToComplete = Math.ceil(totalTrees / treesPerDay);
+    crewTreesPerDay = Math.min(treesPerPersonPerDay * people, 1000); // Cap at 1000 trees/day for medium projects
+    const daysToComplete = Math.ceil(totalTrees / crewTreesPerDay);
     yearsToComplete = Math.max(1, Math.ceil(daysToComplete / 60)); // Assume 60-day planting window
   } else {
     // For larger projects, use more realistic rates
-    const treesPerDay = Math.min(treesPerPersonPerDay * people, 2000); // Cap at 2000 trees/day for large projects
-    const daysToComplete = Math.ceil(totalTrees / treesPerDay);
+    crewTreesPerDay = Math.min(treesPerPersonPerDay * people, 2000); // Cap at 2000 trees/day for large projects
+    const daysToComplete = Math.ceil(totalTrees / crewTreesPerDay);
     yearsToComplete = Math.max(1, Math.ceil(daysToComplete / 90)); // Assume 90-day planting window
   }
   
@@ -268,6 +271,8 @@ export const calculatePlantingTimeline = (totalTrees: number): {
     yearsToComplete,
     treesPerSeason,
     projectScale,
-    recommendedApproach
+    recommendedApproach,
+    crewSize: people,
+    treesPerDay: crewTreesPerDay
   };
 }; 
\ No newline at end of file